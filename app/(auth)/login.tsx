@@ -7,48 +7,29 @@ import {
   KeyboardAvoidingView,
   Modal,
   Platform,
+  ScrollView,
   StyleSheet,
   Text,
   TextInput,
   TouchableOpacity,
   View,
 } from "react-native";
-import axios from "axios";
 import { router } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useAuth } from "../../contexts/AuthContext";
-import { BASE_API as BASE_API_CONST } from "../../constants/api";
-
-const KEY_DEVICE_SERIAL = "device_serial_v1";
-const KEY_DEVICE_TOKEN = "device_token_v1";
-const KEY_DEVICE_NAME = "device_name_v1";
-const KEY_OFFLINE_SCANS = "offline_scans_v1";
-const KEY_OFFLINE_PACKAGE = "offline_package_v1";
-
-const resolveBaseApiForDevice = (base: string) => {
-  if (!base) return base;
-  try {
-    const url = new URL(base);
-    const isHttp = url.protocol === "http:" || url.protocol === "https:";
-    if (!isHttp) return base;
-    const host = url.hostname;
-    if (
-      Platform.OS === "android" &&
-      (host === "localhost" || host === "127.0.0.1")
-    ) {
-      url.hostname = "10.0.2.2";
-      return url.toString().replace(/\/$/, "");
-    }
-    return url.toString().replace(/\/$/, "");
-  } catch {
-    return base;
-  }
-};
-
-const BASE_API = resolveBaseApiForDevice(BASE_API_CONST);
-const API_URL = `${BASE_API}/auth/login`;
+import { createApi } from "../../services/api";
+import {
+  RetentionPolicy,
+  clearCollections,
+  decodeRetention,
+  isLocked,
+  localStore,
+  setStorageKey,
+} from "../../services/localStore";
+import { decodePlausibility } from "../../services/readingCheck";
+import { getBaseApi } from "../../services/serverProfiles";
+import ServerProfilesSection from "../../components/ServerProfilesSection";
 
 function safeJsonParse<T = any>(s: string): T | null {
   try {
@@ -87,8 +68,7 @@ function hasReaderRole(payload: any) {
 }
 
 async function getDeviceSerial() {
-  const s = await AsyncStorage.getItem(KEY_DEVICE_SERIAL);
-  return (s || "").trim().toUpperCase();
+  return localStore.deviceSerial.get();
 }
 
 function guessDeviceName(): string {
@@ -105,8 +85,37 @@ function guessDeviceName(): string {
   }
 }
 
-async function clearReaderOfflineSession() {
-  await AsyncStorage.multiRemove([KEY_OFFLINE_SCANS, KEY_OFFLINE_PACKAGE]);
+/**
+ * Another reader may have used this phone before. Their synced history is
+ * dropped (it counts toward their day, not this reader's); their unsynced
+ * readings never are: they stay queued and go up under their name or, when
+ * the server's retention policy says "block", this sign-in is refused until
+ * they are synced or saved to a file.
+ *
+ * Readings sealed with a storage key the server did not hand back at this
+ * login cannot be read, so they cannot be sorted either; rewriting the queue
+ * would replace them with nothing. The sign-in is refused instead and the
+ * sealed readings stay on the phone as they are.
+ */
+async function handOverReaderSession(userId: string, policy: RetentionPolicy) {
+  if (await isLocked(localStore.offlineScans)) {
+    throw new Error(
+      "This phone holds readings sealed with a storage key the server did not issue to it again, so they cannot be opened. They are kept on the phone untouched; ask an admin to restore this device's registration before signing in on it.",
+    );
+  }
+  const scans = await localStore.offlineScans.get();
+  const others = scans.filter((s) => s.reader_user_id && s.reader_user_id !== userId);
+  const unsynced = others.filter((s) => s.status === "pending" || s.status === "failed");
+  if (unsynced.length && policy.on_user_switch === "block") {
+    const owners = Array.from(new Set(unsynced.map((s) => s.reader_user_id))).join(", ");
+    throw new Error(
+      `This phone has ${unsynced.length} unsynced reading(s) from ${owners}. They must sign in and sync them (or save them to a file) before another reader can use this phone.`,
+    );
+  }
+  await localStore.offlineScans.set(
+    scans.filter((s) => !others.includes(s) || s.status !== "synced"),
+  );
+  await localStore.offlinePackage.remove();
 }
 
 export default function LoginScreen() {
@@ -124,13 +133,7 @@ export default function LoginScreen() {
   const usernameLabelAnim = useRef(new Animated.Value(0)).current;
   const passwordLabelAnim = useRef(new Animated.Value(0)).current;
 
-  const api = useMemo(() => {
-    return axios.create({
-      baseURL: BASE_API,
-      timeout: 15000,
-      headers: { "Content-Type": "application/json" },
-    });
-  }, []);
+  const api = useMemo(() => createApi(null), []);
 
   const canSubmit = useMemo(
     () => username.trim().length > 0 && password.length > 0 && !loading,
@@ -144,12 +147,6 @@ export default function LoginScreen() {
   };
 
   useEffect(() => {
-    console.log(
-      "Auth Login Screen mounted. BASE_API →",
-      BASE_API,
-      "API_URL →",
-      API_URL,
-    );
     refreshSerial();
   }, []);
 
@@ -164,14 +161,14 @@ export default function LoginScreen() {
       setError("Please enter a Device Serial.");
       return;
     }
-    await AsyncStorage.setItem(KEY_DEVICE_SERIAL, serial);
+    await localStore.deviceSerial.set(serial);
     setStoredDeviceSerial(serial);
     setDeviceModalOpen(false);
     setError("");
   };
 
   const clearDeviceSerial = async () => {
-    await AsyncStorage.removeItem(KEY_DEVICE_SERIAL);
+    await localStore.deviceSerial.remove();
     setStoredDeviceSerial("");
     setDeviceSerialInput("");
     setError("");
@@ -191,18 +188,17 @@ export default function LoginScreen() {
     Keyboard.dismiss();
 
     try {
-      const res = await api.post("/auth/login", { user_id, user_password });
+      const data = await api.auth.login(user_id, user_password);
 
-      const token = res?.data?.token ?? res?.data?.data?.token ?? null;
+      const token = data?.token ?? data?.data?.token ?? null;
       if (!token) {
-        console.log("LOGIN OK but missing token. Response data:", res?.data);
+        console.log("LOGIN OK but missing token. Response data:", data);
         throw new Error("Logged in but no token returned by server.");
       }
       const payload = decodeJwtPayload(token);
       const isReader = hasReaderRole(payload);
 
       if (isReader) {
-        await clearReaderOfflineSession();
         const device_serial = await getDeviceSerial();
         if (!device_serial) {
           setDeviceModalOpen(true);
@@ -213,14 +209,12 @@ export default function LoginScreen() {
 
         const device_name = guessDeviceName();
 
-        const rr = await api.post(
-          "/reader-devices/resolve",
-          { device_serial, device_name },
-          { headers: { Authorization: `Bearer ${token}` } },
-        );
+        const rr = await createApi(token).readerDevices.resolve({
+          device_serial,
+          device_name,
+        });
 
-        const device =
-          rr?.data?.device ?? rr?.data?.data?.device ?? rr?.data?.data ?? null;
+        const device = rr?.device ?? rr?.data?.device ?? rr?.data ?? null;
 
         const device_token = device?.device_token;
         if (!device_token) {
@@ -229,13 +223,29 @@ export default function LoginScreen() {
           );
         }
 
-        await AsyncStorage.setItem(KEY_DEVICE_TOKEN, String(device_token));
-        await AsyncStorage.setItem(
-          KEY_DEVICE_NAME,
-          String(device?.device_name || device_name),
+        // seals the device token, queued scans and package from here on
+        await setStorageKey(device?.storage_key ?? null);
+
+        const retention = decodeRetention(rr?.retention ?? rr?.data?.retention);
+        await localStore.retentionPolicy.set(retention);
+        await localStore.plausibilityPolicy.set(
+          decodePlausibility(rr?.plausibility ?? rr?.data?.plausibility),
         );
+        if (rr?.signs_packages ?? rr?.data?.signs_packages) {
+          await localStore.packageSigning.set(true);
+        }
+        try {
+          await handOverReaderSession(String(payload?.user_id ?? user_id), retention);
+        } catch (e) {
+          await setStorageKey(null);
+          throw e;
+        }
+
+        await localStore.deviceToken.set(String(device_token));
+        await localStore.deviceName.set(String(device?.device_name || device_name));
       } else {
-        await AsyncStorage.multiRemove([KEY_DEVICE_TOKEN, KEY_DEVICE_NAME]);
+        await clearCollections(localStore.deviceToken, localStore.deviceName);
+        await setStorageKey(null);
       }
 
       await login(token);
@@ -243,8 +253,8 @@ export default function LoginScreen() {
       router.replace("/(tabs)/dashboard");
     } catch (err: any) {
       console.log("LOGIN ERROR →", {
-        url: API_URL,
-        base: BASE_API,
+        url: `${getBaseApi()}/auth/login`,
+        base: getBaseApi(),
         platform: Platform.OS,
         status: err?.response?.status,
         data: err?.response?.data,
@@ -559,7 +569,10 @@ export default function LoginScreen() {
         onRequestClose={() => setDeviceModalOpen(false)}
       >
         <View style={styles.modalOverlay}>
-          <View style={styles.modalCard}>
+          <ScrollView
+            style={styles.modalCard}
+            keyboardShouldPersistTaps="handled"
+          >
             <Text style={styles.modalTitle}>Device Settings</Text>
             <Text style={styles.modalHint}>
               Enter the Device Serial that was registered in Admin → Reader
@@ -606,7 +619,9 @@ export default function LoginScreen() {
             ) : (
               <Text style={styles.modalCurrent}>Current: Not set</Text>
             )}
-          </View>
+
+            <ServerProfilesSection />
+          </ScrollView>
         </View>
       </Modal>
     </View>
@@ -928,6 +943,8 @@ const styles = StyleSheet.create({
   modalCard: {
     width: "100%",
     maxWidth: 420,
+    maxHeight: "90%",
+    flexGrow: 0,
     backgroundColor: "#fff",
     borderRadius: 16,
     padding: 16,
@@ -9,6 +9,7 @@ import {
 } from "react-native";
 import { Slot, useRouter, Tabs } from "expo-router";
 import SideNav, { TabKey } from "../../components/SideNav";
+import SchemaDriftReport from "../../components/SchemaDriftReport";
 import { Ionicons } from "@expo/vector-icons";
 import { useAuth } from "../../contexts/AuthContext";
 
@@ -184,6 +185,7 @@ export default function TabLayout() {
             <Slot />
           </View>
         </View>
+        <SchemaDriftReport />
       </IdleSessionGuard>
     );
   }
@@ -255,6 +257,7 @@ export default function TabLayout() {
           }}
         />
       </Tabs>
+      <SchemaDriftReport />
     </IdleSessionGuard>
   );
 }
@@ -15,6 +15,8 @@ import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { useAuth } from "../../contexts/AuthContext";
+import { useServerCapabilities } from "../../hooks/useServerCapabilities";
+import { ServerFeature, supports } from "../../services/serverCapabilities";
 
 import AccountsPanel from "../../components/admin/AccountsPanel";
 import BuildingPanel from "../../components/admin/BuildingPanel";
@@ -27,6 +29,7 @@ import MeterPanel from "../../components/admin/MeterPanel";
 import MeterReadingPanel from "../../components/admin/MeterReadingPanel";
 import ReaderDevicesPanel from "../../components/admin/ReaderDevicesPanel";
 import OfflineSubmissionsPanel from "../../components/admin/OfflineSubmissionsPanel";
+import RouteModePanel from "../../components/admin/RouteModePanel";
 
 export type PageKey =
   | "accounts"
@@ -38,6 +41,7 @@ export type PageKey =
   | "assign"
   | "meters"
   | "readings"
+  | "route"
   | "readerDevices"
   | "offlineSubmissions";
 
@@ -216,6 +220,7 @@ export default function AdminScreen() {
         "assign",
         "meters",
         "readings",
+        "route",
         "readerDevices",
         "offlineSubmissions",
       ]),
@@ -232,6 +237,7 @@ export default function AdminScreen() {
       assign: "assign_tenants",
       meters: "meters",
       readings: "meter_readings",
+      route: "meter_readings",
       vat: "vat",
       wt: "withholding",
       readerDevices: "reader_devices",
@@ -240,8 +246,17 @@ export default function AdminScreen() {
     []
   );
 
+  // pages backed by routes older servers may not have
+  const caps = useServerCapabilities();
+  const featureForPage: Partial<Record<PageKey, ServerFeature>> = {
+    readerDevices: "readerDevices",
+    offlineSubmissions: "offlineExport",
+  };
+
   const canSee = (key: PageKey) => {
     if (!allowedByRole.has(key)) return false;
+    const feature = featureForPage[key];
+    if (feature && !supports(caps, feature)) return false;
     if (key === "accounts") return role === "admin";
     const accessKey = accessKeyForPage[key];
     if (!accessKey) return true;
@@ -257,6 +272,7 @@ export default function AdminScreen() {
       { label: "Assign", key: "assign", icon: "person-add" },
       { label: "Meters", key: "meters", icon: "speedometer" },
       { label: "Readings", key: "readings", icon: "analytics" },
+      { label: "Route", key: "route", icon: "walk" },
       { label: "Reader Devices", key: "readerDevices", icon: "phone-portrait" },
       {
         label: "Offline Submissions",
@@ -269,7 +285,7 @@ export default function AdminScreen() {
 
   const visiblePages = useMemo(
     () => pages.filter((p) => canSee(p.key)),
-    [pages, role, accessModules]
+    [pages, role, accessModules, caps]
   );
 
   const taxChildren = useMemo(() => {
@@ -316,7 +332,7 @@ export default function AdminScreen() {
     if (!canSee(active)) {
       setActive(resolveInitial());
     }
-  }, [role, params?.panel, params?.tab, accessModules]);
+  }, [role, params?.panel, params?.tab, accessModules, caps]);
 
   const applyRouteParam = (key: PageKey) => {
     try {
@@ -374,6 +390,9 @@ export default function AdminScreen() {
           />
         );
 
+      case "route":
+        return <RouteModePanel />;
+
       case "readerDevices":
         return <ReaderDevicesPanel />;
 
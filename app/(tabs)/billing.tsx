@@ -12,76 +12,23 @@ import {
   useWindowDimensions,
   Modal,
 } from "react-native";
-import axios from "axios";
 import { Ionicons } from "@expo/vector-icons";
 import { Picker } from "@react-native-picker/picker";
 import { useAuth } from "../../contexts/AuthContext";
-import { BASE_API } from "../../constants/api";
+import {
+  BillingRow,
+  BuildingBillingResponse,
+  StoredBilling,
+  createApi,
+} from "../../services/api";
+import { ApiError, showError, toApiError } from "../../services/apiError";
+import { reasonLabel } from "../../services/readingCheck";
+import { readReference } from "../../services/refCache";
+import ErrorBanner from "../../components/ErrorBanner";
+import { supports } from "../../services/serverCapabilities";
+import { useServerCapabilities } from "../../hooks/useServerCapabilities";
 import RateOfChangePanel from "../../components/billing/RateOfChangePanel";
 
-type BillingRow = {
-  stall_no: string | null;
-  stall_sn: string | null;
-  tenant_id: string | null;
-  tenant_sn: string | null;
-  tenant_name: string | null;
-  meter_no: string | null;
-  meter_id: string;
-  mult: number;
-  reading_previous: number;
-  reading_present: number;
-  consumed_kwh: number;
-  prev_consumed_kwh: number | null;
-  rate_of_change_pct: number | null;
-  utility_rate: number | null;
-  markup_rate: number | null;
-  system_rate: number | null;
-  vat_rate: number | null;
-  vat_amount?: number | null;
-  whtax_code: string | null;
-  whtax_rate?: number | null;
-  whtax_amount?: number | null;
-  tax_code: string | null;
-  for_penalty: boolean;
-  total_amount: number;
-  meter_type: string | null;
-  wt_rate?: number | null;
-  wt?: number | null;
-  billing?: { wt?: number | null; vat?: number | null; base?: number | null };
-  totals?: { wt?: number | null };
-};
-
-type BillingTenant = {
-  tenant_id: string | null;
-  tenant_sn: string | null;
-  tenant_name: string | null;
-  rows: BillingRow[];
-};
-type BillingTotals = { total_consumed_kwh: number; total_amount: number };
-
-type BuildingBillingResponse = {
-  building_billing_id?: string;
-  building_id: string;
-  building_name: string | null;
-  period: { start: string; end: string };
-  tenants: BillingTenant[];
-  totals: BillingTotals;
-  generated_at: string | null;
-  penalty_rate_pct?: number;
-  saved_header?: any;
-};
-
-type StoredBilling = {
-  building_billing_id: string;
-  building_id: string;
-  building_name: string | null;
-  period: { start: string; end: string };
-  totals: { total_consumed_kwh: number; total_amount: number };
-  penalty_rate_pct?: number;
-  generated_at: string | null;
-  payload?: any;
-};
-
 type BuildingOption = { building_id: string; building_name: string | null };
 
 const notify = (title: string, message?: string) => {
@@ -189,6 +136,7 @@ const makeBillingCsv = (payload: BuildingBillingResponse) => {
     "Tax Code",
     "For Penalty",
     "Total Amount",
+    "Reading Override",
   ];
 
   const lines: string[] = [];
@@ -231,6 +179,7 @@ const makeBillingCsv = (payload: BuildingBillingResponse) => {
         row.tax_code ?? "",
         row.for_penalty ? "YES" : "NO",
         row.total_amount,
+        row.reading_override ? reasonLabel(row.reading_override) : "",
       ];
       lines.push(csvRow.map(esc).join(","));
     }
@@ -584,6 +533,14 @@ function MobileRowCard({ row, index }: { row: BillingRow; index: number }) {
               {fmt(row.reading_present, 0)}
             </Text>
           </View>
+          {row.reading_override ? (
+            <View style={mobileStyles.detailRow}>
+              <Text style={mobileStyles.detailLabel}>Reading Override</Text>
+              <Text style={[mobileStyles.detailValue, styles.overrideText]}>
+                {reasonLabel(row.reading_override)}
+              </Text>
+            </View>
+          ) : null}
           <View style={mobileStyles.divider} />
           <View style={mobileStyles.detailRow}>
             <Text style={mobileStyles.detailLabel}>Previous Consumption</Text>
@@ -668,21 +625,7 @@ export default function BillingScreen() {
   const isBiller = roles.includes("biller");
   const noAccess = !isAdmin && !isBiller;
 
-  const headerToken =
-    token && /^Bearer\s/i.test(token.trim())
-      ? token.trim()
-      : token
-        ? `Bearer ${token.trim()}`
-        : "";
-  const api = useMemo(
-    () =>
-      axios.create({
-        baseURL: BASE_API,
-        timeout: 20000,
-        headers: headerToken ? { Authorization: headerToken } : {},
-      }),
-    [headerToken],
-  );
+  const api = useMemo(() => createApi(token, { timeout: 20000 }), [token]);
 
   const [buildingId, setBuildingId] = useState("");
   const [buildings, setBuildings] = useState<BuildingOption[]>([]);
@@ -700,8 +643,13 @@ export default function BillingScreen() {
   const [storedBillings, setStoredBillings] = useState<
     Record<string, StoredBilling>
   >({});
-  const [error, setError] = useState<string>("");
-  const [viewTab, setViewTab] = useState<"billing" | "roc">("billing");
+  const [error, setError] = useState<ApiError | null>(null);
+  const [tabChoice, setTabChoice] = useState<"billing" | "roc">("billing");
+  // hide what the connected server cannot do; with neither, fall back to billing
+  const caps = useServerCapabilities();
+  const hasBilling = supports(caps, "billing");
+  const hasRoc = supports(caps, "roc");
+  const viewTab = !hasRoc ? "billing" : !hasBilling ? "roc" : tabChoice;
   const [modeTab, setModeTab] = useState<"generate" | "stored">("generate");
 
   const canRun =
@@ -711,8 +659,8 @@ export default function BillingScreen() {
     const loadBuildings = async () => {
       if (!token) return;
       try {
-        const res = await api.get<BuildingOption[]>("/buildings");
-        setBuildings(Array.isArray(res.data) ? res.data : []);
+        const rows = await readReference(api, "buildings", setBuildings);
+        setBuildings(Array.isArray(rows) ? rows : []);
       } catch (e) {
         console.error("Fetch buildings for billing failed:", e);
       }
@@ -723,19 +671,11 @@ export default function BillingScreen() {
   const fetchStoredBillings = async () => {
     if (!token) return;
     setBusy(true);
-    setError("");
+    setError(null);
     try {
-      const res = await api.get<Record<string, StoredBilling>>(
-        "/billings/buildings",
-      );
-      setStoredBillings(res.data || {});
+      setStoredBillings((await api.billings.listStored()) || {});
     } catch (e: any) {
-      const msg =
-        e?.response?.data?.error ??
-        e?.message ??
-        "Unable to fetch stored billings.";
-      setError(msg);
-      notify("Fetch failed", msg);
+      setError(showError("Fetch failed", e, "Unable to fetch stored billings."));
     } finally {
       setBusy(false);
     }
@@ -744,18 +684,12 @@ export default function BillingScreen() {
   const fetchStoredBilling = async (buildingBillingId: string) => {
     if (!token) return;
     setBusy(true);
-    setError("");
+    setError(null);
     try {
-      const res = await api.get<BuildingBillingResponse>(
-        `/billings/buildings/${encodeURIComponent(buildingBillingId)}`,
-      );
-      setPayload(res.data);
+      setPayload(await api.billings.getStored(buildingBillingId));
       setModeTab("generate");
     } catch (e: any) {
-      const msg =
-        e?.response?.data?.error ?? e?.message ?? "Unable to fetch billing.";
-      setError(msg);
-      notify("Fetch failed", msg);
+      setError(showError("Fetch failed", e, "Unable to fetch billing."));
     } finally {
       setBusy(false);
     }
@@ -773,30 +707,23 @@ export default function BillingScreen() {
       return notify("Invalid penalty", "Enter a valid percentage.");
 
     setCreating(true);
-    setError("");
+    setError(null);
     try {
-      const res = await api.post<BuildingBillingResponse>(
-        `/billings/buildings/${encodeURIComponent(
+      setPayload(
+        await api.billings.create(
           buildingId.trim(),
-        )}/period-start/${encodeURIComponent(
           startDate,
-        )}/period-end/${encodeURIComponent(endDate)}`,
-        {},
-        { params: { penalty_rate: penaltyNum } },
+          endDate,
+          penaltyNum,
+        ),
       );
-      setPayload(res.data);
       await fetchStoredBillings();
       notify("Success", "Billing created and saved successfully.");
     } catch (e: any) {
-      const status = e?.response?.status;
-      const existingId = e?.response?.data?.building_billing_id;
-      const msg =
-        e?.response?.data?.error ??
-        e?.message ??
-        "Unable to create building billing.";
-      setError(msg);
-
-      if (status === 409 && existingId) {
+      const err = toApiError(e, "Unable to create building billing.");
+      const existingId = (err.data as any)?.building_billing_id;
+
+      if (err.status === 409 && existingId) {
         notify(
           "Already exists",
           "Billing already exists for this building and period. Loading it instead.",
@@ -804,7 +731,7 @@ export default function BillingScreen() {
         await fetchStoredBilling(existingId);
         await fetchStoredBillings();
       } else {
-        notify("Request failed", msg);
+        setError(showError("Request failed", err));
       }
     } finally {
       setCreating(false);
@@ -865,56 +792,58 @@ export default function BillingScreen() {
         </Text>
       </View>
 
-      <View
-        style={[styles.tabContainer, isMobile && mobileStyles.tabContainer]}
-      >
-        <TouchableOpacity
-          style={[
-            styles.tab,
-            viewTab === "billing" && styles.tabActive,
-            isMobile && mobileStyles.tab,
-          ]}
-          onPress={() => setViewTab("billing")}
+      {hasBilling && hasRoc ? (
+        <View
+          style={[styles.tabContainer, isMobile && mobileStyles.tabContainer]}
         >
-          <Ionicons
-            name="document-text-outline"
-            size={isMobile ? 18 : 16}
-            color={viewTab === "billing" ? "#2563EB" : "#64748B"}
-          />
-          <Text
+          <TouchableOpacity
             style={[
-              styles.tabText,
-              viewTab === "billing" && styles.tabTextActive,
-              isMobile && mobileStyles.tabText,
+              styles.tab,
+              viewTab === "billing" && styles.tabActive,
+              isMobile && mobileStyles.tab,
             ]}
+            onPress={() => setTabChoice("billing")}
           >
-            Billing
-          </Text>
-        </TouchableOpacity>
-        <TouchableOpacity
-          style={[
-            styles.tab,
-            viewTab === "roc" && styles.tabActive,
-            isMobile && mobileStyles.tab,
-          ]}
-          onPress={() => setViewTab("roc")}
-        >
-          <Ionicons
-            name="trending-up-outline"
-            size={isMobile ? 18 : 16}
-            color={viewTab === "roc" ? "#2563EB" : "#64748B"}
-          />
-          <Text
+            <Ionicons
+              name="document-text-outline"
+              size={isMobile ? 18 : 16}
+              color={viewTab === "billing" ? "#2563EB" : "#64748B"}
+            />
+            <Text
+              style={[
+                styles.tabText,
+                viewTab === "billing" && styles.tabTextActive,
+                isMobile && mobileStyles.tabText,
+              ]}
+            >
+              Billing
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
             style={[
-              styles.tabText,
-              viewTab === "roc" && styles.tabTextActive,
-              isMobile && mobileStyles.tabText,
+              styles.tab,
+              viewTab === "roc" && styles.tabActive,
+              isMobile && mobileStyles.tab,
             ]}
+            onPress={() => setTabChoice("roc")}
           >
-            ROC
-          </Text>
-        </TouchableOpacity>
-      </View>
+            <Ionicons
+              name="trending-up-outline"
+              size={isMobile ? 18 : 16}
+              color={viewTab === "roc" ? "#2563EB" : "#64748B"}
+            />
+            <Text
+              style={[
+                styles.tabText,
+                viewTab === "roc" && styles.tabTextActive,
+                isMobile && mobileStyles.tabText,
+              ]}
+            >
+              ROC
+            </Text>
+          </TouchableOpacity>
+        </View>
+      ) : null}
 
       <View style={[styles.content, isMobile && mobileStyles.content]}>
         {viewTab === "billing" ? (
@@ -1221,7 +1150,11 @@ export default function BillingScreen() {
                     </View>
                   )}
 
-                  {error ? <Text style={styles.errorText}>{error}</Text> : null}
+                  <ErrorBanner
+                    error={error}
+                    onDismiss={() => setError(null)}
+                    style={styles.errorBanner}
+                  />
                 </View>
 
                 <View
@@ -1508,6 +1441,11 @@ export default function BillingScreen() {
                                         {fmt(row.reading_present, 0)}
                                       </Text>
                                     </View>
+                                    {row.reading_override ? (
+                                      <Text style={styles.overrideText}>
+                                        ⚑ {reasonLabel(row.reading_override)}
+                                      </Text>
+                                    ) : null}
                                   </View>
                                   <View
                                     style={[styles.compactCell, { flex: 1 }]}
@@ -1875,10 +1813,8 @@ const styles = StyleSheet.create({
     color: "#2563EB",
   },
   buttonDisabled: { opacity: 0.5 },
-  errorText: {
+  errorBanner: {
     marginTop: 8,
-    fontSize: 13,
-    color: "#DC2626",
   },
   billingCard: {
     backgroundColor: "#FFFFFF",
@@ -1976,6 +1912,7 @@ const styles = StyleSheet.create({
   readingPair: { flexDirection: "row", gap: 4 },
   readingLabel: { fontSize: 11, color: "#6B7280" },
   readingValue: { fontSize: 12, fontWeight: "500", color: "#111827" },
+  overrideText: { fontSize: 11, fontWeight: "600", color: "#B45309" },
   consumptionValue: { fontSize: 12, fontWeight: "500", color: "#111827" },
   previousConsumption: { fontSize: 11, color: "#6B7280" },
   rocValue: { fontSize: 12, fontWeight: "600" },
@@ -11,15 +11,17 @@ import {
   ScrollView,
   Animated,
 } from "react-native";
-import axios, { AxiosError } from "axios";
+import { AxiosError } from "axios";
 import { Ionicons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useFocusEffect } from "@react-navigation/native";
 
-import { BASE_API } from "../../constants/api";
+import { Api, createApi } from "../../services/api";
+import { countFromResponse } from "../../services/apiSchemas";
+import { localStore } from "../../services/localStore";
 import { useAuth } from "../../contexts/AuthContext";
 import { useScanHistory } from "../../contexts/ScanHistoryContext";
+import SyncStatusIndicator from "../../components/SyncStatusIndicator";
 
 type CountKey =
   | "buildings"
@@ -41,8 +43,6 @@ type TileState = {
   restricted?: boolean;
 };
 
-const KEY_OFFLINE_PACKAGE = "offline_package_v1";
-
 const norm = (v: any) => String(v ?? "").trim().toLowerCase();
 
 const safeAtob = (b64: string): string | null => {
@@ -89,15 +89,6 @@ function decodeRole(token: string | null): { role: Role; buildingId?: string } {
   }
 }
 
-function makeApi(token: string | null) {
-  const api = axios.create({ baseURL: BASE_API });
-  api.interceptors.request.use((cfg) => {
-    if (token) cfg.headers.Authorization = `Bearer ${token}`;
-    return cfg;
-  });
-  return api;
-}
-
 function yyyymmddLocal(d = new Date()) {
   const yyyy = d.getFullYear();
   const mm = String(d.getMonth() + 1).padStart(2, "0");
@@ -114,43 +105,13 @@ function ymdFromAny(v: any): string {
   return s;
 }
 
-/**
- * ✅ Robust count extractor:
- * supports: [], {rows:[]}, {data:[]}, {items:[]}, {tenants:[]}, {meters:[]}, {count:n}
- */
-function extractCountFromResponse(path: string, data: any): number {
-  if (Array.isArray(data)) return data.length;
-
-  if (typeof data?.count === "number" && Number.isFinite(data.count)) return data.count;
-
-  const maybeArrays: any[] = [data?.rows, data?.data, data?.items, data?.result];
-  for (const candidate of maybeArrays) {
-    if (Array.isArray(candidate)) return candidate.length;
-  }
-
-  const seg = String(path || "").split("?")[0].split("/").filter(Boolean).pop() || "";
-  const key = seg.toLowerCase();
-
-  const keyedCandidates = [
-    data?.[key],
-    key === "readings" ? data?.meter_readings : undefined,
-    key === "readings" ? data?.readings : undefined,
-  ];
-
-  for (const candidate of keyedCandidates) {
-    if (Array.isArray(candidate)) return candidate.length;
-  }
-
-  return 0;
-}
-
 async function safeCount(
-  api: ReturnType<typeof makeApi>,
+  api: Api,
   path: string,
 ): Promise<{ count?: number; restricted?: boolean }> {
   try {
-    const res = await api.get(path);
-    return { count: extractCountFromResponse(path, res.data) };
+    const res = await api.http.get(path);
+    return { count: countFromResponse(res.data, path) };
   } catch (e) {
     const err = e as AxiosError;
     if (err.response && (err.response.status === 401 || err.response.status === 403)) {
@@ -266,7 +227,7 @@ export default function Dashboard() {
   const { width } = useWindowDimensions();
   const { role } = useMemo(() => decodeRole(token), [token]);
 
-  const api = useMemo(() => makeApi(token), [token]);
+  const api = useMemo(() => createApi(token), [token]);
   const [busy, setBusy] = useState(true);
   const [counts, setCounts] = useState<Counts>({});
   const [restrictions, setRestrictions] = useState<Record<CountKey, boolean>>({
@@ -322,8 +283,8 @@ export default function Dashboard() {
 
   const loadOfflinePackageStats = useCallback(async () => {
     try {
-      const raw = await AsyncStorage.getItem(KEY_OFFLINE_PACKAGE);
-      if (!raw) {
+      const pkg = await localStore.offlinePackage.get();
+      if (!pkg) {
         setOfflinePackageCount(0);
         setOfflineMetersCount(0);
         setOfflineTenantsCount(0);
@@ -331,31 +292,16 @@ export default function Dashboard() {
         return { packageCount: 0, metersCount: 0, tenantsCount: 0, meterIds: [] as string[] };
       }
 
-      const parsed = JSON.parse(raw);
-
-      const items =
-        Array.isArray(parsed?.package?.items) ? parsed.package.items :
-        Array.isArray(parsed?.items) ? parsed.items :
-        Array.isArray(parsed) ? parsed :
-        null;
-
-      if (!items) {
-        setOfflinePackageCount(1);
-        setOfflineMetersCount(0);
-        setOfflineTenantsCount(0);
-        setOfflinePackageMeterIds([]);
-        return { packageCount: 1, metersCount: 0, tenantsCount: 0, meterIds: [] as string[] };
-      }
-
+      const items = pkg.items;
       const metersCount = items.length;
 
       const tenantSet = new Set<string>();
       const meterIdSet = new Set<string>();
       for (const it of items) {
-        const name = String(it?.tenant_name ?? "").trim();
+        const name = String(it.tenant_name ?? "").trim();
         if (name) tenantSet.add(name);
 
-        const mid = String(it?.meter_id ?? it?.meterId ?? "").trim();
+        const mid = String(it.meter_id ?? "").trim();
         if (mid) meterIdSet.add(mid);
       }
       const tenantsCount = tenantSet.size;
@@ -400,20 +346,11 @@ export default function Dashboard() {
       const serverDone = new Set<string>();
       if (isConnected) {
         try {
-          const res = await api.get("/meter_reading/today");
-          const data = res.data;
-
-          const rows: any[] =
-            Array.isArray(data) ? data :
-            Array.isArray(data?.rows) ? data.rows :
-            Array.isArray(data?.data) ? data.data :
-            Array.isArray(data?.meter_readings) ? data.meter_readings :
-            Array.isArray(data?.readings) ? data.readings :
-            [];
+          const rows = await api.readings.today();
 
           for (const r of rows) {
-            const mid = String(r?.meter_id ?? r?.meterId ?? "").trim();
-            const d = ymdFromAny(r?.lastread_date ?? r?.reading_date ?? "");
+            const mid = String(r.meter_id ?? "").trim();
+            const d = ymdFromAny(r.lastread_date ?? "");
             if (mid && packageSet.has(mid) && (!d || d === today)) serverDone.add(mid);
           }
         } catch {
@@ -600,6 +537,8 @@ export default function Dashboard() {
               </View>
             )}
 
+            {role === "reader" && <SyncStatusIndicator />}
+
             <View style={[styles.quickActions, isMobile && styles.quickActionsMobile]}>
               <QuickActionButton
                 icon="scan-outline"
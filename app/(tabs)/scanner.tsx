@@ -1,83 +1,187 @@
-import {
-  OnSuccessfulScanProps,
-  QRCodeScanner,
-} from "@masumdev/rn-qrcode-scanner";
+import { BarcodeScanningResult, CameraView, useCameraPermissions } from "expo-camera";
 import { useFocusEffect, useRouter } from "expo-router";
-import React, { useState, useRef } from "react";
+import React, { useMemo, useRef, useState } from "react";
 import {
+  ActivityIndicator,
   Alert,
+  FlatList,
   Image,
+  Modal,
   StyleSheet,
   Text,
+  TextInput,
+  TouchableOpacity,
   View,
   Platform,
-  Animated,
   Vibration,
 } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import ScanResultCard from "../../components/ScanResultCard";
+import { useAuth } from "../../contexts/AuthContext";
+import { useScanHistory } from "../../contexts/ScanHistoryContext";
+import { createApi } from "../../services/api";
+import {
+  LABEL_FORMATS,
+  MeterMatch,
+  ResolverContext,
+  ScannedCode,
+  describeMeters,
+  parseScannedCode,
+  resolveScannedCode,
+  searchMeters,
+} from "../../services/codeResolver";
+import { localStore } from "../../services/localStore";
+import type { OfflinePackage, OfflinePackageItem } from "../../services/offlineSync";
 
 export default function ScannerScreen() {
   const router = useRouter();
+  const { token } = useAuth();
+  const { isConnected } = useScanHistory();
+  const [permission, requestPermission] = useCameraPermissions();
   const [scanned, setScanned] = useState(false);
   const [scannerKey, setScannerKey] = useState(0);
+  const [torch, setTorch] = useState(false);
+  const busy = useRef(false);
+
+  // the label could not be resolved (or named several meters): pick by hand
+  const [picker, setPicker] = useState<{
+    title: string;
+    code: ScannedCode | null;
+    matches: MeterMatch[];
+  } | null>(null);
+  const [query, setQuery] = useState("");
+  const [searching, setSearching] = useState(false);
+
+  // a meter of the offline package: read it right here
+  const [pkg, setPkg] = useState<OfflinePackage | null>(null);
+  const [card, setCard] = useState<OfflinePackageItem | null>(null);
+
+  const api = useMemo(() => createApi(token), [token]);
+
+  const resolverContext = async (): Promise<ResolverContext> => {
+    const current = await localStore.offlinePackage.get().catch(() => null);
+    setPkg(current);
+    return {
+      items: current?.items ?? [],
+      // the server lists (or their cached copy) only when not known offline
+      api: token && isConnected !== false ? api : null,
+    };
+  };
+
+  const release = () => {
+    setTimeout(() => {
+      busy.current = false;
+      setScanned(false);
+    }, 1000);
+  };
+
+  const openReadings = (meterId: string) => {
+    setCard(null);
+    router.replace({
+      pathname: "/(tabs)/admin",
+      params: { panel: "readings", meterId },
+    } as any);
+    Alert.alert("Success!", `Meter ${meterId} scanned`);
+  };
 
-  const handleScan = (data: OnSuccessfulScanProps) => {
-    if (scanned) return;
+  // meters outside the package need the online Readings panel
+  const openMeter = (meterId: string, items = pkg?.items ?? []) => {
+    setPicker(null);
+    setQuery("");
+    const item = items.find((it) => it.meter_id === meterId);
+    if (item) setCard(item);
+    else openReadings(meterId);
+  };
+
+  const handleScan = async (result: BarcodeScanningResult) => {
+    if (busy.current) return;
+    busy.current = true;
     setScanned(true);
 
     if (Platform.OS !== "web") {
       Vibration.vibrate(100);
     }
 
-    const raw = String(
-      (data as any)?.code ??
-        (data as any)?.rawData ??
-        (data as any)?.data ??
-        "",
-    ).trim();
-
-    if (!raw) {
-      Alert.alert("QR code empty", "No data found in QR code.");
-      setTimeout(() => setScanned(false), 1000);
+    const code = parseScannedCode(String(result?.data ?? ""), result?.type);
+    if (!code.raw) {
+      Alert.alert("Code empty", "No data found in the scanned code.");
+      release();
       return;
     }
 
-    const meterIdPattern = /^MTR-[A-Za-z0-9-]+$/i;
-    if (!meterIdPattern.test(raw)) {
-      Alert.alert("Invalid QR", "QR code does not contain a valid meter ID.");
-      setTimeout(() => setScanned(false), 1000);
-      return;
+    try {
+      const ctx = await resolverContext();
+      const res = await resolveScannedCode(code, ctx);
+      if (res.status === "resolved") {
+        openMeter(res.meter_id, ctx.items);
+      } else if (res.status === "ambiguous") {
+        setPicker({
+          title: "Which meter?",
+          code,
+          matches: await describeMeters(res.candidates, ctx),
+        });
+      } else {
+        setPicker({ title: "Unknown meter", code, matches: [] });
+      }
+    } catch (e: any) {
+      Alert.alert("Scan failed", e?.message || "Unable to look up this code.");
+    } finally {
+      release();
     }
+  };
 
-    const meterId = raw.toUpperCase();
-
-    router.replace({
-      pathname: "/(tabs)/admin",
-      params: { panel: "readings", meterId },
-    } as any);
+  const runSearch = async (text: string) => {
+    setQuery(text);
+    if (!text.trim()) {
+      setPicker((p) => (p ? { ...p, matches: [] } : p));
+      return;
+    }
+    setSearching(true);
+    try {
+      const matches = await searchMeters(text, await resolverContext());
+      setPicker((p) => (p ? { ...p, matches } : p));
+    } finally {
+      setSearching(false);
+    }
+  };
 
-    Alert.alert("Success!", `Meter ${meterId} scanned`);
-    setTimeout(() => setScanned(false), 1000);
+  const closePicker = () => {
+    setPicker(null);
+    setQuery("");
   };
 
   useFocusEffect(
     React.useCallback(() => {
       setScannerKey((prev) => prev + 1);
       setScanned(false);
+      busy.current = false;
     }, []),
   );
 
+  if (!permission?.granted) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Ionicons name="camera-outline" size={40} color="#fff" />
+        <Text style={styles.instructionTitle}>Camera access needed</Text>
+        <Text style={styles.instructionText}>
+          The scanner reads meter QR codes and barcodes with the camera.
+        </Text>
+        <TouchableOpacity style={styles.permissionBtn} onPress={requestPermission}>
+          <Text style={styles.permissionBtnText}>Allow camera</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container}>
-      <QRCodeScanner
+      <CameraView
         key={scannerKey}
-        core={{ onSuccessfulScan: handleScan }}
-        scanning={{ cooldownDuration: 500 }}
-        uiControls={{
-          showControls: true,
-          showTorchButton: true,
-          showStatus: false,
-        }}
-        permissionScreen={{}}
+        style={StyleSheet.absoluteFill}
+        facing="back"
+        enableTorch={torch}
+        barcodeScannerSettings={{ barcodeTypes: LABEL_FORMATS }}
+        onBarcodeScanned={scanned || picker || card ? undefined : handleScan}
       />
 
       <View pointerEvents="none" style={styles.topGradient}>
@@ -87,31 +191,105 @@ export default function ScannerScreen() {
             style={styles.logo}
             resizeMode="contain"
           />
-          <Text style={styles.appTitle}>QR Scanner</Text>
+          <Text style={styles.appTitle}>Meter Scanner</Text>
         </View>
       </View>
 
-      <View pointerEvents="none" style={styles.bottomGradient}>
+      <View pointerEvents="none" style={styles.frame} />
+
+      <View style={styles.bottomGradient}>
         <View style={styles.instructionsContainer}>
-          <Text style={styles.instructionTitle}>Scan Meter QR Code</Text>
+          <Text style={styles.instructionTitle}>Scan Meter Label</Text>
           <Text style={styles.instructionText}>
-            Position the QR code within the frame
+            QR code or barcode: meter ID, meter serial or stall code
           </Text>
           {Platform.OS === "web" && (
             <Text style={styles.instructionHint}>
               Press CTRL/CMD + Plus to zoom if needed
             </Text>
           )}
+          <View style={styles.controls}>
+            <TouchableOpacity style={styles.controlBtn} onPress={() => setTorch((t) => !t)}>
+              <Ionicons name={torch ? "flashlight" : "flashlight-outline"} size={18} color="#fff" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.controlBtn}
+              onPress={() => setPicker({ title: "Find meter", code: null, matches: [] })}
+            >
+              <Ionicons name="search" size={18} color="#fff" />
+              <Text style={styles.controlText}>Search</Text>
+            </TouchableOpacity>
+          </View>
         </View>
       </View>
 
-      {scanned && (
+      {scanned && !picker && !card && (
         <View pointerEvents="none" style={styles.statusIndicator}>
           <View style={styles.statusBadge}>
             <Text style={styles.statusText}>✓ Scanned</Text>
           </View>
         </View>
       )}
+
+      <Modal visible={!!picker} transparent animationType="slide" onRequestClose={closePicker}>
+        <View style={styles.sheetOverlay}>
+          <View style={styles.sheet}>
+            <View style={styles.sheetHeader}>
+              <Text style={styles.sheetTitle}>{picker?.title}</Text>
+              <TouchableOpacity onPress={closePicker}>
+                <Ionicons name="close" size={22} color="#0f172a" />
+              </TouchableOpacity>
+            </View>
+            {picker?.code ? (
+              <Text style={styles.sheetCode} numberOfLines={3}>
+                Scanned {picker.code.format ? `${picker.code.format} ` : ""}“{picker.code.raw}”
+              </Text>
+            ) : null}
+            {picker?.title === "Unknown meter" ? (
+              <Text style={styles.sheetHint}>
+                No meter matches this label. Search for it by meter ID, serial, stall or tenant.
+              </Text>
+            ) : null}
+            <TextInput
+              style={styles.searchInput}
+              value={query}
+              onChangeText={runSearch}
+              placeholder="Meter ID, serial, stall or tenant"
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+            {searching ? <ActivityIndicator style={{ marginVertical: 8 }} /> : null}
+            <FlatList
+              data={picker?.matches ?? []}
+              keyExtractor={(m) => m.meter_id}
+              style={{ maxHeight: 320 }}
+              keyboardShouldPersistTaps="handled"
+              ListEmptyComponent={
+                query.trim() && !searching ? (
+                  <Text style={styles.sheetEmpty}>No meters found.</Text>
+                ) : null
+              }
+              renderItem={({ item }) => (
+                <TouchableOpacity style={styles.matchRow} onPress={() => openMeter(item.meter_id)}>
+                  <Text style={styles.matchId}>{item.meter_id}</Text>
+                  {item.detail ? <Text style={styles.matchDetail}>{item.detail}</Text> : null}
+                </TouchableOpacity>
+              )}
+            />
+            <TouchableOpacity style={styles.scanAgain} onPress={closePicker}>
+              <Ionicons name="scan-outline" size={16} color="#2563eb" />
+              <Text style={styles.scanAgainText}>Scan again</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      <ScanResultCard
+        item={card}
+        pkg={pkg}
+        onClose={() => setCard(null)}
+        onOpenReadings={openReadings}
+      />
     </View>
   );
 }
@@ -150,7 +328,7 @@ const styles = StyleSheet.create({
     bottom: 0,
     left: 0,
     right: 0,
-    height: 200,
+    height: 240,
     backgroundColor: "rgba(0,0,0,0.8)",
     justifyContent: "flex-end",
     paddingBottom: 40,
@@ -204,4 +382,126 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "600",
   },
+  centered: {
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 24,
+    gap: 8,
+  },
+  permissionBtn: {
+    marginTop: 12,
+    backgroundColor: "#2563eb",
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  permissionBtnText: {
+    color: "#fff",
+    fontWeight: "700",
+  },
+  frame: {
+    position: "absolute",
+    top: "50%",
+    left: "50%",
+    width: 260,
+    height: 180,
+    marginLeft: -130,
+    marginTop: -90,
+    borderWidth: 3,
+    borderColor: "#10b981",
+    borderRadius: 16,
+    zIndex: 5,
+  },
+  controls: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 14,
+  },
+  controlBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "rgba(255,255,255,0.15)",
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 999,
+  },
+  controlText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  sheetOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "flex-end",
+  },
+  sheet: {
+    backgroundColor: "#fff",
+    borderTopLeftRadius: 18,
+    borderTopRightRadius: 18,
+    padding: 16,
+    paddingBottom: 28,
+  },
+  sheetHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 6,
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#0f172a",
+  },
+  sheetCode: {
+    fontSize: 13,
+    color: "#334155",
+    marginBottom: 4,
+  },
+  sheetHint: {
+    fontSize: 12,
+    color: "#64748b",
+    marginBottom: 8,
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderColor: "#cbd5e1",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#0f172a",
+    backgroundColor: "#f8fafc",
+    marginVertical: 8,
+  },
+  sheetEmpty: {
+    textAlign: "center",
+    color: "#64748b",
+    paddingVertical: 12,
+  },
+  matchRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e2e8f0",
+  },
+  matchId: {
+    fontWeight: "700",
+    color: "#0f172a",
+  },
+  matchDetail: {
+    fontSize: 12,
+    color: "#64748b",
+    marginTop: 2,
+  },
+  scanAgain: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    marginTop: 12,
+  },
+  scanAgainText: {
+    color: "#2563eb",
+    fontWeight: "700",
+  },
 });
\ No newline at end of file
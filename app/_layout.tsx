@@ -8,9 +8,13 @@ import { useFonts } from "expo-font";
 import { Redirect, Stack } from "expo-router";
 import { StatusBar } from "expo-status-bar";
 import { Platform } from "react-native";
+import { useEffect, useState } from "react";
 import "react-native-reanimated";
 import { AuthProvider, useAuth } from "../contexts/AuthContext";
 import { ScanHistoryProvider } from "../contexts/ScanHistoryContext";
+import SessionGuard from "../components/SessionGuard";
+import { ErrorToastHost } from "../components/ErrorBanner";
+import { loadServerProfiles } from "../services/serverProfiles";
 
 function RootLayoutNav() {
   const { isLoggedIn, loading } = useAuth();
@@ -30,6 +34,8 @@ function RootLayoutNav() {
       </Stack>
 
       {needsLoginOnMobile ? <Redirect href="/(auth)/login" /> : null}
+      <SessionGuard />
+      <ErrorToastHost />
     </>
   );
 }
@@ -39,8 +45,14 @@ export default function RootLayout() {
   const [loaded] = useFonts({
     SpaceMono: require("../assets/fonts/SpaceMono-Regular.ttf"),
   });
+  const [profilesLoaded, setProfilesLoaded] = useState(false);
 
-  if (!loaded) return null;
+  // the active server must be known before AuthProvider makes any request
+  useEffect(() => {
+    loadServerProfiles().finally(() => setProfilesLoaded(true));
+  }, []);
+
+  if (!loaded || !profilesLoaded) return null;
 
   return (
     <AuthProvider>
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from "react";
+import {
+  Modal,
+  Platform,
+  Pressable,
+  Share,
+  StyleProp,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+  ViewStyle,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  ApiError,
+  ReportedError,
+  dismissError,
+  getReportedError,
+  subscribeErrors,
+} from "../services/apiError";
+
+const TOAST_MS = 8000;
+
+async function copyDetails(error: ApiError) {
+  const text = error.details();
+  if (Platform.OS === "web" && typeof navigator !== "undefined" && navigator.clipboard) {
+    await navigator.clipboard.writeText(text);
+  } else {
+    await Share.share({ message: text });
+  }
+}
+
+/**
+ * Inline error banner: the user-facing message, the status and endpoint in
+ * small print, and a "Copy details" action with the full diagnostics.
+ */
+export default function ErrorBanner({
+  error,
+  title,
+  onDismiss,
+  style,
+}: {
+  error: ApiError | null;
+  title?: string;
+  onDismiss?: () => void;
+  style?: StyleProp<ViewStyle>;
+}) {
+  const [copied, setCopied] = useState(false);
+  useEffect(() => setCopied(false), [error]);
+  if (!error) return null;
+
+  const where = [
+    error.status ? `HTTP ${error.status}` : error.endpoint ? "No response" : null,
+    error.endpoint ? `${error.method ?? ""} ${error.endpoint}`.trim() : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <View style={[styles.banner, style]}>
+      <Ionicons name="alert-circle" size={18} color="#b91c1c" style={{ marginTop: 1 }} />
+      <View style={{ flex: 1 }}>
+        {title ? <Text style={styles.title}>{title}</Text> : null}
+        <Text style={styles.message}>{error.message}</Text>
+        {where ? <Text style={styles.meta}>{where}</Text> : null}
+        <TouchableOpacity
+          onPress={() =>
+            copyDetails(error)
+              .then(() => setCopied(true))
+              .catch(() => {})
+          }
+        >
+          <Text style={styles.copy}>{copied ? "Copied" : "Copy details"}</Text>
+        </TouchableOpacity>
+      </View>
+      {onDismiss ? (
+        <TouchableOpacity onPress={onDismiss} hitSlop={8}>
+          <Ionicons name="close" size={18} color="#7f1d1d" />
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+}
+
+/** Validation message under a form input; renders nothing without one. */
+export function FieldError({ message }: { message?: string | null }) {
+  if (!message) return null;
+  return <Text style={styles.fieldError}>{message}</Text>;
+}
+
+/**
+ * App-wide toast for errors reported with showError(); mounted once at the
+ * root. It lives in its own transparent Modal so it also shows above the
+ * create/edit modals most failures come from; tapping outside dismisses it.
+ */
+export function ErrorToastHost() {
+  const [reported, setReported] = useState<ReportedError | null>(getReportedError);
+
+  useEffect(() => subscribeErrors(() => setReported(getReportedError())), []);
+
+  useEffect(() => {
+    if (!reported) return;
+    const t = setTimeout(() => dismissError(reported.id), TOAST_MS);
+    return () => clearTimeout(t);
+  }, [reported]);
+
+  if (!reported) return null;
+  const dismiss = () => dismissError(reported.id);
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={dismiss}>
+      <Pressable style={styles.toastWrap} onPress={dismiss}>
+        <Pressable style={styles.toast}>
+          <ErrorBanner
+            error={reported.error}
+            title={reported.title}
+            onDismiss={dismiss}
+          />
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: "row",
+    gap: 10,
+    backgroundColor: "#fef2f2",
+    borderColor: "#fecaca",
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+  },
+  title: { fontWeight: "800", color: "#7f1d1d", marginBottom: 2 },
+  message: { color: "#7f1d1d" },
+  meta: { color: "#991b1b", fontSize: 12, marginTop: 4, opacity: 0.8 },
+  copy: { color: "#b91c1c", fontWeight: "700", marginTop: 6 },
+  fieldError: { color: "#b91c1c", fontSize: 12, marginTop: 4, marginBottom: 4 },
+  toastWrap: {
+    flex: 1,
+    justifyContent: "flex-end",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingBottom: Platform.OS === "web" ? 24 : 80,
+  },
+  toast: {
+    width: "100%",
+    maxWidth: 520,
+    borderRadius: 12,
+    backgroundColor: "#fef2f2",
+    shadowColor: "#000",
+    shadowOpacity: 0.15,
+    shadowRadius: 10,
+    shadowOffset: { width: 0, height: 4 },
+    elevation: 6,
+  },
+});
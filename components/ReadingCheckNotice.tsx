@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { localStore } from "../services/localStore";
+import {
+  DEFAULT_PLAUSIBILITY,
+  OVERRIDE_REASONS,
+  PlausibilityPolicy,
+  ReadingCheck,
+} from "../services/readingCheck";
+
+/** The plausibility thresholds the server sent this device (defaults until then). */
+export function usePlausibilityPolicy() {
+  const [policy, setPolicy] = useState<PlausibilityPolicy>(DEFAULT_PLAUSIBILITY);
+  useEffect(() => {
+    let alive = true;
+    localStore.plausibilityPolicy
+      .get()
+      .then((p) => alive && setPolicy(p))
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, []);
+  return policy;
+}
+
+/**
+ * What the plausibility check found for the value being entered: why it
+ * cannot be saved, or what is unusual about it with the reason codes to
+ * choose from before it can be saved anyway.
+ */
+export default function ReadingCheckNotice({
+  check,
+  reason,
+  onReason,
+}: {
+  check: ReadingCheck | null;
+  reason: string | null;
+  onReason: (reason: string | null) => void;
+}) {
+  if (!check || check.status === "ok") return null;
+  const blocked = check.status === "block";
+
+  return (
+    <View style={[styles.box, blocked ? styles.boxBad : styles.boxWarn]}>
+      {check.issues.map((issue) => (
+        <View key={issue.flag} style={styles.issue}>
+          <Ionicons
+            name={blocked ? "close-circle-outline" : "warning-outline"}
+            size={16}
+            color={blocked ? "#b91c1c" : "#b45309"}
+          />
+          <Text style={[styles.issueText, blocked ? styles.bad : styles.warn]}>
+            {issue.message}
+          </Text>
+        </View>
+      ))}
+      {!blocked ? (
+        <>
+          <Text style={styles.label}>Save anyway because (required):</Text>
+          <View style={styles.chips}>
+            {OVERRIDE_REASONS.map((r) => {
+              const on = reason === r.code;
+              return (
+                <TouchableOpacity
+                  key={r.code}
+                  style={[styles.chip, on && styles.chipOn]}
+                  onPress={() => onReason(on ? null : r.code)}
+                >
+                  <Text style={[styles.chipText, on && styles.chipTextOn]}>{r.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: {
+    borderWidth: 1,
+    borderRadius: 10,
+    padding: 10,
+    marginTop: 10,
+    gap: 6,
+  },
+  boxWarn: { backgroundColor: "#fffbeb", borderColor: "#fcd34d" },
+  boxBad: { backgroundColor: "#fef2f2", borderColor: "#fca5a5" },
+  issue: { flexDirection: "row", alignItems: "flex-start", gap: 6 },
+  issueText: { flex: 1, fontSize: 13, fontWeight: "600" },
+  warn: { color: "#92400e" },
+  bad: { color: "#b91c1c" },
+  label: { fontSize: 12, color: "#92400e", fontWeight: "700", marginTop: 4 },
+  chips: { flexDirection: "row", flexWrap: "wrap", gap: 6 },
+  chip: {
+    borderWidth: 1,
+    borderColor: "#fcd34d",
+    backgroundColor: "#fff",
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  chipOn: { backgroundColor: "#b45309", borderColor: "#b45309" },
+  chipText: { fontSize: 12, color: "#92400e", fontWeight: "600" },
+  chipTextOn: { color: "#fff" },
+});
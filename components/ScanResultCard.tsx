@@ -0,0 +1,260 @@
+import React from "react";
+import {
+  ActivityIndicator,
+  Image,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import ReadingCheckNotice from "./ReadingCheckNotice";
+import { useScanHistory } from "../contexts/ScanHistoryContext";
+import { fmtNum, notify, todayYmd, useReadingEntry } from "../hooks/useReadingEntry";
+import { toYMD } from "../services/localStore";
+import type { OfflinePackage, OfflinePackageItem } from "../services/offlineSync";
+import { asDataUrl } from "../services/readingPhoto";
+
+// the package carries the previous photo as a URL, a data URI or bare base64
+const photoUri = (img: string) => (/^(https?:|data:|file:)/i.test(img) ? img : asDataUrl(img));
+
+/**
+ * What the scanner shows for a meter of the offline package: tenant, stall,
+ * classification and the previous reading with its photo, and a form to
+ * enter today's reading and photo. Everything comes from the package and the
+ * reading is queued on the device, so it works without a connection.
+ */
+export default function ScanResultCard({
+  item,
+  pkg,
+  onClose,
+  onOpenReadings,
+}: {
+  item: OfflinePackageItem | null;
+  pkg: OfflinePackage | null;
+  onClose: () => void;
+  /** the full Readings panel, for what the card does not cover */
+  onOpenReadings?: (meterId: string) => void;
+}) {
+  const { scans } = useScanHistory();
+
+  const today = todayYmd();
+  const {
+    value,
+    setValue,
+    remarks,
+    setRemarks,
+    image,
+    reason,
+    setReason,
+    busy,
+    check,
+    takePhoto,
+    save: saveReading,
+  } = useReadingEntry(item, today, pkg);
+
+  const readToday = item
+    ? scans.find(
+        (s) =>
+          s.meter_id === item.meter_id &&
+          s.status !== "rejected" &&
+          toYMD(s.lastread_date) === today,
+      )
+    : undefined;
+
+  const save = async () => {
+    if (!item) return;
+    if (readToday) {
+      notify("Already read", `Meter ${item.meter_id} was already read today.`);
+      return;
+    }
+    if (await saveReading()) {
+      notify("Saved", `Reading for ${item.meter_id} queued.`);
+      onClose();
+    }
+  };
+
+  const stall = item?.stall_sn || item?.stall_id;
+
+  return (
+    <Modal visible={!!item} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.meterId}>{item?.meter_id}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={22} color="#0f172a" />
+            </TouchableOpacity>
+          </View>
+
+          {item ? (
+            <ScrollView keyboardShouldPersistTaps="handled">
+              <Text style={styles.tenant}>{item.tenant_name || "No tenant"}</Text>
+              <Text style={styles.meta}>
+                {[
+                  stall && `Stall ${stall}`,
+                  item.classification,
+                  item.meter_number && `SN ${item.meter_number}`,
+                ]
+                  .filter(Boolean)
+                  .join(" · ") || "—"}
+              </Text>
+
+              <View style={styles.prevBox}>
+                {item.prev_image ? (
+                  <Image
+                    source={{ uri: photoUri(item.prev_image) }}
+                    style={styles.prevPhoto}
+                    resizeMode="cover"
+                  />
+                ) : (
+                  <View style={[styles.prevPhoto, styles.noPhoto]}>
+                    <Ionicons name="image-outline" size={22} color="#94a3b8" />
+                  </View>
+                )}
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.prevLabel}>Previous reading</Text>
+                  <Text style={styles.prevValue}>{fmtNum(item.prev_reading)}</Text>
+                  <Text style={styles.meta}>
+                    {item.prev_date ? toYMD(item.prev_date) : "No date"}
+                  </Text>
+                </View>
+              </View>
+
+              {readToday ? (
+                <Text style={styles.warn}>
+                  Already read today: {fmtNum(readToday.reading_value)} ({readToday.status}).
+                </Text>
+              ) : null}
+
+              <TextInput
+                style={styles.input}
+                value={value}
+                onChangeText={setValue}
+                placeholder="Reading"
+                keyboardType="decimal-pad"
+              />
+              <ReadingCheckNotice check={check} reason={reason} onReason={setReason} />
+              <TextInput
+                style={styles.input}
+                value={remarks}
+                onChangeText={setRemarks}
+                placeholder={reason === "other" ? "Remarks (required)" : "Remarks (optional)"}
+              />
+
+              <View style={styles.row}>
+                <TouchableOpacity style={styles.btnGhost} onPress={takePhoto} disabled={busy}>
+                  <Ionicons name="camera-outline" size={16} color="#1f3a8a" />
+                  <Text style={styles.btnGhostText}>{image ? "Retake photo" : "Take photo"}</Text>
+                </TouchableOpacity>
+                {image ? (
+                  <Image source={{ uri: asDataUrl(image) }} style={styles.thumb} />
+                ) : null}
+              </View>
+
+              <TouchableOpacity
+                style={[styles.btn, (busy || !!readToday) && { opacity: 0.6 }]}
+                onPress={save}
+                disabled={busy || !!readToday}
+              >
+                {busy ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.btnText}>Save reading</Text>
+                )}
+              </TouchableOpacity>
+
+              {onOpenReadings ? (
+                <TouchableOpacity
+                  style={styles.link}
+                  onPress={() => onOpenReadings(item.meter_id)}
+                >
+                  <Text style={styles.linkText}>Open in Readings</Text>
+                </TouchableOpacity>
+              ) : null}
+            </ScrollView>
+          ) : null}
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "flex-end",
+  },
+  sheet: {
+    maxHeight: "90%",
+    backgroundColor: "#fff",
+    borderTopLeftRadius: 18,
+    borderTopRightRadius: 18,
+    padding: 16,
+    paddingBottom: 28,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  meterId: { fontSize: 20, fontWeight: "800", color: "#0f172a" },
+  tenant: { fontSize: 16, fontWeight: "700", color: "#0f172a", marginTop: 4 },
+  meta: { fontSize: 12, color: "#64748b", marginTop: 2 },
+  prevBox: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    marginTop: 12,
+    padding: 10,
+    borderRadius: 10,
+    backgroundColor: "#f8fafc",
+  },
+  prevPhoto: { width: 84, height: 84, borderRadius: 8, backgroundColor: "#e2e8f0" },
+  noPhoto: { alignItems: "center", justifyContent: "center" },
+  prevLabel: { fontSize: 12, color: "#64748b" },
+  prevValue: { fontSize: 22, fontWeight: "800", color: "#0f172a" },
+  warn: { fontSize: 12, color: "#b45309", marginTop: 10 },
+  input: {
+    borderWidth: 1,
+    borderColor: "#cbd5e1",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#0f172a",
+    backgroundColor: "#f8fafc",
+    marginTop: 10,
+  },
+  row: { flexDirection: "row", alignItems: "center", gap: 10, marginTop: 10 },
+  thumb: { width: 48, height: 48, borderRadius: 6 },
+  btn: {
+    alignItems: "center",
+    backgroundColor: "#2563eb",
+    paddingVertical: 12,
+    borderRadius: 10,
+    marginTop: 14,
+  },
+  btnText: { color: "#fff", fontWeight: "700" },
+  btnGhost: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "#e6efff",
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  btnGhostText: { color: "#1f3a8a", fontWeight: "700" },
+  link: { alignItems: "center", marginTop: 12 },
+  linkText: { color: "#2563eb", fontWeight: "700" },
+});
@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from "react";
+import {
+  Modal,
+  Platform,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  DriftIssue,
+  clearDriftReport,
+  formatDriftReport,
+  getDriftReport,
+  subscribeDrift,
+} from "../services/schema";
+
+/**
+ * Floating "schema drift" pill. Shown in development builds and to admins
+ * whenever a server response did not match its declared schema; tapping it
+ * lists every field that was missing, renamed or of the wrong type.
+ */
+export default function SchemaDriftReport() {
+  const { hasRole } = useAuth();
+  const [issues, setIssues] = useState<DriftIssue[]>(() => getDriftReport());
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => subscribeDrift(() => setIssues(getDriftReport())), []);
+
+  const visible = (typeof __DEV__ !== "undefined" && __DEV__) || hasRole("admin");
+  if (!visible || !issues.length) return null;
+
+  const critical = issues.filter((i) => i.critical).length;
+
+  const copyReport = async () => {
+    const text = formatDriftReport(issues);
+    if (Platform.OS === "web" && typeof navigator !== "undefined" && navigator.clipboard) {
+      await navigator.clipboard.writeText(text);
+    } else {
+      await Share.share({ message: text });
+    }
+  };
+
+  return (
+    <>
+      <TouchableOpacity
+        style={[styles.pill, critical ? styles.pillCritical : null]}
+        onPress={() => setOpen(true)}
+        activeOpacity={0.8}
+      >
+        <Ionicons name="warning-outline" size={14} color="#fff" />
+        <Text style={styles.pillText}>
+          {issues.length} schema issue{issues.length === 1 ? "" : "s"}
+        </Text>
+      </TouchableOpacity>
+
+      <Modal visible={open} transparent animationType="fade" onRequestClose={() => setOpen(false)}>
+        <View style={styles.overlay}>
+          <View style={styles.card}>
+            <View style={styles.header}>
+              <Text style={styles.title}>Server response drift</Text>
+              <TouchableOpacity onPress={() => setOpen(false)}>
+                <Ionicons name="close" size={20} color="#102a43" />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.subtitle}>
+              Fields the server sent differently from what the app declares.
+              Critical ones stopped a screen from loading.
+            </Text>
+
+            <ScrollView style={{ maxHeight: 420 }}>
+              {issues.map((i) => (
+                <View key={i.key} style={styles.row}>
+                  <Text style={[styles.rowTitle, i.critical && { color: "#b91c1c" }]}>
+                    {i.schema} · {i.field}
+                  </Text>
+                  <Text style={styles.rowMeta}>
+                    {i.endpoint} · {i.problem} · ×{i.count}
+                  </Text>
+                  <Text style={styles.rowDetail}>{i.detail}</Text>
+                </View>
+              ))}
+            </ScrollView>
+
+            <View style={styles.actions}>
+              <TouchableOpacity style={[styles.btn, styles.btnGhost]} onPress={clearDriftReport}>
+                <Text style={styles.btnGhostText}>Clear</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.btn} onPress={copyReport}>
+                <Text style={styles.btnText}>Copy report</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  pill: {
+    position: "absolute",
+    right: 12,
+    bottom: Platform.OS === "web" ? 12 : 72,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "#d97706",
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 999,
+    opacity: 0.92,
+  },
+  pillCritical: { backgroundColor: "#ef4444" },
+  pillText: { color: "#fff", fontWeight: "700", fontSize: 12 },
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.35)",
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 16,
+  },
+  card: {
+    width: "100%",
+    maxWidth: 560,
+    backgroundColor: "#fff",
+    borderRadius: 10,
+    padding: 16,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  title: { fontSize: 18, fontWeight: "700", color: "#102a43" },
+  subtitle: { fontSize: 13, color: "#6b7b8a", marginTop: 4, marginBottom: 10 },
+  row: {
+    borderTopWidth: 1,
+    borderTopColor: "#e6ebf2",
+    paddingVertical: 8,
+  },
+  rowTitle: { fontWeight: "700", color: "#102a43" },
+  rowMeta: { fontSize: 12, color: "#6b7b8a", marginTop: 2 },
+  rowDetail: { fontSize: 13, color: "#334e68", marginTop: 2 },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 12,
+  },
+  btn: {
+    backgroundColor: "#007bff",
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 6,
+    marginLeft: 10,
+  },
+  btnText: { color: "#fff", fontWeight: "700" },
+  btnGhost: { backgroundColor: "#e6efff" },
+  btnGhostText: { color: "#1f3a8a", fontWeight: "700" },
+});
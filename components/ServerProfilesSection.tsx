@@ -0,0 +1,287 @@
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { mockBackend } from "../services/mockServer";
+import {
+  ServerCheck,
+  ServerProfile,
+  checkServer,
+  getActiveProfile,
+  getServerProfiles,
+  normalizeBaseUrl,
+  removeServerProfile,
+  saveServerProfile,
+  setActiveProfile,
+  subscribeServerProfiles,
+} from "../services/serverProfiles";
+
+type Draft = { id?: string; name: string; baseUrl: string };
+
+const describeCheck = (c: ServerCheck) =>
+  c.ok
+    ? `Reachable (HTTP ${c.status}, ${c.latencyMs} ms)${c.version ? ` · API ${c.version}` : ""}`
+    : `Not reachable: ${c.error}`;
+
+/**
+ * Server picker for Login → Device Settings. Profiles are stored per device;
+ * a new or edited profile is checked for reachability before it is saved.
+ */
+export default function ServerProfilesSection() {
+  const [profiles, setProfiles] = useState<ServerProfile[]>(getServerProfiles);
+  const [activeId, setActiveId] = useState(() => getActiveProfile().id);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [check, setCheck] = useState<(ServerCheck & { url: string }) | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(
+    () =>
+      subscribeServerProfiles(() => {
+        setProfiles(getServerProfiles());
+        setActiveId(getActiveProfile().id);
+      }),
+    [],
+  );
+
+  const draftUrl = normalizeBaseUrl(draft?.baseUrl ?? "");
+  // a failed check for the URL being saved turns Save into "Save anyway"
+  const failedForDraft = !!check && !check.ok && check.url === draftUrl;
+
+  const edit = (d: Draft | null) => {
+    setDraft(d);
+    setCheck(null);
+    setError("");
+  };
+
+  const runCheck = async () => {
+    if (!draftUrl) {
+      setError("Please enter the server URL.");
+      return null;
+    }
+    setBusy(true);
+    setError("");
+    try {
+      const res = await checkServer(draftUrl);
+      setCheck({ ...res, url: draftUrl });
+      return res;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    const res = failedForDraft ? check : await runCheck();
+    if (!res) return;
+    if (!res.ok && !failedForDraft) return;
+    try {
+      await saveServerProfile({
+        id: draft.id,
+        name: draft.name,
+        baseUrl: draftUrl,
+        version: res.ok ? res.version : null,
+        checked_at: res.ok ? new Date().toISOString() : null,
+      });
+      edit(null);
+    } catch (e: any) {
+      setError(String(e?.message || e));
+    }
+  };
+
+  const remove = async (id: string) => {
+    try {
+      await removeServerProfile(id);
+      if (draft?.id === id) edit(null);
+    } catch (e: any) {
+      setError(String(e?.message || e));
+    }
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.heading}>Server</Text>
+
+      {profiles.map((p) => {
+        const active = p.id === activeId;
+        const mock = p.kind === "mock";
+        return (
+          <TouchableOpacity
+            key={p.id}
+            style={[styles.row, active && styles.rowActive]}
+            onPress={() => setActiveProfile(p.id)}
+          >
+            <Ionicons
+              name={active ? "radio-button-on" : "radio-button-off"}
+              size={18}
+              color={active ? "#47538b" : "#94a3b8"}
+            />
+            <View style={{ flex: 1 }}>
+              <Text style={styles.rowName}>{p.name}</Text>
+              <Text style={styles.rowUrl}>
+                {mock
+                  ? `No network · sign in as admin, operator1, biller1 or reader1 (password "${mockBackend?.MOCK_PASSWORD}"), reader device serial MOCK-0001`
+                  : `${p.baseUrl}${p.version ? ` · API ${p.version}` : ""}`}
+              </Text>
+            </View>
+            {mock ? (
+              <TouchableOpacity
+                style={styles.iconBtn}
+                onPress={() => mockBackend?.resetMockBackend()}
+              >
+                <Ionicons name="refresh-outline" size={18} color="#334155" />
+              </TouchableOpacity>
+            ) : (
+              <>
+                <TouchableOpacity
+                  style={styles.iconBtn}
+                  onPress={() => edit({ id: p.id, name: p.name, baseUrl: p.baseUrl })}
+                >
+                  <Ionicons name="create-outline" size={18} color="#334155" />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconBtn} onPress={() => remove(p.id)}>
+                  <Ionicons name="trash-outline" size={18} color="#b91c1c" />
+                </TouchableOpacity>
+              </>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+
+      {draft ? (
+        <View style={styles.form}>
+          <TextInput
+            style={styles.input}
+            placeholder="Name (e.g. Site B test)"
+            value={draft.name}
+            onChangeText={(name) => setDraft({ ...draft, name })}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="http://192.168.1.10:3000"
+            value={draft.baseUrl}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            onChangeText={(baseUrl) => setDraft({ ...draft, baseUrl })}
+          />
+
+          {check && check.url === draftUrl ? (
+            <Text style={[styles.check, !check.ok && styles.checkFailed]}>
+              {describeCheck(check)}
+            </Text>
+          ) : null}
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.btn, styles.btnGhost]}
+              onPress={() => edit(null)}
+              disabled={busy}
+            >
+              <Text style={[styles.btnText, styles.btnTextGhost]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.btn, styles.btnGhost]}
+              onPress={runCheck}
+              disabled={busy}
+            >
+              <Text style={[styles.btnText, styles.btnTextGhost]}>Test</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.btn, failedForDraft && styles.btnDanger]}
+              onPress={save}
+              disabled={busy}
+            >
+              {busy ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.btnText}>
+                  {failedForDraft ? "Save anyway" : "Save server"}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity
+          style={styles.addBtn}
+          onPress={() => edit({ name: "", baseUrl: "" })}
+        >
+          <Ionicons name="add" size={16} color="#47538b" />
+          <Text style={styles.addText}>Add server</Text>
+        </TouchableOpacity>
+      )}
+
+      {error ? <Text style={styles.error}>{error}</Text> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    borderTopWidth: 1,
+    borderTopColor: "#e5e7eb",
+    marginTop: 14,
+    paddingTop: 12,
+  },
+  heading: {
+    fontSize: 14,
+    fontWeight: "800",
+    color: "#0f172a",
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    borderRadius: 10,
+  },
+  rowActive: { backgroundColor: "#eef2ff" },
+  rowName: { fontWeight: "700", color: "#0f172a" },
+  rowUrl: { fontSize: 12, color: "#64748b", marginTop: 2 },
+  iconBtn: { padding: 4 },
+  form: { marginTop: 8 },
+  input: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 10,
+  },
+  check: { color: "#047857", marginBottom: 8, fontWeight: "600" },
+  checkFailed: { color: "#b91c1c" },
+  actions: {
+    flexDirection: "row",
+    gap: 10,
+    justifyContent: "flex-end",
+    flexWrap: "wrap",
+  },
+  btn: {
+    backgroundColor: "#47538b",
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  btnDanger: { backgroundColor: "#b91c1c" },
+  btnGhost: { backgroundColor: "#e5e7eb" },
+  btnText: { color: "#fff", fontWeight: "800" },
+  btnTextGhost: { color: "#111827" },
+  addBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginTop: 6,
+    alignSelf: "flex-start",
+    paddingVertical: 6,
+  },
+  addText: { color: "#47538b", fontWeight: "700" },
+  error: { color: "#b91c1c", marginTop: 8 },
+});
@@ -0,0 +1,267 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { router } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { useAuth } from "../contexts/AuthContext";
+import { createApi } from "../services/api";
+
+/** Start the countdown banner this long before the token expires. */
+const WARN_BEFORE_MS = 5 * 60 * 1000;
+
+const mmss = (ms: number) => {
+  const s = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+};
+
+/**
+ * Session expiry UI: a countdown banner shortly before the token expires, and
+ * the re-login sheet opened by AuthContext when it does (or when any request
+ * comes back 401). The screen underneath stays mounted, so nothing typed into
+ * an open modal is lost; the failed request is retried after sign-in.
+ */
+export default function SessionGuard() {
+  const {
+    isLoggedIn,
+    expiresAt,
+    user,
+    sessionExpired,
+    reauthOpen,
+    requestReauth,
+    reauthenticate,
+    dismissReauth,
+    logout,
+  } = useAuth();
+
+  const [now, setNow] = useState(() => Date.now());
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const api = useMemo(() => createApi(null), []);
+  const remaining = expiresAt ? expiresAt - now : Infinity;
+  const warning =
+    isLoggedIn && !sessionExpired && remaining > 0 && remaining <= WARN_BEFORE_MS;
+
+  // tick every second inside the warning window, otherwise wake up when it starts
+  useEffect(() => {
+    if (!isLoggedIn || !expiresAt) return;
+    const untilWarn = expiresAt - WARN_BEFORE_MS - Date.now();
+    if (untilWarn > 0) {
+      const t = setTimeout(() => setNow(Date.now()), untilWarn);
+      return () => clearTimeout(t);
+    }
+    const i = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(i);
+  }, [isLoggedIn, expiresAt]);
+
+  useEffect(() => {
+    if (!reauthOpen) {
+      setPassword("");
+      setError("");
+    }
+  }, [reauthOpen]);
+
+  if (!isLoggedIn) return null;
+
+  const submit = async () => {
+    if (!user?.user_id || !password) {
+      setError("Please enter your password.");
+      return;
+    }
+    setBusy(true);
+    setError("");
+    try {
+      const data = await api.auth.login(user.user_id, password);
+      const token = data?.token ?? data?.data?.token ?? null;
+      if (!token) throw new Error("Logged in but no token returned by server.");
+      await reauthenticate(token);
+    } catch (err: any) {
+      setError(
+        String(
+          err?.response?.data?.error ||
+            err?.response?.data?.message ||
+            err?.message ||
+            "Network/server error. Please try again.",
+        ),
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const signOut = async () => {
+    await logout();
+    router.replace("/(auth)/login");
+  };
+
+  return (
+    <>
+      {warning ? (
+        <View style={styles.banner}>
+          <Ionicons name="time-outline" size={16} color="#92400e" />
+          <Text style={styles.bannerText}>
+            Your session expires in {mmss(remaining)}. Sign in again to keep
+            working.
+          </Text>
+          <TouchableOpacity style={styles.bannerBtn} onPress={() => requestReauth()}>
+            <Text style={styles.bannerBtnText}>Sign in again</Text>
+          </TouchableOpacity>
+        </View>
+      ) : null}
+
+      <Modal visible={reauthOpen} transparent animationType="fade" onRequestClose={dismissReauth}>
+        <KeyboardAvoidingView
+          style={styles.overlay}
+          behavior={Platform.select({ ios: "padding", android: undefined })}
+        >
+          <View style={styles.card}>
+            <Text style={styles.title}>
+              {sessionExpired ? "Session expired" : "Sign in again"}
+            </Text>
+            <Text style={styles.body}>
+              Enter your password to continue. Anything you were editing is
+              kept, and the action that failed will be retried.
+            </Text>
+
+            <Text style={styles.label}>Username</Text>
+            <View style={[styles.input, styles.inputLocked]}>
+              <Text style={styles.lockedText}>{user?.user_id || "—"}</Text>
+            </View>
+
+            <Text style={styles.label}>Password</Text>
+            <TextInput
+              style={styles.input}
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry
+              autoFocus
+              autoCapitalize="none"
+              autoCorrect={false}
+              returnKeyType="go"
+              onSubmitEditing={submit}
+            />
+
+            {error ? <Text style={styles.error}>{error}</Text> : null}
+
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={[styles.btn, styles.btnGhost]}
+                onPress={signOut}
+                disabled={busy}
+              >
+                <Text style={styles.btnGhostText}>Sign out</Text>
+              </TouchableOpacity>
+              {!sessionExpired ? (
+                <TouchableOpacity
+                  style={[styles.btn, styles.btnGhost]}
+                  onPress={dismissReauth}
+                  disabled={busy}
+                >
+                  <Text style={styles.btnGhostText}>Later</Text>
+                </TouchableOpacity>
+              ) : null}
+              <TouchableOpacity style={styles.btn} onPress={submit} disabled={busy}>
+                {busy ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.btnText}>Sign in</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    position: "absolute",
+    top: Platform.OS === "web" ? 12 : 48,
+    left: 12,
+    right: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#fef3c7",
+    borderColor: "#fcd34d",
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  bannerText: { flex: 1, color: "#92400e", fontSize: 13 },
+  bannerBtn: {
+    backgroundColor: "#d97706",
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  bannerBtnText: { color: "#fff", fontWeight: "700", fontSize: 12 },
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.35)",
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 16,
+  },
+  card: {
+    width: "100%",
+    maxWidth: 420,
+    backgroundColor: "#fff",
+    borderRadius: 10,
+    padding: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#102a43",
+    marginBottom: 8,
+  },
+  body: {
+    fontSize: 14,
+    color: "#334e68",
+    lineHeight: 20,
+    marginBottom: 14,
+  },
+  label: { fontSize: 12, color: "#6b7b8a", marginBottom: 4 },
+  input: {
+    borderWidth: 1,
+    borderColor: "#e6ebf2",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    marginBottom: 10,
+    color: "#102a43",
+  },
+  inputLocked: { backgroundColor: "#f6f8fb" },
+  lockedText: { color: "#3c4c5d" },
+  error: { color: "#b91c1c", marginBottom: 10 },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+  },
+  btn: {
+    backgroundColor: "#007bff",
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 6,
+    marginLeft: 10,
+    minWidth: 72,
+    alignItems: "center",
+  },
+  btnText: { color: "#fff", fontWeight: "700" },
+  btnGhost: { backgroundColor: "#e6efff" },
+  btnGhostText: { color: "#1f3a8a", fontWeight: "700" },
+});
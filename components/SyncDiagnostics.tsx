@@ -0,0 +1,293 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { errorText } from "../services/apiError";
+import type { SyncAttempt } from "../services/localStore";
+import {
+  SyncDiagnostics as Diagnostics,
+  clearSyncLog,
+  collectSyncDiagnostics,
+  subscribeSyncLog,
+  syncReportFileName,
+} from "../services/syncLog";
+import { saveTransferFile } from "../services/transferFile";
+
+function notify(title: string, message?: string) {
+  if (Platform.OS === "web" && typeof window !== "undefined" && (window as any).alert) {
+    (window as any).alert(message ? `${title}\n\n${message}` : title);
+  } else {
+    Alert.alert(title, message);
+  }
+}
+
+const KIND_LABELS: Record<SyncAttempt["kind"], string> = {
+  resolve: "Device resolve",
+  import: "Package import",
+  refresh: "Package refresh",
+  export: "Export",
+  file_save: "Readings to file",
+  file_load: "Package from file",
+};
+
+const bytes = (n: number | null) => {
+  if (n == null) return "–";
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${(n / 1048576).toFixed(1)} MB`;
+};
+
+const age = (ms: number | null) => {
+  if (ms == null) return "unknown";
+  const h = Math.floor(ms / 3600000);
+  if (h >= 48) return `${Math.floor(h / 24)} days`;
+  if (h >= 1) return `${h} h`;
+  return `${Math.max(0, Math.floor(ms / 60000))} min`;
+};
+
+const details = (a: SyncAttempt) =>
+  [
+    a.status != null ? `HTTP ${a.status}` : a.kind.startsWith("file_") ? "file" : "no response",
+    `sent ${bytes(a.request_bytes)}`,
+    `received ${bytes(a.response_bytes)}`,
+    a.readings != null ? `${a.readings} reading(s)` : "",
+    `${a.duration_ms} ms`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+const when = (iso: string | null | undefined) => {
+  const t = Date.parse(String(iso ?? ""));
+  return Number.isFinite(t) ? new Date(t).toLocaleString() : "–";
+};
+
+const Row = ({ label, value, tone }: { label: string; value: string; tone?: "bad" | "warn" }) => (
+  <View style={styles.kv}>
+    <Text style={styles.kvLabel}>{label}</Text>
+    <Text
+      style={[styles.kvValue, tone === "bad" && styles.bad, tone === "warn" && styles.warn]}
+    >
+      {value}
+    </Text>
+  </View>
+);
+
+/**
+ * Everything support asks about when a reader says "sync failed": the
+ * device serial and token binding, the age of the offline package, the
+ * queue, and each import and export attempt with its result. The report can
+ * be saved as a file and sent on, without handing over the phone.
+ */
+export default function SyncDiagnostics({
+  visible,
+  onClose,
+}: {
+  visible: boolean;
+  onClose: () => void;
+}) {
+  const [report, setReport] = useState<Diagnostics | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setReport(await collectSyncDiagnostics());
+    } catch (e) {
+      notify("Could not read the sync log", errorText(e));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!visible) return;
+    load();
+    return subscribeSyncLog(load);
+  }, [visible, load]);
+
+  const saveReport = async () => {
+    try {
+      setBusy(true);
+      const fresh = await collectSyncDiagnostics();
+      setReport(fresh);
+      await saveTransferFile(
+        syncReportFileName(fresh.device.serial),
+        JSON.stringify(fresh, null, 2),
+      );
+    } catch (e) {
+      notify("Could not save the report", errorText(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const pkg = report?.package;
+  const bindingTone =
+    report?.binding.status === "bound"
+      ? undefined
+      : report?.binding.status === "locked"
+        ? "warn"
+        : "bad";
+  const packageTone =
+    pkg && ["expired", "tampered", "unverified", "wrong_device"].includes(pkg.check)
+      ? "bad"
+      : pkg && pkg.check !== "ok"
+        ? "warn"
+        : undefined;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Sync diagnostics</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={20} color="#102a43" />
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.subtitle}>
+            Save the report and send it to support when imports or exports fail.
+          </Text>
+
+          {!report ? (
+            <ActivityIndicator style={{ marginVertical: 24 }} />
+          ) : (
+            <ScrollView style={{ maxHeight: 460 }}>
+              <Text style={styles.section}>Device</Text>
+              <Row label="Serial" value={report.device.serial || "not set"} />
+              <Row label="Name" value={report.device.name || "–"} />
+              <Row label="Device token" value={report.device.token} />
+              <Row label="Binding" value={report.binding.message} tone={bindingTone} />
+
+              <Text style={styles.section}>Offline package</Text>
+              {pkg ? (
+                <>
+                  <Row label="Age" value={age(pkg.age_ms)} tone={packageTone} />
+                  <Row label="Generated" value={when(pkg.generated_at)} />
+                  <Row label="Expires" value={pkg.expires_at ? when(pkg.expires_at) : "–"} />
+                  <Row label="Meters" value={String(pkg.items)} />
+                  <Row label="For serial" value={pkg.device_serial || "–"} />
+                  <Row
+                    label="Check"
+                    value={pkg.message ? `${pkg.check}: ${pkg.message}` : pkg.check}
+                    tone={packageTone}
+                  />
+                </>
+              ) : (
+                <Text style={styles.muted}>
+                  {report.package_locked
+                    ? "Sealed until a reader signs in again."
+                    : "No package on this device."}
+                </Text>
+              )}
+
+              <Text style={styles.section}>Queue</Text>
+              {report.queue ? (
+                <Text style={styles.muted}>
+                  {report.queue.pending} pending · {report.queue.failed} failed ·{" "}
+                  {report.queue.rejected} rejected · {report.queue.synced} synced
+                </Text>
+              ) : (
+                <Text style={styles.muted}>Sealed until a reader signs in again.</Text>
+              )}
+
+              <Text style={styles.section}>Attempts ({report.attempts.length})</Text>
+              {!report.attempts.length ? (
+                <Text style={styles.muted}>No sync attempts recorded yet.</Text>
+              ) : (
+                report.attempts.map((a) => (
+                  <View key={a.id} style={styles.row}>
+                    <Text style={[styles.rowTitle, !a.ok && styles.bad]}>
+                      {KIND_LABELS[a.kind]} · {a.ok ? "OK" : "failed"}
+                    </Text>
+                    <Text style={styles.rowMeta}>
+                      {when(a.at)} · {a.endpoint}
+                    </Text>
+                    <Text style={styles.rowMeta}>{details(a)}</Text>
+                    {a.error ? <Text style={styles.rowError}>{a.error}</Text> : null}
+                  </View>
+                ))
+              )}
+            </ScrollView>
+          )}
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.btn, styles.btnGhost]}
+              onPress={() => clearSyncLog().catch(() => {})}
+            >
+              <Text style={styles.btnGhostText}>Clear log</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.btn, busy && { opacity: 0.6 }]}
+              onPress={saveReport}
+              disabled={busy}
+            >
+              <Text style={styles.btnText}>Save report</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.35)",
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 16,
+  },
+  card: {
+    width: "100%",
+    maxWidth: 560,
+    backgroundColor: "#fff",
+    borderRadius: 10,
+    padding: 16,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  title: { fontSize: 18, fontWeight: "700", color: "#102a43" },
+  subtitle: { fontSize: 13, color: "#6b7b8a", marginTop: 4, marginBottom: 10 },
+  section: { fontSize: 13, fontWeight: "800", color: "#102a43", marginTop: 12, marginBottom: 4 },
+  kv: { flexDirection: "row", paddingVertical: 3, gap: 10 },
+  kvLabel: { width: 100, fontSize: 12, color: "#6b7b8a" },
+  kvValue: { flex: 1, fontSize: 12, color: "#102a43", fontWeight: "600" },
+  muted: { fontSize: 12, color: "#6b7b8a" },
+  bad: { color: "#b91c1c" },
+  warn: { color: "#b45309" },
+  row: {
+    borderTopWidth: 1,
+    borderTopColor: "#e6ebf2",
+    paddingVertical: 8,
+  },
+  rowTitle: { fontWeight: "700", color: "#102a43" },
+  rowMeta: { fontSize: 12, color: "#6b7b8a", marginTop: 2 },
+  rowError: { fontSize: 12, color: "#b91c1c", marginTop: 2 },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 12,
+  },
+  btn: {
+    backgroundColor: "#007bff",
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 6,
+    marginLeft: 10,
+  },
+  btnText: { color: "#fff", fontWeight: "700" },
+  btnGhost: { backgroundColor: "#e6efff" },
+  btnGhostText: { color: "#1f3a8a", fontWeight: "700" },
+});
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  StyleProp,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+  ViewStyle,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useScanHistory } from "../contexts/ScanHistoryContext";
+import { SyncStatus } from "../services/syncScheduler";
+import SyncDiagnostics from "./SyncDiagnostics";
+
+type Tone = { icon: keyof typeof Ionicons.glyphMap; color: string; bg: string; border: string };
+
+const TONES: Record<"ok" | "busy" | "warn" | "stop", Tone> = {
+  ok: { icon: "cloud-done-outline", color: "#047857", bg: "#ecfdf5", border: "#a7f3d0" },
+  busy: { icon: "cloud-upload-outline", color: "#1d4ed8", bg: "#eff6ff", border: "#bfdbfe" },
+  warn: { icon: "cloud-offline-outline", color: "#b45309", bg: "#fffbeb", border: "#fde68a" },
+  stop: { icon: "alert-circle-outline", color: "#b91c1c", bg: "#fef2f2", border: "#fecaca" },
+};
+
+const readings = (n: number) => `${n} reading${n === 1 ? "" : "s"}`;
+
+const inSeconds = (at: number | null, now: number) => {
+  if (!at) return "";
+  const s = Math.max(0, Math.round((at - now) / 1000));
+  return s >= 60 ? `${Math.ceil(s / 60)}m` : `${s}s`;
+};
+
+function describe(st: SyncStatus, now: number): { tone: Tone; text: string; action?: string } {
+  switch (st.phase) {
+    case "syncing":
+      return { tone: TONES.busy, text: `Uploading ${readings(st.outstanding)}…` };
+    case "queued":
+      return { tone: TONES.busy, text: `${readings(st.outstanding)} queued, uploading shortly` };
+    case "retrying":
+      return {
+        tone: TONES.warn,
+        text: `Upload failed (${st.lastError?.message ?? "unknown error"}). Retrying in ${inSeconds(st.nextAttemptAt, now)}`,
+        action: "Retry now",
+      };
+    case "offline":
+      return { tone: TONES.warn, text: `Offline · ${readings(st.outstanding)} waiting for connection` };
+    case "paused":
+      return {
+        tone: TONES.stop,
+        text: `Sync paused: ${st.lastError?.message ?? "not authorized"}`,
+        action: "Try again",
+      };
+    case "unavailable":
+      return {
+        tone: TONES.stop,
+        text: `${readings(st.outstanding)} not uploaded: this device is not registered as a reader`,
+      };
+    default:
+      return {
+        tone: TONES.ok,
+        text: st.lastSyncedAt
+          ? `All readings uploaded · ${new Date(st.lastSyncedAt).toLocaleTimeString()}`
+          : "All readings uploaded",
+      };
+  }
+}
+
+/**
+ * Persistent one-line status of the background upload of offline readings,
+ * with a retry action when it is waiting out a backoff or paused, and the
+ * sync diagnostics behind the info button.
+ */
+export default function SyncStatusIndicator({ style }: { style?: StyleProp<ViewStyle> }) {
+  const { syncStatus, syncNow } = useScanHistory();
+  const [now, setNow] = useState(() => Date.now());
+  const [diagnosticsOpen, setDiagnosticsOpen] = useState(false);
+
+  // tick only while a retry countdown is on screen
+  useEffect(() => {
+    if (syncStatus.phase !== "retrying") return;
+    setNow(Date.now());
+    const t = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(t);
+  }, [syncStatus.phase, syncStatus.nextAttemptAt]);
+
+  const { tone, text, action } = describe(syncStatus, now);
+
+  return (
+    <View style={[styles.bar, { backgroundColor: tone.bg, borderColor: tone.border }, style]}>
+      {syncStatus.phase === "syncing" ? (
+        <ActivityIndicator size="small" color={tone.color} />
+      ) : (
+        <Ionicons name={tone.icon} size={16} color={tone.color} />
+      )}
+      <Text style={[styles.text, { color: tone.color }]} numberOfLines={2}>
+        {text}
+      </Text>
+      {action ? (
+        <TouchableOpacity onPress={() => syncNow().catch(() => {})} hitSlop={8}>
+          <Text style={[styles.action, { color: tone.color }]}>{action}</Text>
+        </TouchableOpacity>
+      ) : null}
+      <TouchableOpacity
+        onPress={() => setDiagnosticsOpen(true)}
+        hitSlop={8}
+        accessibilityLabel="Sync diagnostics"
+      >
+        <Ionicons name="information-circle-outline" size={18} color={tone.color} />
+      </TouchableOpacity>
+      <SyncDiagnostics visible={diagnosticsOpen} onClose={() => setDiagnosticsOpen(false)} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  text: { flex: 1, fontSize: 12, fontWeight: "600" },
+  action: { fontSize: 12, fontWeight: "800", textDecorationLine: "underline" },
+});
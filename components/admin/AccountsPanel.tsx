@@ -15,10 +15,11 @@ import {
   useWindowDimensions,
   Dimensions,
 } from "react-native";
-import axios from "axios";
 import { Picker } from "@react-native-picker/picker";
 import { Ionicons } from "@expo/vector-icons";
-import { BASE_API } from "../../constants/api";
+import { Building, createApi, UserInput } from "../../services/api";
+import { showError } from "../../services/apiError";
+import HistoryButton from "./HistoryDrawer";
 
 type Role = "admin" | "operator" | "biller" | "reader";
 type Util = "electric" | "water" | "lpg";
@@ -80,17 +81,6 @@ function defaultAccessForRole(role: Role): AccessKey[] {
   ];
 }
 
-type UserRow = {
-  user_id: string;
-  user_fullname: string;
-  user_roles: Role[];
-  building_ids: string[];
-  utility_role: Util[];
-  access_modules?: string[];
-  last_updated?: string;
-  updated_by?: string;
-};
-
 type User = {
   user_id: string;
   user_fullname: string;
@@ -98,13 +88,8 @@ type User = {
   buildings: string[];
   utilities: Util[];
   access_modules: AccessKey[];
-  last_updated?: string;
-  updated_by?: string;
-};
-
-type Building = {
-  building_id: string;
-  building_name: string;
+  last_updated?: string | null;
+  updated_by?: string | null;
 };
 
 function notify(title: string, message?: string) {
@@ -119,18 +104,6 @@ function notify(title: string, message?: string) {
   }
 }
 
-function errorText(err: any, fallback = "Server error.") {
-  const d = err?.response?.data;
-  if (typeof d === "string") return d;
-  if (d?.error) return String(d.error);
-  if (d?.message) return String(d.message);
-  if (err?.message) return String(err.message);
-  try {
-    return JSON.stringify(d ?? err);
-  } catch {
-    return fallback;
-  }
-}
 
 const cmp = (a: string | number, b: string | number) =>
   String(a ?? "").localeCompare(String(b ?? ""), undefined, {
@@ -138,7 +111,7 @@ const cmp = (a: string | number, b: string | number) =>
     sensitivity: "base",
   });
 
-const dateOf = (s?: string) => (s ? Date.parse(s) || 0 : 0);
+const dateOf = (s?: string | null) => (s ? Date.parse(s) || 0 : 0);
 
 const Chip = ({
   label,
@@ -248,16 +221,7 @@ export default function AccountsPanel({ token }: { token: string | null }) {
     defaultAccessForRole("operator")
   );
 
-  const authHeader = useMemo(
-    () => ({ Authorization: `Bearer ${token ?? ""}` }),
-    [token]
-  );
-
-  const api = useMemo(
-    () =>
-      axios.create({ baseURL: BASE_API, headers: authHeader, timeout: 15000 }),
-    [authHeader]
-  );
+  const api = useMemo(() => createApi(token), [token]);
 
   const loadAll = async () => {
     if (!token) {
@@ -269,12 +233,12 @@ export default function AccountsPanel({ token }: { token: string | null }) {
     try {
       setBusy(true);
 
-      const [uRes, bRes] = await Promise.all([
-        api.get<UserRow[]>("/users"),
-        api.get<Building[]>("/buildings"),
+      const [userRows, buildingRows] = await Promise.all([
+        api.users.list(),
+        api.buildings.list(),
       ]);
 
-      const normalized: User[] = (uRes.data || []).map((u) => {
+      const normalized: User[] = (userRows || []).map((u) => {
         const role = (
           Array.isArray(u.user_roles) && u.user_roles.length
             ? u.user_roles[0]
@@ -307,10 +271,10 @@ export default function AccountsPanel({ token }: { token: string | null }) {
       });
 
       setUsers(normalized);
-      setBuildings(bRes.data || []);
+      setBuildings(buildingRows || []);
 
-      if (!c_buildingId && (bRes.data?.length ?? 0) > 0) {
-        setC_buildingId(bRes.data[0].building_id);
+      if (!c_buildingId && (buildingRows?.length ?? 0) > 0) {
+        setC_buildingId(buildingRows[0].building_id);
       }
 
       if (c_role !== "admin") {
@@ -319,7 +283,7 @@ export default function AccountsPanel({ token }: { token: string | null }) {
         );
       }
     } catch (err: any) {
-      notify("Load failed", errorText(err, "Connection error."));
+      showError("Load failed", err, "Connection error.");
     } finally {
       setBusy(false);
     }
@@ -432,7 +396,7 @@ export default function AccountsPanel({ token }: { token: string | null }) {
     try {
       setSubmitting(true);
 
-      const body: any = {
+      const body: UserInput = {
         user_fullname: fullname,
         user_password: c_password,
         user_roles: [c_role],
@@ -441,7 +405,7 @@ export default function AccountsPanel({ token }: { token: string | null }) {
         access_modules: c_role === "admin" ? [] : accessFinal,
       };
 
-      await api.post("/users", body);
+      await api.users.create(body);
 
       setCreateVisible(false);
       setC_fullname("");
@@ -453,7 +417,7 @@ export default function AccountsPanel({ token }: { token: string | null }) {
       await loadAll();
       notify("Success", "Account created.");
     } catch (err: any) {
-      notify("Create failed", errorText(err));
+      showError("Create failed", err);
     } finally {
       setSubmitting(false);
     }
@@ -496,7 +460,7 @@ export default function AccountsPanel({ token }: { token: string | null }) {
     try {
       setSubmitting(true);
 
-      const body: any = {
+      const body: UserInput = {
         user_fullname: e_fullname,
         user_roles: [e_role],
         building_ids: e_role === "admin" ? [] : [e_buildingId],
@@ -506,13 +470,13 @@ export default function AccountsPanel({ token }: { token: string | null }) {
 
       if (e_password.trim()) body.user_password = e_password.trim();
 
-      await api.put(`/users/${encodeURIComponent(editUser.user_id)}`, body);
+      await api.users.update(editUser.user_id, body);
 
       setEditVisible(false);
       await loadAll();
       notify("Updated", "Account updated successfully.");
     } catch (err: any) {
-      notify("Update failed", errorText(err));
+      showError("Update failed", err);
     } finally {
       setSubmitting(false);
     }
@@ -551,11 +515,11 @@ export default function AccountsPanel({ token }: { token: string | null }) {
     async function doDelete() {
       try {
         setSubmitting(true);
-        await api.delete(`/users/${encodeURIComponent(u.user_id)}`);
+        await api.users.remove(u.user_id);
         await loadAll();
         notify("Deleted", "Account deleted.");
       } catch (err: any) {
-        notify("Delete failed", errorText(err));
+        showError("Delete failed", err);
       } finally {
         setSubmitting(false);
       }
@@ -709,6 +673,7 @@ export default function AccountsPanel({ token }: { token: string | null }) {
                         {item.updated_by ? `• by ${item.updated_by}` : ""}
                       </Text>
                     ) : null}
+                    <HistoryButton entity="users" id={item.user_id} title={item.user_fullname} />
                   </View>
 
                   {isMobile ? (
@@ -15,27 +15,11 @@ import {
   Dimensions,
   useWindowDimensions,
 } from "react-native";
-import axios from "axios";
 import { Picker } from "@react-native-picker/picker";
 import { Ionicons } from "@expo/vector-icons";
-import { BASE_API } from "../../constants/api";
-
-type Building = { building_id: string; building_name: string };
-type Tenant = {
-  tenant_id: string;
-  tenant_name: string;
-  building_id: string;
-  tenant_status: "active" | "inactive" | string;
-};
-type Stall = {
-  stall_id: string;
-  stall_sn: string;
-  building_id: string;
-  tenant_id: string | null;
-  stall_status: "available" | "occupied" | "under maintenance" | string;
-  last_updated?: string;
-  updated_by?: string;
-};
+import { Building, createApi, Stall, Tenant } from "../../services/api";
+import { showError } from "../../services/apiError";
+import { readReference } from "../../services/refCache";
 
 function notify(title: string, message?: string) {
   if (Platform.OS === "web" && typeof window !== "undefined" && window.alert) {
@@ -45,18 +29,6 @@ function notify(title: string, message?: string) {
   }
 }
 
-function errorText(err: any, fallback = "Server error.") {
-  const d = err?.response?.data;
-  if (typeof d === "string") return d;
-  if (d?.error) return String(d.error);
-  if (d?.message) return String(d.message);
-  if (err?.message) return String(err.message);
-  try {
-    return JSON.stringify(d ?? err);
-  } catch {
-    return fallback;
-  }
-}
 
 const cmp = (a: string | number, b: string | number) =>
   String(a ?? "").localeCompare(String(b ?? ""), undefined, {
@@ -68,16 +40,7 @@ export default function AssignTenantPanel({ token }: { token: string | null }) {
   const { width } = useWindowDimensions();
   const isMobile = width < 640;
 
-  const authHeader = useMemo(
-    () => ({ Authorization: `Bearer ${token ?? ""}` }),
-    [token],
-  );
-
-  const api = useMemo(
-    () =>
-      axios.create({ baseURL: BASE_API, headers: authHeader, timeout: 15000 }),
-    [authHeader],
-  );
+  const api = useMemo(() => createApi(token), [token]);
 
   const [busy, setBusy] = useState(true);
   const [submitting, setSubmitting] = useState(false);
@@ -101,23 +64,21 @@ export default function AssignTenantPanel({ token }: { token: string | null }) {
       try {
         setBusy(true);
         const [bRes, sRes, tRes] = await Promise.all([
-          api
-            .get<Building[]>("/buildings")
-            .catch(() => ({ data: [] as Building[] })),
-          api.get<Stall[]>("/stalls"),
-          api.get<Tenant[]>("/tenants"),
+          readReference(api, "buildings", setBuildings).catch(() => [] as Building[]),
+          readReference(api, "stalls", setStalls),
+          readReference(api, "tenants", setTenants),
         ]);
 
-        const b = bRes.data || [];
-        const s = sRes.data || [];
-        const t = tRes.data || [];
+        const b = bRes || [];
+        const s = sRes || [];
+        const t = tRes || [];
 
         setBuildings(b);
         setStalls(s);
         setTenants(t);
 
       } catch (err) {
-        notify("Load failed", errorText(err, "Connection error."));
+        showError("Load failed", err, "Connection error.");
       } finally {
         setBusy(false);
       }
@@ -167,7 +128,7 @@ export default function AssignTenantPanel({ token }: { token: string | null }) {
     try {
       setSubmitting(true);
 
-      await api.put(`/stalls/${encodeURIComponent(assignStall.stall_id)}`, {
+      await api.stalls.update(assignStall.stall_id, {
         stall_sn: assignStall.stall_sn,
         building_id: assignStall.building_id,
         stall_status: "occupied",
@@ -179,13 +140,12 @@ export default function AssignTenantPanel({ token }: { token: string | null }) {
       setAssignTenantId("");
 
       setBusy(true);
-      const sRes = await api.get<Stall[]>("/stalls");
-      setStalls(sRes.data || []);
+      setStalls((await api.stalls.list()) || []);
       setBusy(false);
 
       notify("Success", "Tenant assigned to stall.");
     } catch (err) {
-      notify("Assign failed", errorText(err));
+      showError("Assign failed", err);
     } finally {
       setSubmitting(false);
     }
@@ -14,26 +14,15 @@ import {
   ScrollView,
   useWindowDimensions,
 } from "react-native";
-import axios from "axios";
 import { Ionicons } from "@expo/vector-icons";
-import { BASE_API } from "../../constants/api";
+import { Building, BuildingInput, createApi } from "../../services/api";
+import { showError } from "../../services/apiError";
+import { EditConflict, staleConflict } from "../../services/editConflict";
+import ConflictDialog from "./ConflictDialog";
+import HistoryButton from "./HistoryDrawer";
 
 type Props = { token: string | null };
 
-type Building = {
-  building_id: string;
-  building_name: string;
-  erate_perKwH?: number | null;
-  emin_con?: number | null;
-  wrate_perCbM?: number | null;
-  wmin_con?: number | null;
-  lrate_perKg?: number | null;
-  markup_rate?: number | null;
-  penalty_rate?: number | null;
-  last_updated?: string | null;
-  updated_by?: string | null;
-};
-
 type SortMode =
   | "newest"
   | "oldest"
@@ -63,18 +52,6 @@ function notify(title: string, message?: string) {
   }
 }
 
-function errorText(err: any, fallback = "Server error.") {
-  const d = err?.response?.data;
-  if (typeof d === "string") return d;
-  if (d?.error) return String(d.error);
-  if (d?.message) return String(d.message);
-  if (err?.message) return String(err.message);
-  try {
-    return JSON.stringify(d ?? err);
-  } catch {
-    return fallback;
-  }
-}
 
 const Chip = ({
   label,
@@ -122,6 +99,9 @@ export default function BuildingPanel({ token }: Props) {
   const [c_penalty, setC_penalty] = useState("");
   const [editVisible, setEditVisible] = useState(false);
   const [editRow, setEditRow] = useState<Building | null>(null);
+  const [conflict, setConflict] = useState<EditConflict<Building, BuildingInput> | null>(
+    null,
+  );
   const [e_name, setE_name] = useState("");
   const [e_eRate, setE_eRate] = useState("");
   const [e_eMin, setE_eMin] = useState("");
@@ -131,21 +111,7 @@ export default function BuildingPanel({ token }: Props) {
   const [e_markup, setE_markup] = useState("");
   const [e_penalty, setE_penalty] = useState("");
 
-  const authHeader = useMemo(
-    () => ({ Authorization: `Bearer ${token ?? ""}` }),
-    [token],
-  );
-  const api = useMemo(
-    () =>
-      axios.create({
-        baseURL: BASE_API,
-        headers: authHeader,
-        timeout: 15000,
-      }),
-    [authHeader],
-  );
-
-  const basePath = "/buildings";
+  const api = useMemo(() => createApi(token), [token]);
 
   useEffect(() => {
     loadAll();
@@ -159,10 +125,9 @@ export default function BuildingPanel({ token }: Props) {
     }
     try {
       setBusy(true);
-      const res = await api.get<Building[]>(basePath);
-      setRows(res.data || []);
+      setRows((await api.buildings.list()) || []);
     } catch (err) {
-      notify("Load failed", errorText(err, "Could not load buildings."));
+      showError("Load failed", err, "Could not load buildings.");
     } finally {
       setBusy(false);
     }
@@ -241,7 +206,7 @@ export default function BuildingPanel({ token }: Props) {
     }
     try {
       setSubmitting(true);
-      await api.post(basePath, {
+      await api.buildings.create({
         building_name,
         erate_perKwH: toNumOrNull(c_eRate),
         emin_con: toNumOrNull(c_eMin),
@@ -263,7 +228,7 @@ export default function BuildingPanel({ token }: Props) {
       await loadAll();
       notify("Success", "Building created.");
     } catch (err) {
-      notify("Create failed", errorText(err));
+      showError("Create failed", err);
     } finally {
       setSubmitting(false);
     }
@@ -279,19 +244,42 @@ export default function BuildingPanel({ token }: Props) {
     setE_lRate(row.lrate_perKg != null ? String(row.lrate_perKg) : "");
     setE_markup(row.markup_rate != null ? String(row.markup_rate) : "");
     setE_penalty(row.penalty_rate != null ? String(row.penalty_rate) : "");
+    setConflict(null);
     setEditVisible(true);
   };
 
-  const onUpdate = async () => {
+  // sent with the last_updated it is based on, so a save made meanwhile by
+  // someone else comes back as a conflict instead of being overwritten
+  const writeBuilding = async (body: BuildingInput, lastUpdated?: string | null) => {
+    if (!editRow) return;
+    const original = editRow;
+    try {
+      setSubmitting(true);
+      await api.buildings.update(original.building_id, body, lastUpdated);
+      setConflict(null);
+      setEditVisible(false);
+      await loadAll();
+      notify("Updated", "Building updated.");
+    } catch (err) {
+      const stale = await staleConflict(err, original, body, async () =>
+        (await api.buildings.list()).find((b) => b.building_id === original.building_id),
+      );
+      setConflict(stale);
+      if (!stale) showError("Update failed", err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const onUpdate = () => {
     if (!editRow) return;
     const building_name = e_name.trim();
     if (!building_name) {
       notify("Missing info", "Please enter a building name.");
       return;
     }
-    try {
-      setSubmitting(true);
-      await api.put(`${basePath}/${encodeURIComponent(editRow.building_id)}`, {
+    writeBuilding(
+      {
         building_name,
         erate_perKwH: toNumOrNull(e_eRate),
         emin_con: toNumOrNull(e_eMin),
@@ -300,26 +288,20 @@ export default function BuildingPanel({ token }: Props) {
         lrate_perKg: toNumOrNull(e_lRate),
         markup_rate: toNumOrNull(e_markup),
         penalty_rate: toNumOrNull(e_penalty),
-      });
-      setEditVisible(false);
-      await loadAll();
-      notify("Updated", "Building updated.");
-    } catch (err) {
-      notify("Update failed", errorText(err));
-    } finally {
-      setSubmitting(false);
-    }
+      },
+      editRow.last_updated,
+    );
   };
 
   const onDelete = (row: Building) => {
     const go = async () => {
       try {
         setSubmitting(true);
-        await api.delete(`${basePath}/${encodeURIComponent(row.building_id)}`);
+        await api.buildings.remove(row.building_id);
         await loadAll();
         notify("Deleted", "Building removed.");
       } catch (err) {
-        notify("Delete failed", errorText(err));
+        showError("Delete failed", err);
       } finally {
         setSubmitting(false);
       }
@@ -435,6 +417,7 @@ export default function BuildingPanel({ token }: Props) {
                         {item.updated_by ? `• by ${item.updated_by}` : ""}
                       </Text>
                     ) : null}
+                    <HistoryButton entity="buildings" id={item.building_id} title={item.building_name} />
                   </View>
                   {isMobile ? (
                     <View style={styles.rowActionsMobile}>
@@ -857,6 +840,16 @@ export default function BuildingPanel({ token }: Props) {
           </View>
         </KeyboardAvoidingView>
       </Modal>
+
+      <ConflictDialog
+        conflict={conflict}
+        title={editRow?.building_name || "Building"}
+        busy={submitting}
+        onCancel={() => setConflict(null)}
+        onResolve={(body) =>
+          conflict && writeBuilding(body, conflict.theirs.last_updated)
+        }
+      />
     </View>
   );
 }
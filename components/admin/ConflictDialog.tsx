@@ -0,0 +1,160 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import {
+  ConflictSide,
+  EditConflict,
+  conflictFields,
+  mergeConflict,
+} from "../../services/editConflict";
+import { Button, ModalSheet } from "../ui/ProUI";
+import { fmtWhen, labelFor, showValue } from "./HistoryDrawer";
+
+type Stamped = { last_updated?: string | null; updated_by?: string | null };
+
+function SideChoice({
+  label,
+  value,
+  active,
+  onPress,
+}: {
+  label: string;
+  value: unknown;
+  active: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <TouchableOpacity style={[styles.side, active && styles.sideActive]} onPress={onPress}>
+      <Text style={styles.sideLabel}>{label}</Text>
+      <Text style={[styles.sideValue, active && styles.sideValueActive]}>
+        {showValue(value)}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+/**
+ * Three-way compare for a save that lost a race: per field, the value the
+ * form was opened with, the other user's save and this user's edit. The user
+ * merges field by field or reapplies all of their values; either way the
+ * result is resent against the newer record.
+ */
+export default function ConflictDialog<T extends Stamped, B extends object>({
+  conflict,
+  title,
+  busy,
+  onResolve,
+  onCancel,
+}: {
+  conflict: EditConflict<T, B> | null;
+  title: string;
+  busy?: boolean;
+  onResolve: (body: B) => void;
+  onCancel: () => void;
+}) {
+  const fields = useMemo(() => (conflict ? conflictFields(conflict) : []), [conflict]);
+  const [picks, setPicks] = useState<Record<string, ConflictSide>>({});
+
+  useEffect(() => {
+    setPicks(Object.fromEntries(fields.map((f) => [f.field, f.pick])));
+  }, [fields]);
+
+  if (!conflict) return null;
+  const { theirs } = conflict;
+  const clashes = fields.filter((f) => f.clash).length;
+
+  const pick = (field: string, side: ConflictSide) =>
+    setPicks((p) => ({ ...p, [field]: side }));
+
+  return (
+    <ModalSheet
+      visible
+      title={`Edit conflict • ${title}`}
+      onClose={onCancel}
+      footer={
+        <>
+          <Button variant="ghost" onPress={onCancel} disabled={busy}>
+            Keep editing
+          </Button>
+          <Button
+            variant="ghost"
+            icon="arrow-redo-outline"
+            onPress={() => onResolve(conflict.mine)}
+            disabled={busy}
+          >
+            Reapply mine
+          </Button>
+          <Button
+            icon="git-merge-outline"
+            onPress={() => onResolve(mergeConflict(conflict, picks))}
+            disabled={busy}
+          >
+            Save merge
+          </Button>
+        </>
+      }
+    >
+      <Text style={styles.lead}>
+        {theirs.updated_by || "Someone else"} saved this record
+        {theirs.last_updated ? ` at ${fmtWhen(theirs.last_updated)}` : ""} while you
+        were editing it.{" "}
+        {clashes
+          ? `${clashes} field${clashes === 1 ? "" : "s"} changed on both sides; pick which value to keep.`
+          : "None of your changes overlap; saving the merge keeps both."}
+      </Text>
+
+      <ScrollView style={{ maxHeight: 420 }}>
+        {fields.map((f) => (
+          <View key={f.field} style={[styles.field, f.clash && styles.fieldClash]}>
+            <Text style={styles.fieldLabel}>
+              {labelFor(f.field)}
+              {f.clash ? <Text style={styles.clashTag}> · changed by both</Text> : null}
+            </Text>
+            <Text style={styles.original}>Original: {showValue(f.original)}</Text>
+            <View style={styles.sides}>
+              <SideChoice
+                label="Theirs"
+                value={f.theirs}
+                active={picks[f.field] === "theirs"}
+                onPress={() => pick(f.field, "theirs")}
+              />
+              <SideChoice
+                label="Yours"
+                value={f.mine}
+                active={picks[f.field] === "mine"}
+                onPress={() => pick(f.field, "mine")}
+              />
+            </View>
+          </View>
+        ))}
+      </ScrollView>
+    </ModalSheet>
+  );
+}
+
+const styles = StyleSheet.create({
+  lead: { color: "#334155", marginBottom: 12, lineHeight: 20 },
+  field: {
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+    borderRadius: 10,
+    padding: 10,
+    marginBottom: 8,
+  },
+  fieldClash: { borderColor: "#fcd34d", backgroundColor: "#fffbeb" },
+  fieldLabel: { fontWeight: "700", color: "#0f172a" },
+  clashTag: { color: "#b45309", fontWeight: "600", fontSize: 12 },
+  original: { color: "#64748b", fontSize: 12, marginTop: 2 },
+  sides: { flexDirection: "row", gap: 8, marginTop: 8 },
+  side: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#cbd5e1",
+    borderRadius: 8,
+    padding: 8,
+    backgroundColor: "#fff",
+  },
+  sideActive: { borderColor: "#2563eb", backgroundColor: "#eff6ff" },
+  sideLabel: { fontSize: 11, fontWeight: "700", color: "#64748b" },
+  sideValue: { color: "#334155", marginTop: 2 },
+  sideValueActive: { color: "#1e3a8a", fontWeight: "700" },
+});
@@ -0,0 +1,304 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleProp,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+  ViewStyle,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useAuth } from "../../contexts/AuthContext";
+import { useServerCapabilities } from "../../hooks/useServerCapabilities";
+import { AuditEntity, AuditEntry, createApi } from "../../services/api";
+import { ApiError, toApiError } from "../../services/apiError";
+import { supports } from "../../services/serverCapabilities";
+import ErrorBanner from "../ErrorBanner";
+
+const FIELD_LABELS: Record<string, string> = {
+  building_id: "Building",
+  building_name: "Building name",
+  erate_perKwH: "Electric rate (per kWh)",
+  emin_con: "Electric minimum",
+  wrate_perCbM: "Water rate (per cu.m)",
+  wmin_con: "Water minimum",
+  lrate_perKg: "LPG rate (per kg)",
+  markup_rate: "Markup rate",
+  penalty_rate: "Penalty rate",
+  stall_sn: "Stall number",
+  stall_status: "Stall status",
+  tenant_id: "Tenant",
+  tenant_sn: "Tenant ID",
+  tenant_name: "Tenant name",
+  tenant_status: "Tenant status",
+  vat_code: "VAT code",
+  wt_code: "Withholding code",
+  for_penalty: "For penalty",
+  stall_id: "Stall",
+  meter_type: "Meter type",
+  meter_sn: "Meter serial",
+  meter_mult: "Multiplier",
+  meter_status: "Meter status",
+  e_vat: "Electric VAT %",
+  w_vat: "Water VAT %",
+  l_vat: "LPG VAT %",
+  e_wt: "Electric WT %",
+  w_wt: "Water WT %",
+  l_wt: "LPG WT %",
+  user_fullname: "Full name",
+  user_roles: "Roles",
+  user_password: "Password",
+  building_ids: "Buildings",
+  utility_role: "Utilities",
+  access_modules: "Access modules",
+};
+
+/** Fields whose changes alter what a tenant is billed. */
+const BILLING_FIELDS = new Set([
+  "erate_perKwH",
+  "emin_con",
+  "wrate_perCbM",
+  "wmin_con",
+  "lrate_perKg",
+  "markup_rate",
+  "penalty_rate",
+  "tenant_id",
+  "vat_code",
+  "wt_code",
+  "for_penalty",
+  "meter_mult",
+  "e_vat",
+  "w_vat",
+  "l_vat",
+  "e_wt",
+  "w_wt",
+  "l_wt",
+]);
+
+export const labelFor = (field: string) =>
+  FIELD_LABELS[field] ??
+  field.replace(/_/g, " ").replace(/^./, (c) => c.toUpperCase());
+
+export const showValue = (v: unknown) => {
+  if (v === null || v === undefined || v === "") return "—";
+  if (typeof v === "boolean") return v ? "Yes" : "No";
+  if (Array.isArray(v)) return v.length ? v.join(", ") : "—";
+  if (typeof v === "object") return JSON.stringify(v);
+  return String(v);
+};
+
+export const fmtWhen = (iso: string) => {
+  const t = Date.parse(iso);
+  return Number.isFinite(t) ? new Date(t).toLocaleString() : iso;
+};
+
+const ACTION_LABEL: Record<string, string> = {
+  create: "Created",
+  update: "Changed",
+  delete: "Deleted",
+};
+
+/**
+ * Change history of one record: who changed which fields and when, with the
+ * value before and after. Opens from the right over the panel.
+ */
+export function HistoryDrawer({
+  visible,
+  onClose,
+  entity,
+  id,
+  title,
+}: {
+  visible: boolean;
+  onClose: () => void;
+  entity: AuditEntity;
+  id: string;
+  title: string;
+}) {
+  const { token } = useAuth();
+  const api = useMemo(() => createApi(token), [token]);
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    let alive = true;
+    setEntries(null);
+    setError(null);
+    api.audit
+      .history(entity, id)
+      .then((rows) => {
+        if (!alive) return;
+        // newest first, whatever order the server used
+        setEntries(
+          [...rows].sort((a, b) =>
+            String(b.changed_at).localeCompare(String(a.changed_at)),
+          ),
+        );
+      })
+      .catch((e) => alive && setError(toApiError(e, "Could not load history.")));
+    return () => {
+      alive = false;
+    };
+  }, [visible, api, entity, id]);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={styles.drawer}>
+          <View style={styles.header}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.title}>Change history</Text>
+              <Text style={styles.subtitle}>
+                {title} ({id})
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} hitSlop={8}>
+              <Ionicons name="close" size={22} color="#102a43" />
+            </TouchableOpacity>
+          </View>
+
+          <ErrorBanner error={error} style={{ marginBottom: 12 }} />
+
+          {!entries && !error ? (
+            <ActivityIndicator style={{ marginTop: 24 }} />
+          ) : entries && !entries.length ? (
+            <Text style={styles.empty}>No recorded changes for this record.</Text>
+          ) : (
+            <ScrollView style={{ flex: 1 }}>
+              {(entries ?? []).map((e) => (
+                <View key={String(e.audit_id)} style={styles.entry}>
+                  <View style={styles.entryHead}>
+                    <Text style={styles.entryAction}>
+                      {ACTION_LABEL[e.action] ?? e.action}
+                    </Text>
+                    <Text style={styles.entryMeta}>
+                      {fmtWhen(e.changed_at)}
+                      {e.changed_by ? ` · ${e.changed_by}` : ""}
+                    </Text>
+                  </View>
+                  {e.changes.map((c) => (
+                    <View key={c.field} style={styles.change}>
+                      <Text style={styles.field}>
+                        {labelFor(c.field)}
+                        {BILLING_FIELDS.has(c.field) ? (
+                          <Text style={styles.billingTag}> · affects billing</Text>
+                        ) : null}
+                      </Text>
+                      <Text style={styles.values}>
+                        {e.action === "create" ? (
+                          showValue(c.after)
+                        ) : e.action === "delete" ? (
+                          showValue(c.before)
+                        ) : (
+                          <>
+                            <Text style={styles.before}>{showValue(c.before)}</Text>
+                            {"  →  "}
+                            <Text style={styles.after}>{showValue(c.after)}</Text>
+                          </>
+                        )}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              ))}
+            </ScrollView>
+          )}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+/**
+ * Small "History" link for a panel row; opens the drawer. Renders nothing
+ * when the server keeps no change history.
+ */
+export default function HistoryButton({
+  entity,
+  id,
+  title,
+  style,
+}: {
+  entity: AuditEntity;
+  id: string;
+  title: string;
+  style?: StyleProp<ViewStyle>;
+}) {
+  const caps = useServerCapabilities();
+  const [open, setOpen] = useState(false);
+  if (!supports(caps, "audit")) return null;
+
+  return (
+    <>
+      <TouchableOpacity style={[styles.link, style]} onPress={() => setOpen(true)}>
+        <Ionicons name="time-outline" size={14} color="#475569" />
+        <Text style={styles.linkText}>History</Text>
+      </TouchableOpacity>
+      {open ? (
+        <HistoryDrawer
+          visible
+          onClose={() => setOpen(false)}
+          entity={entity}
+          id={id}
+          title={title}
+        />
+      ) : null}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(15, 23, 42, 0.35)",
+  },
+  drawer: {
+    width: "100%",
+    maxWidth: 440,
+    height: "100%",
+    backgroundColor: "#fff",
+    padding: 16,
+    paddingTop: 40,
+  },
+  header: { flexDirection: "row", alignItems: "flex-start", marginBottom: 12 },
+  title: { fontSize: 18, fontWeight: "800", color: "#102a43" },
+  subtitle: { color: "#64748b", marginTop: 2 },
+  empty: { color: "#64748b", marginTop: 24, textAlign: "center" },
+  entry: {
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 10,
+  },
+  entryHead: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    flexWrap: "wrap",
+    gap: 6,
+    marginBottom: 6,
+  },
+  entryAction: { fontWeight: "800", color: "#0f172a" },
+  entryMeta: { color: "#64748b", fontSize: 12 },
+  change: { paddingVertical: 4 },
+  field: { fontWeight: "700", color: "#334155", fontSize: 13 },
+  billingTag: { color: "#b45309", fontWeight: "600", fontSize: 12 },
+  values: { color: "#0f172a", marginTop: 2 },
+  before: { color: "#b91c1c", textDecorationLine: "line-through" },
+  after: { color: "#047857", fontWeight: "700" },
+  link: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    alignSelf: "flex-start",
+    marginTop: 6,
+  },
+  linkText: { color: "#475569", fontSize: 12, fontWeight: "700" },
+});
@@ -14,11 +14,19 @@ import {
   ScrollView,
   useWindowDimensions,
 } from "react-native";
-import axios from "axios";
 import { Picker } from "@react-native-picker/picker";
 import QRCode from "react-native-qrcode-svg";
 import { Ionicons } from "@expo/vector-icons";
-import { BASE_API } from "../../constants/api";
+import { Building, createApi, Meter, MeterInput, Stall } from "../../services/api";
+import {
+  FieldErrors,
+  reportFormError,
+  showError,
+  toApiError,
+} from "../../services/apiError";
+import { FieldError } from "../ErrorBanner";
+import HistoryButton from "./HistoryDrawer";
+import { readReference } from "../../services/refCache";
 
 function notify(title: string, message?: string) {
   if (
@@ -32,18 +40,6 @@ function notify(title: string, message?: string) {
   }
 }
 
-function errorText(err: any, fallback = "Server error.") {
-  const d = err?.response?.data;
-  if (typeof d === "string") return d;
-  if (d?.error) return String(d.error);
-  if (d?.message) return String(d.message);
-  if (err?.message) return String(err.message);
-  try {
-    return JSON.stringify(d ?? err);
-  } catch {
-    return fallback;
-  }
-}
 
 function confirm(title: string, message: string): Promise<boolean> {
   if (Platform.OS === "web" && typeof window !== "undefined") {
@@ -57,24 +53,18 @@ function confirm(title: string, message: string): Promise<boolean> {
   });
 }
 
-export type Meter = {
-  meter_id: string;
-  meter_type: "electric" | "water" | "lpg";
-  meter_sn: string;
-  meter_mult: number;
-  stall_id: string;
-  meter_status: "active" | "inactive";
-  last_updated?: string;
-  updated_by?: string;
-};
-
-export type Stall = {
-  stall_id: string;
-  stall_sn: string;
-  building_id?: string;
-};
-
-type Building = { building_id: string; building_name: string };
+/** Request fields the create/edit forms have an input for. */
+const METER_FIELDS = ["meter_type", "meter_sn", "meter_mult", "stall_id", "meter_status"];
+
+// older servers only say so in the message; show it on the serial input
+function duplicateSnAsField(err: unknown) {
+  const e = toApiError(err);
+  if (/meter_sn already exists/i.test(e.message) && !e.fieldErrors.meter_sn)
+    e.fieldErrors.meter_sn = "That meter SN is already used.";
+  return e;
+}
+
+export type { Meter, Stall };
 
 function decodeJwtPayload(token: string | null): any | null {
   if (!token) return null;
@@ -148,6 +138,8 @@ export default function MeterPanel({ token }: { token: string | null }) {
 
   const [editRow, setEditRow] = useState<Meter | null>(null);
   const [editType, setEditType] = useState<Meter["meter_type"]>("electric");
+  // server validation messages for the open create/edit form
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [editSn, setEditSn] = useState("");
   const [editMult, setEditMult] = useState("");
   const [editStallId, setEditStallId] = useState("");
@@ -157,16 +149,7 @@ export default function MeterPanel({ token }: { token: string | null }) {
   const [qrMeterId, setQrMeterId] = useState("");
   const qrCodeRef = useRef<any>(null);
 
-  const authHeader = useMemo(
-    () => ({ Authorization: `Bearer ${token ?? ""}` }),
-    [token],
-  );
-
-  const api = useMemo(
-    () =>
-      axios.create({ baseURL: BASE_API, headers: authHeader, timeout: 15000 }),
-    [authHeader],
-  );
+  const api = useMemo(() => createApi(token), [token]);
 
   useEffect(() => {
     loadAll();
@@ -181,22 +164,21 @@ export default function MeterPanel({ token }: { token: string | null }) {
 
     try {
       setBusy(true);
-      const [metersRes, stallsRes] = await Promise.all([
-        api.get<Meter[]>("/meters"),
-        api.get<Stall[]>("/stalls"),
+      const [meterRows, stallRows] = await Promise.all([
+        readReference(api, "meters", setMeters),
+        readReference(api, "stalls", setStalls),
       ]);
 
-      setMeters(metersRes.data || []);
-      setStalls(stallsRes.data || []);
+      setMeters(meterRows || []);
+      setStalls(stallRows || []);
 
       try {
-        const bRes = await api.get<Building[]>("/buildings");
-        setBuildings(bRes.data || []);
+        setBuildings((await readReference(api, "buildings", setBuildings)) || []);
       } catch {
         setBuildings([]);
       }
     } catch (err: any) {
-      notify("Load failed", errorText(err, "Could not load meters/stalls."));
+      showError("Load failed", err, "Could not load meters/stalls.");
     } finally {
       setBusy(false);
     }
@@ -312,6 +294,7 @@ export default function MeterPanel({ token }: { token: string | null }) {
 
     if (defaultStall) setStallId(defaultStall);
 
+    setFieldErrors({});
     setCreateVisible(true);
   };
 
@@ -396,7 +379,7 @@ export default function MeterPanel({ token }: { token: string | null }) {
       return;
     }
 
-    const payload: any = {
+    const payload: MeterInput = {
       meter_type: type,
       meter_sn: cleanSn,
       stall_id: cleanStallId,
@@ -415,7 +398,8 @@ export default function MeterPanel({ token }: { token: string | null }) {
 
     try {
       setSubmitting(true);
-      await api.post("/meters", payload);
+      setFieldErrors({});
+      await api.meters.create(payload);
       notify("Success", "Meter created.");
       setSn("");
       setMult("");
@@ -425,10 +409,12 @@ export default function MeterPanel({ token }: { token: string | null }) {
       setCreateVisible(false);
       await loadAll();
     } catch (err: any) {
-      const msg = errorText(err);
-      if (/meter_sn already exists/i.test(msg))
-        notify("Duplicate serial", "That meter SN is already used.");
-      else notify("Create failed", msg);
+      reportFormError(
+        "Create failed",
+        duplicateSnAsField(err),
+        METER_FIELDS,
+        setFieldErrors,
+      );
     } finally {
       setSubmitting(false);
     }
@@ -441,13 +427,14 @@ export default function MeterPanel({ token }: { token: string | null }) {
     setEditMult("");
     setEditStallId(m.stall_id);
     setEditStatus(m.meter_status);
+    setFieldErrors({});
     setEditVisible(true);
   };
 
   const onUpdate = async () => {
     if (!editRow) return;
 
-    const body: any = {
+    const body: MeterInput = {
       meter_type: editType,
       meter_sn: editSn.trim(),
       stall_id: editStallId.trim(),
@@ -465,15 +452,18 @@ export default function MeterPanel({ token }: { token: string | null }) {
 
     try {
       setSubmitting(true);
-      await api.put(`/meters/${encodeURIComponent(editRow.meter_id)}`, body);
+      setFieldErrors({});
+      await api.meters.update(editRow.meter_id, body);
       setEditVisible(false);
       await loadAll();
       notify("Updated", "Meter updated successfully.");
     } catch (err: any) {
-      const msg = errorText(err);
-      if (/meter_sn already exists/i.test(msg))
-        notify("Duplicate serial", "That meter SN is already used.");
-      else notify("Update failed", msg);
+      reportFormError(
+        "Update failed",
+        duplicateSnAsField(err),
+        METER_FIELDS,
+        setFieldErrors,
+      );
     } finally {
       setSubmitting(false);
     }
@@ -485,13 +475,12 @@ export default function MeterPanel({ token }: { token: string | null }) {
 
     try {
       setSubmitting(true);
-      await api.delete(`/meters/${encodeURIComponent(m.meter_id)}`);
+      await api.meters.remove(m.meter_id);
       await loadAll();
       notify("Deleted", "Meter removed.");
     } catch (err: any) {
-      const msg = errorText(err);
-      if (/referenced by: Reading/i.test(msg)) notify("Cannot delete", msg);
-      else notify("Delete failed", msg);
+      const e = toApiError(err);
+      showError(/referenced by: Reading/i.test(e.message) ? "Cannot delete" : "Delete failed", e);
     } finally {
       setSubmitting(false);
     }
@@ -718,6 +707,7 @@ export default function MeterPanel({ token }: { token: string | null }) {
                   <Text style={styles.rowMetaSmall}>
                     Status: {item.meter_status.toUpperCase()}
                   </Text>
+                  <HistoryButton entity="meters" id={item.meter_id} title={item.meter_sn} />
                 </View>
 
                 {isMobile ? (
@@ -875,14 +865,16 @@ export default function MeterPanel({ token }: { token: string | null }) {
                   <Picker.Item label="LPG (Gas)" value="lpg" />
                 </Picker>
               </View>
+              <FieldError message={fieldErrors.meter_type} />
 
               <Text style={styles.dropdownLabel}>Serial Number</Text>
               <TextInput
                 value={sn}
                 onChangeText={setSn}
                 placeholder="e.g. UGF-E-000111"
-                style={styles.input}
+                style={[styles.input, fieldErrors.meter_sn && styles.inputError]}
               />
+              <FieldError message={fieldErrors.meter_sn} />
 
               <Text style={styles.dropdownLabel}>
                 Multiplier{" "}
@@ -895,8 +887,9 @@ export default function MeterPanel({ token }: { token: string | null }) {
                 onChangeText={setMult}
                 keyboardType="numeric"
                 placeholder="e.g. 1 or 93"
-                style={styles.input}
+                style={[styles.input, fieldErrors.meter_mult && styles.inputError]}
               />
+              <FieldError message={fieldErrors.meter_mult} />
               <Text style={{ color: "#64748b", fontSize: 12, marginTop: -6 }}>
                 Water defaults to 93.00; Electric/LPG default to 1.00 when left blank.
               </Text>
@@ -918,6 +911,7 @@ export default function MeterPanel({ token }: { token: string | null }) {
                   ))}
                 </Picker>
               </View>
+              <FieldError message={fieldErrors.stall_id} />
 
               <Text style={styles.dropdownLabel}>Status</Text>
               <View style={styles.pickerWrapper}>
@@ -930,6 +924,7 @@ export default function MeterPanel({ token }: { token: string | null }) {
                   <Picker.Item label="Active" value="active" />
                 </Picker>
               </View>
+              <FieldError message={fieldErrors.meter_status} />
             </ScrollView>
 
             <View style={styles.modalActions}>
@@ -987,14 +982,16 @@ export default function MeterPanel({ token }: { token: string | null }) {
                   <Picker.Item label="LPG (Gas)" value="lpg" />
                 </Picker>
               </View>
+              <FieldError message={fieldErrors.meter_type} />
 
               <Text style={styles.dropdownLabel}>Serial Number</Text>
               <TextInput
                 value={editSn}
                 onChangeText={setEditSn}
                 placeholder="e.g. UGF-E-000111"
-                style={styles.input}
+                style={[styles.input, fieldErrors.meter_sn && styles.inputError]}
               />
+              <FieldError message={fieldErrors.meter_sn} />
 
               <Text style={styles.dropdownLabel}>
                 Multiplier{" "}
@@ -1007,8 +1004,9 @@ export default function MeterPanel({ token }: { token: string | null }) {
                 onChangeText={setEditMult}
                 keyboardType="numeric"
                 placeholder="e.g. 1 or 93"
-                style={styles.input}
+                style={[styles.input, fieldErrors.meter_mult && styles.inputError]}
               />
+              <FieldError message={fieldErrors.meter_mult} />
 
               <Text style={styles.dropdownLabel}>Stall</Text>
               <View style={styles.pickerWrapper}>
@@ -1027,6 +1025,7 @@ export default function MeterPanel({ token }: { token: string | null }) {
                   ))}
                 </Picker>
               </View>
+              <FieldError message={fieldErrors.stall_id} />
 
               <Text style={styles.dropdownLabel}>Status</Text>
               <View style={styles.pickerWrapper}>
@@ -1039,6 +1038,7 @@ export default function MeterPanel({ token }: { token: string | null }) {
                   <Picker.Item label="Active" value="active" />
                 </Picker>
               </View>
+              <FieldError message={fieldErrors.meter_status} />
             </ScrollView>
 
             <View style={styles.modalActions}>
@@ -1270,6 +1270,7 @@ const styles = StyleSheet.create({
     overflow: "hidden",
   },
   picker: { height: 40 },
+  inputError: { borderColor: "#dc2626" },
   input: {
     backgroundColor: "#f8fafc",
     borderWidth: 1,
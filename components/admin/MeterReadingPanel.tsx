@@ -21,25 +21,56 @@
   import { SafeAreaView } from "react-native-safe-area-context";
   import { Picker } from "@react-native-picker/picker";
   import NetInfo from "@react-native-community/netinfo";
-  import axios from "axios";
   import { Ionicons } from "@expo/vector-icons";
   import * as ImagePicker from "expo-image-picker";
-  import * as ImageManipulator from "expo-image-manipulator";
-  import { BASE_API } from "../../constants/api";
+  import {
+    BillingHeader,
+    Building,
+    Meter,
+    READINGS_PATH,
+    Reading,
+    ReadingInput,
+    Stall,
+    createApi,
+  } from "../../services/api";
+  import { errorText, showError } from "../../services/apiError";
+  import {
+    MAX_IMAGE_BYTES,
+    asDataUrl,
+    base64Bytes,
+    compressUriToSizedBase64Native,
+    ensureSizedBase64,
+  } from "../../services/readingPhoto";
+  import {
+    ReadingHistory,
+    checkReading,
+    overrideProblem,
+    reasonLabel,
+    thresholdsFor,
+  } from "../../services/readingCheck";
+  import { readReference } from "../../services/refCache";
+  import {
+    OfflinePackage,
+    OfflinePackageItem,
+    refreshOfflinePackage,
+  } from "../../services/offlineSync";
+  import { PackageCheck, checkPackage } from "../../services/packageIntegrity";
+  import { bundleFileName, parseTransferFile } from "../../services/transferBundle";
+  import { pickTransferFile, saveTransferFile } from "../../services/transferFile";
+  import { trackFileTransfer } from "../../services/syncLog";
   import { useScanHistory } from "../../contexts/ScanHistoryContext";
-  import AsyncStorage from "@react-native-async-storage/async-storage";
+  import { localStore } from "../../services/localStore";
   import { useAuth } from "../../contexts/AuthContext";
-
-  const KEY_DEVICE_TOKEN = "device_token_v1";
-  const KEY_DEVICE_NAME = "device_name_v1";
+  import { useServerCapabilities } from "../../hooks/useServerCapabilities";
+  import { supports } from "../../services/serverCapabilities";
+  import ReadingCheckNotice, { usePlausibilityPolicy } from "../ReadingCheckNotice";
+  import SyncStatusIndicator from "../SyncStatusIndicator";
 
   async function getReaderDeviceToken(): Promise<string> {
-    const t = await AsyncStorage.getItem(KEY_DEVICE_TOKEN);
-    return (t || "").trim();
+    return localStore.deviceToken.get();
   }
   async function getReaderDeviceName(): Promise<string> {
-    const n = await AsyncStorage.getItem(KEY_DEVICE_NAME);
-    return (n || "").trim();
+    return localStore.deviceName.get();
   }
   const todayStr = () => new Date().toISOString().slice(0, 10);
   function notify(title: string, message?: string) {
@@ -47,45 +78,6 @@
       window.alert(message ? `${title}\n\n${message}` : title);
     else Alert.alert(title, message);
   }
-  function errorText(err: any, fallback = "Server error.") {
-    try {
-      const res = err?.response;
-      const data = res?.data;
-      const status = res?.status;
-      const method = res?.config?.method?.toUpperCase?.();
-      const url = res?.config?.url;
-
-      const header = status
-        ? `${method || "REQUEST"} ${url || ""} → ${status}`
-        : (typeof err?.message === "string" && err.message) || null;
-
-      const pick = (v: any): string | null => {
-        if (!v) return null;
-        if (typeof v === "string") return v;
-        if (typeof v === "number" || typeof v === "boolean") return String(v);
-        if (typeof v === "object") {
-          if (typeof (v as any).error === "string") return (v as any).error;
-          if (typeof (v as any).message === "string") return (v as any).message;
-          if ((v as any).error && typeof (v as any).error.message === "string")
-            return (v as any).error.message;
-          return JSON.stringify(v, null, 2);
-        }
-        return null;
-      };
-
-      const body =
-        pick(data) ||
-        pick(err?.message) ||
-        (err?.toString && err.toString() !== "[object Object]"
-          ? err.toString()
-          : null) ||
-        fallback;
-
-      return [header, body].filter(Boolean).join("\n\n");
-    } catch {
-      return fallback;
-    }
-  }
   function decodeJwtPayload(token: string | null): any | null {
     if (!token) return null;
     try {
@@ -162,134 +154,6 @@
     return `data:image/jpeg;base64,${s}`;
   }
 
-  const MAX_IMAGE_BYTES = 400 * 1024;
-  function base64Bytes(b64: string): number {
-    const len = (b64 || "").replace(/[^A-Za-z0-9+/=]/g, "").length;
-    if (!len) return 0;
-    const padding = b64.endsWith("==") ? 2 : b64.endsWith("=") ? 1 : 0;
-    return Math.floor((len * 3) / 4) - padding;
-  }
-  function asBase64(raw: string): string {
-    const s = (raw || "").trim();
-    if (!s) return "";
-    if (s.startsWith("data:")) {
-      const i = s.indexOf(",");
-      return i >= 0 ? s.slice(i + 1) : "";
-    }
-    return s;
-  }
-  function asDataUrl(raw: string, mime = "image/jpeg"): string {
-    const s = (raw || "").trim();
-    return s.startsWith("data:") ? s : `data:${mime};base64,${s}`;
-  }
-  async function compressDataUrlWeb(
-    dataUrl: string,
-    maxDim = 1024,
-    quality = 0.7,
-  ): Promise<string> {
-    if (
-      Platform.OS !== "web" ||
-      typeof document === "undefined" ||
-      !(globalThis as any).Image
-    ) {
-      return Promise.resolve(dataUrl.split(",")[1] || "");
-    }
-    return new Promise((resolve) => {
-      try {
-        const ImgCtor: any = (globalThis as any).Image;
-        const img: any = new ImgCtor();
-        img.onload = () => {
-          let tw = img.naturalWidth || img.width;
-          let th = img.naturalHeight || img.height;
-          if (Math.max(tw, th) > maxDim) {
-            if (tw >= th) {
-              th = Math.round((th / tw) * maxDim);
-              tw = maxDim;
-            } else {
-              tw = Math.round((tw / th) * maxDim);
-              th = maxDim;
-            }
-          }
-          const canvas: any = (document as any).createElement("canvas");
-          canvas.width = Math.max(1, tw);
-          canvas.height = Math.max(1, th);
-          const ctx: any = canvas.getContext("2d");
-          if (!ctx) return resolve(dataUrl.split(",")[1] || "");
-          ctx.drawImage(img, 0, 0, tw, th);
-          const out: string = canvas.toDataURL("image/jpeg", quality);
-          resolve(out.split(",")[1] || "");
-        };
-        img.onerror = () => resolve(dataUrl.split(",")[1] || "");
-        img.src = dataUrl;
-      } catch {
-        resolve(dataUrl.split(",")[1] || "");
-      }
-    });
-  }
-  async function ensureSizedBase64(
-    input: string,
-    mime = "image/jpeg",
-  ): Promise<string> {
-    const raw = asBase64(input);
-    if (Platform.OS !== "web") {
-      if (base64Bytes(raw) > MAX_IMAGE_BYTES) {
-        throw new Error(
-          `Image is too large (${(base64Bytes(raw) / 1024).toFixed(0)} KB). Please pick a smaller image.`,
-        );
-      }
-      return raw;
-    }
-    if (base64Bytes(raw) <= MAX_IMAGE_BYTES) return raw;
-    const c1 = await compressDataUrlWeb(asDataUrl(raw, mime), 1024, 0.7);
-    if (base64Bytes(c1) <= MAX_IMAGE_BYTES) return c1;
-    const c2 = await compressDataUrlWeb(asDataUrl(c1, mime), 900, 0.6);
-    if (base64Bytes(c2) <= MAX_IMAGE_BYTES) return c2;
-    throw new Error(
-      `Image is still too large (${(base64Bytes(c2) / 1024).toFixed(0)} KB). Please choose a smaller image.`,
-    );
-  }
-
-  async function compressUriToSizedBase64Native(uri: string): Promise<string> {
-    const widths = [1600, 1400, 1280, 1152, 1024, 900, 800, 720, 640];
-    const qualities = [0.85, 0.78, 0.72, 0.66, 0.60, 0.54, 0.48, 0.42, 0.36];
-
-    let currentUri = uri;
-
-    for (let i = 0; i < widths.length; i++) {
-      const width = widths[i];
-      const compress = qualities[i];
-
-      const result = await ImageManipulator.manipulateAsync(
-        currentUri,
-        [{ resize: { width } }],
-        {
-          compress,
-          format: ImageManipulator.SaveFormat.JPEG,
-          base64: true,
-        }
-      );
-
-      const b64 = (result.base64 || "").trim();
-      if (b64 && base64Bytes(b64) <= MAX_IMAGE_BYTES) {
-        return b64;
-      }
-      currentUri = result.uri;
-    }
-
-    const last = await ImageManipulator.manipulateAsync(
-      currentUri,
-      [],
-      { compress: 0.30, format: ImageManipulator.SaveFormat.JPEG, base64: true }
-    );
-
-    const lastB64 = (last.base64 || "").trim();
-    if (lastB64 && base64Bytes(lastB64) <= MAX_IMAGE_BYTES) return lastB64;
-
-    throw new Error(
-      `Image is still too large (${Math.round(base64Bytes(lastB64) / 1024)} KB). Try a closer photo or lower resolution image.`
-    );
-  }
-
   function ts(d: string) {
     const t = Date.parse(d);
     return Number.isFinite(t) ? t : 0;
@@ -308,6 +172,29 @@
       .sort((a, b) => ts(b.lastread_date) - ts(a.lastread_date));
     return { latest: arr[0] || null, previous: arr[1] || null };
   }
+  /** The two readings of a meter before `date` (other than `exceptId`), for readingCheck. */
+  function historyBefore(
+    readings: Reading[],
+    meterId: string,
+    date: string,
+    exceptId?: string,
+  ): ReadingHistory {
+    const day = ts(String(date).slice(0, 10));
+    const arr = readings
+      .filter(
+        (r) =>
+          r.meter_id === meterId &&
+          r.reading_id !== exceptId &&
+          ts(String(r.lastread_date).slice(0, 10)) < day,
+      )
+      .sort((a, b) => ts(b.lastread_date) - ts(a.lastread_date));
+    return {
+      prev_reading: arr[0] ? Number(arr[0].reading_value) : null,
+      prev_date: arr[0]?.lastread_date ?? null,
+      prev2_reading: arr[1] ? Number(arr[1].reading_value) : null,
+      prev2_date: arr[1]?.lastread_date ?? null,
+    };
+  }
   function pctUp(
     newVal: number,
     oldVal: number | string | null | undefined,
@@ -361,29 +248,8 @@
     return map;
   }
 
-  
-  export type Reading = {
-    reading_id: string;
-    meter_id: string;
-    reading_value: number;
-    read_by: string;
-    lastread_date: string;
-    last_updated: string;
-    updated_by: string;
-    remarks?: string | null;
-  };
-  export type Meter = {
-    meter_id: string;
-    meter_type: "electric" | "water" | "lpg";
-    meter_sn: string;
-    meter_mult: number;
-    stall_id: string;
-    meter_status: "active" | "inactive";
-    last_updated: string;
-    updated_by: string;
-  };
-  type Stall = { stall_id: string; building_id?: string; stall_sn?: string };
-  type Building = { building_id: string; building_name: string };
+
+  export type { Reading, Meter };
   type BuildingChipOption = { label: string; value: string };
 
   export default function MeterReadingPanel({
@@ -460,24 +326,7 @@ const [hasOfflinePackage, setHasOfflinePackage] = useState(false);
 
 
 
-    const headerToken =
-      token && /^Bearer\s/i.test(token.trim())
-        ? token.trim()
-        : token
-          ? `Bearer ${token.trim()}`
-          : "";
-    const authHeader = useMemo(
-      () => (headerToken ? { Authorization: headerToken } : {}),
-      [headerToken],
-    );
-    const api = useMemo(
-      () =>
-        axios.create({ baseURL: BASE_API, headers: authHeader, timeout: 15000 }),
-      [authHeader],
-    );
-    useEffect(() => {
-      reloadBillingHeaders();
-    }, [authHeader]);
+    const api = useMemo(() => createApi(token), [token]);
     const { width } = useWindowDimensions();
     const isMobile = width < 640;
     const [isConnected, setIsConnected] = useState<boolean | null>(null);
@@ -490,6 +339,7 @@ const [hasOfflinePackage, setHasOfflinePackage] = useState(false);
     }, []);
     const {
       token: authToken,
+      user: authUser,
       deviceToken: ctxDeviceToken,
       deviceName: ctxDeviceName,
     } = useAuth();
@@ -500,6 +350,8 @@ const [hasOfflinePackage, setHasOfflinePackage] = useState(false);
       removeScan,
       markPending,
       syncOfflineReadings,
+      syncNow,
+      bundleScans,
       isConnected: ctxConnected,
     } = useScanHistory();
 
@@ -530,13 +382,25 @@ const [hasOfflinePackage, setHasOfflinePackage] = useState(false);
 
       try {
         setSyncing(true);
-        await syncOfflineReadings(authToken, deviceToken);
+        const res = await syncNow();
+        if (res.error) {
+          showError("Sync failed", res.error);
+          return;
+        }
         notify(
           "Synced",
-          ` sent successfullyOffline readings${deviceName ? ` (${deviceName})` : ""}.`,
+          [
+            `${res.uploaded} offline reading(s) sent${deviceName ? ` (${deviceName})` : ""}.`,
+            res.duplicates ? `${res.duplicates} were already on the server.` : "",
+            res.rejected
+              ? `${res.rejected} rejected by the server; see Offline History.`
+              : "",
+          ]
+            .filter(Boolean)
+            .join("\n"),
         );
       } catch (e: any) {
-        notify("Sync failed", e?.message || "Unable to sync offline readings.");
+        showError("Sync failed", e, "Unable to sync offline readings.");
       } finally {
         setSyncing(false);
       }
@@ -586,7 +450,7 @@ const [hasOfflinePackage, setHasOfflinePackage] = useState(false);
       }
     }, [initialMeterId]);
 
-    const [createWarn, setCreateWarn] = useState(false);
+    const [createReason, setCreateReason] = useState<string | null>(null);
 
     const [editVisible, setEditVisible] = useState(false);
     const [editRow, setEditRow] = useState<Reading | null>(null);
@@ -596,92 +460,33 @@ const [hasOfflinePackage, setHasOfflinePackage] = useState(false);
     const [editRemarks, setEditRemarks] = useState<string>("");
     const [editImage, setEditImage] = useState<string>("");
 
-    const [editWarn, setEditWarn] = useState(false);
+    const [editReason, setEditReason] = useState<string | null>(null);
+    const plausibility = usePlausibilityPolicy();
 
     const readingInputRef = useRef<TextInput>(null);
 
     const [historyVisible, setHistoryVisible] = useState(false);
     const [historyTab, setHistoryTab] = useState<
-      "all" | "pending" | "failed" | "synced"
+      "all" | "pending" | "failed" | "synced" | "rejected"
     >("all");
 
     const [imgToolVisible, setImgToolVisible] = useState(false);
-    const READING_ENDPOINTS = [
-      "/meter_reading",
-      "/readings",
-      "/meter-readings",
-      "/meterreadings",
-    ];
-    const [readingBase, setReadingBase] = useState<string>(READING_ENDPOINTS[0]);
-    type BillingHeader = {
-      building_id: string;
-      period: { start: string; end: string };
-      status?: string;
-    };
-
-    const BILLING_HEADERS_ENDPOINTS = [
-      "/billing/headers",
-      "/billings/headers",
-      "/billings/buildings",
-      "/billing",
-      "/billings",
-    ];
-
-    const [billingHeadersBase, setBillingHeadersBase] = useState<string | null>(
-      null,
-    );
+    // where readings and billing lock headers live on this server (probed at
+    // login); before the first probe, readings go to the default route and no
+    // period is known to be locked
+    const caps = useServerCapabilities();
+    const readingBase = caps?.readingsPath ?? READINGS_PATH;
+    const billingHeadersPath = supports(caps, "billing") ? (caps?.billingHeadersPath ?? null) : null;
     const [billingHeaders, setBillingHeaders] = useState<BillingHeader[]>([]);
 
-    async function detectBillingHeadersEndpoint() {
-      for (const p of BILLING_HEADERS_ENDPOINTS) {
-        try {
-          const res = await api.get(p, { validateStatus: () => true });
-          const ok =
-            res.status >= 200 &&
-            res.status < 400 &&
-            (Array.isArray(res.data) ||
-              (res.data &&
-                typeof res.data === "object" &&
-                !Array.isArray(res.data)));
-
-          if (ok) {
-            setBillingHeadersBase(p);
-            return p;
-          }
-        } catch {}
-      }
-      return null;
-    }
-
     const reloadBillingHeaders = async () => {
       try {
-        const base = billingHeadersBase ?? (await detectBillingHeadersEndpoint());
-        if (!base) return;
-
-        const res = await api.get(base, { validateStatus: () => true });
-        const data = res.data;
-
-        let headers: BillingHeader[] = [];
-
-        if (Array.isArray(data)) {
-          headers = data as BillingHeader[];
-        } else if (data && typeof data === "object") {
-          headers = Object.values(data as Record<string, any>).map((item) => ({
-            building_id: item.building_id,
-            period: item.period ?? {
-              start: item.period_start,
-              end: item.period_end,
-            },
-            status:
-              item.status ??
-              item.lock_status ??
-              (typeof item.is_locked !== "undefined"
-                ? String(item.is_locked)
-                : undefined),
-          }));
+        if (!billingHeadersPath) {
+          setBillingHeaders([]);
+          return;
         }
 
-        headers = headers.filter(
+        const headers = (await api.billings.headers(billingHeadersPath)).filter(
           (h) =>
             h &&
             h.building_id &&
@@ -697,25 +502,9 @@ const [hasOfflinePackage, setHasOfflinePackage] = useState(false);
         }
       }
     };
-
-    async function detectReadingEndpoint() {
-      for (const p of READING_ENDPOINTS) {
-        try {
-          const res = await api.get(p, { validateStatus: () => true });
-          if (
-            (res.status >= 200 && res.status < 400 && Array.isArray(res.data)) ||
-            (res.status === 200 &&
-              res.data &&
-              typeof res.data === "object" &&
-              "items" in res.data)
-          ) {
-            setReadingBase(p);
-            return p;
-          }
-        } catch {}
-      }
-      return READING_ENDPOINTS[0];
-    }
+    useEffect(() => {
+      reloadBillingHeaders();
+    }, [api, billingHeadersPath]);
 
     const filteredScans = useMemo(
       () =>
@@ -762,8 +551,7 @@ const [hasOfflinePackage, setHasOfflinePackage] = useState(false);
       if (isReader && !isAdmin && !isOperator && !isBiller) {
         try {
           setBusy(true);
-          const sRes = await api.get<Stall[]>("/stalls");
-          setStalls(sRes.data || []);
+          setStalls((await readReference(api, "stalls", setStalls)) || []);
         } catch {
           setStalls([]);
         } finally {
@@ -775,38 +563,23 @@ const [hasOfflinePackage, setHasOfflinePackage] = useState(false);
 
       try {
         setBusy(true);
-        const base = await detectReadingEndpoint();
-        const [rRes, mRes, sRes, pRes] = await Promise.all([
-          api.get<Reading[]>(base),
-          api.get<Meter[]>("/meters"),
-          api.get<Stall[]>("/stalls"),
-          api.get("/offlineExport/pending", { validateStatus: () => true }),
+        const [rows, meterRows, stallRows, pending] = await Promise.all([
+          api.readings.list(readingBase),
+          readReference(api, "meters", setMeters),
+          readReference(api, "stalls", setStalls),
+          api.offlineExport.pending().catch(() => []),
         ]);
-        setReadings(
-          Array.isArray(rRes.data)
-            ? rRes.data
-            : ((rRes.data as any)?.items ?? []),
-        );
-        setMeters(mRes.data || []);
-        setStalls(sRes.data || []);
+        setReadings(rows);
+        setMeters(meterRows || []);
+        setStalls(stallRows || []);
         // server-side pending offline submissions (so reader won't double-submit)
-        const submissions =
-          (pRes as any)?.status >= 200 &&
-          (pRes as any)?.status < 400
-            ? ((pRes as any)?.data?.submissions ??
-              (pRes as any)?.data?.items ??
-              ((pRes as any)?.data && Array.isArray((pRes as any)?.data)
-                ? (pRes as any)?.data
-                : []))
-            : [];
-        setPendingOfflineSubmissions(Array.isArray(submissions) ? submissions : []);
-
-        if (!formMeterId && mRes.data?.length)
-          setFormMeterId(mRes.data[0].meter_id);
+        setPendingOfflineSubmissions(pending);
+
+        if (!formMeterId && meterRows?.length)
+          setFormMeterId(meterRows[0].meter_id);
         if (isAdmin) {
           try {
-            const bRes = await api.get<Building[]>("/buildings");
-            setBuildings(bRes.data || []);
+            setBuildings((await readReference(api, "buildings", setBuildings)) || []);
           } catch {
             setBuildings([]);
           }
@@ -814,9 +587,10 @@ const [hasOfflinePackage, setHasOfflinePackage] = useState(false);
 
         await reloadBillingHeaders();
       } catch (err: any) {
-        notify(
+        showError(
           "Load failed",
-          errorText(err, "Please check your connection and permissions."),
+          err,
+          "Please check your connection and permissions.",
         );
         if (Platform.OS === "web")
           console.error("LOAD ERROR", err?.response ?? err);
@@ -833,6 +607,30 @@ const [hasOfflinePackage, setHasOfflinePackage] = useState(false);
       meters.forEach((m) => map.set(m.meter_id, m));
       return map;
     }, [meters]);
+
+    // plausibility of the value in the create and update forms (see services/readingCheck)
+    const createCheck = useMemo(() => {
+      if (!formMeterId || !formValue.trim()) return null;
+      const date = formDate || todayStr();
+      return checkReading(
+        parseFloat(formValue),
+        date,
+        historyBefore(readings, formMeterId, date),
+        thresholdsFor(plausibility, metersById.get(formMeterId)?.meter_type),
+      );
+    }, [formMeterId, formValue, formDate, readings, metersById, plausibility]);
+
+    const editCheck = useMemo(() => {
+      const meterId = editMeterId || editRow?.meter_id || "";
+      if (!meterId || !editValue.trim()) return null;
+      return checkReading(
+        parseFloat(editValue),
+        editDate,
+        historyBefore(readings, meterId, editDate, editRow?.reading_id),
+        thresholdsFor(plausibility, metersById.get(meterId)?.meter_type),
+      );
+    }, [editMeterId, editRow, editValue, editDate, readings, metersById, plausibility]);
+
     const stallToBuilding = useMemo(() => {
       const m = new Map<string, string>();
       stalls.forEach((s) => {
@@ -1215,19 +1013,15 @@ const buildingChipOptions = useMemo<BuildingChipOption[]>(() => {
         return;
       }
 
-      if (createWarn) {
-        if (!formRemarks.trim()) {
+      if (createCheck) {
+        const problem = overrideProblem(createCheck, createReason, formRemarks);
+        if (problem) {
           notify(
-            "Remarks required",
-            "Please add remarks because the value increased by 20% or more.",
+            createCheck.status === "block" ? "Invalid value" : "Reason required",
+            problem,
           );
           return;
         }
-        const ok = await confirm(
-          "Proceed with high change?",
-          "The reading increased by ≥20%. Do you want to proceed?",
-        );
-        if (!ok) return;
       }
 
       if (!formImage.trim()) {
@@ -1251,15 +1045,25 @@ const buildingChipOptions = useMemo<BuildingChipOption[]>(() => {
         reading_value: valueNum,
         lastread_date: formDate || todayStr(),
         remarks: formRemarks.trim() || null,
+        override_reason: createCheck?.flags.length ? createReason : null,
+        override_flags: createCheck?.flags.length ? createCheck.flags : null,
         image: imageB64,
       };
 
       if (!online) {
-        await queueScan(payload);
+        if (!(await packageUsableForReading())) return;
+        try {
+          await queueScan(payload);
+        } catch (e) {
+          // e.g. the photo storage limit set by the server is reached
+          notify("Not saved", errorText(e));
+          return;
+        }
         setFormValue("");
         setFormDate(todayStr());
         setFormRemarks("");
         setFormImage("");
+        setCreateReason(null);
         setCreateVisible(false);
         notify(
           "Saved offline",
@@ -1270,7 +1074,7 @@ const buildingChipOptions = useMemo<BuildingChipOption[]>(() => {
 
       try {
         setSubmitting(true);
-        await api.post(readingBase, payload);
+        await api.readings.create(payload, readingBase);
 
         // Reader-only view doesn't reload readings from server in loadAll(),
         // so we add a local "today" record to immediately lock/hide the meter for the day.
@@ -1293,11 +1097,12 @@ const buildingChipOptions = useMemo<BuildingChipOption[]>(() => {
         setFormDate(todayStr());
         setFormRemarks("");
         setFormImage("");
+        setCreateReason(null);
         setCreateVisible(false);
         await loadAll();
         notify("Success", "Meter reading recorded.");
       } catch (err: any) {
-        notify("Create failed", errorText(err));
+        showError("Create failed", err);
       } finally {
         setSubmitting(false);
       }
@@ -1317,7 +1122,7 @@ const buildingChipOptions = useMemo<BuildingChipOption[]>(() => {
       setEditDate(row.lastread_date);
       setEditRemarks(row.remarks ?? "");
       setEditImage("");
-      setEditWarn(false);
+      setEditReason(row.override_reason ?? null);
       setEditVisible(true);
     };
 
@@ -1331,19 +1136,15 @@ const buildingChipOptions = useMemo<BuildingChipOption[]>(() => {
       }
       if (!canWrite || !editRow) return;
 
-      if (editWarn) {
-        if (!editRemarks.trim()) {
+      if (editCheck) {
+        const problem = overrideProblem(editCheck, editReason, editRemarks);
+        if (problem) {
           notify(
-            "Remarks required",
-            "Please add remarks because the value increased by 20% or more.",
+            editCheck.status === "block" ? "Invalid value" : "Reason required",
+            problem,
           );
           return;
         }
-        const ok = await confirm(
-          "Proceed with high change?",
-          "The reading increased by ≥20%. Do you want to proceed?",
-        );
-        if (!ok) return;
       }
 
       let newImageB64: string | undefined;
@@ -1361,22 +1162,22 @@ const buildingChipOptions = useMemo<BuildingChipOption[]>(() => {
 
       try {
         setSubmitting(true);
-        const body: any = {
+        const body: ReadingInput = {
           meter_id: editMeterId,
           reading_value: editValue === "" ? undefined : parseFloat(editValue),
           lastread_date: editDate,
           remarks: editRemarks.trim() === "" ? null : editRemarks.trim(),
+          // a corrected value clears an earlier override
+          override_reason: editCheck?.flags.length ? editReason : null,
+          override_flags: editCheck?.flags.length ? editCheck.flags : null,
         };
         if (newImageB64) body.image = newImageB64;
-        await api.put(
-          `${readingBase}/${encodeURIComponent(editRow.reading_id)}`,
-          body,
-        );
+        await api.readings.update(editRow.reading_id, body, readingBase);
         setEditVisible(false);
         await loadAll();
         notify("Updated", "Reading updated successfully.");
       } catch (err: any) {
-        notify("Update failed", errorText(err));
+        showError("Update failed", err);
       } finally {
         setSubmitting(false);
       }
@@ -1396,14 +1197,12 @@ const buildingChipOptions = useMemo<BuildingChipOption[]>(() => {
       if (!ok) return;
       try {
         setSubmitting(true);
-        await api.delete(
-          `${readingBase}/${encodeURIComponent(target.reading_id)}`,
-        );
+        await api.readings.remove(target.reading_id, readingBase);
         setEditVisible(false);
         await loadAll();
         notify("Deleted", `${target.reading_id} removed.`);
       } catch (err: any) {
-        notify("Delete failed", errorText(err));
+        showError("Delete failed", err);
       } finally {
         setSubmitting(false);
       }
@@ -1427,6 +1226,292 @@ const buildingChipOptions = useMemo<BuildingChipOption[]>(() => {
       );
     }
 
+    /** Signature, expiry and device serial of a package, for this device. */
+    const checkReaderPackage = async (pkg: OfflinePackage): Promise<PackageCheck> =>
+      checkPackage(pkg, {
+        serial: await localStore.deviceSerial.get(),
+        token: await getReaderDeviceToken(),
+        signsPackages: await localStore.packageSigning.get(),
+      });
+
+    /**
+     * Before a reading is queued against the stored package: refuse when it
+     * is expired, tampered with or another device's, ask when it is stale.
+     */
+    const packageUsableForReading = async () => {
+      const pkg = await localStore.offlinePackage.get();
+      if (!pkg) return true;
+      const check = await checkReaderPackage(pkg);
+      if (check.block) {
+        notify("Package not usable", check.message);
+        return false;
+      }
+      if (check.status === "stale") {
+        return confirm("Old package", `${check.message}\n\nSave the reading anyway?`);
+      }
+      return true;
+    };
+
+    /** Show a package's meters and last readings (reader offline workflow). */
+    const applyPackageItems = async (items: OfflinePackageItem[]) => {
+      // ✅ Ensure we have stalls for mapping (Reader loadAll may not have finished yet)
+      let stallsForMap: Stall[] = stalls;
+      if (!stallsForMap.length) {
+        try {
+          stallsForMap = (await readReference(api, "stalls", setStalls)) || [];
+          setStalls(stallsForMap);
+        } catch {
+          stallsForMap = [];
+        }
+      }
+
+      // build lookup: stall_id -> building_id (string)
+      const stallToBuildingId = new Map<string, string>();
+      for (const s of stallsForMap) {
+        const sid = String((s as any).stall_id ?? "").trim();
+        const bid = String((s as any).building_id ?? "").trim();
+        if (sid && bid) stallToBuildingId.set(sid, bid);
+      }
+
+
+      const filteredItems = items.filter((it: any) => {
+        let bId = String(it?.building_id || it?.buildingId || "").trim();
+
+        if (!bId) {
+          const stallId = String(it?.stall_id || it?.stallId || "").trim();
+          if (stallId) bId = stallToBuildingId.get(stallId) || "";
+        }
+
+        if (allowedBuildingIds.size > 0) {
+          return !bId ? true : allowedBuildingIds.has(bId);
+        }
+
+        return true;
+      });
+
+      const importedMeters: Meter[] = filteredItems.map((it: any) => {
+        const stallId = String(it.stall_id || it.stallId || "").trim();
+        const derivedBuildingId = stallId ? (stallToBuildingId.get(stallId) || "") : "";
+
+        return {
+          meter_id: String(it.meter_id),
+          meter_type: String(
+            it.classification || it.meter_type || "electric",
+          ).toLowerCase() as any,
+          meter_sn: String(it.meter_number || it.meter_sn || ""),
+          meter_mult: 1,
+          stall_id: String(it.stall_id || ""),
+          meter_status: "active",
+          last_updated: new Date().toISOString(),
+          updated_by: "import",
+
+          ...(derivedBuildingId ? ({ building_id: derivedBuildingId } as any) : {}),
+        };
+      });
+
+      const importedReadings: Reading[] = [];
+
+      for (const it of filteredItems) {
+        const meterId = String(it.meter_id || "").trim();
+        if (!meterId) continue;
+
+        if (it.prev_date != null && it.prev_reading != null) {
+          importedReadings.push({
+            reading_id: `IMPORT-${meterId}-${String(it.prev_date).slice(0, 10)}`,
+            meter_id: meterId,
+            reading_value: Number(it.prev_reading),
+            read_by: "import",
+            lastread_date: String(it.prev_date).slice(0, 10),
+            last_updated: new Date().toISOString(),
+            updated_by: "import",
+            remarks: null,
+          });
+        }
+
+        if (it.prev2_date != null && it.prev2_reading != null) {
+          importedReadings.push({
+            reading_id: `IMPORT2-${meterId}-${String(it.prev2_date).slice(0, 10)}`,
+            meter_id: meterId,
+            reading_value: Number(it.prev2_reading),
+            read_by: "import",
+            lastread_date: String(it.prev2_date).slice(0, 10),
+            last_updated: new Date().toISOString(),
+            updated_by: "import",
+            remarks: null,
+          });
+        }
+      }
+
+      setMeters(importedMeters);
+      // ❌ do NOT clear stalls; keep it for building mapping / filters
+      // setStalls([]);
+      setReadings(importedReadings);
+
+      if (!formMeterId && importedMeters.length) {
+        setFormMeterId(importedMeters[0].meter_id);
+      }
+
+      return { filteredItems, importedMeters };
+    };
+
+    /** Download only what changed since the package was generated and merge it in. */
+    const refreshReaderPackage = async () => {
+      if (!online) {
+        notify("Offline", "You must be online to refresh the package.");
+        return;
+      }
+      try {
+        setSyncingPackage(true);
+        const deviceToken = await getReaderDeviceToken();
+        const current = await localStore.offlinePackage.get();
+        const { pkg, changes } = await refreshOfflinePackage(api, { deviceToken, current });
+
+        if (!pkg.items.length) {
+          notify(
+            "Refresh returned 0 meters",
+            "The server returned an empty package, so the app will NOT overwrite your current offline data.",
+          );
+          return;
+        }
+
+        // a merge that does not match the server's signature is not kept
+        const check = await checkReaderPackage(pkg);
+        if (check.block) {
+          notify("Package rejected", check.message);
+          return;
+        }
+
+        const touched = changes.added.length + changes.changed.length + changes.removed.length;
+        if (touched || !current) await applyPackageItems(pkg.items);
+        await localStore.offlinePackage.set(pkg);
+
+        const list = (ids: string[]) =>
+          ids.slice(0, 5).join(", ") + (ids.length > 5 ? `, … (+${ids.length - 5})` : "");
+        notify(
+          "Package refreshed",
+          touched
+            ? [
+                changes.full ? "The server sent the whole package." : "",
+                changes.added.length ? `Added: ${list(changes.added)}` : "",
+                changes.changed.length ? `Updated: ${list(changes.changed)}` : "",
+                changes.removed.length ? `Removed: ${list(changes.removed)}` : "",
+              ]
+                .filter(Boolean)
+                .concat(check.message ? ["", check.message] : [])
+                .join("\n")
+            : ["Nothing changed since the last import.", check.message]
+                .filter(Boolean)
+                .join("\n\n"),
+        );
+      } catch (e: any) {
+        showError("Refresh failed", e, "Unable to refresh the package right now.");
+      } finally {
+        setSyncingPackage(false);
+      }
+    };
+
+    /** Queued readings to a signed file, for a meter room without any network. */
+    const saveReadingsToFile = async () => {
+      try {
+        setSyncingPackage(true);
+        const deviceToken = ctxDeviceToken || (await getReaderDeviceToken());
+        if (!deviceToken) {
+          notify(
+            "Missing device token",
+            "This device is not registered. Ask admin to register this device serial.",
+          );
+          return;
+        }
+        const { file, count, skipped } = await bundleScans({
+          deviceToken,
+          deviceName: ctxDeviceName || (await getReaderDeviceName()) || null,
+          readerUserId: authUser?.user_id ?? null,
+        });
+        const serial = await localStore.deviceSerial.get();
+        const filename = bundleFileName(serial);
+        const text = JSON.stringify(file);
+        await trackFileTransfer(
+          { kind: "file_save", endpoint: filename, sent: text },
+          () => saveTransferFile(filename, text),
+          () => count,
+        );
+        notify(
+          "Saved to file",
+          [
+            `${count} reading(s) saved. An admin uploads the file in Offline Submissions.`,
+            skipped
+              ? `${skipped} reading(s) could not be included (no value, meter or date).`
+              : "",
+            "They stay queued here until the server confirms them; syncing them later is safe.",
+          ]
+            .filter(Boolean)
+            .join("\n"),
+        );
+      } catch (e: any) {
+        notify("Could not save the file", errorText(e));
+      } finally {
+        setSyncingPackage(false);
+      }
+    };
+
+    /** A package file an admin generated for this device, loaded without network. */
+    const loadPackageFile = async () => {
+      try {
+        const text = await pickTransferFile();
+        if (text == null) return;
+        const parsed = await trackFileTransfer(
+          { kind: "file_load", endpoint: "package file", received: text },
+          async () => parseTransferFile(text),
+          (p) => (p.kind === "package" ? p.pkg.items.length : null),
+        );
+        if (parsed.kind !== "package") {
+          notify(
+            "Not a package file",
+            "This is a reader bundle. An admin uploads it in Offline Submissions.",
+          );
+          return;
+        }
+        const pkg = parsed.pkg;
+        if (!pkg.items.length) {
+          notify(
+            "Empty package",
+            "The file has no meters, so your current offline data is kept.",
+          );
+          return;
+        }
+        const check = await checkReaderPackage(pkg);
+        if (check.block) {
+          notify("Package rejected", check.message);
+          return;
+        }
+        if (hasOfflinePackage) {
+          const ok = await confirm(
+            "Replace package?",
+            "The package on this device is replaced by the one in the file.",
+          );
+          if (!ok) return;
+        }
+
+        setSyncingPackage(true);
+        const { filteredItems, importedMeters } = await applyPackageItems(pkg.items);
+        await localStore.offlinePackage.set(pkg);
+        setHasOfflinePackage(true);
+        notify(
+          "Package loaded",
+          [
+            `Imported meters: ${importedMeters.length}`,
+            `File items: ${pkg.items.length}`,
+            `After filter: ${filteredItems.length}`,
+            ...(check.message ? ["", check.message] : []),
+          ].join("\n"),
+        );
+      } catch (e: any) {
+        notify("Could not load the file", errorText(e));
+      } finally {
+        setSyncingPackage(false);
+      }
+    };
+
     const syncReaderPackage = async () => {
       if (isAdmin || isOperator || isBiller) {
         notify(
@@ -1443,8 +1528,7 @@ const buildingChipOptions = useMemo<BuildingChipOption[]>(() => {
 
       try {
         setSyncingPackage(true);
-        const deviceToken =
-          (await AsyncStorage.getItem(KEY_DEVICE_TOKEN))?.trim() || "";
+        const deviceToken = await getReaderDeviceToken();
         if (!deviceToken) {
           notify(
             "Missing device token",
@@ -1454,12 +1538,9 @@ const buildingChipOptions = useMemo<BuildingChipOption[]>(() => {
         }
 
         if (!hasOfflinePackage) {
-          const res = await api.post("/offlineExport/import", {
-            device_token: deviceToken,
-          });
+          const pkg = await api.offlineExport.import(deviceToken);
 
-        const pkg = res?.data?.package;
-        const items = Array.isArray(pkg?.items) ? pkg.items : [];
+        const items = pkg.items;
 
         if (!items.length) {
           notify(
@@ -1479,106 +1560,16 @@ const buildingChipOptions = useMemo<BuildingChipOption[]>(() => {
           return;
         }
 
-        // ✅ Ensure we have stalls for mapping (Reader loadAll may not have finished yet)
-        let stallsForMap: Stall[] = stalls;
-        if (!stallsForMap.length) {
-          try {
-            const sRes = await api.get<Stall[]>("/stalls");
-            stallsForMap = sRes.data || [];
-            setStalls(stallsForMap);
-          } catch {
-            stallsForMap = [];
-          }
-        }
-
-        // build lookup: stall_id -> building_id (string)
-        const stallToBuildingId = new Map<string, string>();
-        for (const s of stallsForMap) {
-          const sid = String((s as any).stall_id ?? "").trim();
-          const bid = String((s as any).building_id ?? "").trim();
-          if (sid && bid) stallToBuildingId.set(sid, bid);
-        }
-
-
-        const filteredItems = items.filter((it: any) => {
-          let bId = String(it?.building_id || it?.buildingId || "").trim();
-
-          if (!bId) {
-            const stallId = String(it?.stall_id || it?.stallId || "").trim();
-            if (stallId) bId = stallToBuildingId.get(stallId) || "";
+          const check = await checkReaderPackage(pkg);
+          if (check.block) {
+            notify("Package rejected", check.message);
+            return;
           }
 
-          if (allowedBuildingIds.size > 0) {
-            return !bId ? true : allowedBuildingIds.has(bId);
-          }
-
-          return true;
-        });
-
-        const importedMeters: Meter[] = filteredItems.map((it: any) => {
-          const stallId = String(it.stall_id || it.stallId || "").trim();
-          const derivedBuildingId = stallId ? (stallToBuildingId.get(stallId) || "") : "";
-
-          return {
-            meter_id: String(it.meter_id),
-            meter_type: String(
-              it.classification || it.meter_type || "electric",
-            ).toLowerCase() as any,
-            meter_sn: String(it.meter_number || it.meter_sn || ""),
-            meter_mult: 1,
-            stall_id: String(it.stall_id || ""),
-            meter_status: "active",
-            last_updated: new Date().toISOString(),
-            updated_by: "import",
-
-            ...(derivedBuildingId ? ({ building_id: derivedBuildingId } as any) : {}),
-          };
-        });
-
-          const importedReadings: Reading[] = [];
-
-          for (const it of filteredItems) {
-            const meterId = String(it.meter_id || "").trim();
-            if (!meterId) continue;
-
-            if (it.prev_date != null && it.prev_reading != null && it.prev_reading !== "") {
-              importedReadings.push({
-                reading_id: `IMPORT-${meterId}-${String(it.prev_date).slice(0, 10)}`,
-                meter_id: meterId,
-                reading_value: Number(it.prev_reading),
-                read_by: "import",
-                lastread_date: String(it.prev_date).slice(0, 10),
-                last_updated: new Date().toISOString(),
-                updated_by: "import",
-                remarks: null,
-              });
-            }
-
-            if (it.prev2_date != null && it.prev2_reading != null && it.prev2_reading !== "") {
-              importedReadings.push({
-                reading_id: `IMPORT2-${meterId}-${String(it.prev2_date).slice(0, 10)}`,
-                meter_id: meterId,
-                reading_value: Number(it.prev2_reading),
-                read_by: "import",
-                lastread_date: String(it.prev2_date).slice(0, 10),
-                last_updated: new Date().toISOString(),
-                updated_by: "import",
-                remarks: null,
-              });
-            }
-          }
-
-          setMeters(importedMeters);
-          // ❌ do NOT clear stalls; keep it for building mapping / filters
-          // setStalls([]);
-          setReadings(importedReadings);
-
-
-
-          if (!formMeterId && importedMeters.length) {
-            setFormMeterId(importedMeters[0].meter_id);
-          }
+          const { filteredItems, importedMeters } = await applyPackageItems(items);
 
+          // kept whole: the dashboard counts it and refreshes merge into it
+          await localStore.offlinePackage.set(pkg);
           setHasOfflinePackage(true);
           notify(
             "Imported",
@@ -1586,6 +1577,7 @@ const buildingChipOptions = useMemo<BuildingChipOption[]>(() => {
               `Imported meters: ${importedMeters.length}`,
               `Server items: ${items.length}`,
               `After filter: ${filteredItems.length}`,
+              ...(check.message ? ["", check.message] : []),
             ].join("\n"),
           );
           return;
@@ -1596,7 +1588,12 @@ const buildingChipOptions = useMemo<BuildingChipOption[]>(() => {
           return;
         }
 
-        await syncOfflineReadings(authToken!, deviceToken);
+        const res = await syncOfflineReadings(authToken!, deviceToken);
+        if (res.error) {
+          // keep the package: the readings are still queued and retried
+          showError("Sync failed", res.error);
+          return;
+        }
 
         setMeters([]);
         setStalls([]);
@@ -1605,10 +1602,11 @@ const buildingChipOptions = useMemo<BuildingChipOption[]>(() => {
         setFormMeterId("");
         setSelectedMeterId("");
         setHasOfflinePackage(false);
+        await localStore.offlinePackage.remove();
 
         notify("Synced", "Exported offline readings and cleared device data.");
       } catch (e: any) {
-        notify("Sync failed", errorText(e, "Unable to sync right now."));
+        showError("Sync failed", e, "Unable to sync right now.");
       } finally {
         setSyncingPackage(false);
       }
@@ -1624,14 +1622,9 @@ const buildingChipOptions = useMemo<BuildingChipOption[]>(() => {
       console.log("🧪 Testing image endpoint for:", testReading.reading_id);
 
       try {
-        const response = await api.get(
-          `${readingBase}/${testReading.reading_id}/image`,
-          {
-            responseType: "arraybuffer",
-            headers: {
-              Accept: "image/*",
-            },
-          },
+        const response = await api.readings.image(
+          testReading.reading_id,
+          readingBase,
         );
 
         console.log("🧪 Test response status:", response.status);
@@ -1648,7 +1641,7 @@ const buildingChipOptions = useMemo<BuildingChipOption[]>(() => {
         }
       } catch (err: any) {
         console.error("🧪 Test failed:", err);
-        notify("Backend Error", errorText(err, "Image endpoint not accessible."));
+        showError("Backend Error", err, "Image endpoint not accessible.");
       }
     };
 
@@ -1684,7 +1677,35 @@ const buildingChipOptions = useMemo<BuildingChipOption[]>(() => {
               </Text>
             </TouchableOpacity>
           )}
+          {!isAdmin && !isOperator && !isBiller && hasOfflinePackage && (
+            <TouchableOpacity
+              style={styles.historyBtn}
+              onPress={refreshReaderPackage}
+              disabled={syncingPackage}
+            >
+              <Text style={styles.historyBtnText}>Refresh package</Text>
+            </TouchableOpacity>
+          )}
+          {!isAdmin && !isOperator && !isBiller && (
+            <>
+              <TouchableOpacity
+                style={styles.historyBtn}
+                onPress={saveReadingsToFile}
+                disabled={syncingPackage}
+              >
+                <Text style={styles.historyBtnText}>Save readings to file</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.historyBtn}
+                onPress={loadPackageFile}
+                disabled={syncingPackage}
+              >
+                <Text style={styles.historyBtnText}>Load package file</Text>
+              </TouchableOpacity>
+            </>
+          )}
         </View>
+        {isReader ? <SyncStatusIndicator style={{ marginBottom: 10 }} /> : null}
 
         <View style={styles.card}>
           <View style={styles.cardHeader}>
@@ -2020,10 +2041,7 @@ setBuildingFilter(
                         return;
                       }
                       setFormMeterId(id);
-                      const v = Number(formValue);
-                      const { latest } = getLastTwo(readings, id);
-                      const p = latest ? pctUp(v, latest.reading_value) : null;
-                      setCreateWarn(!!p && p >= 0.2);
+                      setCreateReason(null);
                     }}
                     options={metersForCreate.map((m) => ({
                       label: `${m.meter_id} • ${m.meter_type} • ${m.meter_sn}`,
@@ -2039,13 +2057,7 @@ setBuildingFilter(
                       style={styles.input}
                       keyboardType="numeric"
                       value={formValue}
-                      onChangeText={(val) => {
-                        setFormValue(val);
-                        const v = Number(val);
-                        const { latest } = getLastTwo(readings, formMeterId);
-                        const p = latest ? pctUp(v, latest.reading_value) : null;
-                        setCreateWarn(!!p && p >= 0.2);
-                      }}
+                      onChangeText={setFormValue}
                       placeholder="Reading value"
                     />
                   </View>
@@ -2056,24 +2068,15 @@ setBuildingFilter(
                   />
                 </View>
 
-                {createWarn && (
-                  <View style={styles.warnBox}>
-                    <Ionicons
-                      name="warning-outline"
-                      size={16}
-                      color="#b45309"
-                      style={{ marginRight: 6 }}
-                    />
-                    <Text style={styles.warnText}>
-                      This value is ≥20% higher than the previous reading. Remarks
-                      are required.
-                    </Text>
-                  </View>
-                )}
+                <ReadingCheckNotice
+                  check={createCheck}
+                  reason={createReason}
+                  onReason={setCreateReason}
+                />
 
                 <View style={{ marginTop: 8 }}>
                   <Text style={styles.dropdownLabel}>
-                    Remarks {createWarn ? "(required)" : "(optional)"}{" "}
+                    Remarks {createReason === "other" ? "(required)" : "(optional)"}{" "}
                   </Text>
                   <TextInput
                     style={[
@@ -2081,7 +2084,7 @@ setBuildingFilter(
                       {
                         minHeight: 44,
                         borderColor:
-                          createWarn && !formRemarks.trim()
+                          createReason === "other" && !formRemarks.trim()
                             ? "#f59e0b"
                             : "#d9e2ec",
                       },
@@ -2089,8 +2092,8 @@ setBuildingFilter(
                     value={formRemarks}
                     onChangeText={setFormRemarks}
                     placeholder={
-                      createWarn
-                        ? "Add remarks (required due to ≥20% increase)"
+                      createReason === "other"
+                        ? "Explain why the reading is saved anyway"
                         : "Notes for this reading"
                     }
                   />
@@ -2274,17 +2277,7 @@ setBuildingFilter(
                   value={editMeterId}
                   onChange={(id) => {
                     setEditMeterId(id);
-                    const v = Number(editValue);
-                    const { latest, previous } = getLastTwo(readings, id);
-                    const base =
-                      latest &&
-                      editRow &&
-                      latest.meter_id === editRow.meter_id &&
-                      latest.lastread_date === editRow.lastread_date
-                        ? (previous?.reading_value ?? null)
-                        : (latest?.reading_value ?? null);
-                    const p = base != null ? pctUp(v, base) : null;
-                    setEditWarn(!!p && p >= 0.2);
+                    setEditReason(null);
                   }}
                   options={meters.map((m) => ({
                     label: `${m.meter_id} • ${m.meter_type} • ${m.meter_sn}`,
@@ -2297,23 +2290,7 @@ setBuildingFilter(
                     <TextInput
                       style={styles.input}
                       value={editValue}
-                      onChangeText={(val) => {
-                        setEditValue(val);
-                        const v = Number(val);
-                        const { latest, previous } = getLastTwo(
-                          readings,
-                          editMeterId || editRow?.meter_id || "",
-                        );
-                        const base =
-                          latest &&
-                          editRow &&
-                          latest.meter_id === editRow.meter_id &&
-                          latest.lastread_date === editRow.lastread_date
-                            ? (previous?.reading_value ?? null)
-                            : (latest?.reading_value ?? null);
-                        const p = base != null ? pctUp(v, base) : null;
-                        setEditWarn(!!p && p >= 0.2);
-                      }}
+                      onChangeText={setEditValue}
                       keyboardType="numeric"
                       placeholder="Reading value"
                     />
@@ -2325,24 +2302,15 @@ setBuildingFilter(
                   />
                 </View>
 
-                {editWarn && (
-                  <View style={styles.warnBox}>
-                    <Ionicons
-                      name="warning-outline"
-                      size={16}
-                      color="#b45309"
-                      style={{ marginRight: 6 }}
-                    />
-                    <Text style={styles.warnText}>
-                      This value is ≥20% higher than the previous reading. Remarks
-                      are required.
-                    </Text>
-                  </View>
-                )}
+                <ReadingCheckNotice
+                  check={editCheck}
+                  reason={editReason}
+                  onReason={setEditReason}
+                />
 
                 <View style={{ marginTop: 8 }}>
                   <Text style={styles.dropdownLabel}>
-                    Remarks {editWarn ? "(required)" : "(optional)"}{" "}
+                    Remarks {editReason === "other" ? "(required)" : "(optional)"}{" "}
                   </Text>
                   <TextInput
                     style={[
@@ -2350,14 +2318,16 @@ setBuildingFilter(
                       {
                         minHeight: 44,
                         borderColor:
-                          editWarn && !editRemarks.trim() ? "#f59e0b" : "#d9e2ec",
+                          editReason === "other" && !editRemarks.trim()
+                            ? "#f59e0b"
+                            : "#d9e2ec",
                       },
                     ]}
                     value={editRemarks}
                     onChangeText={setEditRemarks}
                     placeholder={
-                      editWarn
-                        ? "Add remarks (required due to ≥20% increase)"
+                      editReason === "other"
+                        ? "Explain why the reading is saved anyway"
                         : "Notes for this reading"
                     }
                   />
@@ -2715,14 +2685,9 @@ setBuildingFilter(
       setPrintProofVisible(true);
 
       try {
-        const endpoint = `${readingBase}/${encodeURIComponent(reading.reading_id)}/image`;
-        console.log("🖼️ Fetching image from:", endpoint);
-
-        const response = await api.get(endpoint, {
-          responseType: "arraybuffer",
-          headers: {
-            Accept: "image/*",
-          },
+        console.log("🖼️ Fetching image for:", reading.reading_id);
+
+        const response = await api.readings.image(reading.reading_id, readingBase, {
           timeout: 10000,
           validateStatus: (status: number) => status < 500,
         });
@@ -3793,6 +3758,11 @@ setBuildingFilter(
                         Remarks: {item.remarks}
                       </Text>
                     )}
+                    {!!item.override_reason && (
+                      <Text style={[styles.rowSubSmall, styles.overrideText]}>
+                        Saved despite check: {reasonLabel(item.override_reason)}
+                      </Text>
+                    )}
 
                     <View style={styles.badgesRow}>
                       {(item.status === "pending" ||
@@ -3808,6 +3778,16 @@ setBuildingFilter(
                           {item.status === "pending" ? "Pending" : "Failed"}
                         </Text>
                       )}
+                      {item.status === "rejected" && (
+                        <Text style={[styles.statusBadge, styles.statusFailed]}>
+                          Rejected by server
+                        </Text>
+                      )}
+                      {item.outcome === "duplicate" && (
+                        <Text style={[styles.statusBadge, styles.statusWarn]}>
+                          Duplicate{item.submission_id ? ` of #${item.submission_id}` : ""}
+                        </Text>
+                      )}
                       {!!item.error && (
                         <Text
                           style={[styles.statusBadge, styles.statusWarn]}
@@ -4757,6 +4737,7 @@ setBuildingFilter(
       alignItems: "flex-start",
     },
     warnText: { color: "#92400e", fontSize: 13, flex: 1 },
+    overrideText: { color: "#b45309", fontWeight: "700" },
     warnInline: {
       color: "#b45309",
       fontSize: 12,
@@ -13,54 +13,21 @@ import {
   Platform,
   Image,
 } from "react-native";
-import axios from "axios";
 import { Ionicons } from "@expo/vector-icons";
 import { useAuth } from "../../contexts/AuthContext";
-import { BASE_API } from "../../constants/api";
-
-type Submission = {
-  id: number;
-  device_id?: number | null;
-  device_serial?: string | null;
-  device_name?: string | null;
-
-  reader_user_id: string;
-  meter_id: string;
-
-  reading_value: number;
-  reading_date: string;
-
-  remarks?: string | null;
-  image_base64?: string | null;
-
-  submitted_at: string;
-  status: "pending" | "approved" | "rejected" | string;
-
-  approved_by?: string | null;
-  approved_at?: string | null;
-};
-
-type Building = {
-  building_id: string;
-  building_name?: string | null;
-};
-
-type StallRow = {
-  stall_id: string;
-  building_id: string;
-};
-
-type MeterRow = {
-  meter_id: string;
-  stall_id?: string | null;
-  building_id?: string | null;
-};
-
-type ReadingRow = {
-  meter_id: string;
-  reading_value: number;
-  lastread_date: string;
-};
+import { useServerCapabilities } from "../../hooks/useServerCapabilities";
+import {
+  Building,
+  OfflineSubmission,
+  READINGS_PATH,
+  createApi,
+} from "../../services/api";
+import { ApiError, showError, toApiError } from "../../services/apiError";
+import { flagLabel, reasonLabel } from "../../services/readingCheck";
+import { readReference } from "../../services/refCache";
+import { parseTransferFile } from "../../services/transferBundle";
+import { pickTransferFile } from "../../services/transferFile";
+import ErrorBanner from "../ErrorBanner";
 
 function notify(title: string, message?: string) {
   if (
@@ -107,37 +74,41 @@ function toText(v: any) {
   }
 }
 
-function pickMessage(data: any) {
-  return (
-    data?.error ||
-    data?.message ||
-    data?.hint ||
-    (typeof data === "string" ? data : null)
-  );
+// a 403 here nearly always means the account lacks the module
+function explainError(e: unknown, fallback: string) {
+  const err = toApiError(e, fallback);
+  if (err.status === 403 && !/Hint:/.test(err.message)) {
+    err.message +=
+      "\n\nHint: You need (role: admin/operator/biller) AND access module: offline_submissions OR meter_readings.";
+  }
+  return err;
 }
 
-function explainAxiosError(e: any, fallback: string) {
-  const status = e?.response?.status;
-  const serverMsg = pickMessage(e?.response?.data);
-  const msg = serverMsg || e?.message || fallback;
+const dateOf = (s?: string) => (s ? Date.parse(s) || 0 : 0);
 
-  if (status === 401) {
-    return `${toText(
-      msg,
-    )}\n\nHint: Your session may be expired. Try logging in again.`;
-  }
-  if (status === 403) {
-    return `${toText(
-      msg,
-    )}\n\nHint: You need (role: admin/operator/biller) AND access module: offline_submissions OR meter_readings.`;
+/**
+ * Pending submissions that repeat an earlier one, by id of the earlier one:
+ * the server's own `duplicate_of`, else the same client_reading_id, or (for
+ * devices that send none) the same device, meter, day and value.
+ */
+function findDuplicates(items: OfflineSubmission[]) {
+  const out = new Map<number, number>();
+  const first = new Map<string, number>();
+  for (const s of [...items].sort((a, b) => a.id - b.id)) {
+    if (s.duplicate_of != null) {
+      out.set(s.id, s.duplicate_of);
+      continue;
+    }
+    const key = s.client_reading_id
+      ? `id:${s.device_serial ?? ""}:${s.client_reading_id}`
+      : `v:${s.device_serial ?? ""}:${s.meter_id}:${String(s.reading_date).slice(0, 10)}:${Number(s.reading_value)}`;
+    const seen = first.get(key);
+    if (seen != null) out.set(s.id, seen);
+    else first.set(key, s.id);
   }
-
-  const body = e?.response?.data ? `\n\nResponse:\n${toText(e.response.data)}` : "";
-  return `${toText(msg)}${body}`;
+  return out;
 }
 
-const dateOf = (s?: string) => (s ? Date.parse(s) || 0 : 0);
-
 function b64UrlToUtf8(b64url: string): string {
   let b64 = String(b64url || "").replace(/-/g, "+").replace(/_/g, "/");
   while (b64.length % 4) b64 += "=";
@@ -247,27 +218,13 @@ export default function OfflineSubmissionsPanel() {
   const { width } = useWindowDimensions();
   const isMobile = width < 640;
 
-  const api = useMemo(() => {
-    const auth =
-      token && String(token).trim()
-        ? {
-            Authorization: /^Bearer\s/i.test(String(token).trim())
-              ? String(token).trim()
-              : `Bearer ${String(token).trim()}`,
-          }
-        : {};
-    return axios.create({
-      baseURL: BASE_API,
-      timeout: 25000,
-      headers: auth,
-    });
-  }, [token]);
+  const api = useMemo(() => createApi(token, { timeout: 25000 }), [token]);
 
   const [busy, setBusy] = useState(true);
   const [submitting, setSubmitting] = useState(false);
 
-  const [items, setItems] = useState<Submission[]>([]);
-  const [error, setError] = useState<string>("");
+  const [items, setItems] = useState<OfflineSubmission[]>([]);
+  const [error, setError] = useState<ApiError | null>(null);
 
   // lookups
   const [buildings, setBuildings] = useState<Building[]>([]);
@@ -287,35 +244,12 @@ export default function OfflineSubmissionsPanel() {
   const approverName = me?.user_fullname ? String(me.user_fullname) : "";
 
   // previous reading index (for 20% warning)
-  const READING_ENDPOINTS = [
-    "/meter_reading",
-    "/readings",
-    "/meter-readings",
-    "/meterreadings",
-  ];
-  const [readingBase, setReadingBase] = useState<string | null>(
-    READING_ENDPOINTS[0],
-  );
+  const caps = useServerCapabilities();
+  const readingBase = caps?.readingsPath ?? READINGS_PATH;
   const [readingsByMeter, setReadingsByMeter] = useState<
     Map<string, Array<{ value: number; date: string }>>
   >(() => new Map());
 
-  async function detectReadingEndpoint() {
-    for (const p of READING_ENDPOINTS) {
-      try {
-        const res = await api.get(p, { validateStatus: () => true });
-        const ok =
-          res.status >= 200 && res.status < 400 && Array.isArray(res.data);
-        if (ok) {
-          setReadingBase(p);
-          return p;
-        }
-      } catch {}
-    }
-    setReadingBase(null);
-    return null;
-  }
-
   function buildReadingIndex(rows: any[]) {
     const index = new Map<string, Array<{ value: number; date: string }>>();
     for (const r of rows || []) {
@@ -340,16 +274,9 @@ export default function OfflineSubmissionsPanel() {
   async function fetchReadingIndex() {
     if (!token) return;
 
-    const base = readingBase || (await detectReadingEndpoint());
-    if (!base) {
-      setReadingsByMeter(new Map());
-      return;
-    }
-
     try {
-      const res = await api.get<ReadingRow[]>(base);
-      const rows = Array.isArray(res.data) ? res.data : [];
-      setReadingsByMeter(buildReadingIndex(rows as any));
+      const rows = await api.readings.list(readingBase);
+      setReadingsByMeter(buildReadingIndex(rows));
     } catch {
       setReadingsByMeter(new Map());
     }
@@ -419,7 +346,7 @@ export default function OfflineSubmissionsPanel() {
     }, 80);
   };
 
-  const openImageModal = (item: Submission) => {
+  const openImageModal = (item: OfflineSubmission) => {
     const uri = asImageUri(item.image_base64);
     if (!uri) return;
 
@@ -440,20 +367,12 @@ export default function OfflineSubmissionsPanel() {
 
     try {
       setBusy(true);
-      setError("");
-
-      const res = await api.get("/offlineExport/pending");
-      const submissions = res.data?.submissions;
+      setError(null);
 
-      if (Array.isArray(submissions)) {
-        setItems(submissions);
-      } else {
-        setItems([]);
-        setError(toText(pickMessage(res.data) || "Unexpected server response."));
-      }
+      setItems(await api.offlineExport.pending());
     } catch (e: any) {
       setItems([]);
-      setError(explainAxiosError(e, "Failed to load pending submissions."));
+      setError(explainError(e, "Failed to load pending submissions."));
     } finally {
       setBusy(false);
     }
@@ -463,17 +382,17 @@ export default function OfflineSubmissionsPanel() {
     if (!token) return;
 
     try {
-      const [bRes, sRes, mRes] = await Promise.all([
-        api.get<Building[]>("/buildings"),
-        api.get<StallRow[]>("/stalls"),
-        api.get<MeterRow[]>("/meters"),
+      const [bRows, sRows, mRows] = await Promise.all([
+        readReference(api, "buildings", fetchLookups),
+        readReference(api, "stalls", fetchLookups),
+        readReference(api, "meters", fetchLookups),
       ]);
 
-      const bList = Array.isArray(bRes.data) ? bRes.data : [];
+      const bList = Array.isArray(bRows) ? bRows : [];
       setBuildings(bList);
 
-      const stalls = Array.isArray(sRes.data) ? sRes.data : [];
-      const meters = Array.isArray(mRes.data) ? mRes.data : [];
+      const stalls = Array.isArray(sRows) ? sRows : [];
+      const meters = Array.isArray(mRows) ? mRows : [];
 
       const stallToBuilding = new Map<string, string>();
       for (const s of stalls) {
@@ -511,7 +430,7 @@ export default function OfflineSubmissionsPanel() {
     } else {
       setBusy(false);
       setItems([]);
-      setError("");
+      setError(null);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [token, canUse]);
@@ -548,6 +467,8 @@ export default function OfflineSubmissionsPanel() {
     return arr;
   }, [filtered, sortMode]);
 
+  const duplicateOf = useMemo(() => findDuplicates(items), [items]);
+
   // ✅ guard against double-taps + approve-all overlaps
   const inFlightIds = useRef<Set<number>>(new Set());
 
@@ -556,13 +477,17 @@ export default function OfflineSubmissionsPanel() {
     inFlightIds.current.add(id);
 
     try {
-      const res = await api.post(`/offlineExport/approve/${id}`);
-      const mrId = res?.data?.reading_id != null ? String(res.data.reading_id) : "";
+      const res = await api.offlineExport.approve(id);
+      const mrId = res?.reading_id != null ? String(res.reading_id) : "";
 
       if (!opts?.silent) {
         notify(
           "Approved ✅",
-          mrId
+          res?.duplicate_of != null
+            ? `This was a resend of #${res.duplicate_of}, which is already approved${
+                mrId ? ` as ${mrId}` : ""
+              }. No second reading was created.`
+            : mrId
             ? `Saved as ${mrId}\n\nThis offline submission will now appear in Meter Readings as a normal MR-* entry (with [OFFLINE] in remarks).`
             : "Saved to meter_reading.",
         );
@@ -574,9 +499,9 @@ export default function OfflineSubmissionsPanel() {
 
       return { ok: true, mrId };
     } catch (e: any) {
-      const msg = explainAxiosError(e, "Approve failed.");
-      if (!opts?.silent) notify("Approve failed", msg);
-      return { ok: false, error: msg };
+      const err = explainError(e, "Approve failed.");
+      if (!opts?.silent) showError("Approve failed", err);
+      return { ok: false, error: err.message };
     } finally {
       inFlightIds.current.delete(id);
     }
@@ -587,17 +512,55 @@ export default function OfflineSubmissionsPanel() {
     inFlightIds.current.add(id);
 
     try {
-      await api.post(`/offlineExport/reject/${id}`);
+      await api.offlineExport.reject(id);
       await fetchPending();
       notify("Rejected", "Offline submission has been rejected.");
     } catch (e: any) {
-      const msg = explainAxiosError(e, "Reject failed.");
-      notify("Reject failed", msg);
+      showError("Reject failed", explainError(e, "Reject failed."));
     } finally {
       inFlightIds.current.delete(id);
     }
   };
 
+  // readings carried in as a file from a reader device without network
+  const [uploadingBundle, setUploadingBundle] = useState(false);
+  const uploadBundle = async () => {
+    if (uploadingBundle) return;
+    try {
+      const text = await pickTransferFile();
+      if (text == null) return;
+      const parsed = parseTransferFile(text);
+      if (parsed.kind !== "bundle") {
+        notify(
+          "Not a reader bundle",
+          "This is a package file; it is loaded on the reader device.",
+        );
+        return;
+      }
+
+      setUploadingBundle(true);
+      const results = await api.offlineExport.uploadBundle(parsed.file, parsed.bundle);
+      const rejected = results.filter((r) => r.status === "rejected");
+      notify(
+        "Bundle uploaded",
+        [
+          `Device: ${parsed.bundle.device_serial}`,
+          `New submissions: ${results.filter((r) => r.status === "accepted").length}`,
+          `Already received: ${results.filter((r) => r.status === "duplicate").length}`,
+          `Rejected: ${rejected.length}`,
+          ...rejected
+            .slice(0, 5)
+            .map((r) => `• ${r.meter_id} ${r.lastread_date}: ${r.error || "rejected"}`),
+        ].join("\n"),
+      );
+      await fetchPending();
+    } catch (e: any) {
+      showError("Upload failed", explainError(e, "Unable to upload the bundle."));
+    } finally {
+      setUploadingBundle(false);
+    }
+  };
+
   // ✅ Approve All (current filtered list)
   const [approveAllBusy, setApproveAllBusy] = useState(false);
   const [approveAllProgress, setApproveAllProgress] = useState<{ done: number; total: number }>({
@@ -610,9 +573,16 @@ export default function OfflineSubmissionsPanel() {
       notify("Select a building", "Please select a building first.");
       return;
     }
-    const ids = sorted.map((x) => x.id);
+    // possible duplicates are left for a person to approve or reject
+    const skipped = sorted.filter((x) => duplicateOf.has(x.id)).map((x) => x.id);
+    const ids = sorted.filter((x) => !duplicateOf.has(x.id)).map((x) => x.id);
     if (ids.length === 0) {
-      notify("Nothing to approve", "No pending submissions in this building.");
+      notify(
+        "Nothing to approve",
+        skipped.length
+          ? "Only possible duplicates are pending in this building; review them individually."
+          : "No pending submissions in this building.",
+      );
       return;
     }
     if (approveAllBusy || submitting) return;
@@ -637,13 +607,20 @@ export default function OfflineSubmissionsPanel() {
     await Promise.all([fetchPending(), fetchReadingIndex()]);
 
     const okCount = ids.length - failures.length;
+    const skippedNote = skipped.length
+      ? `\n\nSkipped ${skipped.length} possible duplicate${
+          skipped.length === 1 ? "" : "s"
+        } (${skipped.slice(0, 5).map((id) => `#${id}`).join(", ")}${
+          skipped.length > 5 ? ", …" : ""
+        }); review them individually.`
+      : "";
 
     if (failures.length === 0) {
       notify(
         "Approve All ✅",
         `Approved ${okCount}/${ids.length} submissions for ${
           buildingLabel.get(buildingFilter) || buildingFilter
-        }.`,
+        }.${skippedNote}`,
       );
     } else {
       // keep message short, include first few
@@ -652,7 +629,7 @@ export default function OfflineSubmissionsPanel() {
         "Approve All (partial)",
         `Approved ${okCount}/${ids.length}.\nFailed: ${failures.length}\n\nFailed IDs: ${firstFew}${
           failures.length > 5 ? ", …" : ""
-        }\n\nTip: Try approving the failed ones individually to see the exact error.`,
+        }\n\nTip: Try approving the failed ones individually to see the exact error.${skippedNote}`,
       );
     }
 
@@ -746,6 +723,17 @@ export default function OfflineSubmissionsPanel() {
                 </Text>
               </TouchableOpacity>
 
+              {/* Upload a reader bundle file */}
+              <TouchableOpacity
+                style={[styles.btn, uploadingBundle && styles.btnDisabled]}
+                onPress={uploadBundle}
+                disabled={uploadingBundle}
+              >
+                <Text style={styles.btnText}>
+                  {uploadingBundle ? "Uploading…" : "Upload bundle"}
+                </Text>
+              </TouchableOpacity>
+
               {/* Refresh */}
               <TouchableOpacity
                 style={[styles.btn, submitting && styles.btnDisabled]}
@@ -763,7 +751,11 @@ export default function OfflineSubmissionsPanel() {
             </View>
           </View>
 
-          {!!error && <Text style={styles.err}>{toText(error)}</Text>}
+          <ErrorBanner
+            error={error}
+            onDismiss={() => setError(null)}
+            style={{ marginBottom: 10 }}
+          />
 
           <View style={styles.filtersBar}>
             <View style={[styles.searchWrap, { flex: 1 }]}>
@@ -885,6 +877,8 @@ export default function OfflineSubmissionsPanel() {
                     ? ""
                     : `${deltaPct >= 0 ? "+" : ""}${Math.round(deltaPct)}%`;
 
+                const dupOf = duplicateOf.get(item.id);
+
                 const uri = asImageUri(item.image_base64);
                 const hasImage = !!uri;
 
@@ -919,6 +913,24 @@ export default function OfflineSubmissionsPanel() {
                             </Text>
                           </View>
                         )}
+
+                        {!!item.override_reason && (
+                          <View style={styles.overrideBadge}>
+                            <Ionicons name="flag-outline" size={14} color="#fff" />
+                            <Text style={styles.warnBadgeText}>
+                              Override: {reasonLabel(item.override_reason)}
+                            </Text>
+                          </View>
+                        )}
+
+                        {dupOf != null && (
+                          <View style={styles.dupBadge}>
+                            <Ionicons name="copy-outline" size={14} color="#fff" />
+                            <Text style={styles.warnBadgeText}>
+                              Possible duplicate of #{dupOf}
+                            </Text>
+                          </View>
+                        )}
                       </View>
 
                       <Text style={styles.rowMeta}>
@@ -956,6 +968,16 @@ export default function OfflineSubmissionsPanel() {
                           : ""}
                       </Text>
 
+                      {item.override_reason ? (
+                        <Text style={[styles.rowMetaSmall, styles.overrideText]}>
+                          Saved by the reader despite the plausibility check
+                          {item.override_flags?.length
+                            ? ` (${item.override_flags.map(flagLabel).join(", ")})`
+                            : ""}
+                          : {reasonLabel(item.override_reason)}
+                        </Text>
+                      ) : null}
+
                       {!!approverId && (
                         <Text style={styles.rowMetaSmall}>
                           Approver (you): {approverId}
@@ -1268,7 +1290,6 @@ const styles = StyleSheet.create({
   btnDisabled: { opacity: 0.55 },
   btnText: { color: "#fff", fontWeight: "800" },
 
-  err: { color: "#c62828", marginBottom: 10 },
 
   filtersBar: {
     flexDirection: "row",
@@ -1395,6 +1416,25 @@ const styles = StyleSheet.create({
     borderRadius: 999,
   },
   warnBadgeText: { color: "#fff", fontWeight: "800", fontSize: 12 },
+  overrideBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "#b45309",
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 999,
+  },
+  overrideText: { color: "#b45309" },
+  dupBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "#7c3aed",
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 999,
+  },
 
   rowTitle: { fontSize: 15, fontWeight: "800", color: "#0f172a", marginBottom: 4 },
   rowSub: { color: "#64748b", fontWeight: "800", fontSize: 12 },
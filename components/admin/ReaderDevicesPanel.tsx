@@ -12,20 +12,13 @@ import {
   View,
   useWindowDimensions,
 } from "react-native";
-import axios from "axios";
 import { Ionicons } from "@expo/vector-icons";
 import { useAuth } from "../../contexts/AuthContext";
-import { BASE_API } from "../../constants/api";
-
-type Device = {
-  id: number;
-  device_serial: string;
-  device_name: string | null;
-  device_token: string;
-  status: "active" | "blocked" | string;
-  last_seen_at?: any;
-  created_at?: any;
-};
+import { ReaderDevice, createApi } from "../../services/api";
+import { ApiError, showError, toApiError } from "../../services/apiError";
+import { packageFile, packageFileName } from "../../services/transferBundle";
+import { saveTransferFile } from "../../services/transferFile";
+import ErrorBanner from "../ErrorBanner";
 
 function toText(v: any) {
   if (v === null || v === undefined) return "";
@@ -39,15 +32,6 @@ function toText(v: any) {
   }
 }
 
-function pickMessage(data: any) {
-  return (
-    data?.error ||
-    data?.message ||
-    data?.hint ||
-    (typeof data === "string" ? data : null)
-  );
-}
-
 function notify(title: string, message?: string) {
   if (
     Platform.OS === "web" &&
@@ -60,18 +44,14 @@ function notify(title: string, message?: string) {
   }
 }
 
-function explainAxiosError(e: any, fallback: string) {
-  const status = e?.response?.status;
-  const serverMsg = pickMessage(e?.response?.data);
-  const msg = serverMsg || e?.message || fallback;
-
-  if (status === 401) {
-    return `${toText(msg)}\n\nHint: Your session may be expired. Try logging in again.`;
+// a 403 here nearly always means the account lacks the module
+function explainError(e: unknown, fallback: string) {
+  const err = toApiError(e, fallback);
+  if (err.status === 403 && !/Hint:/.test(err.message)) {
+    err.message +=
+      "\n\nHint: Reader Devices management requires role: admin/operator/biller AND access module: reader_devices.";
   }
-  if (status === 403) {
-    return `${toText(msg)}\n\nHint: Reader Devices management requires role: admin/operator/biller AND access module: reader_devices.`;
-  }
-  return toText(msg);
+  return err;
 }
 
 const Chip = ({
@@ -108,20 +88,11 @@ export default function ReaderDevicesPanel() {
   const canUse = roleOk && accessOk;
   const { width } = useWindowDimensions();
   const isMobile = width < 640;
-  const api = useMemo(() => {
-    const t = token ? String(token).trim() : "";
-    const authHeader = t ? (/^Bearer\s/i.test(t) ? t : `Bearer ${t}`) : "";
-
-    return axios.create({
-      baseURL: BASE_API,
-      timeout: 20000,
-      headers: { Authorization: authHeader },
-    });
-  }, [token]);
+  const api = useMemo(() => createApi(token, { timeout: 20000 }), [token]);
 
   const [loading, setLoading] = useState(false);
-  const [devices, setDevices] = useState<Device[]>([]);
-  const [error, setError] = useState<string>("");
+  const [devices, setDevices] = useState<ReaderDevice[]>([]);
+  const [error, setError] = useState<ApiError | null>(null);
   const [addOpen, setAddOpen] = useState(false);
   const [serial, setSerial] = useState("");
   const [name, setName] = useState("");
@@ -134,22 +105,13 @@ export default function ReaderDevicesPanel() {
     if (!token) return;
 
     setLoading(true);
-    setError("");
+    setError(null);
 
     try {
-      const res = await api.get("/reader-devices");
-      const devs = res.data?.devices;
-
-      if (Array.isArray(devs)) {
-        setDevices(devs);
-      } else {
-        setDevices([]);
-        const msg = pickMessage(res.data) || "Unexpected response from server.";
-        setError(toText(msg));
-      }
+      setDevices(await api.readerDevices.list());
     } catch (e: any) {
       setDevices([]);
-      setError(explainAxiosError(e, "Failed to load devices."));
+      setError(explainError(e, "Failed to load devices."));
     } finally {
       setLoading(false);
     }
@@ -195,7 +157,7 @@ export default function ReaderDevicesPanel() {
 
     try {
       setLoading(true);
-      await api.post("/reader-devices/register", {
+      await api.readerDevices.register({
         device_serial,
         device_name: device_name || undefined,
       });
@@ -205,30 +167,46 @@ export default function ReaderDevicesPanel() {
       setName("");
       await fetchDevices();
     } catch (e: any) {
-      notify("Register failed", explainAxiosError(e, "Register failed."));
+      showError("Register failed", explainError(e, "Register failed."));
     } finally {
       setLoading(false);
     }
   };
 
-  const onToggleBlock = async (d: Device) => {
+  const onToggleBlock = async (d: ReaderDevice) => {
     const next =
       String(d.status).toLowerCase() === "active" ? "blocked" : "active";
     try {
       setLoading(true);
-      await api.patch(`/reader-devices/${d.id}`, { status: next });
+      await api.readerDevices.setStatus(d.id, next);
       await fetchDevices();
     } catch (e: any) {
-      notify("Update failed", explainAxiosError(e, "Update failed."));
+      showError("Update failed", explainError(e, "Update failed."));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // for a device that cannot reach the server: the reader loads the file instead
+  const onPackageFile = async (d: ReaderDevice) => {
+    try {
+      setLoading(true);
+      const pkg = await api.offlineExport.packageFile(d.id);
+      await saveTransferFile(
+        packageFileName(d.device_serial, pkg.generated_at),
+        JSON.stringify(packageFile(pkg)),
+      );
+    } catch (e: any) {
+      showError("Package file failed", explainError(e, "Could not create the package file."));
     } finally {
       setLoading(false);
     }
   };
 
-  const onDelete = async (d: Device) => {
+  const onDelete = async (d: ReaderDevice) => {
     Alert.alert(
       "Delete device?",
-      `Serial: ${d.device_serial}\nThis will remove the token from server control.`,
+      `Serial: ${d.device_serial}\nThis will remove the token from server control. The next time the device reaches the server it drops its offline data, including readings it has not synced.`,
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -237,10 +215,10 @@ export default function ReaderDevicesPanel() {
           onPress: async () => {
             try {
               setLoading(true);
-              await api.delete(`/reader-devices/${d.id}`);
+              await api.readerDevices.remove(d.id);
               await fetchDevices();
             } catch (e: any) {
-              notify("Delete failed", explainAxiosError(e, "Delete failed."));
+              showError("Delete failed", explainError(e, "Delete failed."));
             } finally {
               setLoading(false);
             }
@@ -287,7 +265,11 @@ export default function ReaderDevicesPanel() {
             </TouchableOpacity>
           </View>
 
-          {!!error && <Text style={styles.err}>{toText(error)}</Text>}
+          <ErrorBanner
+            error={error}
+            onDismiss={() => setError(null)}
+            style={{ marginBottom: 10 }}
+          />
           {loading ? (
             <View style={styles.loader}>
               <ActivityIndicator />
@@ -396,6 +378,19 @@ export default function ReaderDevicesPanel() {
                       </Text>
                     </TouchableOpacity>
 
+                    {isActive && (
+                      <TouchableOpacity
+                        style={[styles.actionBtn, styles.actionEdit]}
+                        onPress={() => onPackageFile(item)}
+                        disabled={loading}
+                      >
+                        <Ionicons name="document-outline" size={16} color="#1f2937" />
+                        <Text style={[styles.actionText, styles.actionEditText]}>
+                          Package file
+                        </Text>
+                      </TouchableOpacity>
+                    )}
+
                     <TouchableOpacity
                       style={[styles.actionBtn, styles.actionDelete]}
                       onPress={() => onDelete(item)}
@@ -538,7 +533,6 @@ const styles = StyleSheet.create({
   },
   btnGhostText: { color: "#394e6a", fontWeight: "700" },
 
-  err: { color: "#c62828", marginBottom: 10 },
 
   loader: { paddingVertical: 12, alignItems: "center", justifyContent: "center" },
 
@@ -0,0 +1,477 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Image,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Vibration,
+  View,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { BarcodeScanningResult, CameraView, useCameraPermissions } from "expo-camera";
+import { useAuth } from "../../contexts/AuthContext";
+import { useScanHistory } from "../../contexts/ScanHistoryContext";
+import { fmtNum, notify, todayYmd, useReadingEntry } from "../../hooks/useReadingEntry";
+import { createApi } from "../../services/api";
+import { LABEL_FORMATS, parseScannedCode, resolveScannedCode } from "../../services/codeResolver";
+import { localStore, toYMD } from "../../services/localStore";
+import type { OfflinePackage, OfflinePackageItem } from "../../services/offlineSync";
+import {
+  loadSkipped,
+  planRoute,
+  saveSkipped,
+  stopLocation,
+} from "../../services/readingRoute";
+import ReadingCheckNotice from "../ReadingCheckNotice";
+import SyncStatusIndicator from "../SyncStatusIndicator";
+
+/**
+ * Guided route for a reader walking a building: the next unread meter of the
+ * offline package with its tenant and previous reading, confirmed by scanning
+ * its label (or by tapping when the label is unreadable), then read and
+ * queued without leaving the screen. The route advances by itself; skipped
+ * meters stay listed until they are read.
+ */
+export default function RouteModePanel() {
+  const { token } = useAuth();
+  const { scans, isConnected } = useScanHistory();
+  const api = useMemo(() => createApi(token), [token]);
+
+  const [today, setToday] = useState(todayYmd);
+  const [pkg, setPkg] = useState<OfflinePackage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [serverRead, setServerRead] = useState<Set<string>>(new Set());
+  const [skipped, setSkipped] = useState<string[]>([]);
+
+  // the meter the reader chose from the skipped list, instead of the next one
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const [confirmedId, setConfirmedId] = useState<string | null>(null);
+  const [scanOpen, setScanOpen] = useState(false);
+  const [cameraPermission, requestCameraPermission] = useCameraPermissions();
+  // the camera reports a label many times; only the first counts
+  const scanTaken = useRef(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const day = todayYmd();
+    setToday(day);
+    try {
+      const [p, s] = await Promise.all([localStore.offlinePackage.get(), loadSkipped(day)]);
+      setPkg(p);
+      setSkipped(s);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // meters already read today from another screen or device
+  useEffect(() => {
+    if (!isConnected || !token) return;
+    let alive = true;
+    api.readings
+      .today()
+      .then((rows) => {
+        if (!alive) return;
+        setServerRead(
+          new Set(rows.filter((r) => toYMD(r.lastread_date) === today).map((r) => r.meter_id)),
+        );
+      })
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, [api, isConnected, token, today]);
+
+  const readToday = useMemo(() => {
+    const set = new Set(serverRead);
+    for (const s of scans) {
+      if (s.status !== "rejected" && toYMD(s.lastread_date) === today) set.add(s.meter_id);
+    }
+    return set;
+  }, [scans, serverRead, today]);
+
+  const plan = useMemo(
+    () => planRoute(pkg?.items ?? [], readToday, skipped),
+    [pkg, readToday, skipped],
+  );
+
+  const focused = focusId ? plan.skipped.find((it) => it.meter_id === focusId) : undefined;
+  const current: OfflinePackageItem | null = focused ?? plan.next;
+  const confirmed = !!current && confirmedId === current.meter_id;
+
+  const {
+    value,
+    setValue,
+    remarks,
+    setRemarks,
+    image,
+    reason,
+    setReason,
+    busy,
+    check,
+    takePhoto,
+    save: saveReading,
+  } = useReadingEntry(current, today, pkg);
+
+  // a new meter is on the card: confirm it again (a scan may have confirmed it already)
+  const currentId = current?.meter_id;
+  useEffect(() => {
+    setConfirmedId((id) => (id === currentId ? id : null));
+  }, [currentId]);
+
+  const openScanner = async () => {
+    if (!cameraPermission?.granted && !(await requestCameraPermission()).granted) {
+      notify("Camera needed", "Allow camera access to scan meter labels.");
+      return;
+    }
+    scanTaken.current = false;
+    setScanOpen(true);
+  };
+
+  const handleScan = async (result: BarcodeScanningResult) => {
+    if (scanTaken.current || !current) return;
+    scanTaken.current = true;
+    setScanOpen(false);
+    if (Platform.OS !== "web") Vibration.vibrate(80);
+
+    // old serial labels and stall codes count too (see services/codeResolver)
+    const code = parseScannedCode(String(result?.data ?? ""), result?.type);
+    const res = await resolveScannedCode(code, { items: plan.stops });
+    const ids =
+      res.status === "resolved"
+        ? [res.meter_id]
+        : res.status === "ambiguous"
+          ? res.candidates
+          : [];
+    if (ids.includes(current.meter_id)) {
+      setConfirmedId(current.meter_id);
+      return;
+    }
+    const other = plan.stops.find((it) => ids.includes(it.meter_id));
+    if (!other) {
+      notify("Unknown meter", `"${code.raw}" is not a meter of your route.`);
+    } else if (readToday.has(other.meter_id)) {
+      notify("Already read", `Meter ${other.meter_id} was already read today.`);
+    } else if (plan.skipped.some((it) => it.meter_id === other.meter_id)) {
+      // back at a meter skipped earlier
+      setFocusId(other.meter_id);
+      setConfirmedId(other.meter_id);
+    } else {
+      notify(
+        "Different meter",
+        `You scanned ${other.meter_id}, not ${current.meter_id}. Skip ${current.meter_id} to read the route in order, or read ${other.meter_id} from the skipped list later.`,
+      );
+    }
+  };
+
+  /**
+   * Left open past midnight: today's route (skips, meters read, the date a
+   * reading is checked and saved with) is another one, so reload it and let
+   * the reader try again.
+   */
+  const dayChanged = async () => {
+    if (todayYmd() === today) return false;
+    await load();
+    notify("New day", "The route was reloaded for today. Check the meter and try again.");
+    return true;
+  };
+
+  const skip = async (meterId: string) => {
+    if (await dayChanged()) return;
+    const next = [...skipped, meterId];
+    setSkipped(next);
+    setFocusId(null);
+    await saveSkipped(today, next).catch(() => {});
+  };
+
+  const save = async () => {
+    if (!current) return;
+    if (await dayChanged()) return;
+    const meterId = current.meter_id;
+    if (!(await saveReading())) return;
+    if (skipped.includes(meterId)) {
+      const next = skipped.filter((id) => id !== meterId);
+      setSkipped(next);
+      await saveSkipped(today, next).catch(() => {});
+    }
+    setFocusId(null);
+    setConfirmedId(null);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (!pkg || !pkg.items.length) {
+    return (
+      <View style={styles.center}>
+        <Ionicons name="map-outline" size={36} color="#94a3b8" />
+        <Text style={styles.emptyTitle}>No offline package</Text>
+        <Text style={styles.emptyText}>
+          Import the offline package in Readings first; the route is built from it.
+        </Text>
+        <TouchableOpacity style={[styles.btnGhost, { marginTop: 12 }]} onPress={load}>
+          <Text style={styles.btnGhostText}>Reload</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const pct = plan.total ? Math.round((plan.read / plan.total) * 100) : 0;
+
+  return (
+    <ScrollView style={styles.page} contentContainerStyle={styles.content}>
+      <SyncStatusIndicator style={{ marginBottom: 10 }} />
+
+      <View style={styles.card}>
+        <View style={styles.progressHead}>
+          <Text style={styles.cardTitle}>Route · {today}</Text>
+          <Text style={styles.progressText}>
+            {plan.read} / {plan.total} read
+            {plan.skipped.length ? ` · ${plan.skipped.length} skipped` : ""}
+          </Text>
+        </View>
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${pct}%` }]} />
+        </View>
+      </View>
+
+      {current ? (
+        <View style={styles.card}>
+          <Text style={styles.kicker}>
+            {focused ? "Skipped meter" : "Next meter"} · {stopLocation(current) || "—"}
+          </Text>
+          <Text style={styles.meterId}>{current.meter_id}</Text>
+          {current.meter_number ? (
+            <Text style={styles.meta}>Serial {current.meter_number}</Text>
+          ) : null}
+          <Text style={styles.tenant}>{current.tenant_name || "No tenant"}</Text>
+          <Text style={styles.meta}>
+            {current.classification ? `${current.classification} · ` : ""}
+            Previous {fmtNum(current.prev_reading)}
+            {current.prev_date ? ` on ${toYMD(current.prev_date)}` : ""}
+          </Text>
+
+          {!confirmed ? (
+            <View style={styles.row}>
+              <TouchableOpacity style={styles.btn} onPress={openScanner}>
+                <Ionicons name="qr-code-outline" size={16} color="#fff" />
+                <Text style={styles.btnText}>Scan to confirm</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.btnGhost}
+                onPress={() => setConfirmedId(current.meter_id)}
+              >
+                <Text style={styles.btnGhostText}>Confirm without scan</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={{ marginTop: 12, gap: 8 }}>
+              <TextInput
+                style={styles.input}
+                value={value}
+                onChangeText={setValue}
+                keyboardType="decimal-pad"
+                placeholder="Reading"
+                autoFocus
+              />
+              <ReadingCheckNotice check={check} reason={reason} onReason={setReason} />
+              <TextInput
+                style={styles.input}
+                value={remarks}
+                onChangeText={setRemarks}
+                placeholder={reason === "other" ? "Remarks (required)" : "Remarks (optional)"}
+              />
+              <View style={styles.row}>
+                <TouchableOpacity style={styles.btnGhost} onPress={takePhoto} disabled={busy}>
+                  <Ionicons name="camera-outline" size={16} color="#394e6a" />
+                  <Text style={styles.btnGhostText}>{image ? "Retake photo" : "Photo"}</Text>
+                </TouchableOpacity>
+                {image ? (
+                  <Image
+                    source={{ uri: `data:image/jpeg;base64,${image}` }}
+                    style={styles.thumb}
+                  />
+                ) : null}
+              </View>
+              <View style={styles.row}>
+                <TouchableOpacity
+                  style={[styles.btn, busy && { opacity: 0.6 }]}
+                  onPress={save}
+                  disabled={busy}
+                >
+                  <Text style={styles.btnText}>Save and next</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={styles.skipBtn}
+            onPress={() => skip(current.meter_id)}
+            disabled={busy}
+          >
+            <Text style={styles.skipText}>Skip this meter</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={[styles.card, { alignItems: "center" }]}>
+          <Ionicons name="checkmark-circle" size={36} color="#059669" />
+          <Text style={styles.emptyTitle}>
+            {plan.skipped.length ? "End of the route" : "Route complete"}
+          </Text>
+          <Text style={styles.emptyText}>
+            {plan.skipped.length
+              ? "Every other meter is read. Read the skipped meters below to finish."
+              : "Every meter in the package is read for today."}
+          </Text>
+        </View>
+      )}
+
+      {plan.skipped.length ? (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Skipped ({plan.skipped.length})</Text>
+          {plan.skipped.map((it) => (
+            <View key={it.meter_id} style={styles.skippedRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.skippedId}>{it.meter_id}</Text>
+                <Text style={styles.meta}>
+                  {[it.tenant_name, stopLocation(it)].filter(Boolean).join(" · ")}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={styles.btnGhost}
+                onPress={() => setFocusId(it.meter_id)}
+                disabled={focusId === it.meter_id}
+              >
+                <Text style={styles.btnGhostText}>
+                  {focusId === it.meter_id ? "On card" : "Read now"}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      ) : null}
+
+      <Modal visible={scanOpen} animationType="slide" onRequestClose={() => setScanOpen(false)}>
+        <View style={{ flex: 1, backgroundColor: "#000" }}>
+          <CameraView
+            style={StyleSheet.absoluteFill}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: LABEL_FORMATS }}
+            onBarcodeScanned={handleScan}
+          />
+          <TouchableOpacity style={styles.scanClose} onPress={() => setScanOpen(false)}>
+            <Ionicons name="close" size={22} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  page: { flex: 1, minHeight: 0 },
+  content: { padding: 14, gap: 14 },
+  center: { flex: 1, alignItems: "center", justifyContent: "center", padding: 24 },
+
+  card: {
+    backgroundColor: "#fff",
+    borderRadius: 14,
+    padding: 14,
+    ...(Platform.select({
+      web: { boxShadow: "0 10px 30px rgba(15, 23, 42, 0.08)" } as any,
+      default: { elevation: 2 },
+    }) as any),
+  },
+  cardTitle: { fontSize: 16, fontWeight: "700", color: "#0f172a" },
+
+  progressHead: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  progressText: { fontSize: 12, fontWeight: "700", color: "#475569" },
+  progressTrack: { height: 8, borderRadius: 999, backgroundColor: "#e2e8f0", overflow: "hidden" },
+  progressFill: { height: 8, borderRadius: 999, backgroundColor: "#2563eb" },
+
+  kicker: { fontSize: 12, fontWeight: "700", color: "#64748b", textTransform: "uppercase" },
+  meterId: { fontSize: 24, fontWeight: "800", color: "#0f172a", marginTop: 4 },
+  tenant: { fontSize: 15, fontWeight: "700", color: "#1e293b", marginTop: 6 },
+  meta: { fontSize: 12, color: "#64748b", marginTop: 2 },
+
+  row: { flexDirection: "row", alignItems: "center", gap: 10, marginTop: 12, flexWrap: "wrap" },
+  input: {
+    borderWidth: 1,
+    borderColor: "#cbd5e1",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: "#0f172a",
+    backgroundColor: "#f8fafc",
+  },
+  thumb: { width: 48, height: 48, borderRadius: 8, backgroundColor: "#e2e8f0" },
+
+  btn: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "#2563eb",
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+  },
+  btnText: { color: "#fff", fontWeight: "700" },
+  btnGhost: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "#e2e8f0",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: "#cbd5e1",
+  },
+  btnGhostText: { color: "#394e6a", fontWeight: "700" },
+  skipBtn: { marginTop: 14, alignSelf: "flex-start" },
+  skipText: { color: "#b45309", fontWeight: "700", textDecorationLine: "underline" },
+
+  skippedRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    borderTopWidth: 1,
+    borderTopColor: "#e2e8f0",
+    paddingVertical: 8,
+    marginTop: 6,
+  },
+  skippedId: { fontWeight: "700", color: "#0f172a" },
+
+  emptyTitle: { fontSize: 16, fontWeight: "700", color: "#0f172a", marginTop: 8 },
+  emptyText: { fontSize: 13, color: "#64748b", textAlign: "center", marginTop: 4 },
+
+  scanClose: {
+    position: "absolute",
+    top: 48,
+    right: 16,
+    padding: 8,
+    borderRadius: 999,
+    backgroundColor: "rgba(0,0,0,0.5)",
+  },
+});
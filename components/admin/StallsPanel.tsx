@@ -15,29 +15,12 @@ import {
   useWindowDimensions,
   Dimensions,
 } from "react-native";
-import axios from "axios";
 import { Picker } from "@react-native-picker/picker";
 import { Ionicons } from "@expo/vector-icons";
-import { BASE_API } from "../../constants/api";
-
-type Stall = {
-  stall_id: string;
-  stall_sn: string;
-  tenant_id: string | null;
-  building_id: string;
-  stall_status: "occupied" | "available" | "under maintenance";
-  last_updated?: string;
-  updated_by?: string;
-};
-type Building = {
-  building_id: string;
-  building_name: string;
-};
-type Tenant = {
-  tenant_id: string;
-  tenant_name: string;
-  building_id: string;
-};
+import { Building, createApi, Stall, StallStatus, Tenant } from "../../services/api";
+import { showError } from "../../services/apiError";
+import HistoryButton from "./HistoryDrawer";
+import { readReference } from "../../services/refCache";
 
 function notify(title: string, message?: string) {
   if (
@@ -50,25 +33,13 @@ function notify(title: string, message?: string) {
     Alert.alert(title, message);
   }
 }
-function errorText(err: any, fallback = "Server error.") {
-  const d = err?.response?.data;
-  if (typeof d === "string") return d;
-  if (d?.error) return String(d.error);
-  if (d?.message) return String(d.message);
-  if (err?.message) return String(err.message);
-  try {
-    return JSON.stringify(d ?? err);
-  } catch {
-    return fallback;
-  }
-}
 
 const cmp = (a: string | number, b: string | number) =>
   String(a ?? "").localeCompare(String(b ?? ""), undefined, {
     numeric: true,
     sensitivity: "base",
   });
-const dateOf = (s?: string) => (s ? Date.parse(s) || 0 : 0);
+const dateOf = (s?: string | null) => (s ? Date.parse(s) || 0 : 0);
 
 const Chip = ({
   label,
@@ -107,7 +78,7 @@ export default function StallsPanel({ token }: { token: string | null }) {
 
   const [query, setQuery] = useState("");
   const [buildingFilter, setBuildingFilter] = useState<string>("");
-  const [statusFilter, setStatusFilter] = useState<"" | Stall["stall_status"]>(
+  const [statusFilter, setStatusFilter] = useState<"" | StallStatus>(
     "",
   );
 
@@ -123,16 +94,7 @@ export default function StallsPanel({ token }: { token: string | null }) {
   const [editVisible, setEditVisible] = useState(false);
   const [editStall, setEditStall] = useState<Stall | null>(null);
 
-  const authHeader = useMemo(
-    () => ({ Authorization: `Bearer ${token ?? ""}` }),
-    [token],
-  );
-
-  const api = useMemo(
-    () =>
-      axios.create({ baseURL: BASE_API, headers: authHeader, timeout: 15000 }),
-    [authHeader],
-  );
+  const api = useMemo(() => createApi(token), [token]);
 
   const loadAll = async () => {
     if (!token) {
@@ -142,19 +104,19 @@ export default function StallsPanel({ token }: { token: string | null }) {
     }
     try {
       setBusy(true);
-      const [stRes, bRes, tRes] = await Promise.all([
-        api.get<Stall[]>("/stalls"),
-        api.get<Building[]>("/buildings"),
-        api.get<Tenant[]>("/tenants"),
+      const [st, b, t] = await Promise.all([
+        readReference(api, "stalls", setStalls),
+        readReference(api, "buildings", setBuildings),
+        readReference(api, "tenants", setTenants),
       ]);
-      setStalls(stRes.data || []);
-      setBuildings(bRes.data || []);
-      setTenants(tRes.data || []);
-      if (!c_buildingId && (bRes.data?.length ?? 0) > 0) {
-        setC_buildingId(bRes.data[0].building_id);
+      setStalls(st || []);
+      setBuildings(b || []);
+      setTenants(t || []);
+      if (!c_buildingId && (b?.length ?? 0) > 0) {
+        setC_buildingId(b[0].building_id);
       }
     } catch (err: any) {
-      notify("Load failed", errorText(err, "Connection error."));
+      showError("Load failed", err, "Connection error.");
     } finally {
       setBusy(false);
     }
@@ -212,7 +174,7 @@ export default function StallsPanel({ token }: { token: string | null }) {
     }
     try {
       setSubmitting(true);
-      await api.post("/stalls", {
+      await api.stalls.create({
         stall_sn,
         building_id: c_buildingId,
         stall_status: "available",
@@ -223,7 +185,7 @@ export default function StallsPanel({ token }: { token: string | null }) {
       await loadAll();
       notify("Success", "Stall created.");
     } catch (err: any) {
-      notify("Create failed", errorText(err));
+      showError("Create failed", err);
     } finally {
       setSubmitting(false);
     }
@@ -238,7 +200,7 @@ export default function StallsPanel({ token }: { token: string | null }) {
     if (!editStall) return;
     try {
       setSubmitting(true);
-      await api.put(`/stalls/${encodeURIComponent(editStall.stall_id)}`, {
+      await api.stalls.update(editStall.stall_id, {
         stall_sn: editStall.stall_sn,
         building_id: editStall.building_id,
         stall_status: editStall.stall_status,
@@ -251,7 +213,7 @@ export default function StallsPanel({ token }: { token: string | null }) {
       await loadAll();
       notify("Updated", "Stall updated successfully.");
     } catch (err: any) {
-      notify("Update failed", errorText(err));
+      showError("Update failed", err);
     } finally {
       setSubmitting(false);
     }
@@ -286,11 +248,11 @@ export default function StallsPanel({ token }: { token: string | null }) {
     async function doDelete() {
       try {
         setSubmitting(true);
-        await api.delete(`/stalls/${encodeURIComponent(s.stall_id)}`);
+        await api.stalls.remove(s.stall_id);
         await loadAll();
         notify("Deleted", "Stall deleted.");
       } catch (err: any) {
-        notify("Delete failed", errorText(err));
+        showError("Delete failed", err);
       } finally {
         setSubmitting(false);
       }
@@ -421,6 +383,7 @@ export default function StallsPanel({ token }: { token: string | null }) {
                         {item.updated_by ? `• by ${item.updated_by}` : ""}
                       </Text>
                     ) : null}
+                    <HistoryButton entity="stalls" id={item.stall_id} title={item.stall_sn} />
                   </View>
 
                   {isMobile ? (
@@ -15,56 +15,31 @@ import {
   TextInput,
   useWindowDimensions,
 } from "react-native";
-import axios from "axios";
 import { Picker } from "@react-native-picker/picker";
 import { Ionicons } from "@expo/vector-icons";
-import { BASE_API } from "../../constants/api";
 import { useAuth } from "../../contexts/AuthContext";
+import {
+  Building,
+  BuildingBaseRates,
+  createApi,
+  Stall,
+  Tenant,
+  TenantInput,
+  VatCode,
+  WtCode,
+} from "../../services/api";
+import {
+  FieldErrors,
+  reportFormError,
+  showError,
+} from "../../services/apiError";
+import { EditConflict, staleConflict } from "../../services/editConflict";
+import { FieldError } from "../ErrorBanner";
+import ConflictDialog from "./ConflictDialog";
+import HistoryButton from "./HistoryDrawer";
+import { readReference } from "../../services/refCache";
 import { Card, Button, Input, ModalSheet, tokens } from "../ui/ProUI";
 
-type Tenant = {
-  tenant_id: string;
-  tenant_sn: string;
-  tenant_name: string;
-  building_id: string;
-  tenant_status: "active" | "inactive";
-  vat_code: string | null;
-  wt_code: string | null;
-  for_penalty: boolean;
-  last_updated?: string;
-  updated_by?: string;
-};
-
-type Building = { building_id: string; building_name: string };
-
-type BuildingBaseRates = {
-  building_id: string;
-  erate_perKwH: number | null;
-  emin_con: number | null;
-  wrate_perCbM: number | null;
-  wmin_con: number | null;
-  lrate_perKg: number | null;
-  last_updated?: string;
-  updated_by?: string;
-};
-
-type Stall = {
-  stall_id: string;
-  stall_sn: string;
-  building_id: string;
-  tenant_id: string | null;
-  stall_status: "available" | "occupied" | "maintenance" | string;
-  last_updated?: string;
-  updated_by?: string;
-};
-
-type VatRow = {
-  tax_id: string | number;
-  vat_code: string;
-  vat_description?: string | null;
-};
-type WtRow = { wt_id: string; wt_code: string; wt_description?: string | null };
-
 const cmp = (a: string | number, b: string | number) =>
   String(a ?? "").localeCompare(String(b ?? ""), undefined, {
     numeric: true,
@@ -113,18 +88,16 @@ function notify(title: string, message?: string) {
   else Alert.alert(title, message);
 }
 
-function errorText(err: any, fallback = "Server error.") {
-  const d = err?.response?.data;
-  if (typeof d === "string") return d;
-  if (d?.error) return String(d.error);
-  if (d?.message) return String(d.message);
-  if (err?.message) return String(err.message);
-  try {
-    return JSON.stringify(d ?? err);
-  } catch {
-    return fallback;
-  }
-}
+
+/** Request fields the quick-edit and create forms have an input for. */
+const TENANT_FIELDS = [
+  "tenant_sn",
+  "tenant_name",
+  "tenant_status",
+  "building_id",
+  "vat_code",
+  "wt_code",
+];
 
 const fmt = (n: number | null | undefined, unit?: string) => {
   if (n == null || !isFinite(Number(n))) return "—";
@@ -226,28 +199,14 @@ export default function TenantsPanel({ token }: { token: string | null }) {
   const { width } = useWindowDimensions();
   const isMobile = width < 640;
 
-  const headerToken =
-    mergedToken && /^Bearer\s/i.test(mergedToken.trim())
-      ? mergedToken.trim()
-      : mergedToken
-        ? `Bearer ${mergedToken.trim()}`
-        : "";
-  const authHeader = useMemo(
-    () => (headerToken ? { Authorization: headerToken } : {}),
-    [headerToken],
-  );
-  const api = useMemo(
-    () =>
-      axios.create({ baseURL: BASE_API, headers: authHeader, timeout: 15000 }),
-    [authHeader],
-  );
+  const api = useMemo(() => createApi(mergedToken), [mergedToken]);
 
   const [busy, setBusy] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [tenants, setTenants] = useState<Tenant[]>([]);
   const [buildings, setBuildings] = useState<Building[]>([]);
-  const [vatCodes, setVatCodes] = useState<VatRow[]>([]);
-  const [wtCodes, setWtCodes] = useState<WtRow[]>([]);
+  const [vatCodes, setVatCodes] = useState<VatCode[]>([]);
+  const [wtCodes, setWtCodes] = useState<WtCode[]>([]);
   const [query, setQuery] = useState("");
   const [buildingFilter, setBuildingFilter] = useState<string>(
     userBuildingId ? userBuildingId : "",
@@ -263,6 +222,9 @@ export default function TenantsPanel({ token }: { token: string | null }) {
   const [detailsVisible, setDetailsVisible] = useState(false);
   const [detailsTenant, setDetailsTenant] = useState<Tenant | null>(null);
   const [tenantDraft, setTenantDraft] = useState<Tenant | null>(null);
+  // server validation messages for the open quick-edit / create form
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [conflict, setConflict] = useState<EditConflict<Tenant, TenantInput> | null>(null);
 
   const [bRates, setBRates] = useState<BuildingBaseRates | null>(null);
   const [tenantStalls, setTenantStalls] = useState<Stall[]>([]);
@@ -290,13 +252,12 @@ export default function TenantsPanel({ token }: { token: string | null }) {
     }
     try {
       setBusy(true);
-      const params: any = {};
+      const params: { status?: string; building_id?: string; q?: string } = {};
       if (statusFilter) params.status = statusFilter;
       if (isAdmin && buildingFilter) params.building_id = buildingFilter;
       if (query.trim()) params.q = query.trim();
 
-      const tRes = await api.get<Tenant[]>("/tenants", { params });
-      const tRows = (tRes.data || []).map((t: any) => ({
+      const tRows = ((await api.tenants.list(params)) || []).map((t) => ({
         ...t,
         vat_code: t.vat_code ?? null,
         wt_code: t.wt_code ?? null,
@@ -305,10 +266,10 @@ export default function TenantsPanel({ token }: { token: string | null }) {
       setTenants(tRows);
 
       try {
-        const bRes = await api.get<Building[]>("/buildings");
-        setBuildings(bRes.data || []);
-        if (!cBuildingId && (bRes.data?.length ?? 0) > 0) {
-          setCBuildingId(bRes.data[0].building_id);
+        const bRows = (await readReference(api, "buildings", setBuildings)) || [];
+        setBuildings(bRows);
+        if (!cBuildingId && bRows.length > 0) {
+          setCBuildingId(bRows[0].building_id);
         }
       } catch {
         setBuildings([]);
@@ -320,18 +281,18 @@ export default function TenantsPanel({ token }: { token: string | null }) {
       }
 
       try {
-        const [vRes, wRes] = await Promise.all([
-          api.get<VatRow[]>("/vat"),
-          api.get<WtRow[]>("/wt"),
+        const [vRows, wRows] = await Promise.all([
+          api.vat.list(),
+          api.wt.list(),
         ]);
-        setVatCodes(vRes.data || []);
-        setWtCodes(wRes.data || []);
+        setVatCodes(vRows || []);
+        setWtCodes(wRows || []);
       } catch {
         setVatCodes([]);
         setWtCodes([]);
       }
     } catch (err: any) {
-      notify("Load failed", errorText(err, "Connection error."));
+      showError("Load failed", err, "Connection error.");
     } finally {
       setBusy(false);
     }
@@ -405,23 +366,22 @@ export default function TenantsPanel({ token }: { token: string | null }) {
     setTenantDraft({ ...row });
     setBRates(null);
     setTenantStalls([]);
+    setFieldErrors({});
+    setConflict(null);
     setDetailsVisible(true);
 
     try {
-      const bRes = await api.get<BuildingBaseRates>(
-        `/buildings/${encodeURIComponent(row.building_id)}/base-rates`,
-      );
-      setBRates(bRes.data);
+      setBRates(await api.buildings.baseRates(row.building_id));
     } catch {
       setBRates(null);
     }
 
     try {
       setStallsBusy(true);
-      const sRes = await api.get<Stall[]>(`/stalls`);
-      setTenantStalls(
-        (sRes.data || []).filter((s) => s.tenant_id === row.tenant_id),
+      const sRows = await readReference(api, "stalls", (fresh) =>
+        setTenantStalls(fresh.filter((s) => s.tenant_id === row.tenant_id)),
       );
+      setTenantStalls((sRows || []).filter((s) => s.tenant_id === row.tenant_id));
     } catch {
       setTenantStalls([]);
     } finally {
@@ -429,39 +389,56 @@ export default function TenantsPanel({ token }: { token: string | null }) {
     }
   };
 
-  const saveTenant = async () => {
-    if (!tenantDraft) return;
+  // `lastUpdated` is the version the edit is based on: the one the form was
+  // opened with, or the newer one a conflict was resolved against
+  const writeTenant = async (body: TenantInput, lastUpdated?: string | null) => {
+    if (!detailsTenant) return;
+    const original = detailsTenant;
     try {
       setSubmitting(true);
-      await api.put(`/tenants/${encodeURIComponent(tenantDraft.tenant_id)}`, {
-        tenant_sn: tenantDraft.tenant_sn,
-        tenant_name: tenantDraft.tenant_name,
-        tenant_status: tenantDraft.tenant_status,
-        building_id: tenantDraft.building_id,
-        vat_code: tenantDraft.vat_code ?? null,
-        wt_code: tenantDraft.wt_code ?? null,
-        for_penalty: !!tenantDraft.for_penalty,
-      });
+      setFieldErrors({});
+      await api.tenants.update(original.tenant_id, body, lastUpdated);
+      setConflict(null);
       notify("Saved", "Tenant updated.");
       await loadAll();
       setDetailsVisible(false);
     } catch (err) {
-      notify("Update failed", errorText(err));
+      const stale = await staleConflict(err, original, body, async () =>
+        (await api.tenants.list()).find((t) => t.tenant_id === original.tenant_id),
+      );
+      setConflict(stale);
+      if (!stale) reportFormError("Update failed", err, TENANT_FIELDS, setFieldErrors);
     } finally {
       setSubmitting(false);
     }
   };
 
+  const saveTenant = () => {
+    if (!tenantDraft || !detailsTenant) return;
+    writeTenant(
+      {
+        tenant_sn: tenantDraft.tenant_sn,
+        tenant_name: tenantDraft.tenant_name,
+        tenant_status: tenantDraft.tenant_status,
+        building_id: tenantDraft.building_id,
+        vat_code: tenantDraft.vat_code ?? null,
+        wt_code: tenantDraft.wt_code ?? null,
+        for_penalty: !!tenantDraft.for_penalty,
+      },
+      detailsTenant.last_updated,
+    );
+  };
+
   const deleteTenant = async (t: Tenant) => {
     const go = async () => {
       try {
         setSubmitting(true);
-        await api.delete(`/tenants/${encodeURIComponent(t.tenant_id)}`);
+        await api.tenants.remove(t.tenant_id);
         notify("Deleted", `Tenant ${t.tenant_name} removed.`);
         setDetailsVisible(false);
         await loadAll();
       } catch (err) {
-        notify("Delete failed", errorText(err, "Unable to delete tenant."));
+        showError("Delete failed", err, "Unable to delete tenant.");
       } finally {
         setSubmitting(false);
       }
@@ -480,14 +457,14 @@ export default function TenantsPanel({ token }: { token: string | null }) {
   const saveStall = async (s: Stall) => {
     try {
       setSubmitting(true);
-      await api.put(`/stalls/${encodeURIComponent(s.stall_id)}`, {
+      await api.stalls.update(s.stall_id, {
         stall_sn: s.stall_sn,
         stall_status: s.stall_status,
         tenant_id: s.tenant_id,
       });
       notify("Stall updated", `${s.stall_id} saved.`);
     } catch (err) {
-      notify("Stall save failed", errorText(err));
+      showError("Stall save failed", err);
     } finally {
       setSubmitting(false);
     }
@@ -499,7 +476,7 @@ export default function TenantsPanel({ token }: { token: string | null }) {
     }
     try {
       setSubmitting(true);
-      await api.put(`/stalls/${encodeURIComponent(s.stall_id)}`, {
+      await api.stalls.update(s.stall_id, {
         stall_sn: s.stall_sn,
         stall_status: "available",
         tenant_id: null,
@@ -507,7 +484,7 @@ export default function TenantsPanel({ token }: { token: string | null }) {
       setTenantStalls((prev) => prev.filter((x) => x.stall_id !== s.stall_id));
       notify("Unassigned", `${s.stall_id} is now available.`);
     } catch (err) {
-      notify("Unassign failed", errorText(err));
+      showError("Unassign failed", err);
     } finally {
       setSubmitting(false);
     }
@@ -534,11 +511,13 @@ export default function TenantsPanel({ token }: { token: string | null }) {
               <TouchableOpacity
                 style={styles.btn}
                 onPress={async () => {
+                  setFieldErrors({});
                   setCreateVisible(true);
                   if (buildings.length === 0) {
                     try {
-                      const bRes = await api.get<Building[]>("/buildings");
-                      setBuildings(bRes.data || []);
+                      setBuildings(
+                        (await readReference(api, "buildings", setBuildings)) || [],
+                      );
                     } catch {
                     }
                   }
@@ -658,6 +637,7 @@ export default function TenantsPanel({ token }: { token: string | null }) {
                       {vatLabelFor(item.vat_code)} · WT: {wtLabelFor(item.wt_code)}{" "}
                       · Penalty: {item.for_penalty ? "Yes" : "No"}
                     </Text>
+                    <HistoryButton entity="tenants" id={item.tenant_id} title={item.tenant_name} />
                   </View>
                   <View style={styles.rowActions}>
                     <TouchableOpacity
@@ -837,6 +817,7 @@ export default function TenantsPanel({ token }: { token: string | null }) {
                             )
                           }
                         />
+                        <FieldError message={fieldErrors.tenant_sn} />
                       </View>
                       <View>
                         <Text style={styles.fieldLabel}>Tenant Name</Text>
@@ -849,6 +830,7 @@ export default function TenantsPanel({ token }: { token: string | null }) {
                             )
                           }
                         />
+                        <FieldError message={fieldErrors.tenant_name} />
                       </View>
                       <View style={styles.rowInline}>
                         <View style={[styles.flex1, { marginRight: 8 }]}>
@@ -869,6 +851,7 @@ export default function TenantsPanel({ token }: { token: string | null }) {
                             <Picker.Item label="Active" value="active" />
                             <Picker.Item label="Inactive" value="inactive" />
                           </PickerField>
+                          <FieldError message={fieldErrors.tenant_status} />
                         </View>
                         <View style={[styles.flex1, { marginLeft: 8 }]}>
                           <Text style={styles.fieldLabel}>Penalty</Text>
@@ -928,6 +911,7 @@ export default function TenantsPanel({ token }: { token: string | null }) {
                           </Text>
                         </View>
                       )}
+                      <FieldError message={fieldErrors.building_id} />
                     </View>
                   </Card>
 
@@ -954,6 +938,7 @@ export default function TenantsPanel({ token }: { token: string | null }) {
                             />
                           ))}
                         </PickerField>
+                        <FieldError message={fieldErrors.vat_code} />
                         <PickerField
                           label="Withholding Code"
                           value={tenantDraft?.wt_code ?? ""}
@@ -974,6 +959,7 @@ export default function TenantsPanel({ token }: { token: string | null }) {
                             />
                           ))}
                         </PickerField>
+                        <FieldError message={fieldErrors.wt_code} />
                       </View>
                     ) : (
                       <View style={{ gap: 10 }}>
@@ -1076,6 +1062,16 @@ export default function TenantsPanel({ token }: { token: string | null }) {
         </SafeAreaView>
       </ModalSheet>
 
+      <ConflictDialog
+        conflict={conflict}
+        title={detailsTenant?.tenant_name ?? "Tenant"}
+        busy={submitting}
+        onCancel={() => setConflict(null)}
+        onResolve={(body) =>
+          conflict && writeTenant(body, conflict.theirs.last_updated)
+        }
+      />
+
       {canCreateTenant && (
         <ModalSheet
           visible={createVisible}
@@ -1100,7 +1096,8 @@ export default function TenantsPanel({ token }: { token: string | null }) {
                   }
                   try {
                     setSubmitting(true);
-                    await api.post("/tenants", {
+                    setFieldErrors({});
+                    await api.tenants.create({
                       tenant_sn: cTenantSn.trim() || null,
                       tenant_name: cTenantName.trim(),
                       building_id,
@@ -1118,7 +1115,13 @@ export default function TenantsPanel({ token }: { token: string | null }) {
                     await loadAll();
                     notify("Created", "Tenant created successfully.");
                   } catch (err) {
-                    notify("Create failed", errorText(err, "Unable to create tenant."));
+                    reportFormError(
+                      "Create failed",
+                      err,
+                      // status is fixed to active on create, so no input for it
+                      TENANT_FIELDS.filter((f) => f !== "tenant_status"),
+                      setFieldErrors,
+                    );
                   } finally {
                     setSubmitting(false);
                   }
@@ -1148,6 +1151,7 @@ export default function TenantsPanel({ token }: { token: string | null }) {
                       />
                     ))}
                   </PickerField>
+                  <FieldError message={fieldErrors.building_id} />
                 </View>
               ) : (
                 <View style={[styles.flex1, { marginRight: 8 }]}>
@@ -1157,6 +1161,7 @@ export default function TenantsPanel({ token }: { token: string | null }) {
                     value={cBuildingId}
                     onChangeText={setCBuildingId}
                   />
+                  <FieldError message={fieldErrors.building_id} />
                   <Text style={styles.helpText}>
                     No building list available — using manual input.
                   </Text>
@@ -1190,6 +1195,7 @@ export default function TenantsPanel({ token }: { token: string | null }) {
                   value={cTenantSn}
                   onChangeText={setCTenantSn}
                 />
+                <FieldError message={fieldErrors.tenant_sn} />
               </View>
               <View style={[styles.flex1, { marginLeft: 8 }]}>
                 <Text style={styles.fieldLabel}>Tenant Name</Text>
@@ -1198,6 +1204,7 @@ export default function TenantsPanel({ token }: { token: string | null }) {
                   value={cTenantName}
                   onChangeText={setCTenantName}
                 />
+                <FieldError message={fieldErrors.tenant_name} />
               </View>
             </View>
 
@@ -1217,6 +1224,7 @@ export default function TenantsPanel({ token }: { token: string | null }) {
                     />
                   ))}
                 </PickerField>
+                <FieldError message={fieldErrors.vat_code} />
               </View>
               <View style={[styles.flex1, { marginLeft: 8 }]}>
                 <PickerField
@@ -1233,6 +1241,7 @@ export default function TenantsPanel({ token }: { token: string | null }) {
                     />
                   ))}
                 </PickerField>
+                <FieldError message={fieldErrors.wt_code} />
               </View>
             </View>
 
@@ -12,21 +12,13 @@ import {
   View,
   useWindowDimensions,
 } from "react-native";
-import axios from "axios";
 import { Ionicons } from "@expo/vector-icons";
-import { BASE_API } from "../../constants/api";
 import { useAuth } from "../../contexts/AuthContext";
+import { createApi, VatCode } from "../../services/api";
+import { showError } from "../../services/apiError";
+import HistoryButton from "./HistoryDrawer";
 
-export type VatCode = {
-  tax_id: string;
-  vat_code: string;
-  vat_description: string | null;
-  e_vat: number | null;
-  w_vat: number | null;
-  l_vat: number | null;
-  last_updated?: string | null;
-  updated_by?: string | null;
-};
+export type { VatCode };
 
 type SortMode =
   | "newest"
@@ -77,18 +69,6 @@ function notify(title: string, message?: string) {
   }
 }
 
-function errorText(err: any, fallback = "Server error.") {
-  const d = err?.response?.data;
-  if (typeof d === "string") return d;
-  if (d?.error) return String(d.error);
-  if (d?.message) return String(d.message);
-  if (err?.message) return String(err.message);
-  try {
-    return JSON.stringify(d ?? err);
-  } catch {
-    return fallback;
-  }
-}
 
 const Chip = ({
   label,
@@ -144,16 +124,7 @@ export default function VatPanel({ token }: { token: string | null }) {
   const [e_w, setE_w] = useState("");
   const [e_l, setE_l] = useState("");
 
-  const authHeader = useMemo(
-    () => ({ Authorization: `Bearer ${token ?? ""}` }),
-    [token],
-  );
-  const api = useMemo(
-    () =>
-      axios.create({ baseURL: BASE_API, headers: authHeader, timeout: 15000 }),
-    [authHeader],
-  );
-  const basePath = "/vat";
+  const api = useMemo(() => createApi(token), [token]);
 
   useEffect(() => {
     loadAll();
@@ -167,10 +138,9 @@ export default function VatPanel({ token }: { token: string | null }) {
     }
     try {
       setBusy(true);
-      const res = await api.get<VatCode[]>(basePath);
-      setRows(res.data || []);
+      setRows((await api.vat.list()) || []);
     } catch (err) {
-      notify("Load failed", errorText(err, "Could not load VAT codes."));
+      showError("Load failed", err, "Could not load VAT codes.");
     } finally {
       setBusy(false);
     }
@@ -237,7 +207,7 @@ export default function VatPanel({ token }: { token: string | null }) {
     }
     try {
       setSubmitting(true);
-      await api.post(basePath, {
+      await api.vat.create({
         vat_code: code,
         vat_description: c_desc.trim() || null,
         e_vat: toNumOrNull(c_e),
@@ -253,7 +223,7 @@ export default function VatPanel({ token }: { token: string | null }) {
       await loadAll();
       notify("Success", "VAT code created.");
     } catch (err) {
-      notify("Create failed", errorText(err));
+      showError("Create failed", err);
     } finally {
       setSubmitting(false);
     }
@@ -274,21 +244,18 @@ export default function VatPanel({ token }: { token: string | null }) {
     if (!editRow || !canEdit) return;
     try {
       setSubmitting(true);
-      await api.put(
-        `${basePath}/${encodeURIComponent(String(editRow.tax_id))}`,
-        {
-          vat_code: e_code.trim(),
-          vat_description: e_desc.trim() || null,
-          e_vat: toNumOrNull(e_e),
-          w_vat: toNumOrNull(e_w),
-          l_vat: toNumOrNull(e_l),
-        },
-      );
+      await api.vat.update(String(editRow.tax_id), {
+        vat_code: e_code.trim(),
+        vat_description: e_desc.trim() || null,
+        e_vat: toNumOrNull(e_e),
+        w_vat: toNumOrNull(e_w),
+        l_vat: toNumOrNull(e_l),
+      });
       setEditVisible(false);
       await loadAll();
       notify("Updated", "VAT code updated.");
     } catch (err) {
-      notify("Update failed", errorText(err));
+      showError("Update failed", err);
     } finally {
       setSubmitting(false);
     }
@@ -301,11 +268,11 @@ export default function VatPanel({ token }: { token: string | null }) {
     }
     try {
       setSubmitting(true);
-      await api.delete(`${basePath}/${encodeURIComponent(String(r.tax_id))}`);
+      await api.vat.remove(String(r.tax_id));
       await loadAll();
       notify("Deleted", "VAT code removed.");
     } catch (err) {
-      notify("Delete failed", errorText(err));
+      showError("Delete failed", err);
     } finally {
       setSubmitting(false);
     }
@@ -326,6 +293,7 @@ export default function VatPanel({ token }: { token: string | null }) {
             : ""}
           {item.updated_by ? `  •  by ${item.updated_by}` : ""}
         </Text>
+        <HistoryButton entity="vat" id={item.tax_id} title={item.vat_code} />
       </View>
       {canEdit ? (
         isMobile ? (
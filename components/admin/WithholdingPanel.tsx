@@ -14,24 +14,14 @@ import {
   ScrollView,
   useWindowDimensions,
 } from "react-native";
-import axios from "axios";
 import { Ionicons } from "@expo/vector-icons";
-import { BASE_API } from "../../constants/api";
 import { useAuth } from "../../contexts/AuthContext";
+import { createApi, WtCode } from "../../services/api";
+import { showError } from "../../services/apiError";
+import HistoryButton from "./HistoryDrawer";
 
 type Props = { token: string | null };
 
-type WtCode = {
-  wt_id: string;
-  wt_code: string;
-  wt_description: string;
-  e_wt: number | null;
-  w_wt: number | null;
-  l_wt: number | null;
-  last_updated?: string;
-  updated_by?: string;
-};
-
 type SortMode = "newest" | "oldest" | "codeAsc" | "codeDesc";
 
 const fmtDate = (iso?: string) => {
@@ -55,18 +45,6 @@ function notify(title: string, message?: string) {
   }
 }
 
-function errorText(err: any, fallback = "Server error.") {
-  const d = err?.response?.data;
-  if (typeof d === "string") return d;
-  if (d?.error) return String(d.error);
-  if (d?.message) return String(d.message);
-  if (err?.message) return String(err.message);
-  try {
-    return JSON.stringify(d ?? err);
-  } catch {
-    return fallback;
-  }
-}
 
 const Chip = ({
   label,
@@ -121,17 +99,7 @@ export default function WithholdingPanel({ token }: Props) {
   const [e_e, setE_e] = useState("");
   const [e_w, setE_w] = useState("");
   const [e_l, setE_l] = useState("");
-  const authHeader = useMemo(
-    () => ({ Authorization: `Bearer ${token ?? ""}` }),
-    [token],
-  );
-  const api = useMemo(
-    () =>
-      axios.create({ baseURL: BASE_API, headers: authHeader, timeout: 15000 }),
-    [authHeader],
-  );
-
-  const basePath = "/wt";
+  const api = useMemo(() => createApi(token), [token]);
 
   useEffect(() => {
     loadAll();
@@ -145,10 +113,9 @@ export default function WithholdingPanel({ token }: Props) {
     }
     try {
       setBusy(true);
-      const res = await api.get<WtCode[]>(basePath);
-      setRows(res.data || []);
+      setRows((await api.wt.list()) || []);
     } catch (err) {
-      notify("Load failed", errorText(err));
+      showError("Load failed", err);
     } finally {
       setBusy(false);
     }
@@ -206,7 +173,7 @@ export default function WithholdingPanel({ token }: Props) {
     }
     try {
       setSubmitting(true);
-      await api.post(basePath, {
+      await api.wt.create({
         wt_code: c_code.trim(),
         wt_description: c_desc.trim(),
         e_wt: toNumOrNull(c_e),
@@ -222,7 +189,7 @@ export default function WithholdingPanel({ token }: Props) {
       await loadAll();
       notify("Success", "Withholding code created.");
     } catch (err) {
-      notify("Create failed", errorText(err));
+      showError("Create failed", err);
     } finally {
       setSubmitting(false);
     }
@@ -243,7 +210,7 @@ export default function WithholdingPanel({ token }: Props) {
     if (!editRow || !canEdit) return;
     try {
       setSubmitting(true);
-      await api.put(`${basePath}/${encodeURIComponent(editRow.wt_id)}`, {
+      await api.wt.update(editRow.wt_id, {
         wt_code: e_code.trim(),
         wt_description: e_desc.trim(),
         e_wt: toNumOrNull(e_e),
@@ -254,7 +221,7 @@ export default function WithholdingPanel({ token }: Props) {
       await loadAll();
       notify("Updated", "Withholding code updated.");
     } catch (err) {
-      notify("Update failed", errorText(err));
+      showError("Update failed", err);
     } finally {
       setSubmitting(false);
     }
@@ -265,11 +232,11 @@ export default function WithholdingPanel({ token }: Props) {
     const go = async () => {
       try {
         setSubmitting(true);
-        await api.delete(`${basePath}/${encodeURIComponent(row.wt_id)}`);
+        await api.wt.remove(row.wt_id);
         await loadAll();
         notify("Deleted", "Withholding code removed.");
       } catch (err) {
-        notify("Delete failed", errorText(err));
+        showError("Delete failed", err);
       } finally {
         setSubmitting(false);
       }
@@ -375,6 +342,7 @@ export default function WithholdingPanel({ token }: Props) {
                         {item.updated_by ? `• by ${item.updated_by}` : ""}
                       </Text>
                     ) : null}
+                    <HistoryButton entity="wt" id={item.wt_id} title={item.wt_code} />
                   </View>
 
                   {canEdit &&
@@ -1,4 +1,4 @@
-import React, { memo, useMemo, useRef, useState, useEffect } from "react";
+import React, { memo, useMemo, useState, useEffect } from "react";
 import {
   Alert,
   Platform,
@@ -11,11 +11,22 @@ import {
   Modal,
   useWindowDimensions,
 } from "react-native";
-import axios, { AxiosInstance } from "axios";
 import { Ionicons } from "@expo/vector-icons";
 import { Picker } from "@react-native-picker/picker";
 import { useAuth } from "../../contexts/AuthContext";
-import { BASE_API } from "../../constants/api";
+import { useServerCapabilities } from "../../hooks/useServerCapabilities";
+import {
+  BuildingFourMonths,
+  BuildingMonthlyTotals,
+  BuildingYearly,
+  RocBuilding,
+  RocMeter,
+  RocTenant,
+  createApi,
+} from "../../services/api";
+import { ApiError, toApiError } from "../../services/apiError";
+import { readReference } from "../../services/refCache";
+import ErrorBanner from "../ErrorBanner";
 
 const isWeb = Platform.OS === "web";
 const today = () => new Date().toISOString().slice(0, 10);
@@ -71,135 +82,6 @@ const notify = (title: string, message?: any) => {
   }
 };
 
-const handleError = (
-  setErr: (s: string) => void,
-  fallbackMsg: string,
-  e: any,
-) => {
-  const status = e?.response?.status;
-  const url = e?.config?.url;
-  const method = e?.config?.method;
-  const data = e?.response?.data;
-  const core =
-    e?.response?.data?.error ??
-    e?.response?.data?.message ??
-    e?.message ??
-    fallbackMsg;
-  const detail = [
-    status ? `HTTP ${status}` : null,
-    method && url ? `${String(method).toUpperCase()} ${url}` : url,
-    data ? `\nResponse:\n${toText(data)}` : null,
-  ]
-    .filter(Boolean)
-    .join(" — ");
-  const text = [toText(core), detail].filter(Boolean).join("\n");
-  setErr(text);
-  notify("Request failed", text);
-};
-
-type RocMeter = {
-  meter_id?: string;
-  meter_sn?: string;
-  meter_type?: string;
-  stall_id?: string | null;
-  tenant_id?: string | null;
-  building_id?: string | null;
-  current_period?: { start?: string; end?: string };
-  previous_period?: { start?: string; end?: string; month?: string | null };
-  current_consumption?: number | null;
-  previous_consumption?: number | null;
-  rate_of_change?: number | null;
-  error?: string;
-  [key: string]: any;
-};
-
-type RocTenantGroup = {
-  meter_type?: string;
-  meters?: RocMeter[];
-  totals?: {
-    current_consumption?: number | null;
-    previous_consumption?: number | null;
-    rate_of_change?: number | null;
-  };
-};
-
-type RocTenant = {
-  tenant_id?: string;
-  period?: {
-    current?: { start?: string; end?: string };
-    previous?: { start?: string; end?: string; month?: string | null };
-    anchor?: { start?: string; end?: string; month?: string | null };
-  };
-  groups?: RocTenantGroup[];
-};
-
-type RocBuildingTenantRow = {
-  tenant_id?: string | null;
-  tenant_sn?: string | null;
-  tenant_name?: string | null;
-  meters?: RocMeter[];
-  totals?: {
-    current_consumption?: number | null;
-    previous_consumption?: number | null;
-    rate_of_change?: number | null;
-  };
-};
-
-type RocBuilding = {
-  building_id?: string;
-  building_name?: string | null;
-  period?: {
-    current?: { start?: string; end?: string };
-    previous?: { start?: string; end?: string };
-  };
-  tenants?: RocBuildingTenantRow[];
-};
-
-type BuildingMonthlyTotals = {
-  building_id?: string;
-  building_name?: string | null;
-  period?: { start?: string; end?: string };
-  totals?: { electric?: number; water?: number; lpg?: number };
-};
-
-type BuildingFourMonths = {
-  building_id?: string;
-  building_name?: string | null;
-  window?: { start?: string; end?: string };
-  months?: Array<{
-    label?: string;
-    start?: string;
-    end?: string;
-    previous?: { month?: string; start?: string; end?: string };
-    totals?: { electric?: number; water?: number; lpg?: number };
-  }>;
-  totals_all?: {
-    electric?: number;
-    water?: number;
-    lpg?: number;
-    all_utilities?: number;
-  };
-};
-
-type BuildingYearly = {
-  building_id?: string;
-  building_name?: string | null;
-  year?: number;
-  months?: Array<{
-    label?: string;
-    start?: string;
-    end?: string;
-    previous?: { month?: string; start?: string; end?: string };
-    totals?: { electric?: number; water?: number; lpg?: number };
-  }>;
-  totals_all?: {
-    electric?: number;
-    water?: number;
-    lpg?: number;
-    all_utilities?: number;
-  };
-};
-
 type BuildingOption = {
   building_id?: string;
   building_name?: string | null;
@@ -469,25 +351,10 @@ function RateOfChangePanel() {
   const { width } = useWindowDimensions();
   const isMobile = width < 640;
 
-  const headerToken =
-    token && /^Bearer\s/i.test(token.trim())
-      ? token.trim()
-      : token
-        ? `Bearer ${token.trim()}`
-        : "";
-
-  const api: AxiosInstance = useMemo(
-    () =>
-      axios.create({
-        baseURL: BASE_API ?? "",
-        timeout: 20000,
-        headers: headerToken ? { Authorization: headerToken } : {},
-      }),
-    [headerToken],
-  );
+  const api = useMemo(() => createApi(token, { timeout: 20000 }), [token]);
 
-  const detectedPrefixRef = useRef<string | null>(null);
-  const candidates = useRef<string[]>(["", "/api", "/v1", "/api/v1"]).current;
+  // older servers mount /roc under a prefix; the login probe found which
+  const rocPrefix = useServerCapabilities()?.rocPrefix ?? "";
 
   const [mode, setMode] = useState<Mode>("meter");
   const [buildingId, setBuildingId] = useState("");
@@ -503,7 +370,9 @@ function RateOfChangePanel() {
   const [year, setYear] = useState<string>(String(new Date().getFullYear()));
 
   const [busy, setBusy] = useState<BusyKey>(null);
-  const [errText, setErrText] = useState("");
+  const [failure, setFailure] = useState<{ title: string; error: ApiError } | null>(
+    null,
+  );
 
   const [meterRoc, setMeterRoc] = useState<RocMeter | null>(null);
   const [tenantRoc, setTenantRoc] = useState<RocTenant | null>(null);
@@ -519,8 +388,8 @@ function RateOfChangePanel() {
     if (!token) return;
     const loadBuildings = async () => {
       try {
-        const res = await api.get<BuildingOption[]>("/buildings");
-        const list = Array.isArray(res.data) ? res.data : [];
+        const rows = await readReference(api, "buildings", setBuildings);
+        const list = Array.isArray(rows) ? rows : [];
         setBuildings(list);
       } catch (e) {
         console.error("Fetch buildings for ROC failed:", e);
@@ -529,63 +398,25 @@ function RateOfChangePanel() {
     loadBuildings();
   }, [api, token]);
 
-  async function getWithAutoPrefix<T>(rawPath: string) {
-    const tried: Array<{ prefix: string; status: number | "netfail" }> = [];
-
-    if (detectedPrefixRef.current != null) {
-      const pref = detectedPrefixRef.current!;
-      const path = `${pref}${rawPath}`;
-      try {
-        const res = await api.get<T>(path);
-        return res.data;
-      } catch (e: any) {
-        const st = e?.response?.status;
-        if (st === 404) detectedPrefixRef.current = null;
-        else throw e;
-      }
-    }
-
-    for (const pref of candidates) {
-      const path = `${pref}${rawPath}`;
-      try {
-        const res = await api.get<T>(path);
-        detectedPrefixRef.current = pref;
-        return res.data;
-      } catch (e: any) {
-        const st = e?.response?.status;
-        tried.push({ prefix: pref, status: st ?? "netfail" });
-        if (st && st !== 404) {
-          detectedPrefixRef.current = pref;
-          throw e;
-        }
-      }
-    }
-
-    const matrix = tried
-      .map((t) => `${t.prefix || "(root)"} → ${String(t.status)}`)
-      .join("\n");
-    throw new Error(`All route prefixes returned 404.\nTried:\n${matrix}`);
-  }
-
   const runMeterRoc = async () => {
     if (!meterId.trim()) return notify("Missing Meter ID");
     if (!isYMD(startDate) || !isYMD(endDate))
       return notify("Invalid dates", "Use YYYY-MM-DD.");
 
     setBusy("meter");
-    setErrText("");
+    setFailure(null);
     setMeterRoc(null);
 
     try {
-      const raw = `/roc/meters/${encodeURIComponent(
+      const data = await api.roc.meter(
         meterId.trim(),
-      )}/period-start/${encodeURIComponent(
         startDate,
-      )}/period-end/${encodeURIComponent(endDate)}`;
-      const data = await getWithAutoPrefix<RocMeter>(raw);
+        endDate,
+        rocPrefix,
+      );
       setMeterRoc(data || null);
     } catch (e: any) {
-      handleError(setErrText, "Meter rate-of-change failed", e);
+      setFailure({ title: "Meter rate-of-change failed", error: toApiError(e) });
     } finally {
       setBusy(null);
     }
@@ -597,19 +428,19 @@ function RateOfChangePanel() {
       return notify("Invalid dates", "Use YYYY-MM-DD.");
 
     setBusy("tenant");
-    setErrText("");
+    setFailure(null);
     setTenantRoc(null);
 
     try {
-      const raw = `/roc/tenants/${encodeURIComponent(
+      const data = await api.roc.tenant(
         tenantId.trim(),
-      )}/period-start/${encodeURIComponent(
         startDate,
-      )}/period-end/${encodeURIComponent(endDate)}`;
-      const data = await getWithAutoPrefix<RocTenant>(raw);
+        endDate,
+        rocPrefix,
+      );
       setTenantRoc(data || null);
     } catch (e: any) {
-      handleError(setErrText, "Tenant rate-of-change failed", e);
+      setFailure({ title: "Tenant rate-of-change failed", error: toApiError(e) });
     } finally {
       setBusy(null);
     }
@@ -621,19 +452,19 @@ function RateOfChangePanel() {
       return notify("Invalid dates", "Use YYYY-MM-DD.");
 
     setBusy("building");
-    setErrText("");
+    setFailure(null);
     setBuildingRoc(null);
 
     try {
-      const raw = `/roc/buildings/${encodeURIComponent(
+      const data = await api.roc.building(
         buildingId.trim(),
-      )}/period-start/${encodeURIComponent(
         startDate,
-      )}/period-end/${encodeURIComponent(endDate)}`;
-      const data = await getWithAutoPrefix<RocBuilding>(raw);
+        endDate,
+        rocPrefix,
+      );
       setBuildingRoc(data || null);
     } catch (e: any) {
-      handleError(setErrText, "Building rate-of-change failed", e);
+      setFailure({ title: "Building rate-of-change failed", error: toApiError(e) });
     } finally {
       setBusy(null);
     }
@@ -645,19 +476,19 @@ function RateOfChangePanel() {
       return notify("Invalid dates", "Use YYYY-MM-DD.");
 
     setBusy("monthly");
-    setErrText("");
+    setFailure(null);
     setCmpMonthly(null);
 
     try {
-      const raw = `/roc/buildings/${encodeURIComponent(
+      const data = await api.roc.monthly(
         buildingId.trim(),
-      )}/period-start/${encodeURIComponent(
         startDate,
-      )}/period-end/${encodeURIComponent(endDate)}/monthly-comparison`;
-      const data = await getWithAutoPrefix<BuildingMonthlyTotals>(raw);
+        endDate,
+        rocPrefix,
+      );
       setCmpMonthly(data || null);
     } catch (e: any) {
-      handleError(setErrText, "Monthly comparison failed", e);
+      setFailure({ title: "Monthly comparison failed", error: toApiError(e) });
     } finally {
       setBusy(null);
     }
@@ -669,19 +500,19 @@ function RateOfChangePanel() {
       return notify("Invalid dates", "Use YYYY-MM-DD.");
 
     setBusy("quarterly");
-    setErrText("");
+    setFailure(null);
     setCmpFour(null);
 
     try {
-      const raw = `/roc/buildings/${encodeURIComponent(
+      const data = await api.roc.quarterly(
         buildingId.trim(),
-      )}/period-start/${encodeURIComponent(
         startDate,
-      )}/period-end/${encodeURIComponent(endDate)}/quarterly-comparison`;
-      const data = await getWithAutoPrefix<BuildingFourMonths>(raw);
+        endDate,
+        rocPrefix,
+      );
       setCmpFour(data || null);
     } catch (e: any) {
-      handleError(setErrText, "4-Month comparison failed", e);
+      setFailure({ title: "4-Month comparison failed", error: toApiError(e) });
     } finally {
       setBusy(null);
     }
@@ -693,17 +524,14 @@ function RateOfChangePanel() {
     if (isNaN(yr) || yr < 1900) return notify("Invalid year", "Enter YYYY.");
 
     setBusy("yearly");
-    setErrText("");
+    setFailure(null);
     setCmpYearly(null);
 
     try {
-      const raw = `/roc/buildings/${encodeURIComponent(
-        buildingId.trim(),
-      )}/year/${encodeURIComponent(String(yr))}/yearly-comparison`;
-      const data = await getWithAutoPrefix<BuildingYearly>(raw);
+      const data = await api.roc.yearly(buildingId.trim(), yr, rocPrefix);
       setCmpYearly(data || null);
     } catch (e: any) {
-      handleError(setErrText, "Yearly comparison failed", e);
+      setFailure({ title: "Yearly comparison failed", error: toApiError(e) });
     } finally {
       setBusy(null);
     }
@@ -900,15 +728,12 @@ function RateOfChangePanel() {
         />
       </View>
 
-      {!!errText && (
-        <View style={styles.errorCard}>
-          <Ionicons name="warning" size={20} color="#DC2626" />
-          <View style={styles.errorContent}>
-            <Text style={styles.errorTitle}>Request Failed</Text>
-            <Text style={styles.errorText}>{errText}</Text>
-          </View>
-        </View>
-      )}
+      <ErrorBanner
+        error={failure?.error ?? null}
+        title={failure?.title}
+        onDismiss={() => setFailure(null)}
+        style={styles.errorCard}
+      />
 
       <View style={[styles.inputCard, isMobile && styles.inputCardMobile]}>
         <Text style={styles.sectionTitle}>Parameters</Text>
@@ -1796,30 +1621,8 @@ const styles = StyleSheet.create({
     color: "#2563EB",
   },
   errorCard: {
-    flexDirection: "row",
-    alignItems: "flex-start",
     margin: 24,
     marginBottom: 0,
-    padding: 16,
-    backgroundColor: "#FEF2F2",
-    borderWidth: 1,
-    borderColor: "#FECACA",
-    borderRadius: 12,
-  },
-  errorContent: {
-    flex: 1,
-    marginLeft: 12,
-  },
-  errorTitle: {
-    fontSize: 14,
-    fontWeight: "600",
-    color: "#DC2626",
-    marginBottom: 4,
-  },
-  errorText: {
-    fontSize: 12,
-    color: "#7F1D1D",
-    lineHeight: 16,
   },
   inputCard: {
     margin: 24,
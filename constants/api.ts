@@ -1,3 +1,19 @@
-export const BASE_API = "http://192.168.100.179:3000";
+/**
+ * Servers offered on a fresh install. The server actually used is picked at
+ * runtime (Login → Device Settings) and stored per device; see
+ * services/serverProfiles.ts.
+ */
+export const DEFAULT_SERVER_PROFILES = [
+  { id: "main", name: "Main server", baseUrl: "http://192.168.100.179:3000" },
+  { id: "alt", name: "Alternate server", baseUrl: "http://10.196.19.94:3000" },
+];
 
-//export const BASE_API = "http://10.196.19.94:3000"
\ No newline at end of file
+/**
+ * Base URL of the in-process mock server (services/mockBackend.ts, offered in
+ * development builds only; see services/mockServer.ts).
+ */
+export const MOCK_BASE_URL = "mock://local";
+export const MOCK_API_VERSION = "mock-1";
+
+export const isMockBaseUrl = (url?: string | null) =>
+  String(url ?? "").startsWith("mock://");
@@ -2,12 +2,23 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import React, {
   createContext,
+  useCallback,
   useContext,
   useEffect,
   useMemo,
   useRef,
   useState,
 } from "react";
+import { createApi, setDeviceRevokedHandler, setUnauthorizedHandler } from "../services/api";
+import {
+  clearCollections,
+  clearReaderSession,
+  forgetReaderData,
+  localStore,
+  setStorageKey,
+} from "../services/localStore";
+import { clearReferenceCache } from "../services/refCache";
+import { loadCapabilities, probeCapabilities } from "../services/serverCapabilities";
 
 /** Shape we expect from the JWT payload */
 export type AuthUser = {
@@ -33,6 +44,19 @@ type AuthContextType = {
   login: (token: string) => Promise<void>;
   logout: () => Promise<void>;
 
+  /**
+   * Session expiry. When the token expires (or any request gets a 401) the
+   * re-login sheet opens instead of sending the user back to login.tsx, so
+   * the current screen and any half-filled modal stay mounted.
+   */
+  sessionExpired: boolean;
+  reauthOpen: boolean;
+  /** Open the re-login sheet; resolves with the new token, or null if dismissed. */
+  requestReauth: () => Promise<string | null>;
+  /** Accept a token from the re-login sheet (must be the same user). */
+  reauthenticate: (token: string) => Promise<void>;
+  dismissReauth: () => void;
+
   /** Reader device helpers */
   setReaderDevice: (deviceToken: string, deviceName?: string | null) => Promise<void>;
   clearReaderDevice: () => Promise<void>;
@@ -52,15 +76,8 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 const KEY_TOKEN = "token";
 const KEY_EXPIRES_AT = "expiresAt";
 const KEY_USER = "user";
-
-// Reader device keys (must match what login.tsx stores)
-const KEY_DEVICE_TOKEN = "device_token_v1";
-const KEY_DEVICE_NAME = "device_name_v1";
-// NOTE: we intentionally DO NOT remove device_serial_v1 on logout (device-level setting)
-
-// Offline session keys (must match ScanHistoryContext.tsx)
-const KEY_OFFLINE_SCANS = "offline_scans_v1";
-const KEY_OFFLINE_PACKAGE = "offline_package_v1";
+// reader device and offline data live in services/localStore
+// NOTE: we intentionally DO NOT remove the device serial on logout (device-level setting)
 
 /* ---------------- helpers (frontend-only) ---------------- */
 const safeAtob = (b64: string): string | null => {
@@ -154,7 +171,7 @@ const userHasRole = (u: AuthUser | null, role: string) =>
  * IMPORTANT: We DO NOT clear offline_scans here, because those are actual readings the reader queued.
  */
 const clearReaderImportedPackage = async () => {
-  await AsyncStorage.removeItem(KEY_OFFLINE_PACKAGE);
+  await localStore.offlinePackage.remove();
 };
 
 /* ---------------- provider ---------------- */
@@ -171,28 +188,80 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
   const [deviceToken, setDeviceToken] = useState<string | null>(null);
   const [deviceName, setDeviceName] = useState<string | null>(null);
 
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const [reauthOpen, setReauthOpen] = useState(false);
+
+  // requests waiting for the user to sign in again (see services/api.ts)
+  const reauthWaitersRef = useRef<((token: string | null) => void)[]>([]);
+  const tokenRef = useRef<string | null>(null);
+  tokenRef.current = token;
+
   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const clearTimer = () => {
+  const clearTimer = useCallback(() => {
     if (timerRef.current) clearTimeout(timerRef.current);
     timerRef.current = null;
-  };
+  }, []);
 
-  const scheduleAutoLogout = (expMs: number) => {
-    clearTimer();
-    const ms = Math.max(0, expMs - Date.now());
-    timerRef.current = setTimeout(() => {
-      // fire and forget
-      logout();
-    }, ms);
-  };
+  // ✅ on expiry ask for the password again instead of logging out,
+  // so unsaved edits on the current screen survive
+  const scheduleExpiry = useCallback(
+    (expMs: number) => {
+      clearTimer();
+      const ms = Math.max(0, expMs - Date.now());
+      timerRef.current = setTimeout(() => {
+        setSessionExpired(true);
+        setReauthOpen(true);
+      }, ms);
+    },
+    [clearTimer],
+  );
+
+  const settleReauth = useCallback((newToken: string | null) => {
+    const waiters = reauthWaitersRef.current;
+    reauthWaitersRef.current = [];
+    setReauthOpen(false);
+    waiters.forEach((resolve) => resolve(newToken));
+  }, []);
+
+  const requestReauth = useCallback(
+    () =>
+      new Promise<string | null>((resolve) => {
+        if (!tokenRef.current) return resolve(null);
+        reauthWaitersRef.current.push(resolve);
+        setReauthOpen(true);
+      }),
+    [],
+  );
+
+  const dismissReauth = useCallback(() => settleReauth(null), [settleReauth]);
+
+  useEffect(() => {
+    setUnauthorizedHandler(() => {
+      setSessionExpired(true);
+      return requestReauth();
+    });
+    return () => setUnauthorizedHandler(null);
+  }, [requestReauth]);
+
+  // an admin blocked or removed this device: what it holds must not stay readable
+  useEffect(() => {
+    setDeviceRevokedHandler(async () => {
+      setDeviceToken(null);
+      setDeviceName(null);
+      await forgetReaderData();
+      await clearCollections(localStore.deviceName);
+    });
+    return () => setDeviceRevokedHandler(null);
+  }, []);
 
-  const clearReaderDevice = async () => {
+  const clearReaderDevice = useCallback(async () => {
     setDeviceToken(null);
     setDeviceName(null);
-    await AsyncStorage.multiRemove([KEY_DEVICE_TOKEN, KEY_DEVICE_NAME]);
-  };
+    await clearCollections(localStore.deviceToken, localStore.deviceName);
+    await setStorageKey(null);
+  }, []);
 
-  const setReaderDevice = async (dt: string, dn?: string | null) => {
+  const setReaderDevice = useCallback(async (dt: string, dn?: string | null) => {
     const tokenStr = (dt || "").trim();
     const nameStr = (dn || "").trim();
 
@@ -201,11 +270,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     setDeviceToken(tokenStr);
     setDeviceName(nameStr || null);
 
-    const pairs: [string, string][] = [[KEY_DEVICE_TOKEN, tokenStr]];
-    if (nameStr) pairs.push([KEY_DEVICE_NAME, nameStr]);
-
-    await AsyncStorage.multiSet(pairs);
-  };
+    await localStore.deviceToken.set(tokenStr);
+    if (nameStr) await localStore.deviceName.set(nameStr);
+  }, []);
 
   // load session on mount
   useEffect(() => {
@@ -221,8 +288,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
           AsyncStorage.getItem(KEY_TOKEN),
           AsyncStorage.getItem(KEY_EXPIRES_AT),
           AsyncStorage.getItem(KEY_USER),
-          AsyncStorage.getItem(KEY_DEVICE_TOKEN),
-          AsyncStorage.getItem(KEY_DEVICE_NAME),
+          localStore.deviceToken.get(),
+          localStore.deviceName.get(),
         ]);
 
         const expMs =
@@ -239,8 +306,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
           setExpiresAt(null);
           setUser(null);
 
-          // also clear reader device identity
-          await AsyncStorage.multiRemove([KEY_DEVICE_TOKEN, KEY_DEVICE_NAME]);
+          // also clear reader device identity and the key its data was sealed with
+          await clearCollections(localStore.deviceToken, localStore.deviceName);
+          await setStorageKey(null);
           setDeviceToken(null);
           setDeviceName(null);
           return;
@@ -273,12 +341,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
           await clearReaderImportedPackage();
         } else {
           // non-reader logged in -> do not keep device token around
-          await AsyncStorage.multiRemove([KEY_DEVICE_TOKEN, KEY_DEVICE_NAME]);
+          await clearCollections(localStore.deviceToken, localStore.deviceName);
+          await setStorageKey(null);
           setDeviceToken(null);
           setDeviceName(null);
         }
 
-        scheduleAutoLogout(expMs);
+        scheduleExpiry(expMs);
+
+        // sessions from before the capability probe existed have no result yet
+        if (!(await loadCapabilities())) {
+          probeCapabilities(createApi(storedToken)).catch(() => {});
+        }
       } finally {
         setLoading(false);
       }
@@ -286,10 +360,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
 
     init();
     return clearTimer; // cleanup on unmount
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [clearTimer, scheduleExpiry]);
 
-  const login = async (newToken: string) => {
+  const login = useCallback(async (newToken: string) => {
     const expMs = getExpMsFromJwt(newToken);
     const decoded = getUserFromJwt(newToken);
 
@@ -297,8 +370,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     setExpiresAt(expMs);
     setIsLoggedIn(true);
     setUser(decoded);
+    setSessionExpired(false);
 
-    scheduleAutoLogout(expMs);
+    scheduleExpiry(expMs);
 
     // store even if decoded is null (store empty object so JSON.parse won't crash later)
     await AsyncStorage.multiSet([
@@ -307,26 +381,60 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
       [KEY_USER, JSON.stringify(decoded ?? null)],
     ]);
 
+    // discover what this server supports before any screen asks; an
+    // unreachable server keeps the previous result (or none: show everything)
+    await probeCapabilities(createApi(newToken)).catch(() => null);
+
     // IMPORTANT:
-    // login.tsx will do /reader-devices/resolve for reader and store device_token_v1/device_name_v1.
+    // login.tsx will do /reader-devices/resolve for reader and store the device token/name.
     // Here we simply refresh from storage if reader; otherwise clear.
     if (userHasRole(decoded, "reader")) {
       // reader must start with ZERO imported package until Sync Import
       await clearReaderImportedPackage();
 
       const [dt, dn] = await Promise.all([
-        AsyncStorage.getItem(KEY_DEVICE_TOKEN),
-        AsyncStorage.getItem(KEY_DEVICE_NAME),
+        localStore.deviceToken.get(),
+        localStore.deviceName.get(),
       ]);
       setDeviceToken(dt ? String(dt) : null);
       setDeviceName(dn ? String(dn) : null);
     } else {
       await clearReaderDevice();
     }
-  };
+  }, [scheduleExpiry, clearReaderDevice]);
+
+  /**
+   * Same as login(), minus the reader-session reset: the offline package,
+   * queued scans and device token all belong to this user and must survive.
+   */
+  const reauthenticate = useCallback(async (newToken: string) => {
+    const decoded = getUserFromJwt(newToken);
+    if (user && decoded?.user_id !== user.user_id) {
+      throw new Error(
+        `Signed in as a different user. Sign in as ${user.user_id} to continue, or sign out.`,
+      );
+    }
 
-  const logout = async () => {
+    const expMs = getExpMsFromJwt(newToken);
+    setToken(newToken);
+    setExpiresAt(expMs);
+    setUser(decoded);
+    setSessionExpired(false);
+    scheduleExpiry(expMs);
+
+    await AsyncStorage.multiSet([
+      [KEY_TOKEN, newToken],
+      [KEY_EXPIRES_AT, String(expMs)],
+      [KEY_USER, JSON.stringify(decoded ?? null)],
+    ]);
+
+    settleReauth(newToken);
+  }, [user, scheduleExpiry, settleReauth]);
+
+  const logout = useCallback(async () => {
     clearTimer();
+    settleReauth(null);
+    setSessionExpired(false);
     setIsLoggedIn(false);
     setToken(null);
     setExpiresAt(null);
@@ -336,39 +444,46 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     setDeviceToken(null);
     setDeviceName(null);
 
-    await AsyncStorage.multiRemove([
-      KEY_TOKEN,
-      KEY_EXPIRES_AT,
-      KEY_USER,
-      KEY_DEVICE_TOKEN,
-      KEY_DEVICE_NAME,
+    await AsyncStorage.multiRemove([KEY_TOKEN, KEY_EXPIRES_AT, KEY_USER]);
 
-      // also clear any offline session data on logout
-      KEY_OFFLINE_SCANS,
-      KEY_OFFLINE_PACKAGE,
-    ]);
-  };
+    // also clear any offline session data on logout; unsynced readings stay
+    await clearReaderSession();
+    // the next user may see different buildings
+    await clearReferenceCache();
+  }, [clearTimer, settleReauth]);
 
   // convenience guards (case-insensitive)
-  const hasRole = (...roles: string[]) =>
-    !!user && roles.some((r) => user.user_roles.map(norm).includes(norm(r)));
+  const hasRole = useCallback(
+    (...roles: string[]) =>
+      !!user && roles.some((r) => user.user_roles.map(norm).includes(norm(r))),
+    [user],
+  );
 
-  const inBuilding = (...buildingIds: string[]) =>
-    !!user &&
-    buildingIds.some((b) =>
-      (user.building_ids || []).map(String).includes(String(b)),
-    );
+  const inBuilding = useCallback(
+    (...buildingIds: string[]) =>
+      !!user &&
+      buildingIds.some((b) =>
+        (user.building_ids || []).map(String).includes(String(b)),
+      ),
+    [user],
+  );
 
-  const hasUtility = (...utils: string[]) =>
-    !!user && utils.some((u) => user.utility_role.map(norm).includes(norm(u)));
+  const hasUtility = useCallback(
+    (...utils: string[]) =>
+      !!user && utils.some((u) => user.utility_role.map(norm).includes(norm(u))),
+    [user],
+  );
 
   // module access (admin always true)
-  const hasAccess = (...modules: string[]) => {
-    if (!user) return false;
-    if (hasRole("admin")) return true;
-    const mine = (user.access_modules || []).map(norm);
-    return modules.some((m) => mine.includes(norm(m)));
-  };
+  const hasAccess = useCallback(
+    (...modules: string[]) => {
+      if (!user) return false;
+      if (hasRole("admin")) return true;
+      const mine = (user.access_modules || []).map(norm);
+      return modules.some((m) => mine.includes(norm(m)));
+    },
+    [user, hasRole],
+  );
 
   const value = useMemo<AuthContextType>(
     () => ({
@@ -384,6 +499,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
       login,
       logout,
 
+      sessionExpired,
+      reauthOpen,
+      requestReauth,
+      reauthenticate,
+      dismissReauth,
+
       setReaderDevice,
       clearReaderDevice,
 
@@ -392,7 +513,28 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
       hasUtility,
       hasAccess,
     }),
-    [isLoggedIn, loading, token, expiresAt, user, deviceToken, deviceName],
+    [
+      isLoggedIn,
+      loading,
+      token,
+      expiresAt,
+      user,
+      deviceToken,
+      deviceName,
+      login,
+      logout,
+      sessionExpired,
+      reauthOpen,
+      requestReauth,
+      reauthenticate,
+      dismissReauth,
+      setReaderDevice,
+      clearReaderDevice,
+      hasRole,
+      inBuilding,
+      hasUtility,
+      hasAccess,
+    ],
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -1,20 +1,49 @@
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import NetInfo from "@react-native-community/netinfo";
-import axios from "axios";
 import React, {
   createContext,
   useCallback,
   useContext,
   useEffect,
   useMemo,
+  useRef,
   useState,
 } from "react";
-import { BASE_API } from "../constants/api";
-
-/**
- * Storage
- */
-const STORAGE_KEY = "offline_scans_v1";
+import { createApi } from "../services/api";
+import {
+  DEFAULT_RETENTION,
+  OfflineScan,
+  RetentionPolicy,
+  isLocked,
+  localStore,
+  toYMD,
+} from "../services/localStore";
+import {
+  OfflineExportResult,
+  OfflineReadingForExport,
+  exportKey,
+  newClientReadingId,
+  offlineExport,
+} from "../services/offlineSync";
+import {
+  deletePhoto,
+  photoBytes,
+  photoStorageBytes,
+  prunePhotos,
+  readPhoto,
+  savePhoto,
+} from "../services/scanPhotos";
+import { ApiError, toApiError } from "../services/apiError";
+import { ReaderBundleFile, makeReaderBundle } from "../services/transferBundle";
+import { isDeviceRevoked } from "../services/vault";
+import {
+  IDLE_SYNC_STATUS,
+  SYNC_DEBOUNCE_MS,
+  SyncPhase,
+  SyncStatus,
+  isAuthFailure,
+  retryDelay,
+} from "../services/syncScheduler";
+import { useAuth } from "./AuthContext";
 
 /**
  * ✅ For dashboard "To Read Today":
@@ -22,35 +51,45 @@ const STORAGE_KEY = "offline_scans_v1";
  * (instead of clearing everything). This way your dashboard can still count
  * today's completed meters even after syncing.
  */
-export type OfflineScanStatus = "pending" | "synced" | "failed";
-
-export type OfflineScan = {
-  id: string; // local id
-  meter_id: string;
-  reading_value: number;
-  lastread_date: string; // ✅ ALWAYS normalized to YYYY-MM-DD
-  createdAt: string; // ISO when queued
-
-  // optional extras (safe to keep; server may ignore)
-  remarks?: string | null;
-  image?: string | null; // base64 or uri depending on your flow
-  meter_type?: string | null;
-  tenant_name?: string | null;
-
-  status: OfflineScanStatus;
-  error?: string;
+export type { OfflineScan, OfflineScanStatus } from "../services/localStore";
+
+export type SyncResult = {
+  /** accepted by the server as new submissions */
+  uploaded: number;
+  /** already on the server; marked synced */
+  duplicates?: number;
+  /** refused by the server; kept as "rejected" for the reader to check */
+  rejected?: number;
+  kept: number;
+  /** why nothing was uploaded; the scans are then marked "failed" */
+  error?: ApiError;
 };
 
 type Ctx = {
   scans: OfflineScan[];
   isConnected: boolean | null;
 
+  /** Background upload of pending/failed scans (see services/syncScheduler). */
+  syncStatus: SyncStatus;
+  /** Upload now with the signed-in reader's device, skipping any backoff or pause. */
+  syncNow: () => Promise<SyncResult>;
+
   /**
    * ✅ Will NOT duplicate the same meter for the same date.
-   * If meter_id + lastread_date already exists, this becomes a no-op.
+   * Throws when meter_id + lastread_date is already on the device, or when
+   * the photo would go over the retention policy's photo cap.
    */
   queueScan: (
-    s: Omit<OfflineScan, "id" | "createdAt" | "status" | "error">
+    s: Omit<
+      OfflineScan,
+      | "id"
+      | "createdAt"
+      | "status"
+      | "error"
+      | "client_reading_id"
+      | "device_serial"
+      | "reader_user_id"
+    >
   ) => Promise<void>;
 
   removeScan: (id: string) => Promise<void>;
@@ -60,27 +99,53 @@ type Ctx = {
   markFailed: (id: string, error: string) => Promise<void>;
 
   /**
-   * Export OFFLINE readings to server (requires device token).
-   * On success: marks items as "synced" (does not delete), and prunes old records.
+   * Export OFFLINE readings to server (requires device token), in batches.
+   * Each scan is marked with its own outcome as soon as its batch is
+   * confirmed: "synced" (accepted or duplicate, not deleted) or "rejected".
+   * If the connection drops, the unconfirmed rest is marked "failed" and the
+   * next sync resumes with it.
    */
   syncOfflineReadings: (
     authToken: string | null,
     deviceToken: string
-  ) => Promise<{ uploaded: number; kept: number }>;
+  ) => Promise<SyncResult>;
+
+  /**
+   * Pending/failed scans as a signed reader bundle, for carrying to the
+   * office as a file where there is no network (see services/transferBundle).
+   * The scans stay queued: if they also go up by sync, the server recognises
+   * them by client_reading_id.
+   */
+  bundleScans: (opts: {
+    deviceToken: string;
+    deviceName?: string | null;
+    readerUserId?: string | null;
+  }) => Promise<{ file: ReaderBundleFile; count: number; skipped: number }>;
 
   reload: () => Promise<void>;
 };
 
 const ScanHistoryContext = createContext<Ctx | null>(null);
 
-function toYMD(input: any): string {
-  if (input === null || input === undefined) return "";
-  const s = String(input).trim();
-  if (!s) return "";
-  if (s.includes("T")) return s.split("T")[0];
-  if (s.includes(" ")) return s.split(" ")[0];
-  return s.slice(0, 10);
-}
+const toExportReading = (r: OfflineScan): OfflineReadingForExport => ({
+  meter_id: r.meter_id,
+  reading_value: r.reading_value,
+  // ✅ always YYYY-MM-DD to match server and dashboard
+  lastread_date: toYMD(r.lastread_date),
+  remarks: r.remarks ?? null,
+  override_reason: r.override_reason ?? null,
+  override_flags: r.override_flags ?? null,
+  image: r.image ?? null,
+  image_uri: r.photo_uri ?? null,
+
+  // optional
+  meter_type: r.meter_type ?? null,
+  tenant_name: r.tenant_name ?? null,
+
+  client_reading_id: r.client_reading_id,
+  device_serial: r.device_serial ?? null,
+  reader_user_id: r.reader_user_id ?? null,
+});
 
 function isFiniteNumber(n: any) {
   return typeof n === "number" && Number.isFinite(n);
@@ -94,12 +159,16 @@ function daysBetween(a: Date, b: Date) {
 /**
  * Keep only recent history so storage doesn't grow forever.
  * - Keep all scans from the last N days
- * - Also keep anything still pending/failed regardless (so user can retry)
+ * - Also keep anything not synced regardless (so user can retry, or see
+ *   why the server rejected it)
  */
-function pruneScans(scans: OfflineScan[], keepDays = 7): OfflineScan[] {
+function pruneScans(
+  scans: OfflineScan[],
+  keepDays = DEFAULT_RETENTION.synced_days
+): OfflineScan[] {
   const now = new Date();
   return scans.filter((s) => {
-    if (s.status === "pending" || s.status === "failed") return true;
+    if (s.status !== "synced") return true;
     const d = new Date(`${toYMD(s.lastread_date)}T00:00:00`);
     if (Number.isNaN(d.getTime())) return true;
     return daysBetween(now, d) <= keepDays;
@@ -108,10 +177,21 @@ function pruneScans(scans: OfflineScan[], keepDays = 7): OfflineScan[] {
 
 export function ScanHistoryProvider({
   children,
+  exportBatchSize,
+  exportBatchBytes,
 }: {
   children: React.ReactNode;
+  /** readings per export request (see EXPORT_BATCH_SIZE) */
+  exportBatchSize?: number;
+  /** rough cap on one export request body (see EXPORT_BATCH_BYTES) */
+  exportBatchBytes?: number;
 }) {
   const [scans, setScans] = useState<OfflineScan[]>([]);
+  // latest list, for updates that finish after other changes were queued
+  const scansRef = useRef<OfflineScan[]>([]);
+  // the server's retention policy, from the device resolve at login
+  const policyRef = useRef<RetentionPolicy>(DEFAULT_RETENTION);
+  const { token: authToken, deviceToken, user } = useAuth();
   const [isConnected, setIsConnected] = useState<boolean | null>(null);
 
   // ✅ better connectivity detection
@@ -136,22 +216,38 @@ export function ScanHistoryProvider({
   }, []);
 
   const reload = useCallback(async () => {
-    const raw = await AsyncStorage.getItem(STORAGE_KEY);
-    setScans(raw ? JSON.parse(raw) : []);
+    policyRef.current = await localStore.retentionPolicy.get();
+    scansRef.current = await localStore.offlineScans.get();
+    setScans(scansRef.current);
+    // photos left behind by scans removed outside this provider; while the
+    // list is sealed with a key this device does not hold (signed out) the
+    // photos of its unsynced readings must stay
+    if (!(await isLocked(localStore.offlineScans))) {
+      prunePhotos(scansRef.current.map((s) => s.photo_uri));
+    }
   }, []);
 
+  // again after each sign-in: readings kept over a logout open with its key
   useEffect(() => {
     reload();
-  }, [reload]);
+  }, [reload, deviceToken]);
 
   const save = useCallback(async (items: OfflineScan[]) => {
-    const pruned = pruneScans(items, 7);
+    const pruned = pruneScans(items, policyRef.current.synced_days);
+    scansRef.current = pruned;
     setScans(pruned);
-    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(pruned));
+    await localStore.offlineScans.set(pruned);
   }, []);
 
+  // apply a change to the latest list (an export runs while scans are queued)
+  const update = useCallback(
+    (fn: (items: OfflineScan[]) => OfflineScan[]) => save(fn(scansRef.current)),
+    [save]
+  );
+
   const clearAll = useCallback(async () => {
     await save([]);
+    prunePhotos([]);
   }, [save]);
 
   const queueScan: Ctx["queueScan"] = useCallback(
@@ -164,10 +260,31 @@ export function ScanHistoryProvider({
       if (!isFiniteNumber(reading_value)) return;
 
       // ✅ prevent duplicate meter+date queue (no overwrite / no double submit)
-      const exists = scans.some(
+      const exists = scansRef.current.some(
         (s) => s.meter_id === meter_id && toYMD(s.lastread_date) === lastread_date
       );
-      if (exists) return;
+      if (exists) {
+        throw new Error(`A reading for ${meter_id} on ${lastread_date} is already on this device.`);
+      }
+
+      // nothing queued is ever dropped to make room: the new reading is refused
+      if (payload.image) {
+        const policy = (policyRef.current = await localStore.retentionPolicy.get());
+        const used =
+          photoStorageBytes(scansRef.current.map((s) => s.photo_uri)) +
+          scansRef.current.reduce((n, s) => n + ((s.image?.length ?? 0) * 3) / 4, 0);
+        const cap = policy.max_photo_mb * 1024 * 1024;
+        if (used + (payload.image.length * 3) / 4 > cap) {
+          throw new Error(
+            `Photo storage on this device is full (${(used / 1048576).toFixed(1)} of ${policy.max_photo_mb} MB). Sync the queued readings or save them to a file first.`
+          );
+        }
+      }
+
+      const device_serial = (await localStore.deviceSerial.get().catch(() => "")) || null;
+      const client_reading_id = newClientReadingId();
+      // if the file cannot be written the photo stays inline
+      const photo_uri = payload.image ? await savePhoto(client_reading_id, payload.image) : null;
 
       const item: OfflineScan = {
         id: `local-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
@@ -176,140 +293,316 @@ export function ScanHistoryProvider({
         lastread_date,
         createdAt: new Date().toISOString(),
 
+        client_reading_id,
+        device_serial,
+        reader_user_id: user?.user_id ?? null,
+
         remarks: payload.remarks ?? null,
-        image: payload.image ?? null,
+        override_reason: payload.override_reason ?? null,
+        override_flags: payload.override_flags ?? null,
+        image: photo_uri ? null : payload.image ?? null,
+        photo_uri,
         meter_type: payload.meter_type ?? null,
         tenant_name: payload.tenant_name ?? null,
 
         status: "pending",
       };
 
-      await save([item, ...scans]);
+      await update((items) => [item, ...items]);
     },
-    [save, scans]
+    [update, user]
   );
 
   const removeScan: Ctx["removeScan"] = useCallback(
     async (id) => {
-      await save(scans.filter((s) => s.id !== id));
+      deletePhoto(scansRef.current.find((s) => s.id === id)?.photo_uri);
+      await update((items) => items.filter((s) => s.id !== id));
     },
-    [save, scans]
+    [update]
   );
 
   const markPending: Ctx["markPending"] = useCallback(
     async (id) => {
-      await save(
-        scans.map((s) =>
+      await update((items) =>
+        items.map((s) =>
           s.id === id ? ({ ...s, status: "pending", error: undefined } as OfflineScan) : s
         )
       );
     },
-    [save, scans]
+    [update]
   );
 
   const markFailed: Ctx["markFailed"] = useCallback(
     async (id, error) => {
-      await save(
-        scans.map((s) =>
+      await update((items) =>
+        items.map((s) =>
           s.id === id ? ({ ...s, status: "failed", error } as OfflineScan) : s
         )
       );
     },
-    [save, scans]
+    [update]
   );
 
-  const syncOfflineReadings: Ctx["syncOfflineReadings"] = useCallback(
+  const exportScans: Ctx["syncOfflineReadings"] = useCallback(
     async (authToken, deviceToken) => {
-      const toSend = scans.filter(
+      const toSend = scansRef.current.filter(
         (x) => x.status === "pending" || x.status === "failed"
       );
-      if (!toSend.length) return { uploaded: 0, kept: scans.length };
+      if (!toSend.length) return { uploaded: 0, kept: scansRef.current.length };
 
       if (!deviceToken) {
         const msg =
           "Missing device token. Resolve/register this reader device first.";
-        await save(scans.map((s) => ({ ...s, status: "failed", error: msg } as OfflineScan)));
-        return { uploaded: 0, kept: scans.length };
+        await update((items) =>
+          items.map((s) =>
+            s.status === "pending" || s.status === "failed"
+              ? ({ ...s, status: "failed", error: msg } as OfflineScan)
+              : s
+          )
+        );
+        return { uploaded: 0, kept: scansRef.current.length, error: new ApiError(msg) };
       }
 
-      try {
-        const api = axios.create({
-          baseURL: BASE_API,
-          timeout: 30000,
-          headers: { Authorization: `Bearer ${authToken ?? ""}` },
-        });
-
-        await api.post("/offlineExport/export", {
-          device_token: deviceToken,
-          readings: toSend.map((r) => ({
-            meter_id: r.meter_id,
-            reading_value: r.reading_value,
-            // ✅ always YYYY-MM-DD to match server and dashboard
-            lastread_date: toYMD(r.lastread_date),
-            remarks: r.remarks ?? null,
-            image: r.image ?? null,
-
-            // optional
-            meter_type: r.meter_type ?? null,
-            tenant_name: r.tenant_name ?? null,
-          })),
-        });
-
-        // ✅ IMPORTANT CHANGE:
-        // Don't clear scans; mark the uploaded ones as "synced" so dashboard can still count done today.
-        const sentKey = new Set(
-          toSend.map((r) => `${r.meter_id}__${toYMD(r.lastread_date)}`)
-        );
+      const sentKeys = new Set(toSend.map(exportKey));
+      const counts = { accepted: 0, duplicate: 0, rejected: 0 };
 
+      // ✅ Don't clear scans; mark each with its outcome so dashboard can still count done today.
+      const record = async (results: OfflineExportResult[]) => {
+        const byKey = new Map(results.map((r) => [exportKey(r), r]));
+        results.forEach((r) => counts[r.status]++);
+        const confirmedPhotos: string[] = [];
         // ✅ TS FIX: force exact OfflineScan[] output (prevents "status: string" widening)
-        const next: OfflineScan[] = scans.map((s): OfflineScan => {
-          const key = `${s.meter_id}__${toYMD(s.lastread_date)}`;
-          if (sentKey.has(key)) {
+        await update((items) =>
+          items.map((s): OfflineScan => {
+            const r = byKey.get(exportKey(s));
+            if (!r || s.status === "synced") return s;
+            const synced = r.status !== "rejected";
+            // the server has the photo now; a rejected reading keeps its own
+            if (synced && s.photo_uri) confirmedPhotos.push(s.photo_uri);
             return {
               ...s,
-              status: "synced",
-              error: undefined,
+              status: synced ? "synced" : "rejected",
+              outcome: r.status,
+              submission_id: r.submission_id ?? null,
+              error: synced ? undefined : r.error || "Rejected by the server.",
+              ...(synced ? { image: null, photo_uri: null } : {}),
             };
-          }
-          return s;
+          })
+        );
+        confirmedPhotos.forEach(deletePhoto);
+      };
+
+      try {
+        const api = createApi(authToken, { timeout: 30000 });
+
+        await offlineExport(api, {
+          deviceToken,
+          batchSize: exportBatchSize,
+          maxBatchBytes: exportBatchBytes,
+          readImage: readPhoto,
+          imageBytes: photoBytes,
+          readings: toSend.map(toExportReading),
+          onBatch: record,
         });
 
-        await save(next);
+        // anything the server did not report on goes again next time, after
+        // the same backoff as a failed upload (not at once, photos and all)
+        const unconfirmed = "The server did not confirm this reading.";
+        let missing = 0;
+        await update((items) =>
+          items.map((s) => {
+            if (!sentKeys.has(exportKey(s))) return s;
+            if (s.status !== "pending" && s.status !== "failed") return s;
+            missing++;
+            return { ...s, status: "failed", error: unconfirmed } as OfflineScan;
+          })
+        );
 
         return {
-          uploaded: toSend.length,
-          kept: next.length,
+          uploaded: counts.accepted,
+          duplicates: counts.duplicate,
+          rejected: counts.rejected,
+          kept: scansRef.current.length,
+          ...(missing
+            ? { error: new ApiError(`The server did not confirm ${missing} reading(s).`) }
+            : {}),
         };
       } catch (e: any) {
-        const err =
-          e?.response?.data?.error ||
-          e?.response?.data?.message ||
-          e?.message ||
-          String(e);
-
-        // keep them but mark failed so user can retry
-        await save(
-          scans.map((s) =>
-            s.status === "pending" || s.status === "failed"
-              ? ({ ...s, status: "failed", error: err } as OfflineScan)
+        const error = toApiError(e, "Unable to sync offline readings.");
+
+        // the device was revoked and its data already dropped (AuthContext);
+        // writing the list back would store it unsealed
+        if (isDeviceRevoked(error)) {
+          scansRef.current = [];
+          setScans([]);
+          prunePhotos([]);
+          return {
+            uploaded: counts.accepted,
+            duplicates: counts.duplicate,
+            rejected: counts.rejected,
+            kept: 0,
+            error,
+          };
+        }
+
+        // keep the unconfirmed ones but mark failed so user can retry;
+        // batches confirmed before the failure keep their outcome
+        await update((items) =>
+          items.map((s) =>
+            sentKeys.has(exportKey(s)) && (s.status === "pending" || s.status === "failed")
+              ? ({ ...s, status: "failed", error: error.message } as OfflineScan)
               : s
           )
         );
 
-        return { uploaded: 0, kept: scans.length };
+        return {
+          uploaded: counts.accepted,
+          duplicates: counts.duplicate,
+          rejected: counts.rejected,
+          kept: scansRef.current.length,
+          error,
+        };
       }
     },
-    [scans, save]
+    [update, exportBatchSize, exportBatchBytes]
+  );
+
+  // one upload at a time: a manual sync during a background one joins it
+  const inflight = useRef<Promise<SyncResult> | null>(null);
+  const syncOfflineReadings: Ctx["syncOfflineReadings"] = useCallback(
+    (authToken, deviceToken) => {
+      if (!inflight.current) {
+        inflight.current = exportScans(authToken, deviceToken).finally(() => {
+          inflight.current = null;
+        });
+      }
+      return inflight.current;
+    },
+    [exportScans]
+  );
+
+  const bundleScans: Ctx["bundleScans"] = useCallback(async (opts) => {
+    const toSend = scansRef.current.filter(
+      (x) => x.status === "pending" || x.status === "failed"
+    );
+    if (!toSend.length) throw new Error("There are no queued readings to save.");
+    const { file, skipped } = await makeReaderBundle(toSend.map(toExportReading), {
+      ...opts,
+      deviceSerial: await localStore.deviceSerial.get(),
+      readImage: readPhoto,
+    });
+    return { file, count: toSend.length - skipped.length, skipped: skipped.length };
+  }, []);
+
+  /**
+   * Background sync. Scans go up SYNC_DEBOUNCE_MS after being queued or as
+   * soon as connectivity returns; a failed upload is retried with backoff and
+   * an auth failure stops retries until the session or device changes.
+   */
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(IDLE_SYNC_STATUS);
+  const [wake, setWake] = useState(0);
+  const schedule = useRef({
+    attempt: 0,
+    nextAttemptAt: null as number | null,
+    /** session+device the scheduler stopped under */
+    pausedFor: null as string | null,
+    lastSyncedAt: null as string | null,
+    lastError: null as ApiError | null,
+    wasConnected: null as boolean | null,
+  });
+  const outstanding = useMemo(
+    () => scans.filter((s) => s.status === "pending" || s.status === "failed").length,
+    [scans]
   );
 
+  const settle = useCallback((res: SyncResult, session: string) => {
+    const s = schedule.current;
+    s.lastError = res.error ?? null;
+    if (!res.error) {
+      s.attempt = 0;
+      s.nextAttemptAt = null;
+      s.lastSyncedAt = new Date().toISOString();
+    } else if (isAuthFailure(res.error)) {
+      s.pausedFor = session;
+      s.nextAttemptAt = null;
+    } else {
+      s.attempt += 1;
+      s.nextAttemptAt = Date.now() + retryDelay(s.attempt);
+    }
+    setWake((w) => w + 1);
+  }, []);
+
+  useEffect(() => {
+    const s = schedule.current;
+    const publish = (phase: SyncPhase) =>
+      setSyncStatus({
+        phase,
+        outstanding,
+        attempt: s.attempt,
+        nextAttemptAt: s.nextAttemptAt,
+        lastSyncedAt: s.lastSyncedAt,
+        lastError: s.lastError,
+      });
+
+    // back online: retry right away instead of waiting out the backoff
+    if (isConnected && s.wasConnected === false) {
+      s.attempt = 0;
+      s.nextAttemptAt = null;
+    }
+    s.wasConnected = isConnected;
+
+    if (!outstanding) {
+      s.attempt = 0;
+      s.nextAttemptAt = null;
+      return publish("idle");
+    }
+    if (!authToken || !deviceToken) return publish("unavailable");
+    if (!isConnected) return publish("offline");
+
+    const session = `${authToken}|${deviceToken}`;
+    if (s.pausedFor === session) return publish("paused");
+    s.pausedFor = null;
+    if (inflight.current) return publish("syncing");
+
+    if (s.nextAttemptAt === null) s.nextAttemptAt = Date.now() + SYNC_DEBOUNCE_MS;
+    const wait = s.nextAttemptAt - Date.now();
+    if (wait > 0) {
+      publish(s.attempt ? "retrying" : "queued");
+      const t = setTimeout(() => setWake((w) => w + 1), wait);
+      return () => clearTimeout(t);
+    }
+
+    publish("syncing");
+    syncOfflineReadings(authToken, deviceToken).then((res) => settle(res, session));
+  }, [outstanding, isConnected, authToken, deviceToken, wake, syncOfflineReadings, settle]);
+
+  const syncNow: Ctx["syncNow"] = useCallback(async () => {
+    if (!deviceToken) {
+      return {
+        uploaded: 0,
+        kept: scans.length,
+        error: new ApiError(
+          "This reader device has no device token yet. Ask admin to register the device serial, then login again."
+        ),
+      };
+    }
+    const session = `${authToken}|${deviceToken}`;
+    schedule.current.pausedFor = null;
+    setSyncStatus((st) => ({ ...st, phase: "syncing" }));
+    const res = await syncOfflineReadings(authToken, deviceToken);
+    settle(res, session);
+    return res;
+  }, [authToken, deviceToken, scans.length, syncOfflineReadings, settle]);
+
   /**
    * OPTIONAL: cleanup of synced scans older than N days (kept via pruneScans).
    * This runs whenever scans change.
    */
   useEffect(() => {
-    const pruned = pruneScans(scans, 7);
+    const pruned = pruneScans(scans, policyRef.current.synced_days);
     if (pruned.length !== scans.length) {
-      AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(pruned)).catch(() => {});
+      localStore.offlineScans.set(pruned).catch(() => {});
+      scansRef.current = pruned;
       setScans(pruned);
     }
   }, [scans]);
@@ -318,23 +611,29 @@ export function ScanHistoryProvider({
     () => ({
       scans,
       isConnected,
+      syncStatus,
+      syncNow,
       queueScan,
       removeScan,
       clearAll,
       markPending,
       markFailed,
       syncOfflineReadings,
+      bundleScans,
       reload,
     }),
     [
       scans,
       isConnected,
+      syncStatus,
+      syncNow,
       queueScan,
       removeScan,
       clearAll,
       markPending,
       markFailed,
       syncOfflineReadings,
+      bundleScans,
       reload,
     ]
   );
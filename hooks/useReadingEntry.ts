@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Alert, Platform } from "react-native";
+import { usePlausibilityPolicy } from "../components/ReadingCheckNotice";
+import { useAuth } from "../contexts/AuthContext";
+import { useScanHistory } from "../contexts/ScanHistoryContext";
+import { errorText } from "../services/apiError";
+import { localStore } from "../services/localStore";
+import type { OfflinePackage, OfflinePackageItem } from "../services/offlineSync";
+import { checkPackage } from "../services/packageIntegrity";
+import { checkReading, overrideProblem, thresholdsFor } from "../services/readingCheck";
+import { captureReadingPhoto } from "../services/readingPhoto";
+
+export function notify(title: string, message?: string) {
+  if (Platform.OS === "web" && typeof window !== "undefined" && (window as any).alert) {
+    (window as any).alert(message ? `${title}\n\n${message}` : title);
+  } else {
+    Alert.alert(title, message);
+  }
+}
+
+export function todayYmd() {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(
+    d.getDate(),
+  ).padStart(2, "0")}`;
+}
+
+export const fmtNum = (v: number | null | undefined) =>
+  v == null ? "—" : Number(v).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+/**
+ * Today's reading of one meter of the offline package, as the scan result
+ * card and route mode take it: the form (value, remarks, photo, override
+ * reason), its plausibility check, and a save that checks the form and the
+ * package before queueing the reading on the device. The form starts over
+ * when another meter is passed in.
+ */
+export function useReadingEntry(
+  item: OfflinePackageItem | null,
+  day: string,
+  pkg: OfflinePackage | null,
+) {
+  const { deviceToken } = useAuth();
+  const { queueScan } = useScanHistory();
+  const policy = usePlausibilityPolicy();
+
+  const [value, setValue] = useState("");
+  const [remarks, setRemarks] = useState("");
+  const [image, setImage] = useState("");
+  const [reason, setReason] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const reset = useCallback(() => {
+    setValue("");
+    setRemarks("");
+    setImage("");
+    setReason(null);
+  }, []);
+
+  const meterId = item?.meter_id;
+  useEffect(() => {
+    reset();
+  }, [meterId, reset]);
+
+  const check = useMemo(
+    () =>
+      item && value.trim()
+        ? checkReading(parseFloat(value), day, item, thresholdsFor(policy, item.classification))
+        : null,
+    [item, value, day, policy],
+  );
+
+  const takePhoto = async () => {
+    try {
+      setBusy(true);
+      const b64 = await captureReadingPhoto();
+      if (b64) setImage(b64);
+    } catch (e) {
+      notify("Photo failed", errorText(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /** Check and queue the reading; true once it is queued and the form cleared. */
+  const save = async () => {
+    if (!item) return false;
+    const reading = parseFloat(value);
+    if (!value.trim() || !check) {
+      notify("Invalid value", "Reading must be a number.");
+      return false;
+    }
+    const problem = overrideProblem(check, reason, remarks);
+    if (problem) {
+      notify(check.status === "block" ? "Invalid value" : "Reason required", problem);
+      return false;
+    }
+    if (!image) {
+      notify("Photo required", "Take a photo of the meter first.");
+      return false;
+    }
+    if (pkg) {
+      const pkgCheck = checkPackage(pkg, {
+        serial: await localStore.deviceSerial.get(),
+        token: deviceToken,
+        signsPackages: await localStore.packageSigning.get(),
+      });
+      if (pkgCheck.block) {
+        notify("Package not usable", pkgCheck.message);
+        return false;
+      }
+    }
+
+    try {
+      setBusy(true);
+      await queueScan({
+        meter_id: item.meter_id,
+        reading_value: reading,
+        lastread_date: day,
+        remarks: remarks.trim() || null,
+        override_reason: check.flags.length ? reason : null,
+        override_flags: check.flags.length ? check.flags : null,
+        image,
+        meter_type: item.classification,
+        tenant_name: item.tenant_name,
+      });
+      reset();
+      return true;
+    } catch (e) {
+      notify("Not saved", errorText(e));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return {
+    value,
+    setValue,
+    remarks,
+    setRemarks,
+    image,
+    reason,
+    setReason,
+    busy,
+    check,
+    takePhoto,
+    save,
+  };
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+import {
+  ServerCapabilities,
+  getCapabilities,
+  subscribeCapabilities,
+} from "../services/serverCapabilities";
+
+/** Capabilities of the active server; null until it has been probed. */
+export function useServerCapabilities(): ServerCapabilities | null {
+  const [caps, setCaps] = useState(getCapabilities);
+  useEffect(() => subscribeCapabilities(() => setCaps(getCapabilities())), []);
+  return caps;
+}
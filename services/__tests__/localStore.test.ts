@@ -0,0 +1,220 @@
+import type * as LocalStore from "../localStore";
+
+jest.mock("../scanPhotos", () => ({
+  savePhoto: jest.fn(async (id: string) => `file:///scan_photos/${id}.jpg`),
+  sealPhotos: jest.fn(),
+}));
+
+jest.mock("expo-crypto", () => ({
+  getRandomBytes: (n: number) => new Uint8Array(jest.requireActual("crypto").randomBytes(n)),
+}));
+
+jest.mock("expo-secure-store", () => {
+  const keys = new Map<string, string>();
+  return {
+    getItemAsync: async (k: string) => keys.get(k) ?? null,
+    setItemAsync: async (k: string, v: string) => void keys.set(k, v),
+    deleteItemAsync: async (k: string) => void keys.delete(k),
+  };
+});
+
+// each test gets its own storage and a localStore that has not migrated yet
+let AsyncStorage: any;
+let savePhoto: jest.Mock;
+
+beforeEach(() => {
+  jest.resetModules();
+  AsyncStorage = require("@react-native-async-storage/async-storage");
+  savePhoto = require("../scanPhotos").savePhoto;
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+const openStore = (): typeof LocalStore => require("../localStore");
+
+const seed = (values: Record<string, unknown>) =>
+  AsyncStorage.multiSet(
+    Object.entries(values).map(([k, v]) => [k, typeof v === "string" ? v : JSON.stringify(v)]),
+  );
+
+const stored = async (key: string) => {
+  const raw = await AsyncStorage.getItem(key);
+  return raw == null ? null : JSON.parse(raw);
+};
+
+const allKeys = async (): Promise<string[]> => AsyncStorage.getAllKeys();
+
+const v1Scans = [
+  {
+    id: "local-1",
+    meter_id: " M1 ",
+    reading_value: "120.5",
+    lastread_date: "2026-09-30T16:30:00.000Z",
+    created_at: "2026-09-30T16:31:00.000Z",
+    image: "aGVsbG8=",
+    status: "pending",
+  },
+  { id: "local-2", meter_id: "M2", reading_value: "", lastread_date: "2026-09-30" },
+  {
+    id: "local-3",
+    meter_id: "M3",
+    reading_value: 7,
+    lastread_date: "2026-09-29",
+    image: "d29ybGQ=",
+    status: "synced",
+  },
+];
+
+const v1Package = {
+  package: {
+    generated_at: "2026-09-30T00:00:00.000Z",
+    device_serial: "dev-1",
+    items: [{ meter_id: "M1", stall_id: "S1", prev_reading: 100, prev_date: "2026-09-01" }],
+  },
+};
+
+describe("local storage migrations", () => {
+  it("brings unversioned (v1) data up to the current layout", async () => {
+    await seed({
+      offline_scans_v1: v1Scans,
+      offline_package_v1: v1Package,
+      device_serial_v1: " dev-1 ",
+    });
+    const { LOCAL_SCHEMA_VERSION, migrateLocalStore } = openStore();
+
+    expect(await migrateLocalStore()).toBe(LOCAL_SCHEMA_VERSION);
+    expect(await AsyncStorage.getItem("local_schema_version")).toBe(String(LOCAL_SCHEMA_VERSION));
+
+    const [m1, m2, m3] = await stored("offline_scans_v1");
+    expect(m1).toMatchObject({
+      meter_id: "M1",
+      reading_value: 120.5,
+      lastread_date: "2026-09-30",
+      createdAt: "2026-09-30T16:31:00.000Z",
+      status: "pending",
+      image: null,
+      photo_uri: `file:///scan_photos/${m1.client_reading_id}.jpg`,
+    });
+    expect(m1.client_reading_id).toEqual(expect.any(String));
+    // a value that is not a number is kept for the reader to see, never sent
+    expect(m2).toMatchObject({ meter_id: "M2", reading_value: null, status: "rejected" });
+    // the server has the photo of a synced reading
+    expect(m3).toMatchObject({ status: "synced", image: null });
+    expect(m3.photo_uri).toBeUndefined();
+
+    const pkg = await stored("offline_package_v1");
+    expect(pkg).toMatchObject({ generated_at: "2026-09-30T00:00:00.000Z", device_serial: "dev-1" });
+    expect(pkg.items.map((it: any) => it.meter_id)).toEqual(["M1"]);
+    expect(await AsyncStorage.getItem("device_serial_v1")).toBe("DEV-1");
+
+    expect((await allKeys()).filter((k) => k.includes(":before_v"))).toEqual([]);
+  });
+
+  it("moves photos out of v2 scans, keeping one inline if its file cannot be written", async () => {
+    await seed({
+      local_schema_version: "2",
+      offline_scans_v1: [
+        { ...v1Scans[0], client_reading_id: "c-1", lastread_date: "2026-09-30" },
+        { ...v1Scans[0], id: "local-4", client_reading_id: "c-4", lastread_date: "2026-09-30" },
+      ],
+    });
+    savePhoto.mockImplementation(async (id: string) =>
+      id === "c-4" ? null : `file:///scan_photos/${id}.jpg`,
+    );
+
+    expect(await openStore().migrateLocalStore()).toBe(3);
+
+    const [a, b] = await stored("offline_scans_v1");
+    expect(a).toMatchObject({ photo_uri: "file:///scan_photos/c-1.jpg", image: null });
+    expect(b).toMatchObject({ image: "aGVsbG8=" });
+    expect(b.photo_uri).toBeUndefined();
+  });
+
+  it("puts the data back and stays on the old version when a step fails", async () => {
+    const scans = [{ ...v1Scans[0], client_reading_id: "c-1", lastread_date: "2026-09-30" }];
+    await seed({ local_schema_version: "2", offline_scans_v1: scans });
+    savePhoto.mockRejectedValue(new Error("disk full"));
+
+    expect(await openStore().migrateLocalStore()).toBe(2);
+
+    expect(await AsyncStorage.getItem("local_schema_version")).toBe("2");
+    expect(await stored("offline_scans_v1")).toEqual(scans);
+    // kept for the retry on the next launch
+    expect(await stored("offline_scans_v1:before_v3")).toEqual(scans);
+  });
+
+  it("runs a step again from its backup after the app was killed during it", async () => {
+    const scans = [{ ...v1Scans[0], client_reading_id: "c-1", lastread_date: "2026-09-30" }];
+    await seed({
+      local_schema_version: "2",
+      // half-converted by the killed run; the backup holds what was there before
+      offline_scans_v1: "[",
+      "offline_scans_v1:before_v3": scans,
+    });
+
+    expect(await openStore().migrateLocalStore()).toBe(3);
+
+    const [a] = await stored("offline_scans_v1");
+    expect(a).toMatchObject({ client_reading_id: "c-1", photo_uri: "file:///scan_photos/c-1.jpg" });
+    expect(await AsyncStorage.getItem("offline_scans_v1:before_v3")).toBeNull();
+  });
+
+  it("leaves data from a newer build as it is", async () => {
+    const scans = [{ id: "x", meter_id: "M1", reading_value: 1, future_field: true }];
+    await seed({ local_schema_version: "9", offline_scans_v1: scans });
+
+    expect(await openStore().migrateLocalStore()).toBe(9);
+    expect(await stored("offline_scans_v1")).toEqual(scans);
+    expect(savePhoto).not.toHaveBeenCalled();
+  });
+
+  it("migrates before the first read", async () => {
+    await seed({ offline_scans_v1: v1Scans.slice(0, 1) });
+
+    const [scan] = await openStore().localStore.offlineScans.get();
+
+    expect(scan.photo_uri).toBe(`file:///scan_photos/${scan.client_reading_id}.jpg`);
+    expect(await AsyncStorage.getItem("local_schema_version")).toBe("3");
+  });
+});
+
+describe("clearReaderSession", () => {
+  const scan = (id: string, status: string) => ({
+    id,
+    client_reading_id: `c-${id}`,
+    meter_id: "M1",
+    reading_value: 1,
+    lastread_date: "2026-10-01",
+    createdAt: "2026-10-01T08:00:00.000Z",
+    status,
+  });
+
+  it("keeps unsynced readings and drops the rest of the session", async () => {
+    await seed({
+      local_schema_version: "3",
+      offline_scans_v1: [scan("a", "synced"), scan("b", "pending"), scan("c", "failed")],
+      offline_package_v1: v1Package.package,
+      device_name_v1: "Reader 1",
+    });
+    const { clearReaderSession, localStore } = openStore();
+
+    await clearReaderSession();
+
+    expect((await localStore.offlineScans.get()).map((s) => s.id)).toEqual(["b", "c"]);
+    expect(await AsyncStorage.getItem("offline_package_v1")).toBeNull();
+    expect(await AsyncStorage.getItem("device_name_v1")).toBeNull();
+  });
+
+  it("leaves a list sealed with a key the device does not hold untouched", async () => {
+    const { seal } = require("../vault");
+    const sealed = seal("previous-reader", JSON.stringify([scan("b", "pending")]));
+    await seed({ local_schema_version: "3", offline_scans_v1: sealed });
+    const { clearReaderSession, isLocked, localStore } = openStore();
+    expect(await isLocked(localStore.offlineScans)).toBe(true);
+
+    await clearReaderSession();
+
+    expect(await AsyncStorage.getItem("offline_scans_v1")).toBe(sealed);
+  });
+});
@@ -0,0 +1,171 @@
+import {
+  OfflinePackage,
+  OfflinePackageDelta,
+  OfflinePackageItem,
+  mergeOfflinePackage,
+  parseExportResults,
+} from "../offlineSync";
+
+const item = (meter_id: string, over: Partial<OfflinePackageItem> = {}): OfflinePackageItem => ({
+  meter_id,
+  stall_id: `S-${meter_id}`,
+  tenant_name: null,
+  classification: "electric",
+  prev_reading: 100,
+  prev_date: "2026-09-01",
+  prev_image: `img-${meter_id}`,
+  qr: meter_id,
+  ...over,
+});
+
+const current: OfflinePackage = {
+  generated_at: "2026-09-01T00:00:00.000Z",
+  device_serial: "DEV-1",
+  device_name: "Reader 1",
+  expires_at: "2026-09-08T00:00:00.000Z",
+  signature: "old",
+  items: [item("M1"), item("M2"), item("M3")],
+};
+
+const delta = (over: Partial<OfflinePackageDelta>): OfflinePackageDelta => ({
+  generated_at: "2026-10-01T00:00:00.000Z",
+  device_serial: "DEV-1",
+  device_name: null,
+  expires_at: "2026-10-08T00:00:00.000Z",
+  signature: "new",
+  delta: true,
+  items: [],
+  removed: [],
+  ...over,
+});
+
+describe("mergeOfflinePackage", () => {
+  it("applies changed, added and removed items of a delta", () => {
+    const { pkg, changes } = mergeOfflinePackage(
+      current,
+      delta({
+        items: [item("M2", { prev_reading: 150 }), item("M4")],
+        removed: ["M3"],
+      }),
+    );
+
+    expect(pkg.items.map((it) => it.meter_id)).toEqual(["M1", "M2", "M4"]);
+    expect(pkg.items[1].prev_reading).toBe(150);
+    expect(changes).toEqual({ full: false, added: ["M4"], changed: ["M2"], removed: ["M3"] });
+  });
+
+  it("takes the package fields from the delta and keeps the device name", () => {
+    const { pkg } = mergeOfflinePackage(current, delta({}));
+
+    expect(pkg.generated_at).toBe("2026-10-01T00:00:00.000Z");
+    expect(pkg.expires_at).toBe("2026-10-08T00:00:00.000Z");
+    expect(pkg.signature).toBe("new");
+    expect(pkg.device_name).toBe("Reader 1");
+    expect(pkg.items).toEqual(current.items);
+  });
+
+  it("keeps an omitted photo only while the previous reading is the same", () => {
+    const { pkg } = mergeOfflinePackage(
+      current,
+      delta({
+        items: [
+          item("M1", { prev_image: undefined, tenant_name: "Renamed" }),
+          item("M2", { prev_image: undefined, prev_reading: 180, prev_date: "2026-10-01" }),
+        ],
+      }),
+    );
+
+    expect(pkg.items[0].prev_image).toBe("img-M1");
+    expect(pkg.items[1].prev_image).toBeNull();
+  });
+
+  it("does not count an item sent again unchanged", () => {
+    const { changes } = mergeOfflinePackage(
+      current,
+      delta({ items: [item("M1", { prev_image: undefined })] }),
+    );
+
+    expect(changes.changed).toEqual([]);
+  });
+
+  it("replaces the package with a whole one and reports what it dropped", () => {
+    const { pkg, changes } = mergeOfflinePackage(
+      current,
+      delta({ delta: false, items: [item("M1"), item("M5")] }),
+    );
+
+    expect(pkg.items.map((it) => it.meter_id)).toEqual(["M1", "M5"]);
+    expect(changes).toEqual({ full: true, added: ["M5"], changed: [], removed: ["M2", "M3"] });
+  });
+
+  it("starts a package from a delta when the device has none", () => {
+    const { pkg, changes } = mergeOfflinePackage(null, delta({ items: [item("M1")] }));
+
+    expect(pkg.items.map((it) => it.meter_id)).toEqual(["M1"]);
+    expect(changes.added).toEqual(["M1"]);
+  });
+});
+
+describe("parseExportResults", () => {
+  const sent = [
+    { meter_id: "M1", lastread_date: "2026-10-01", client_reading_id: "c-1" },
+    { meter_id: "M2", lastread_date: "2026-10-01", client_reading_id: "c-2" },
+    { meter_id: "M3", lastread_date: "2026-10-01", client_reading_id: null },
+  ];
+  const result = (meter_id: string, client_reading_id: string, status: string) => ({
+    meter_id,
+    lastread_date: "2026-10-01",
+    client_reading_id,
+    status,
+  });
+
+  // older field names are accepted and reported as schema drift
+  beforeEach(() => jest.spyOn(console, "warn").mockImplementation(() => {}));
+  afterEach(() => jest.restoreAllMocks());
+
+  it("treats a legacy { ok, inserted } answer as every reading accepted", () => {
+    const results = parseExportResults({ ok: true, inserted: 3 }, sent);
+
+    expect(results).toEqual(sent.map((r) => ({ ...r, status: "accepted" })));
+  });
+
+  it("matches results by client id, then by meter and day", () => {
+    const results = parseExportResults(
+      {
+        results: [
+          { ...result("M2", "c-2", "duplicate"), submission_id: "7" },
+          { ...result("M1", "c-1", "accepted"), submission_id: 8 },
+          {
+            meter_id: "M3",
+            reading_date: "2026-10-01T08:00:00Z",
+            outcome: "REJECTED",
+            reason: "Locked period",
+          },
+        ],
+      },
+      sent,
+    );
+
+    expect(results.map((r) => [r.meter_id, r.status, r.submission_id])).toEqual([
+      ["M1", "accepted", 8],
+      ["M2", "duplicate", 7],
+      ["M3", "rejected", null],
+    ]);
+    expect(results[2].error).toBe("Locked period");
+  });
+
+  it("leaves out readings the server did not report on", () => {
+    const results = parseExportResults({ results: [result("M1", "c-1", "accepted")] }, sent);
+
+    expect(results.map((r) => r.meter_id)).toEqual(["M1"]);
+  });
+
+  it("rejects a reading with an outcome it does not know", () => {
+    const results = parseExportResults(
+      { results: [result("M1", "c-1", "queued")] },
+      sent.slice(0, 1),
+    );
+
+    expect(results[0].status).toBe("rejected");
+  });
+});
@@ -0,0 +1,102 @@
+import type { OfflinePackage, OfflinePackageItem } from "../offlineSync";
+import { PACKAGE_MAX_AGE_MS, checkPackage, signPackage } from "../packageIntegrity";
+
+const NOW = Date.parse("2026-10-02T00:00:00.000Z");
+const device = { serial: "dev-1", token: "token-1", signsPackages: true };
+
+const item = (meter_id: string, prev_reading: number): OfflinePackageItem => ({
+  meter_id,
+  stall_id: `S-${meter_id}`,
+  tenant_name: `Tenant ${meter_id}`,
+  classification: "electric",
+  prev_reading,
+  prev_date: "2026-09-01",
+  qr: meter_id,
+});
+
+const unsigned = (over: Partial<OfflinePackage> = {}): OfflinePackage => ({
+  generated_at: "2026-10-01T00:00:00.000Z",
+  device_serial: "DEV-1",
+  device_name: "Reader 1",
+  expires_at: "2026-10-08T00:00:00.000Z",
+  items: [item("M2", 200), item("M1", 100)],
+  ...over,
+});
+
+const signed = (over: Partial<OfflinePackage> = {}, token = device.token): OfflinePackage => {
+  const pkg = unsigned(over);
+  return { ...pkg, signature: signPackage(pkg, token) };
+};
+
+describe("checkPackage", () => {
+  it("accepts a package signed for this device", () => {
+    expect(checkPackage(signed(), device, NOW)).toEqual({ status: "ok", block: false, message: "" });
+  });
+
+  it("ignores item order and fields billing does not use", () => {
+    const pkg = signed();
+    const reordered = {
+      ...pkg,
+      items: [...pkg.items].reverse().map((it) => ({ ...it, tenant_name: "Renamed" })),
+    };
+
+    expect(checkPackage(reordered, device, NOW).status).toBe("ok");
+  });
+
+  it("blocks a package whose previous reading was changed after signing", () => {
+    const pkg = signed();
+    pkg.items[1] = { ...pkg.items[1], prev_reading: 90 };
+
+    expect(checkPackage(pkg, device, NOW)).toMatchObject({ status: "tampered", block: true });
+  });
+
+  it("blocks a package whose expiry was pushed back after signing", () => {
+    const pkg = { ...signed(), expires_at: "2027-01-01T00:00:00.000Z" };
+
+    expect(checkPackage(pkg, device, NOW)).toMatchObject({ status: "tampered", block: true });
+  });
+
+  it("blocks a package signed with another device's token", () => {
+    const pkg = signed({}, "token-2");
+
+    expect(checkPackage(pkg, device, NOW)).toMatchObject({ status: "tampered", block: true });
+  });
+
+  it("blocks a signed package when there is no device token to check it with", () => {
+    expect(checkPackage(signed(), { ...device, token: null }, NOW)).toMatchObject({
+      status: "unverified",
+      block: true,
+    });
+  });
+
+  it("blocks a package generated for another device serial", () => {
+    expect(checkPackage(signed(), { ...device, serial: "DEV-2" }, NOW)).toMatchObject({
+      status: "wrong_device",
+      block: true,
+    });
+  });
+
+  it("blocks an unsigned package once the server is known to sign them", () => {
+    expect(checkPackage(unsigned(), device, NOW)).toMatchObject({ status: "unsigned", block: true });
+  });
+
+  it("warns about an unsigned package from a server that does not sign", () => {
+    expect(checkPackage(unsigned(), { ...device, signsPackages: false }, NOW)).toMatchObject({
+      status: "unsigned",
+      block: false,
+    });
+  });
+
+  it("blocks an expired package", () => {
+    expect(
+      checkPackage(signed(), device, Date.parse("2026-10-08T00:00:00.000Z")),
+    ).toMatchObject({ status: "expired", block: true });
+  });
+
+  it("warns about an old package without an expiry", () => {
+    const pkg = signed({ expires_at: null });
+    const later = Date.parse(pkg.generated_at) + PACKAGE_MAX_AGE_MS + 1;
+
+    expect(checkPackage(pkg, device, later)).toMatchObject({ status: "stale", block: false });
+  });
+});
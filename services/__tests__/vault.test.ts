@@ -0,0 +1,46 @@
+import { isSealed, seal, unseal } from "../vault";
+
+jest.mock("expo-crypto", () => ({
+  getRandomBytes: (n: number) => new Uint8Array(jest.requireActual("crypto").randomBytes(n)),
+}));
+
+describe("seal / unseal", () => {
+  it("opens what it sealed with the same key", () => {
+    const text = JSON.stringify([{ meter_id: "M1", reading_value: 12.5, remarks: "ñ ✓ 電" }]);
+    const sealed = seal("key-1", text);
+
+    expect(isSealed(sealed)).toBe(true);
+    expect(sealed).not.toContain("M1");
+    expect(unseal("key-1", sealed)).toBe(text);
+  });
+
+  it("does not open it with another key", () => {
+    expect(unseal("key-2", seal("key-1", "secret"))).toBeNull();
+  });
+
+  it("uses a fresh nonce for every seal", () => {
+    expect(seal("key-1", "same")).not.toBe(seal("key-1", "same"));
+  });
+
+  it("refuses a value that was changed after sealing", () => {
+    const sealed = seal("key-1", "reading 100");
+    const body = Buffer.from(sealed.slice("sealed:v1:".length), "base64");
+    body[20] ^= 1;
+    const changed = "sealed:v1:" + body.toString("base64");
+
+    expect(unseal("key-1", changed)).toBeNull();
+    expect(unseal("key-1", "sealed:v1:not base64!")).toBeNull();
+    expect(unseal("key-1", "sealed:v1:")).toBeNull();
+  });
+
+  it("round-trips an empty value and one longer than a keystream block", () => {
+    const long = "x".repeat(1000);
+
+    expect(unseal("key-1", seal("key-1", ""))).toBe("");
+    expect(unseal("key-1", seal("key-1", long))).toBe(long);
+  });
+
+  it("passes plain values through", () => {
+    expect(unseal("key-1", '{"a":1}')).toBe('{"a":1}');
+  });
+});
@@ -0,0 +1,854 @@
+// services/api.ts
+// Typed API client shared by every admin, billing and ROC screen.
+//
+// Screens should never call axios.create() themselves: build a client with
+// createApi(token) and use the grouped methods below. When the backend changes
+// a route or a field, fix it here (and in the entity types) once.
+
+import axios, { AxiosInstance, AxiosRequestConfig } from "axios";
+import {
+  AuditEntrySchema,
+  BuildingBaseRatesSchema,
+  BuildingBillingSchema,
+  BuildingSchema,
+  MeterSchema,
+  OfflineSubmissionSchema,
+  ReaderDeviceSchema,
+  ReadingSchema,
+  StallSchema,
+  StoredBillingSchema,
+  TenantSchema,
+  TodayReadingSchema,
+  UserSchema,
+  VatCodeSchema,
+  WtCodeSchema,
+  parseBillingHeaders,
+} from "./apiSchemas";
+import {
+  OfflineExportBatch,
+  OfflineExportResult,
+  OfflinePackage,
+  OfflinePackageDelta,
+  parseExportResults,
+  parseOfflineImport,
+  parseOfflineImportDelta,
+} from "./offlineSync";
+import { Schema, parseEntity, parseList, parseRecord } from "./schema";
+import { isMockBaseUrl } from "../constants/api";
+import { mockBackend } from "./mockServer";
+import { RefKey, invalidateReference } from "./refCache";
+import { getBaseApi } from "./serverProfiles";
+import type { SyncAttemptKind } from "./localStore";
+import { trackSyncAttempt } from "./syncLog";
+import type { ReaderBundle, ReaderBundleFile } from "./transferBundle";
+import { DEVICE_REVOKED } from "./vault";
+
+/* ---------------- shared entity types ---------------- */
+
+export type MeterType = "electric" | "water" | "lpg";
+
+export type Building = {
+  building_id: string;
+  building_name: string;
+  erate_perKwH?: number | null;
+  emin_con?: number | null;
+  wrate_perCbM?: number | null;
+  wmin_con?: number | null;
+  lrate_perKg?: number | null;
+  markup_rate?: number | null;
+  penalty_rate?: number | null;
+  last_updated?: string | null;
+  updated_by?: string | null;
+};
+
+export type BuildingBaseRates = {
+  building_id: string;
+  erate_perKwH: number | null;
+  emin_con: number | null;
+  wrate_perCbM: number | null;
+  wmin_con: number | null;
+  lrate_perKg: number | null;
+  last_updated?: string | null;
+  updated_by?: string | null;
+};
+
+export type StallStatus = "available" | "occupied" | "under maintenance";
+
+export type Stall = {
+  stall_id: string;
+  stall_sn: string;
+  building_id: string;
+  tenant_id: string | null;
+  stall_status: StallStatus | string;
+  last_updated?: string | null;
+  updated_by?: string | null;
+};
+
+export type Tenant = {
+  tenant_id: string;
+  tenant_sn: string;
+  tenant_name: string;
+  building_id: string;
+  tenant_status: "active" | "inactive" | string;
+  vat_code: string | null;
+  wt_code: string | null;
+  for_penalty: boolean;
+  last_updated?: string | null;
+  updated_by?: string | null;
+};
+
+export type Meter = {
+  meter_id: string;
+  meter_type: MeterType;
+  meter_sn: string;
+  meter_mult: number;
+  stall_id: string;
+  meter_status: "active" | "inactive";
+  /** not a column; some screens derive it from the stall */
+  building_id?: string | null;
+  last_updated?: string | null;
+  updated_by?: string | null;
+};
+
+export type Reading = {
+  reading_id: string;
+  meter_id: string;
+  reading_value: number;
+  read_by: string;
+  lastread_date: string;
+  last_updated: string;
+  updated_by: string;
+  remarks?: string | null;
+  /** reason code given when a flagged reading was saved (see services/readingCheck) */
+  override_reason?: string | null;
+  override_flags?: string[] | null;
+};
+
+export type UserRow = {
+  user_id: string;
+  user_fullname: string;
+  user_roles: string[];
+  building_ids: string[];
+  utility_role: string[];
+  access_modules?: string[];
+  last_updated?: string | null;
+  updated_by?: string | null;
+};
+
+export type VatCode = {
+  tax_id: string;
+  vat_code: string;
+  vat_description: string | null;
+  e_vat: number | null;
+  w_vat: number | null;
+  l_vat: number | null;
+  last_updated?: string | null;
+  updated_by?: string | null;
+};
+
+export type WtCode = {
+  wt_id: string;
+  wt_code: string;
+  wt_description: string;
+  e_wt: number | null;
+  w_wt: number | null;
+  l_wt: number | null;
+  last_updated?: string | null;
+  updated_by?: string | null;
+};
+
+export type ReaderDevice = {
+  id: number;
+  device_serial: string;
+  device_name: string | null;
+  device_token: string;
+  status: "active" | "blocked" | string;
+  last_seen_at?: string | null;
+  created_at?: string | null;
+  /** key for sealing the reader's data at rest; only sent by /reader-devices/resolve */
+  storage_key?: string | null;
+};
+
+export type OfflineSubmission = {
+  id: number;
+  device_id?: number | null;
+  device_serial?: string | null;
+  device_name?: string | null;
+
+  reader_user_id: string;
+  meter_id: string;
+
+  reading_value: number;
+  reading_date: string;
+
+  remarks?: string | null;
+  override_reason?: string | null;
+  override_flags?: string[] | null;
+  image_base64?: string | null;
+
+  submitted_at: string;
+  status: "pending" | "approved" | "rejected" | string;
+
+  approved_by?: string | null;
+  approved_at?: string | null;
+
+  /** UUID the reader device gave the reading when it was queued */
+  client_reading_id?: string | null;
+  /** id of an earlier submission of the same reading, when the server spotted one */
+  duplicate_of?: number | null;
+};
+
+/* ---------------- change history ---------------- */
+
+/** Tables whose rows keep a change history (the route segment under /audit). */
+export type AuditEntity =
+  | "buildings"
+  | "stalls"
+  | "tenants"
+  | "meters"
+  | "vat"
+  | "wt"
+  | "users";
+
+export type AuditChange = { field: string; before: unknown; after: unknown };
+
+export type AuditEntry = {
+  audit_id: number | string;
+  entity: AuditEntity | string;
+  entity_id: string;
+  action: "create" | "update" | "delete" | string;
+  changed_at: string;
+  changed_by: string | null;
+  changes: AuditChange[];
+};
+
+/* ---------------- billing ---------------- */
+
+export type BillingRow = {
+  stall_no: string | null;
+  stall_sn: string | null;
+  tenant_id: string | null;
+  tenant_sn: string | null;
+  tenant_name: string | null;
+  meter_no: string | null;
+  meter_id: string;
+  mult: number;
+  reading_previous: number;
+  reading_present: number;
+  consumed_kwh: number;
+  prev_consumed_kwh: number | null;
+  rate_of_change_pct: number | null;
+  utility_rate: number | null;
+  markup_rate: number | null;
+  system_rate: number | null;
+  vat_rate: number | null;
+  vat_amount?: number | null;
+  whtax_code: string | null;
+  whtax_rate?: number | null;
+  whtax_amount?: number | null;
+  tax_code: string | null;
+  for_penalty: boolean;
+  total_amount: number;
+  meter_type: string | null;
+  /** override reason of the present reading, when it was saved despite a plausibility flag */
+  reading_override?: string | null;
+  wt_rate?: number | null;
+  wt?: number | null;
+  billing?: { wt?: number | null; vat?: number | null; base?: number | null };
+  totals?: { wt?: number | null };
+};
+
+export type BillingTenant = {
+  tenant_id: string | null;
+  tenant_sn: string | null;
+  tenant_name: string | null;
+  rows: BillingRow[];
+};
+
+export type BillingTotals = { total_consumed_kwh: number; total_amount: number };
+
+export type BuildingBillingResponse = {
+  building_billing_id?: string;
+  building_id: string;
+  building_name: string | null;
+  period: { start: string; end: string };
+  tenants: BillingTenant[];
+  totals: BillingTotals;
+  generated_at: string | null;
+  penalty_rate_pct?: number;
+  saved_header?: any;
+};
+
+/** Lock state of a billed period (readings inside it must not change). */
+export type BillingHeader = {
+  building_id: string;
+  period: { start: string; end: string };
+  status?: string;
+};
+
+export type StoredBilling = {
+  building_billing_id: string;
+  building_id: string;
+  building_name: string | null;
+  period: { start: string; end: string };
+  totals: BillingTotals;
+  penalty_rate_pct?: number;
+  generated_at: string | null;
+  payload?: any;
+};
+
+/* ---------------- rate of change ---------------- */
+
+export type RocMeter = {
+  meter_id?: string;
+  meter_sn?: string;
+  meter_type?: string;
+  stall_id?: string | null;
+  tenant_id?: string | null;
+  building_id?: string | null;
+  current_period?: { start?: string; end?: string };
+  previous_period?: { start?: string; end?: string; month?: string | null };
+  current_consumption?: number | null;
+  previous_consumption?: number | null;
+  rate_of_change?: number | null;
+  error?: string;
+  [key: string]: any;
+};
+
+export type RocTotals = {
+  current_consumption?: number | null;
+  previous_consumption?: number | null;
+  rate_of_change?: number | null;
+};
+
+export type RocTenantGroup = {
+  meter_type?: string;
+  meters?: RocMeter[];
+  totals?: RocTotals;
+};
+
+export type RocTenant = {
+  tenant_id?: string;
+  period?: {
+    current?: { start?: string; end?: string };
+    previous?: { start?: string; end?: string; month?: string | null };
+    anchor?: { start?: string; end?: string; month?: string | null };
+  };
+  groups?: RocTenantGroup[];
+};
+
+export type RocBuildingTenantRow = {
+  tenant_id?: string | null;
+  tenant_sn?: string | null;
+  tenant_name?: string | null;
+  meters?: RocMeter[];
+  totals?: RocTotals;
+};
+
+export type RocBuilding = {
+  building_id?: string;
+  building_name?: string | null;
+  period?: {
+    current?: { start?: string; end?: string };
+    previous?: { start?: string; end?: string };
+  };
+  tenants?: RocBuildingTenantRow[];
+};
+
+export type UtilityTotals = { electric?: number; water?: number; lpg?: number };
+
+export type RocMonthBucket = {
+  label?: string;
+  start?: string;
+  end?: string;
+  previous?: { month?: string; start?: string; end?: string };
+  totals?: UtilityTotals;
+};
+
+export type BuildingMonthlyTotals = {
+  building_id?: string;
+  building_name?: string | null;
+  period?: { start?: string; end?: string };
+  totals?: UtilityTotals;
+};
+
+export type BuildingFourMonths = {
+  building_id?: string;
+  building_name?: string | null;
+  window?: { start?: string; end?: string };
+  months?: RocMonthBucket[];
+  totals_all?: UtilityTotals & { all_utilities?: number };
+};
+
+export type BuildingYearly = {
+  building_id?: string;
+  building_name?: string | null;
+  year?: number;
+  months?: RocMonthBucket[];
+  totals_all?: UtilityTotals & { all_utilities?: number };
+};
+
+/* ---------------- request bodies ---------------- */
+
+export type BuildingInput = Omit<Building, "building_id" | "last_updated" | "updated_by">;
+
+export type StallInput = {
+  stall_sn: string;
+  building_id?: string;
+  stall_status: StallStatus | string;
+  tenant_id: string | null;
+};
+
+export type TenantInput = {
+  tenant_sn: string | null;
+  tenant_name: string;
+  building_id: string;
+  tenant_status: Tenant["tenant_status"];
+  vat_code: string | null;
+  wt_code: string | null;
+  for_penalty: boolean;
+};
+
+export type MeterInput = {
+  meter_type: MeterType;
+  meter_sn: string;
+  stall_id: string;
+  meter_status: Meter["meter_status"];
+  meter_mult?: number;
+  building_id?: string;
+};
+
+export type ReadingInput = {
+  meter_id: string;
+  reading_value?: number;
+  lastread_date: string;
+  remarks: string | null;
+  override_reason?: string | null;
+  override_flags?: string[] | null;
+  image?: string;
+};
+
+export type UserInput = {
+  user_fullname: string;
+  user_password?: string;
+  user_roles: string[];
+  building_ids: string[];
+  utility_role: string[];
+  access_modules: string[];
+};
+
+export type VatInput = Omit<VatCode, "tax_id" | "last_updated" | "updated_by">;
+export type WtInput = Omit<WtCode, "wt_id" | "last_updated" | "updated_by">;
+
+/** One reading as posted by a reader device to /offlineExport/export */
+export type OfflineExportReading = {
+  meter_id: string;
+  reading_value: number;
+  lastread_date: string;
+  remarks: string | null;
+  override_reason?: string | null;
+  override_flags?: string[] | null;
+  image: string | null;
+  meter_type: string | null;
+  tenant_name: string | null;
+  /** stable per reading, so a resend is recognised as the same reading */
+  client_reading_id: string | null;
+  device_serial: string | null;
+  /** reader who took it, when another reader is signed in on the device now */
+  reader_user_id?: string | null;
+};
+
+/* ---------------- client ---------------- */
+
+/** Default readings route; where the server has it is probed at login (serverCapabilities). */
+export const READINGS_PATH = "/meter_reading";
+
+/** Accepts a raw JWT or an already prefixed "Bearer ..." value. */
+export function bearer(token: string | null | undefined): string {
+  const t = String(token ?? "").trim();
+  if (!t) return "";
+  return /^Bearer\s/i.test(t) ? t : `Bearer ${t}`;
+}
+
+const enc = encodeURIComponent;
+
+const periodPath = (start: string, end: string) =>
+  `/period-start/${enc(start)}/period-end/${enc(end)}`;
+
+/* ---------------- session expiry ---------------- */
+
+/**
+ * Called when an authenticated request comes back 401. Resolves with a fresh
+ * token once the user has signed in again (the request is then retried once),
+ * or null if they gave up. AuthContext registers the real handler.
+ */
+type UnauthorizedHandler = () => Promise<string | null>;
+let onUnauthorized: UnauthorizedHandler | null = null;
+
+export function setUnauthorizedHandler(fn: UnauthorizedHandler | null) {
+  onUnauthorized = fn;
+}
+
+/* ---------------- device revocation ---------------- */
+
+/**
+ * Called when a reader device call is refused with DEVICE_REVOKED (the device
+ * was blocked or removed by an admin). AuthContext registers the handler,
+ * which drops the reader's data and the key it was sealed with.
+ */
+type DeviceRevokedHandler = () => Promise<void>;
+let onDeviceRevoked: DeviceRevokedHandler | null = null;
+
+export function setDeviceRevokedHandler(fn: DeviceRevokedHandler | null) {
+  onDeviceRevoked = fn;
+}
+
+export type ApiOptions = {
+  timeout?: number;
+  baseURL?: string;
+};
+
+export function createApi(token: string | null | undefined, opts: ApiOptions = {}) {
+  const auth = bearer(token);
+  const http: AxiosInstance = axios.create({
+    baseURL: opts.baseURL ?? getBaseApi(),
+    timeout: opts.timeout ?? 15000,
+    headers: auth ? { Authorization: auth } : {},
+  });
+
+  // resolve the server per request, so switching profiles needs no new client;
+  // the local mock server is answered in-process instead of over the network
+  http.interceptors.request.use((cfg) => {
+    if (!opts.baseURL) cfg.baseURL = getBaseApi();
+    if (isMockBaseUrl(cfg.baseURL) && mockBackend) cfg.adapter = mockBackend.mockAdapter;
+    return cfg;
+  });
+
+  http.interceptors.response.use(undefined, async (error) => {
+    if (error?.response?.data?.code === DEVICE_REVOKED && onDeviceRevoked) {
+      await onDeviceRevoked().catch(() => {});
+    }
+
+    const cfg = error?.config;
+    const retriable =
+      error?.response?.status === 401 &&
+      cfg &&
+      cfg.headers?.Authorization &&
+      !cfg._reauthRetried &&
+      onUnauthorized;
+    if (!retriable) throw error;
+
+    const fresh = await onUnauthorized!();
+    if (!fresh) throw error;
+
+    cfg._reauthRetried = true;
+    cfg.headers.Authorization = bearer(fresh);
+    return http.request(cfg);
+  });
+
+  const get = async <T>(path: string, params?: Record<string, any>) =>
+    (await http.get<T>(path, params ? { params } : undefined)).data;
+  const post = async <T = any>(path: string, body?: any, params?: Record<string, any>) =>
+    (await http.post<T>(path, body, params ? { params } : undefined)).data;
+  const put = async <T = any>(path: string, body: any) =>
+    (await http.put<T>(path, body)).data;
+  const patch = async <T = any>(path: string, body: any) =>
+    (await http.patch<T>(path, body)).data;
+  const del = async <T = any>(path: string) => (await http.delete<T>(path)).data;
+
+  // reader device sync calls are recorded in the sync log (services/syncLog)
+  const synced = <T>(
+    kind: SyncAttemptKind,
+    path: string,
+    body: object,
+    parse: (data: any) => T,
+    readings: (result: T) => number | null,
+  ) =>
+    trackSyncAttempt({ kind, endpoint: path, body }, () => http.post(path, body), parse, readings);
+
+  // optimistic concurrency: with the last_updated the form was opened with,
+  // the server answers 409 STALE_RECORD instead of overwriting a newer save
+  const guarded = (body: object, lastUpdated?: string | null) =>
+    lastUpdated ? { ...body, last_updated: lastUpdated } : body;
+
+  // reference lists a mutation changed are refreshed on their next read
+  const touching = <T>(keys: RefKey[], p: Promise<T>) =>
+    p.then((res) => {
+      invalidateReference(...keys);
+      return res;
+    });
+
+  // `route` is the templated path used to group drift reports (ids stripped).
+  const getList = async <T>(
+    schema: Schema,
+    path: string,
+    opts: { params?: Record<string, any>; envelopes?: string[]; route?: string } = {},
+  ) =>
+    parseList<T>(
+      schema,
+      await get<unknown>(path, opts.params),
+      opts.route ?? path,
+      opts.envelopes,
+    );
+
+  return {
+    /**
+     * Raw axios instance. Only for the few callers that still need the full
+     * response (status probes, counts); prefer the typed groups below.
+     */
+    http,
+
+    auth: {
+      login: (user_id: string, user_password: string) =>
+        post<{ token?: string; data?: { token?: string } }>("/auth/login", {
+          user_id,
+          user_password,
+        }),
+    },
+
+    buildings: {
+      list: () => getList<Building>(BuildingSchema, "/buildings"),
+      baseRates: async (buildingId: string) =>
+        parseEntity<BuildingBaseRates>(
+          BuildingBaseRatesSchema,
+          await get(`/buildings/${enc(buildingId)}/base-rates`),
+          "/buildings/:id/base-rates",
+        ),
+      create: (body: BuildingInput) => touching(["buildings"], post("/buildings", body)),
+      update: (buildingId: string, body: BuildingInput, lastUpdated?: string | null) =>
+        touching(
+          ["buildings"],
+          put(`/buildings/${enc(buildingId)}`, guarded(body, lastUpdated)),
+        ),
+      // stalls, tenants and meters may go with it
+      remove: (buildingId: string) => touching([], del(`/buildings/${enc(buildingId)}`)),
+    },
+
+    stalls: {
+      list: () => getList<Stall>(StallSchema, "/stalls"),
+      create: (body: StallInput) => touching(["stalls"], post("/stalls", body)),
+      update: (stallId: string, body: StallInput) =>
+        touching(["stalls"], put(`/stalls/${enc(stallId)}`, body)),
+      remove: (stallId: string) =>
+        touching(["stalls", "meters"], del(`/stalls/${enc(stallId)}`)),
+    },
+
+    tenants: {
+      list: (params?: { status?: string; building_id?: string; q?: string }) =>
+        getList<Tenant>(TenantSchema, "/tenants", { params }),
+      create: (body: TenantInput) => touching(["tenants"], post("/tenants", body)),
+      update: (tenantId: string, body: TenantInput, lastUpdated?: string | null) =>
+        touching(["tenants"], put(`/tenants/${enc(tenantId)}`, guarded(body, lastUpdated))),
+      remove: (tenantId: string) =>
+        touching(["tenants", "stalls"], del(`/tenants/${enc(tenantId)}`)),
+    },
+
+    meters: {
+      list: () => getList<Meter>(MeterSchema, "/meters"),
+      create: (body: MeterInput) => touching(["meters"], post("/meters", body)),
+      update: (meterId: string, body: Partial<MeterInput>) =>
+        touching(["meters"], put(`/meters/${enc(meterId)}`, body)),
+      remove: (meterId: string) => touching(["meters"], del(`/meters/${enc(meterId)}`)),
+    },
+
+    readings: {
+      /** Accepts both a bare array and the paged { items } shape. */
+      list: (base = READINGS_PATH) =>
+        getList<Reading>(ReadingSchema, base, { envelopes: ["items"] }),
+      today: () =>
+        getList<Pick<Reading, "meter_id" | "lastread_date">>(
+          TodayReadingSchema,
+          `${READINGS_PATH}/today`,
+          { envelopes: ["readings", "meter_readings"] },
+        ),
+      create: (body: ReadingInput, base = READINGS_PATH) => post(base, body),
+      update: (readingId: string, body: ReadingInput, base = READINGS_PATH) =>
+        put(`${base}/${enc(readingId)}`, body),
+      remove: (readingId: string, base = READINGS_PATH) =>
+        del(`${base}/${enc(readingId)}`),
+      /** Raw JPEG/PNG bytes of the reading photo. */
+      image: (
+        readingId: string,
+        base = READINGS_PATH,
+        config: AxiosRequestConfig = {},
+      ) =>
+        http.get<ArrayBuffer>(`${base}/${enc(readingId)}/image`, {
+          responseType: "arraybuffer",
+          headers: { Accept: "image/*" },
+          ...config,
+        }),
+    },
+
+    users: {
+      list: () => getList<UserRow>(UserSchema, "/users"),
+      create: (body: UserInput) => post("/users", body),
+      update: (userId: string, body: UserInput) =>
+        put(`/users/${enc(userId)}`, body),
+      remove: (userId: string) => del(`/users/${enc(userId)}`),
+    },
+
+    vat: {
+      list: () => getList<VatCode>(VatCodeSchema, "/vat"),
+      create: (body: VatInput) => post("/vat", body),
+      update: (taxId: string, body: VatInput) => put(`/vat/${enc(taxId)}`, body),
+      remove: (taxId: string) => del(`/vat/${enc(taxId)}`),
+    },
+
+    wt: {
+      list: () => getList<WtCode>(WtCodeSchema, "/wt"),
+      create: (body: WtInput) => post("/wt", body),
+      update: (wtId: string, body: WtInput) => put(`/wt/${enc(wtId)}`, body),
+      remove: (wtId: string) => del(`/wt/${enc(wtId)}`),
+    },
+
+    /** Change history of one record, newest first. */
+    audit: {
+      history: (entity: AuditEntity, id: string) =>
+        getList<AuditEntry>(AuditEntrySchema, `/audit/${entity}/${enc(id)}`, {
+          envelopes: ["history", "entries"],
+          route: `/audit/${entity}/:id`,
+        }),
+    },
+
+    readerDevices: {
+      list: () =>
+        getList<ReaderDevice>(ReaderDeviceSchema, "/reader-devices", {
+          envelopes: ["devices"],
+        }),
+      register: (body: { device_serial: string; device_name?: string }) =>
+        post("/reader-devices/register", body),
+      setStatus: (id: number, status: string) =>
+        patch(`/reader-devices/${id}`, { status }),
+      remove: (id: number) => del(`/reader-devices/${id}`),
+      /** READERS ONLY: exchanges the device serial for a device token. */
+      resolve: (body: { device_serial: string; device_name: string }) =>
+        synced<any>("resolve", "/reader-devices/resolve", body, (data) => data, () => null),
+    },
+
+    offlineExport: {
+      import: (deviceToken: string): Promise<OfflinePackage> =>
+        synced(
+          "import",
+          "/offlineExport/import",
+          { device_token: deviceToken },
+          (data) => parseOfflineImport(data),
+          (pkg) => pkg.items.length,
+        ),
+      /** What changed since `since` (a package's generated_at); see refreshOfflinePackage. */
+      importSince: (deviceToken: string, since: string): Promise<OfflinePackageDelta> =>
+        synced(
+          "refresh",
+          "/offlineExport/import",
+          { device_token: deviceToken, since },
+          (data) => parseOfflineImportDelta(data),
+          (delta) => delta.items.length,
+        ),
+      /** One batch; services/offlineSync offlineExport() splits and resumes. */
+      export: (
+        deviceToken: string,
+        readings: OfflineExportReading[],
+        batch?: OfflineExportBatch,
+      ): Promise<OfflineExportResult[]> =>
+        synced(
+          "export",
+          "/offlineExport/export",
+          { device_token: deviceToken, batch, readings },
+          (data) => parseExportResults(data, readings),
+          () => readings.length,
+        ),
+      /**
+       * ADMIN: a reader bundle carried in as a file. The server checks its
+       * signature against the device and queues the readings like an export.
+       */
+      uploadBundle: async (
+        file: ReaderBundleFile,
+        bundle: ReaderBundle,
+      ): Promise<OfflineExportResult[]> =>
+        parseExportResults(
+          await post("/offlineExport/bundle", { bundle: file }),
+          bundle.readings,
+          "/offlineExport/bundle",
+        ),
+      /** ADMIN: a package signed for one device, to be carried to it as a file. */
+      packageFile: async (deviceId: number): Promise<OfflinePackage> =>
+        parseOfflineImport(
+          await post("/offlineExport/package-file", { device_id: deviceId }),
+          "/offlineExport/package-file",
+        ),
+      pending: () =>
+        getList<OfflineSubmission>(OfflineSubmissionSchema, "/offlineExport/pending", {
+          envelopes: ["submissions"],
+        }),
+      /**
+       * Approving a submission whose reading was already approved under another
+       * submission links to that reading instead of creating a second one.
+       */
+      approve: (id: number) =>
+        post<{ reading_id?: string | number; duplicate_of?: number | null }>(
+          `/offlineExport/approve/${id}`,
+        ),
+      reject: (id: number) => post(`/offlineExport/reject/${id}`),
+    },
+
+    billings: {
+      /** billing lock headers; `path` is where the capability probe found them */
+      headers: async (path: string) => parseBillingHeaders(await get(path), path),
+      listStored: async () =>
+        parseRecord<StoredBilling>(
+          StoredBillingSchema,
+          await get("/billings/buildings"),
+          "/billings/buildings",
+        ),
+      getStored: async (buildingBillingId: string) =>
+        parseEntity<BuildingBillingResponse>(
+          BuildingBillingSchema,
+          await get(`/billings/buildings/${enc(buildingBillingId)}`),
+          "/billings/buildings/:id",
+        ),
+      create: async (
+        buildingId: string,
+        start: string,
+        end: string,
+        penaltyRate: number,
+      ) =>
+        parseEntity<BuildingBillingResponse>(
+          BuildingBillingSchema,
+          await post(
+            `/billings/buildings/${enc(buildingId)}${periodPath(start, end)}`,
+            {},
+            { penalty_rate: penaltyRate },
+          ),
+          "/billings/buildings/:id/period-start/:start/period-end/:end",
+        ),
+    },
+
+    /**
+     * Rate-of-change reports. `prefix` is the route prefix the server is
+     * mounted under ("" on current servers, "/api" or "/v1" on older ones).
+     */
+    roc: {
+      meter: (meterId: string, start: string, end: string, prefix = "") =>
+        get<RocMeter>(`${prefix}/roc/meters/${enc(meterId)}${periodPath(start, end)}`),
+      tenant: (tenantId: string, start: string, end: string, prefix = "") =>
+        get<RocTenant>(`${prefix}/roc/tenants/${enc(tenantId)}${periodPath(start, end)}`),
+      building: (buildingId: string, start: string, end: string, prefix = "") =>
+        get<RocBuilding>(
+          `${prefix}/roc/buildings/${enc(buildingId)}${periodPath(start, end)}`,
+        ),
+      monthly: (buildingId: string, start: string, end: string, prefix = "") =>
+        get<BuildingMonthlyTotals>(
+          `${prefix}/roc/buildings/${enc(buildingId)}${periodPath(start, end)}/monthly-comparison`,
+        ),
+      quarterly: (buildingId: string, start: string, end: string, prefix = "") =>
+        get<BuildingFourMonths>(
+          `${prefix}/roc/buildings/${enc(buildingId)}${periodPath(start, end)}/quarterly-comparison`,
+        ),
+      yearly: (buildingId: string, year: number, prefix = "") =>
+        get<BuildingYearly>(
+          `${prefix}/roc/buildings/${enc(buildingId)}/year/${enc(String(year))}/yearly-comparison`,
+        ),
+    },
+  };
+}
+
+export type Api = ReturnType<typeof createApi>;
@@ -0,0 +1,226 @@
+// services/apiError.ts
+// One error type for everything that goes wrong talking to the server.
+//
+// Screens used to flatten axios errors into alert strings, each in its own
+// way. toApiError() turns whatever was thrown into an ApiError carrying the
+// HTTP status, endpoint, server error code, per-field validation messages and
+// a message fit for a user; details() is the copyable report for support.
+// showError() hands an error to the toast host mounted at the app root.
+
+import { getActiveProfile } from "./serverProfiles";
+
+export class ApiError extends Error {
+  /** HTTP status, or null when the server never answered */
+  status: number | null;
+  method: string | null;
+  endpoint: string | null;
+  /** server error code (or the transport code, e.g. ECONNABORTED) */
+  code: string | null;
+  /** validation messages keyed by request field */
+  fieldErrors: Record<string, string>;
+  /** raw response body, for details() */
+  data: unknown;
+  at: string;
+
+  constructor(
+    message: string,
+    init: Partial<Pick<ApiError, "status" | "method" | "endpoint" | "code" | "fieldErrors" | "data">> = {},
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = init.status ?? null;
+    this.method = init.method ?? null;
+    this.endpoint = init.endpoint ?? null;
+    this.code = init.code ?? null;
+    this.fieldErrors = init.fieldErrors ?? {};
+    this.data = init.data;
+    this.at = new Date().toISOString();
+  }
+
+  get isNetwork() {
+    return this.status === null;
+  }
+
+  get hasFieldErrors() {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+
+  /** Plain-text report for "Copy details". */
+  details() {
+    let body = "";
+    if (this.data !== undefined && this.data !== null && this.data !== "") {
+      try {
+        body = typeof this.data === "string" ? this.data : JSON.stringify(this.data, null, 2);
+      } catch {
+        body = String(this.data);
+      }
+    }
+    return [
+      this.message,
+      "",
+      `Request: ${this.method ?? "?"} ${this.endpoint ?? "?"}`,
+      `Status: ${this.status ?? "no response"}`,
+      this.code ? `Code: ${this.code}` : null,
+      `Server: ${getActiveProfile().baseUrl}`,
+      `Time: ${this.at}`,
+      ...Object.entries(this.fieldErrors).map(([f, m]) => `Field ${f}: ${m}`),
+      body ? `\nResponse:\n${body.slice(0, 2000)}` : null,
+    ]
+      .filter((l) => l !== null)
+      .join("\n");
+  }
+}
+
+const STATUS_MESSAGES: Record<number, string> = {
+  400: "The server rejected the request. Please check the values and try again.",
+  401: "Your session has expired. Please sign in again.",
+  403: "Your account is not allowed to do this.",
+  404: "The record was not found. It may have been deleted.",
+  409: "This conflicts with existing data on the server.",
+  413: "The upload is too large for the server.",
+  422: "Some values are not valid. Please check the highlighted fields.",
+  429: "The server is busy. Please wait a moment and try again.",
+};
+
+const str = (v: unknown) =>
+  typeof v === "string" && v.trim() ? v.trim() : null;
+
+/**
+ * Field messages in the shapes our servers have used:
+ * `{ fields: { name: msg } }`, `{ errors: { name: msg | [msg] } }`,
+ * `{ errors: [{ field | path | param, message | msg }] }` and
+ * `{ field, error }`.
+ */
+function parseFieldErrors(d: any): Record<string, string> {
+  const out: Record<string, string> = {};
+  if (!d || typeof d !== "object") return out;
+
+  const fromMap = (m: any) => {
+    if (!m || typeof m !== "object" || Array.isArray(m)) return;
+    for (const [k, v] of Object.entries(m)) {
+      const msg = Array.isArray(v) ? str(v[0]) : str(v) ?? str((v as any)?.message);
+      if (msg) out[k] = msg;
+    }
+  };
+  fromMap(d.fields);
+  fromMap(d.errors);
+
+  if (Array.isArray(d.errors)) {
+    for (const e of d.errors) {
+      const path = Array.isArray(e?.path) ? e.path.join(".") : e?.path;
+      const key = str(e?.field) ?? str(path) ?? str(e?.param);
+      const msg = str(e?.message) ?? str(e?.msg);
+      if (key && msg) out[key] = msg;
+    }
+  }
+
+  const single = str(d.field);
+  if (single && !out[single]) out[single] = str(d.error) ?? str(d.message) ?? "Invalid value.";
+  return out;
+}
+
+/** Turn anything thrown by an API call into an ApiError (idempotent). */
+export function toApiError(e: unknown, fallback = "Something went wrong."): ApiError {
+  if (e instanceof ApiError) return e;
+  const err: any = e;
+  const res = err?.response;
+  const cfg = err?.config;
+
+  if (!res) {
+    const code = str(err?.code);
+    const timedOut = code === "ECONNABORTED" || code === "ETIMEDOUT";
+    const message = !cfg
+      ? str(err?.message) ?? fallback
+      : timedOut
+        ? "The server took too long to answer. Please try again."
+        : "Cannot reach the server. Check your connection and the server address.";
+    return new ApiError(message, {
+      method: cfg?.method ? String(cfg.method).toUpperCase() : null,
+      endpoint: cfg?.url ?? null,
+      code,
+      data: cfg ? err?.message : undefined,
+    });
+  }
+
+  const d = res.data;
+  const status: number = res.status;
+  const serverMsg =
+    str(d) && !/^\s*</.test(d) ? str(d) : str(d?.error) ?? str(d?.message) ?? str(d?.hint);
+  const fieldErrors = parseFieldErrors(d);
+
+  return new ApiError(
+    serverMsg ??
+      STATUS_MESSAGES[status] ??
+      (status >= 500 ? "The server had a problem. Please try again later." : fallback),
+    {
+      status,
+      method: cfg?.method ? String(cfg.method).toUpperCase() : null,
+      endpoint: cfg?.url ?? null,
+      code: str(d?.code) ?? str(d?.error_code) ?? null,
+      fieldErrors,
+      data: d,
+    },
+  );
+}
+
+/** The user-facing message for anything thrown. */
+export function errorText(e: unknown, fallback?: string) {
+  return toApiError(e, fallback).message;
+}
+
+/* ---------------- forms ---------------- */
+
+export type FieldErrors = Record<string, string>;
+
+/**
+ * Report a failed form submit: validation messages for fields the form has an
+ * input for go to `setFieldErrors`, anything else (or no field errors at all)
+ * goes to the error toast.
+ */
+export function reportFormError(
+  title: string,
+  e: unknown,
+  fields: readonly string[],
+  setFieldErrors: (errors: FieldErrors) => void,
+) {
+  const error = toApiError(e);
+  const all = Object.keys(error.fieldErrors);
+  const onForm = all.filter((f) => fields.includes(f));
+  setFieldErrors(Object.fromEntries(onForm.map((f) => [f, error.fieldErrors[f]])));
+  if (onForm.length < all.length || !all.length) showError(title, error);
+  return error;
+}
+
+/* ---------------- toast reporting ---------------- */
+
+export type ReportedError = { id: number; title: string; error: ApiError };
+
+let nextId = 1;
+let current: ReportedError | null = null;
+const listeners = new Set<() => void>();
+
+export function subscribeErrors(fn: () => void) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+export function getReportedError() {
+  return current;
+}
+
+/** Show `e` in the error toast under `title` (replaces the one on screen). */
+export function showError(title: string, e: unknown, fallback?: string) {
+  const error = toApiError(e, fallback);
+  current = { id: nextId++, title, error };
+  console.warn(`${title}: ${error.message}`, error.status ?? "", error.endpoint ?? "");
+  listeners.forEach((fn) => fn());
+  return error;
+}
+
+export function dismissError(id?: number) {
+  if (!current || (id !== undefined && current.id !== id)) return;
+  current = null;
+  listeners.forEach((fn) => fn());
+}
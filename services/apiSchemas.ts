@@ -0,0 +1,328 @@
+// services/apiSchemas.ts
+// Declared shapes of the server responses used by services/api.ts.
+//
+// Numeric columns are declared as number|string because Postgres NUMERIC
+// values arrive as strings; the screens already convert them with Number().
+
+import type { BillingHeader } from "./api";
+import {
+  FieldSpec,
+  SchemaError,
+  defineSchema,
+  parseList,
+  recordDrift,
+} from "./schema";
+
+const str: FieldSpec = { kind: "string" };
+const optStr: FieldSpec = { kind: "string", optional: true, nullable: true };
+const nullableStr: FieldSpec = { kind: "string", nullable: true };
+const numeric: FieldSpec = { kind: ["number", "string"] };
+const optNumeric: FieldSpec = {
+  kind: ["number", "string"],
+  optional: true,
+  nullable: true,
+};
+const nullableNumeric: FieldSpec = { kind: ["number", "string"], nullable: true };
+
+const audit = { last_updated: optStr, updated_by: optStr };
+
+/* ---------------- reference data ---------------- */
+
+export const BuildingSchema = defineSchema("Building", {
+  building_id: { ...str, critical: true },
+  building_name: str,
+  erate_perKwH: optNumeric,
+  emin_con: optNumeric,
+  wrate_perCbM: optNumeric,
+  wmin_con: optNumeric,
+  lrate_perKg: optNumeric,
+  markup_rate: optNumeric,
+  penalty_rate: optNumeric,
+  ...audit,
+});
+
+export const BuildingBaseRatesSchema = defineSchema("BuildingBaseRates", {
+  building_id: str,
+  erate_perKwH: nullableNumeric,
+  emin_con: nullableNumeric,
+  wrate_perCbM: nullableNumeric,
+  wmin_con: nullableNumeric,
+  lrate_perKg: nullableNumeric,
+  ...audit,
+});
+
+export const StallSchema = defineSchema("Stall", {
+  stall_id: { ...str, critical: true },
+  stall_sn: str,
+  building_id: str,
+  tenant_id: nullableStr,
+  stall_status: str,
+  ...audit,
+});
+
+export const TenantSchema = defineSchema("Tenant", {
+  tenant_id: { ...str, critical: true },
+  tenant_sn: nullableStr,
+  tenant_name: str,
+  building_id: str,
+  tenant_status: str,
+  vat_code: nullableStr,
+  wt_code: nullableStr,
+  for_penalty: { kind: "boolean" },
+  ...audit,
+});
+
+export const MeterSchema = defineSchema("Meter", {
+  meter_id: { ...str, critical: true },
+  meter_type: str,
+  meter_sn: str,
+  meter_mult: numeric,
+  stall_id: str,
+  meter_status: str,
+  building_id: optStr,
+  ...audit,
+});
+
+export const ReadingSchema = defineSchema("Reading", {
+  reading_id: { ...str, critical: true },
+  meter_id: { ...str, critical: true },
+  reading_value: { ...numeric, critical: true },
+  read_by: str,
+  lastread_date: str,
+  last_updated: str,
+  updated_by: str,
+  remarks: optStr,
+  override_reason: optStr,
+  override_flags: { kind: "array", optional: true, nullable: true },
+});
+
+/** Rows of /meter_reading/today; only used to tick off meters read today. */
+export const TodayReadingSchema = defineSchema("TodayReading", {
+  meter_id: { ...str, critical: true, aliases: ["meterId"] },
+  lastread_date: { ...optStr, aliases: ["reading_date"] },
+});
+
+export const UserSchema = defineSchema("User", {
+  user_id: { ...str, critical: true },
+  user_fullname: str,
+  user_roles: { kind: "array" },
+  building_ids: { kind: "array" },
+  utility_role: { kind: "array" },
+  access_modules: { kind: "array", optional: true },
+  ...audit,
+});
+
+export const VatCodeSchema = defineSchema("VatCode", {
+  tax_id: { ...str, critical: true },
+  vat_code: str,
+  vat_description: nullableStr,
+  e_vat: nullableNumeric,
+  w_vat: nullableNumeric,
+  l_vat: nullableNumeric,
+  ...audit,
+});
+
+export const WtCodeSchema = defineSchema("WtCode", {
+  wt_id: { ...str, critical: true },
+  wt_code: str,
+  wt_description: str,
+  e_wt: nullableNumeric,
+  w_wt: nullableNumeric,
+  l_wt: nullableNumeric,
+  ...audit,
+});
+
+/* ---------------- change history ---------------- */
+
+const auditChangeSchema = defineSchema("AuditChange", {
+  field: str,
+  before: { kind: "any", optional: true, nullable: true },
+  after: { kind: "any", optional: true, nullable: true },
+});
+
+export const AuditEntrySchema = defineSchema("AuditEntry", {
+  audit_id: { kind: ["number", "string"], critical: true },
+  entity: str,
+  entity_id: str,
+  action: str,
+  changed_at: { ...str, aliases: ["last_updated", "created_at"] },
+  changed_by: { ...nullableStr, aliases: ["updated_by", "user_id"] },
+  changes: { kind: "array", items: auditChangeSchema },
+});
+
+/* ---------------- reader devices / offline ---------------- */
+
+export const ReaderDeviceSchema = defineSchema("ReaderDevice", {
+  id: { kind: "number", critical: true },
+  device_serial: str,
+  device_name: nullableStr,
+  device_token: str,
+  status: str,
+  last_seen_at: optStr,
+  created_at: optStr,
+});
+
+export const OfflineSubmissionSchema = defineSchema("OfflineSubmission", {
+  id: { kind: "number", critical: true },
+  device_id: { kind: "number", optional: true, nullable: true },
+  device_serial: optStr,
+  device_name: optStr,
+  reader_user_id: str,
+  meter_id: { ...str, critical: true },
+  reading_value: { ...numeric, critical: true },
+  reading_date: str,
+  remarks: optStr,
+  override_reason: optStr,
+  override_flags: { kind: "array", optional: true, nullable: true },
+  image_base64: optStr,
+  submitted_at: str,
+  status: str,
+  approved_by: optStr,
+  approved_at: optStr,
+  client_reading_id: { ...optStr, aliases: ["client_id", "client_uuid"] },
+  duplicate_of: { kind: "number", optional: true, nullable: true },
+});
+
+/* ---------------- billing ---------------- */
+
+const periodSchema = defineSchema("Period", {
+  start: { ...str, critical: true },
+  end: { ...str, critical: true },
+});
+
+const billingTotalsSchema = defineSchema("BillingTotals", {
+  total_consumed_kwh: { ...numeric, critical: true },
+  total_amount: { ...numeric, critical: true },
+});
+
+export const BillingRowSchema = defineSchema("BillingRow", {
+  meter_id: { ...str, critical: true },
+  meter_no: nullableStr,
+  stall_no: nullableStr,
+  tenant_id: nullableStr,
+  tenant_name: nullableStr,
+  mult: numeric,
+  reading_previous: numeric,
+  reading_present: numeric,
+  consumed_kwh: { ...numeric, critical: true },
+  prev_consumed_kwh: nullableNumeric,
+  rate_of_change_pct: nullableNumeric,
+  utility_rate: nullableNumeric,
+  markup_rate: nullableNumeric,
+  system_rate: nullableNumeric,
+  vat_rate: nullableNumeric,
+  whtax_code: nullableStr,
+  tax_code: nullableStr,
+  for_penalty: { kind: "boolean" },
+  total_amount: { ...numeric, critical: true },
+  meter_type: nullableStr,
+  reading_override: optStr,
+});
+
+const billingTenantSchema = defineSchema("BillingTenant", {
+  tenant_id: nullableStr,
+  tenant_sn: nullableStr,
+  tenant_name: nullableStr,
+  rows: { kind: "array", items: BillingRowSchema, critical: true },
+});
+
+export const BuildingBillingSchema = defineSchema("BuildingBilling", {
+  building_billing_id: { kind: "string", optional: true },
+  building_id: { ...str, critical: true },
+  building_name: nullableStr,
+  period: { kind: "object", shape: periodSchema, critical: true },
+  tenants: { kind: "array", items: billingTenantSchema, critical: true },
+  totals: { kind: "object", shape: billingTotalsSchema, critical: true },
+  generated_at: nullableStr,
+  penalty_rate_pct: { ...numeric, optional: true },
+});
+
+export const StoredBillingSchema = defineSchema("StoredBilling", {
+  building_billing_id: { ...str, critical: true },
+  building_id: str,
+  building_name: nullableStr,
+  period: { kind: "object", shape: periodSchema, critical: true },
+  totals: { kind: "object", shape: billingTotalsSchema, critical: true },
+  penalty_rate_pct: { ...numeric, optional: true },
+  generated_at: nullableStr,
+});
+
+/** Lock state of a billed period, used to stop edits to billed readings. */
+export const BillingHeaderSchema = defineSchema("BillingHeader", {
+  building_id: str,
+  period: {
+    kind: "object",
+    shape: defineSchema("Period", { start: str, end: str }),
+    derive: (raw) =>
+      raw.period_start !== undefined || raw.period_end !== undefined
+        ? { start: raw.period_start, end: raw.period_end }
+        : undefined,
+  },
+  status: {
+    kind: "string",
+    optional: true,
+    aliases: ["lock_status"],
+    derive: (raw) =>
+      raw.is_locked !== undefined ? String(raw.is_locked) : undefined,
+  },
+});
+
+/**
+ * Billing headers come either as a list or, from /billings/buildings, as an
+ * object keyed by building_billing_id. Both are declared shapes.
+ */
+export function parseBillingHeaders(raw: unknown, endpoint: string): BillingHeader[] {
+  const rows =
+    raw && typeof raw === "object" && !Array.isArray(raw)
+      ? Object.values(raw as Record<string, unknown>)
+      : raw;
+  try {
+    return parseList<BillingHeader>(BillingHeaderSchema, rows, endpoint);
+  } catch (e) {
+    // unreadable headers only mean we cannot tell whether a period is locked
+    if (e instanceof SchemaError) return [];
+    throw e;
+  }
+}
+
+/* ---------------- dashboard counts ---------------- */
+
+/**
+ * Count endpoints should return a list, or `{ count }`. Older servers wrapped
+ * the list in rows/data/items/result or a key named after the resource; those
+ * still count, but are reported as drift.
+ */
+export function countFromResponse(raw: any, endpoint: string): number {
+  if (Array.isArray(raw)) return raw.length;
+  if (typeof raw?.count === "number" && Number.isFinite(raw.count)) return raw.count;
+
+  const seg =
+    String(endpoint || "").split("?")[0].split("/").filter(Boolean).pop() || "";
+  const key = seg.toLowerCase();
+  const candidates = ["rows", "data", "items", "result", key];
+  if (key === "readings") candidates.push("meter_readings", "readings");
+
+  for (const k of candidates) {
+    if (Array.isArray(raw?.[k])) {
+      recordDrift({
+        schema: "Count",
+        endpoint,
+        field: "(root)",
+        problem: "wrong_shape",
+        detail: `expected a list or { count }, found the list under "${k}"`,
+        critical: false,
+      });
+      return raw[k].length;
+    }
+  }
+
+  recordDrift({
+    schema: "Count",
+    endpoint,
+    field: "(root)",
+    problem: "wrong_shape",
+    detail: "expected a list or { count }; showing 0",
+    critical: false,
+  });
+  return 0;
+}
@@ -0,0 +1,331 @@
+// services/codeResolver.ts
+// Turning a scanned label into a meter_id.
+//
+// Labels in the field carry different things: the current MTR-… QR codes,
+// older labels printed with the meter serial (meter_sn), 1D barcodes of
+// either, stall codes, and QR codes with a structured payload (JSON such as
+// {"meter_id": …, "building_id": …}, a URL with a query string, or
+// key=value pairs). A scan is first parsed into the fields it names
+// (parseScannedCode) and then handed to each resolver in turn until one
+// names the meter: the offline package first, then the MTR- id itself, then
+// the server's meter and stall lists (a cached copy works offline).
+// registerCodeResolver() puts more resolvers, e.g. a building's own label
+// scheme, ahead of these.
+
+import type { BarcodeType } from "expo-camera";
+import type { Api, Meter, Stall } from "./api";
+import type { OfflinePackageItem } from "./offlineSync";
+import { readReference } from "./refCache";
+
+const METER_ID_PATTERN = /^MTR-[A-Za-z0-9-]+$/i;
+
+/** Codes the camera looks for: QR plus the 1D barcodes older labels use. */
+export const LABEL_FORMATS: BarcodeType[] = [
+  "qr",
+  "code128",
+  "code39",
+  "code93",
+  "ean13",
+  "ean8",
+  "upc_a",
+  "upc_e",
+  "itf14",
+  "codabar",
+  "datamatrix",
+];
+
+/** What a scanned label says, field by field. */
+export type ScannedCode = {
+  raw: string;
+  /** barcode symbology as reported by the camera ("qr", "code128", …) */
+  format?: string | null;
+  meter_id?: string;
+  meter_sn?: string;
+  /** stall_id or stall_sn */
+  stall?: string;
+  building_id?: string;
+  /** the label's text when it is not a structured payload */
+  text?: string;
+};
+
+export type ResolverContext = {
+  /** items of the offline package; empty when none is imported */
+  items: OfflinePackageItem[];
+  /** set when the server lists may be asked */
+  api?: Api | null;
+};
+
+/**
+ * A resolver returns the meter_ids a code may stand for: none (or null) when
+ * it cannot tell, several when the label is shared (e.g. a stall code).
+ */
+export type CodeResolver = {
+  name: string;
+  resolve: (
+    code: ScannedCode,
+    ctx: ResolverContext,
+  ) => string[] | null | Promise<string[] | null>;
+};
+
+export type CodeResolution =
+  | { status: "resolved"; meter_id: string; via: string }
+  | { status: "ambiguous"; candidates: string[]; via: string }
+  | { status: "unknown"; code: ScannedCode };
+
+/* ---------------- parsing ---------------- */
+
+type CodeField = Exclude<keyof ScannedCode, "raw" | "format">;
+
+const FIELD_NAMES: Record<string, CodeField> = {
+  meter_id: "meter_id",
+  meterid: "meter_id",
+  meter: "meter_id",
+  meter_sn: "meter_sn",
+  metersn: "meter_sn",
+  serial: "meter_sn",
+  sn: "meter_sn",
+  stall_id: "stall",
+  stallid: "stall",
+  stall_sn: "stall",
+  stallsn: "stall",
+  stall: "stall",
+  building_id: "building_id",
+  buildingid: "building_id",
+  building: "building_id",
+};
+
+function assignFields(out: ScannedCode, fields: Record<string, unknown>) {
+  const target: Partial<Record<CodeField, string>> = out;
+  for (const [key, value] of Object.entries(fields)) {
+    const name = FIELD_NAMES[key.trim().toLowerCase().replace(/-/g, "_")];
+    const v = value == null ? "" : String(value).trim();
+    if (name && v && target[name] === undefined) target[name] = v;
+  }
+}
+
+function queryFields(s: string): Record<string, string> | null {
+  const q = s.includes("?") ? s.slice(s.indexOf("?") + 1) : s;
+  if (!q.includes("=")) return null;
+  const fields: Record<string, string> = {};
+  for (const pair of q.split(/[&;]/)) {
+    const i = pair.indexOf("=");
+    if (i <= 0) continue;
+    try {
+      fields[decodeURIComponent(pair.slice(0, i))] = decodeURIComponent(pair.slice(i + 1));
+    } catch {
+      fields[pair.slice(0, i)] = pair.slice(i + 1);
+    }
+  }
+  return Object.keys(fields).length ? fields : null;
+}
+
+export function parseScannedCode(raw: string, format?: string | null): ScannedCode {
+  const s = String(raw ?? "").trim();
+  const out: ScannedCode = { raw: s, format: format ?? null };
+  if (!s) return out;
+
+  if (s.startsWith("{")) {
+    try {
+      const data = JSON.parse(s);
+      if (data && typeof data === "object") assignFields(out, data);
+    } catch {}
+  } else {
+    const fields = queryFields(s);
+    if (fields) assignFields(out, fields);
+  }
+
+  const structured = !!(out.meter_id || out.meter_sn || out.stall || out.building_id);
+  if (!structured) {
+    out.text = s;
+    if (METER_ID_PATTERN.test(s)) out.meter_id = s;
+  }
+  return out;
+}
+
+/* ---------------- resolvers ---------------- */
+
+const same = (a: unknown, b: unknown) =>
+  a != null && b != null && String(a).trim().toUpperCase() === String(b).trim().toUpperCase();
+
+const packageResolver: CodeResolver = {
+  name: "offline package",
+  resolve: (code, { items }) => {
+    const inBuilding = items.filter(
+      (it) => !code.building_id || !it.building_id || same(it.building_id, code.building_id),
+    );
+    const pick = (fn: (it: OfflinePackageItem) => boolean) =>
+      inBuilding.filter(fn).map((it) => it.meter_id);
+
+    if (code.meter_id) return pick((it) => same(it.meter_id, code.meter_id));
+    if (code.meter_sn) return pick((it) => same(it.meter_number, code.meter_sn));
+    if (code.stall) {
+      return pick((it) => same(it.stall_id, code.stall) || same(it.stall_sn, code.stall));
+    }
+    const t = code.text;
+    return pick(
+      (it) =>
+        same(it.qr, t) ||
+        same(it.meter_id, t) ||
+        same(it.meter_number, t) ||
+        same(it.stall_id, t) ||
+        same(it.stall_sn, t),
+    );
+  },
+};
+
+// what the app always accepted: the label is the meter id
+const meterIdResolver: CodeResolver = {
+  name: "meter id",
+  resolve: (code) =>
+    code.meter_id && METER_ID_PATTERN.test(code.meter_id) ? [code.meter_id.toUpperCase()] : null,
+};
+
+const serverResolver: CodeResolver = {
+  name: "server",
+  resolve: async (code, { api }) => {
+    if (!api) return null;
+    const meters = (await readReference(api, "meters")).filter(
+      (m) => m.meter_status !== "inactive",
+    );
+    const needStalls = !!(code.stall || code.building_id || code.text);
+    const stalls = needStalls ? await readReference(api, "stalls") : [];
+    const stallOf = (stallId: string) => stalls.find((s) => s.stall_id === stallId);
+    const inBuilding = meters.filter(
+      (m) =>
+        !code.building_id ||
+        same(m.building_id ?? stallOf(m.stall_id)?.building_id, code.building_id),
+    );
+    const atStall = (label: string) =>
+      inBuilding.filter(
+        (m) => same(m.stall_id, label) || same(stallOf(m.stall_id)?.stall_sn, label),
+      );
+
+    if (code.meter_id) {
+      return inBuilding.filter((m) => same(m.meter_id, code.meter_id)).map((m) => m.meter_id);
+    }
+    if (code.meter_sn) {
+      return inBuilding.filter((m) => same(m.meter_sn, code.meter_sn)).map((m) => m.meter_id);
+    }
+    if (code.stall) return atStall(code.stall).map((m) => m.meter_id);
+    const bySerial = inBuilding.filter((m) => same(m.meter_sn, code.text));
+    return (bySerial.length ? bySerial : atStall(code.text ?? "")).map((m) => m.meter_id);
+  },
+};
+
+const DEFAULT_RESOLVERS: CodeResolver[] = [packageResolver, meterIdResolver, serverResolver];
+const extraResolvers: CodeResolver[] = [];
+
+/** Add a resolver that is asked before the built-in ones. */
+export function registerCodeResolver(resolver: CodeResolver) {
+  extraResolvers.push(resolver);
+  return () => {
+    const i = extraResolvers.indexOf(resolver);
+    if (i >= 0) extraResolvers.splice(i, 1);
+  };
+}
+
+export async function resolveScannedCode(
+  code: ScannedCode,
+  ctx: ResolverContext,
+): Promise<CodeResolution> {
+  if (!code.raw) return { status: "unknown", code };
+  for (const resolver of [...extraResolvers, ...DEFAULT_RESOLVERS]) {
+    let ids: string[] | null;
+    try {
+      ids = await resolver.resolve(code, ctx);
+    } catch {
+      // a resolver that fails (e.g. the server lists while offline without
+      // a cached copy) matches nothing; the next one is asked
+      continue;
+    }
+    const unique = Array.from(new Set(ids ?? []));
+    if (unique.length === 1) {
+      return { status: "resolved", meter_id: unique[0], via: resolver.name };
+    }
+    if (unique.length > 1) {
+      return { status: "ambiguous", candidates: unique, via: resolver.name };
+    }
+  }
+  return { status: "unknown", code };
+}
+
+/* ---------------- manual search ---------------- */
+
+export type MeterMatch = {
+  meter_id: string;
+  /** tenant, stall and serial, for the result list */
+  detail: string;
+};
+
+const itemMatch = (it: OfflinePackageItem): MeterMatch => ({
+  meter_id: it.meter_id,
+  detail: [it.tenant_name, it.stall_sn || it.stall_id, it.meter_number && `SN ${it.meter_number}`]
+    .filter(Boolean)
+    .join(" · "),
+});
+
+const meterMatch = (m: Meter, stall?: Stall): MeterMatch => ({
+  meter_id: m.meter_id,
+  detail: [stall?.stall_sn || m.stall_id, m.meter_sn && `SN ${m.meter_sn}`]
+    .filter(Boolean)
+    .join(" · "),
+});
+
+/** The meters of an ambiguous scan, described for the reader to choose from. */
+export async function describeMeters(ids: string[], ctx: ResolverContext): Promise<MeterMatch[]> {
+  let meters: Meter[] = [];
+  let stalls: Stall[] = [];
+  if (ctx.api && ids.some((id) => !ctx.items.some((it) => it.meter_id === id))) {
+    try {
+      [meters, stalls] = await Promise.all([
+        readReference(ctx.api, "meters"),
+        readReference(ctx.api, "stalls"),
+      ]);
+    } catch {}
+  }
+  return ids.map((id) => {
+    const it = ctx.items.find((x) => x.meter_id === id);
+    if (it) return itemMatch(it);
+    const m = meters.find((x) => x.meter_id === id);
+    return m
+      ? meterMatch(m, stalls.find((s) => s.stall_id === m.stall_id))
+      : { meter_id: id, detail: "" };
+  });
+}
+
+/**
+ * Meters matching what the reader typed (meter id, serial, stall or
+ * tenant), for when a label cannot be resolved. Package items come first;
+ * the server lists fill in when `ctx.api` is set.
+ */
+export async function searchMeters(
+  query: string,
+  ctx: ResolverContext,
+  limit = 30,
+): Promise<MeterMatch[]> {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+  const hit = (...vals: unknown[]) => vals.some((v) => String(v ?? "").toLowerCase().includes(q));
+
+  const out = new Map<string, MeterMatch>();
+  for (const it of ctx.items) {
+    if (!hit(it.meter_id, it.meter_number, it.stall_id, it.stall_sn, it.tenant_name)) continue;
+    out.set(it.meter_id, itemMatch(it));
+  }
+
+  if (ctx.api && out.size < limit) {
+    try {
+      const [meters, stalls] = await Promise.all([
+        readReference(ctx.api, "meters"),
+        readReference(ctx.api, "stalls"),
+      ]);
+      for (const m of meters) {
+        if (out.has(m.meter_id)) continue;
+        const stall = stalls.find((s) => s.stall_id === m.stall_id);
+        if (!hit(m.meter_id, m.meter_sn, m.stall_id, stall?.stall_sn)) continue;
+        out.set(m.meter_id, meterMatch(m, stall));
+      }
+    } catch {}
+  }
+  return Array.from(out.values()).slice(0, limit);
+}
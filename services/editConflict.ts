@@ -0,0 +1,103 @@
+// services/editConflict.ts
+// Optimistic concurrency for admin edit forms.
+//
+// An edit form sends back the last_updated of the record it was opened with.
+// If someone saved the record in between, the server answers 409
+// STALE_RECORD (with its current copy) instead of silently overwriting that
+// save. The form then shows a three-way compare: the record as it was opened,
+// the other save and this user's edit, and resends either a field-by-field
+// merge or the user's own values on top of the newer record.
+
+import { toApiError } from "./apiError";
+
+export const STALE_RECORD = "STALE_RECORD";
+
+export type EditConflict<T, B extends object = Partial<T>> = {
+  /** the record as the form was opened with it */
+  original: T;
+  /** the body this user tried to save */
+  mine: B;
+  /** the record as it is on the server now */
+  theirs: T;
+};
+
+export type ConflictSide = "mine" | "theirs";
+
+export type ConflictField = {
+  field: string;
+  original: unknown;
+  mine: unknown;
+  theirs: unknown;
+  /** both sides changed the field, to different values */
+  clash: boolean;
+  /** the side kept unless the user picks otherwise */
+  pick: ConflictSide;
+};
+
+/** Whether a failed save was rejected because the record changed meanwhile. */
+export function isStaleWrite(e: unknown) {
+  const err = toApiError(e);
+  const current = (err.data as any)?.current;
+  return (
+    err.status === 409 &&
+    (err.code === STALE_RECORD || (!!current && typeof current === "object"))
+  );
+}
+
+/**
+ * The conflict behind a failed save, or null if `e` is some other error. The
+ * server's copy comes from the 409 body; servers that do not send it are
+ * asked again with `reload()`.
+ */
+export async function staleConflict<T, B extends object>(
+  e: unknown,
+  original: T,
+  mine: B,
+  reload: () => Promise<T | null | undefined>,
+): Promise<EditConflict<T, B> | null> {
+  if (!isStaleWrite(e)) return null;
+  const sent = (toApiError(e).data as any)?.current;
+  const theirs =
+    sent && typeof sent === "object" ? (sent as T) : await reload().catch(() => null);
+  return theirs ? { original, mine, theirs } : null;
+}
+
+const same = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * The fields of the edit that either side changed. A field only one side
+ * touched keeps that side's value; on a clash the user's value is the default.
+ */
+export function conflictFields<T, B extends object>(c: EditConflict<T, B>): ConflictField[] {
+  const o = c.original as any;
+  const m = c.mine as any;
+  const t = c.theirs as any;
+  return Object.keys(m).flatMap((field) => {
+    const mineChanged = !same(o[field], m[field]);
+    const theirsChanged = !same(o[field], t[field]);
+    if (!mineChanged && !theirsChanged) return [];
+    return [
+      {
+        field,
+        original: o[field],
+        mine: m[field],
+        theirs: t[field],
+        clash: mineChanged && theirsChanged && !same(m[field], t[field]),
+        pick: mineChanged ? "mine" : "theirs",
+      } as ConflictField,
+    ];
+  });
+}
+
+/** The body to resend: the user's edit with the fields picked as "theirs" taken from the server. */
+export function mergeConflict<T, B extends object>(
+  c: EditConflict<T, B>,
+  picks: Record<string, ConflictSide>,
+): B {
+  const out: any = { ...c.mine };
+  for (const [field, side] of Object.entries(picks)) {
+    if (side === "theirs") out[field] = (c.theirs as any)[field];
+  }
+  return out;
+}
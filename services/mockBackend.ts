@@ -0,0 +1,1248 @@
+// services/mockBackend.ts
+// In-process stand-in for the API server, for development and demos.
+//
+// Only loaded in development builds (see services/mockServer.ts). Selecting
+// the "Local mock server" profile (Login → Device Settings) points
+// createApi() at MOCK_BASE_URL; requests to it never leave the device and are
+// answered by the routes below from seedable fixture data (mockFixtures.ts).
+// Data lives in memory: it survives switching screens and re-logins, and is
+// rebuilt from the seed when the app restarts or resetMockBackend() is called.
+//
+// Fixture accounts: admin, operator1, biller1 and reader1, all with the
+// password "mock". Reader device serial: MOCK-0001.
+
+import {
+  AxiosError,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import type {
+  AuditChange,
+  BillingRow,
+  BillingTenant,
+  BuildingBillingResponse,
+  Meter,
+  OfflineExportReading,
+  OfflineSubmission,
+  ReaderDevice,
+  RocMeter,
+  RocMonthBucket,
+  RocTotals,
+  UtilityTotals,
+} from "./api";
+import {
+  DEFAULT_MOCK_SEED,
+  MockDb,
+  MockReading,
+  MockUser,
+  buildFixtures,
+  ymd,
+} from "./mockFixtures";
+import type { OfflinePackageItem } from "./offlineSync";
+import { signPackage } from "./packageIntegrity";
+import { sha256, toHex, utf8Encode } from "./sha256";
+import { bundleSignatureValid, parseTransferFile } from "./transferBundle";
+import { DEVICE_REVOKED } from "./vault";
+import { MOCK_API_VERSION, MOCK_BASE_URL } from "../constants/api";
+
+export { MOCK_PASSWORD } from "./mockFixtures";
+
+/** Pretend network latency, so spinners and races still show up. */
+const LATENCY_MS = 120;
+
+let db: MockDb = buildFixtures(DEFAULT_MOCK_SEED);
+
+/** Rebuild the fixture data, optionally from a different seed. */
+export function resetMockBackend(seed = DEFAULT_MOCK_SEED) {
+  db = buildFixtures(seed);
+}
+
+export function getMockSeed() {
+  return db.seed;
+}
+
+/* ---------------- plumbing ---------------- */
+
+class HttpError extends Error {
+  status: number;
+  body: any;
+
+  constructor(status: number, message: string, extra: Record<string, any> = {}) {
+    super(message);
+    this.status = status;
+    this.body = { error: message, ...extra };
+  }
+}
+
+type Req = {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: Record<string, any>;
+  body: any;
+  user: MockUser | null;
+};
+
+type Handler = (req: Req) => any;
+
+type Route = {
+  method: string;
+  keys: string[];
+  re: RegExp;
+  handler: Handler;
+  public?: boolean;
+};
+
+const routes: Route[] = [];
+
+function route(method: string, pattern: string, handler: Handler, isPublic = false) {
+  const keys: string[] = [];
+  const re = new RegExp(
+    "^" +
+      pattern.replace(/:(\w+)/g, (_, k) => {
+        keys.push(k);
+        return "([^/]+)";
+      }) +
+      "/?$",
+  );
+  routes.push({ method, keys, re, handler, public: isPublic });
+}
+
+const b64encode = (s: string) =>
+  typeof btoa === "function"
+    ? btoa(unescape(encodeURIComponent(s)))
+    : Buffer.from(s, "utf8").toString("base64");
+
+const b64decode = (s: string) =>
+  typeof atob === "function"
+    ? decodeURIComponent(escape(atob(s)))
+    : Buffer.from(s, "base64").toString("utf8");
+
+const b64url = (s: string) =>
+  b64encode(s).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+/** Unsigned JWT in the same shape the real server issues. */
+function issueToken(u: MockUser) {
+  const iat = Math.floor(Date.now() / 1000);
+  const header = b64url(JSON.stringify({ alg: "none", typ: "JWT" }));
+  const payload = b64url(
+    JSON.stringify({
+      user_id: u.user_id,
+      user_fullname: u.user_fullname,
+      user_roles: u.user_roles,
+      building_ids: u.building_ids,
+      utility_role: u.utility_role,
+      access_modules: u.access_modules ?? [],
+      iat,
+      exp: iat + 8 * 60 * 60,
+    }),
+  );
+  return `${header}.${payload}.mock`;
+}
+
+function userFromAuth(header: unknown): MockUser | null {
+  const m = /^Bearer\s+(.+)$/i.exec(String(header ?? ""));
+  if (!m) return null;
+  try {
+    const part = m[1].split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    const p = JSON.parse(b64decode(part + "=".repeat((4 - (part.length % 4)) % 4)));
+    if (typeof p.exp === "number" && p.exp * 1000 < Date.now()) return null;
+    return db.users.find((u) => u.user_id === p.user_id) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+const pad = (n: number, w = 3) => String(n).padStart(w, "0");
+const nextId = (table: string, prefix: string, width = 3) =>
+  `${prefix}-${pad(++db.seq[table], width)}`;
+const stamp = (req: Req) => ({
+  last_updated: new Date().toISOString(),
+  updated_by: req.user?.user_id ?? "mock",
+});
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const num = (v: unknown) => {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+};
+
+function findOr404<T>(rows: T[], pred: (r: T) => boolean, what: string): T {
+  const row = rows.find(pred);
+  if (!row) throw new HttpError(404, `${what} not found.`);
+  return row;
+}
+
+/* ---------------- change history ---------------- */
+
+const UNAUDITED = new Set(["last_updated", "updated_by"]);
+
+function audit(
+  req: Req,
+  entity: TableKey,
+  entity_id: string,
+  action: "create" | "update" | "delete",
+  before: any,
+  after: any,
+) {
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: AuditChange[] = [];
+  for (const field of keys) {
+    if (UNAUDITED.has(field)) continue;
+    const b = before?.[field] ?? null;
+    const a = after?.[field] ?? null;
+    if (JSON.stringify(b) === JSON.stringify(a)) continue;
+    // record that a password changed, never what it was
+    const hide = field === "user_password";
+    changes.push({ field, before: hide && b ? "••••" : b, after: hide && a ? "••••" : a });
+  }
+  if (action === "update" && !changes.length) return;
+  db.audit.push({
+    audit_id: ++db.seq.audit,
+    entity,
+    entity_id,
+    action,
+    changed_at: new Date().toISOString(),
+    changed_by: req.user?.user_id ?? null,
+    changes,
+  });
+}
+
+const AUDITED: TableKey[] = ["buildings", "stalls", "tenants", "meters", "users", "vat", "wt"];
+
+route("GET", "/audit/:entity/:id", (req) => {
+  if (!AUDITED.includes(req.params.entity as TableKey)) {
+    throw new HttpError(404, `No history is kept for ${req.params.entity}.`);
+  }
+  return db.audit
+    .filter((e) => e.entity === req.params.entity && e.entity_id === req.params.id)
+    .slice()
+    .reverse();
+});
+
+/* ---------------- generic CRUD ---------------- */
+
+type TableKey = "buildings" | "stalls" | "tenants" | "meters" | "users" | "vat" | "wt";
+
+/** Field messages for a create/update body (`current` is the stored row on update). */
+type Validator = (body: any, current?: any) => Record<string, string>;
+
+function rejectInvalid(validate: Validator | undefined, body: any, current?: any) {
+  const fields = validate?.(body ?? {}, current) ?? {};
+  if (Object.keys(fields).length) {
+    throw new HttpError(422, "Some fields are not valid.", { code: "VALIDATION_FAILED", fields });
+  }
+}
+
+function crud(
+  path: string,
+  table: TableKey,
+  idKey: string,
+  makeId: () => string,
+  label: string,
+  validate?: Validator,
+) {
+  const rows = () => db[table] as any[];
+  // never hand out stored passwords
+  const present = (r: any) => {
+    if (table !== "users") return r;
+    const { user_password, ...u } = r;
+    return u;
+  };
+  route("GET", path, (req) => {
+    let out = rows();
+    // simple equality filters, e.g. /tenants?building_id=BLDG-001&status=active
+    for (const [k, v] of Object.entries(req.query)) {
+      if (v == null || v === "") continue;
+      const col = k === "status" ? `${table.replace(/s$/, "")}_status` : k;
+      if (k === "q") {
+        const q = String(v).toLowerCase();
+        out = out.filter((r) => JSON.stringify(r).toLowerCase().includes(q));
+      } else if (out.some((r) => col in r)) {
+        out = out.filter((r) => String(r[col]) === String(v));
+      }
+    }
+    return out.map(present);
+  });
+  route("POST", path, (req) => {
+    rejectInvalid(validate, req.body);
+    const id = String(req.body?.[idKey] ?? "").trim() || makeId();
+    if (rows().some((r) => r[idKey] === id)) {
+      throw new HttpError(409, `${label} ${id} already exists.`);
+    }
+    const row = { ...req.body, [idKey]: id, ...stamp(req) };
+    rows().push(row);
+    audit(req, table, id, "create", null, row);
+    return present(row);
+  });
+  route("PUT", `${path}/:id`, (req) => {
+    const row = findOr404(rows(), (r) => r[idKey] === req.params.id, label);
+    // a body carrying the last_updated its form was opened with must still
+    // match, or someone else saved in between
+    const expected = req.body?.last_updated;
+    if (expected && row.last_updated && expected !== row.last_updated) {
+      throw new HttpError(
+        409,
+        `${label} ${req.params.id} was changed by ${row.updated_by ?? "someone else"} while you were editing it.`,
+        { code: "STALE_RECORD", current: present(row) },
+      );
+    }
+    rejectInvalid(validate, req.body, row);
+    const before = { ...row };
+    Object.assign(row, req.body, { [idKey]: req.params.id }, stamp(req));
+    audit(req, table, req.params.id, "update", before, row);
+    return present(row);
+  });
+  route("DELETE", `${path}/:id`, (req) => {
+    const row = findOr404(rows(), (r) => r[idKey] === req.params.id, label);
+    (db as any)[table] = rows().filter((r) => r[idKey] !== req.params.id);
+    audit(req, table, req.params.id, "delete", row, null);
+    return { ok: true };
+  });
+}
+
+crud("/buildings", "buildings", "building_id", () => nextId("building", "BLDG"), "Building");
+crud("/stalls", "stalls", "stall_id", () => nextId("stall", "STL"), "Stall");
+crud("/tenants", "tenants", "tenant_id", () => nextId("tenant", "TNT"), "Tenant", (b, cur) => {
+  const out: Record<string, string> = {};
+  if ("tenant_name" in b || !cur) {
+    if (!String(b.tenant_name ?? "").trim()) out.tenant_name = "Tenant name is required.";
+  }
+  const building = b.building_id ?? cur?.building_id;
+  if (!db.buildings.some((x) => x.building_id === building)) {
+    out.building_id = "Unknown building.";
+  }
+  const sn = String(b.tenant_sn ?? "").trim();
+  if (sn && db.tenants.some((t) => t.tenant_sn === sn && t.tenant_id !== cur?.tenant_id)) {
+    out.tenant_sn = `Tenant ID ${sn} is already used.`;
+  }
+  if (b.vat_code && !db.vat.some((v) => v.vat_code === b.vat_code)) {
+    out.vat_code = "Unknown VAT code.";
+  }
+  if (b.wt_code && !db.wt.some((w) => w.wt_code === b.wt_code)) {
+    out.wt_code = "Unknown withholding code.";
+  }
+  return out;
+});
+crud("/meters", "meters", "meter_id", () => nextId("meter", "MTR"), "Meter", (b, cur) => {
+  const out: Record<string, string> = {};
+  const sn = String(b.meter_sn ?? cur?.meter_sn ?? "").trim();
+  if (!sn) out.meter_sn = "Serial number is required.";
+  else if (db.meters.some((m) => m.meter_sn === sn && m.meter_id !== cur?.meter_id)) {
+    out.meter_sn = "meter_sn already exists.";
+  }
+  if ("meter_mult" in b && !(Number(b.meter_mult) > 0)) {
+    out.meter_mult = "Multiplier must be greater than zero.";
+  }
+  const stall = b.stall_id ?? cur?.stall_id;
+  if (!db.stalls.some((s) => s.stall_id === stall)) out.stall_id = "Unknown stall.";
+  return out;
+});
+crud("/users", "users", "user_id", () => nextId("user", "USR"), "User");
+crud("/vat", "vat", "tax_id", () => nextId("vat", "VAT"), "VAT code");
+crud("/wt", "wt", "wt_id", () => nextId("wt", "WT"), "Withholding code");
+
+route("GET", "/buildings/:id/base-rates", (req) => {
+  const b = findOr404(db.buildings, (x) => x.building_id === req.params.id, "Building");
+  return {
+    building_id: b.building_id,
+    erate_perKwH: b.erate_perKwH ?? null,
+    emin_con: b.emin_con ?? null,
+    wrate_perCbM: b.wrate_perCbM ?? null,
+    wmin_con: b.wmin_con ?? null,
+    lrate_perKg: b.lrate_perKg ?? null,
+    last_updated: b.last_updated,
+    updated_by: b.updated_by,
+  };
+});
+
+/* ---------------- auth ---------------- */
+
+route(
+  "POST",
+  "/auth/login",
+  (req) => {
+    const { user_id, user_password } = req.body ?? {};
+    const u = db.users.find((x) => x.user_id === String(user_id ?? "").trim());
+    if (!u || u.user_password !== user_password) {
+      throw new HttpError(401, "Invalid username or password.");
+    }
+    return { token: issueToken(u) };
+  },
+  true,
+);
+
+route("GET", "/version", () => ({ version: MOCK_API_VERSION }), true);
+
+/* ---------------- readings ---------------- */
+
+const stallOf = (m: Meter) => db.stalls.find((s) => s.stall_id === m.stall_id);
+const buildingOfMeter = (m: Meter) => m.building_id ?? stallOf(m)?.building_id ?? null;
+
+/** Readings of one meter, oldest first. */
+const historyOf = (meterId: string) =>
+  db.readings
+    .filter((r) => r.meter_id === meterId)
+    .sort((a, b) => a.lastread_date.localeCompare(b.lastread_date));
+
+const stripImage = ({ image, ...r }: MockReading) => r;
+
+function createReading(
+  req: Req,
+  body: {
+    meter_id: string;
+    reading_value?: number;
+    lastread_date: string;
+    remarks?: string | null;
+    override_reason?: string | null;
+    override_flags?: string[] | null;
+    image?: string | null;
+  },
+  readBy = req.user?.user_id ?? "mock",
+): MockReading {
+  const meter = findOr404(db.meters, (m) => m.meter_id === body.meter_id, "Meter");
+  const date = ymd(new Date(body.lastread_date || Date.now()));
+  if (db.readings.some((r) => r.meter_id === meter.meter_id && r.lastread_date === date)) {
+    throw new HttpError(409, `Meter ${meter.meter_id} already has a reading on ${date}.`);
+  }
+  const row: MockReading = {
+    reading_id: nextId("reading", "MR", 5),
+    meter_id: meter.meter_id,
+    reading_value: num(body.reading_value),
+    read_by: readBy,
+    lastread_date: date,
+    remarks: body.remarks ?? null,
+    override_reason: body.override_reason ?? null,
+    override_flags: body.override_flags ?? null,
+    image: body.image ?? null,
+    ...stamp(req),
+  } as MockReading;
+  db.readings.push(row);
+  return row;
+}
+
+for (const base of ["/meter_reading", "/readings"]) {
+  route("GET", base, () => db.readings.map(stripImage));
+  route("GET", `${base}/today`, () => {
+    const today = ymd(new Date());
+    return db.readings
+      .filter((r) => r.lastread_date === today)
+      .map((r) => ({ meter_id: r.meter_id, lastread_date: r.lastread_date }));
+  });
+  route("POST", base, (req) => stripImage(createReading(req, req.body ?? {})));
+  route("PUT", `${base}/:id`, (req) => {
+    const r = findOr404(db.readings, (x) => x.reading_id === req.params.id, "Reading");
+    const { image, reading_value, ...rest } = req.body ?? {};
+    Object.assign(r, rest, stamp(req));
+    if (reading_value !== undefined) r.reading_value = num(reading_value);
+    if (image !== undefined) r.image = image;
+    return stripImage(r);
+  });
+  route("DELETE", `${base}/:id`, (req) => {
+    findOr404(db.readings, (x) => x.reading_id === req.params.id, "Reading");
+    db.readings = db.readings.filter((x) => x.reading_id !== req.params.id);
+    return { ok: true };
+  });
+  route("GET", `${base}/:id/image`, (req) => {
+    const r = findOr404(db.readings, (x) => x.reading_id === req.params.id, "Reading");
+    if (!r.image) throw new HttpError(404, "This reading has no photo.");
+    return { __binary: String(r.image).replace(/^data:[^,]*,/, "") };
+  });
+}
+
+/* ---------------- reader devices ---------------- */
+
+const deviceByToken = (token: unknown) => {
+  const d = db.devices.find((x) => x.device_token === String(token ?? ""));
+  if (!d) throw new HttpError(404, "Unknown device token.", { code: DEVICE_REVOKED });
+  if (d.status !== "active") {
+    throw new HttpError(403, "This device is blocked.", { code: DEVICE_REVOKED });
+  }
+  d.last_seen_at = new Date().toISOString();
+  return d;
+};
+
+/**
+ * Storage keys handed to devices at resolve. A key is derived from the seed,
+ * the device id and how often the device was revoked, so the same device
+ * gets the same key back after an app restart (a real server keeps its keys
+ * too). Blocking or removing a device moves it to a new key, so data sealed
+ * with the old one stays unreadable even if the device is allowed back in.
+ */
+const keyGenerations = new Map<number, number>();
+
+const storageKeyOf = (id: number) =>
+  toHex(sha256(utf8Encode(`mock-storage-${db.seed}-${id}-${keyGenerations.get(id) ?? 0}`)));
+
+const forgetStorageKey = (id: number) =>
+  keyGenerations.set(id, (keyGenerations.get(id) ?? 0) + 1);
+
+/** Retention policy sent to reader devices (a server setting). */
+const RETENTION = { synced_days: 7, max_photo_mb: 200, on_user_switch: "keep" };
+
+/** Plausibility thresholds sent to reader devices (a server setting, see services/readingCheck). */
+const PLAUSIBILITY = {
+  default: { spike_factor: 3, drop_factor: 0.25, min_consumption: 10 },
+  water: { spike_factor: 3, drop_factor: 0.2, min_consumption: 2 },
+  lpg: { spike_factor: 4, drop_factor: 0.2, min_consumption: 1 },
+};
+
+route("GET", "/reader-devices", () => ({ devices: db.devices }));
+
+route("POST", "/reader-devices/register", (req) => {
+  const serial = String(req.body?.device_serial ?? "").trim().toUpperCase();
+  if (!serial) throw new HttpError(400, "device_serial is required.");
+  if (db.devices.some((d) => d.device_serial === serial)) {
+    throw new HttpError(409, `Device ${serial} is already registered.`);
+  }
+  const id = ++db.seq.device;
+  const device = {
+    id,
+    device_serial: serial,
+    device_name: req.body?.device_name ?? null,
+    device_token: `mock-device-${db.seed}-${id}`,
+    status: "active",
+    last_seen_at: null,
+    created_at: new Date().toISOString(),
+  };
+  db.devices.push(device);
+  return { device };
+});
+
+route("POST", "/reader-devices/resolve", (req) => {
+  const serial = String(req.body?.device_serial ?? "").trim().toUpperCase();
+  const d = findOr404(db.devices, (x) => x.device_serial === serial, `Device ${serial}`);
+  if (d.status !== "active") {
+    throw new HttpError(403, "This device is blocked.", { code: DEVICE_REVOKED });
+  }
+  if (req.body?.device_name) d.device_name = req.body.device_name;
+  d.last_seen_at = new Date().toISOString();
+  return {
+    device: { ...d, storage_key: storageKeyOf(d.id) },
+    retention: RETENTION,
+    plausibility: PLAUSIBILITY,
+    signs_packages: true,
+  };
+});
+
+route("PATCH", "/reader-devices/:id", (req) => {
+  const d = findOr404(db.devices, (x) => String(x.id) === req.params.id, "Device");
+  d.status = String(req.body?.status ?? d.status);
+  if (d.status !== "active") forgetStorageKey(d.id);
+  return { device: d };
+});
+
+route("DELETE", "/reader-devices/:id", (req) => {
+  findOr404(db.devices, (x) => String(x.id) === req.params.id, "Device");
+  db.devices = db.devices.filter((x) => String(x.id) !== req.params.id);
+  forgetStorageKey(Number(req.params.id));
+  return { ok: true };
+});
+
+/* ---------------- offline export ---------------- */
+
+/**
+ * Packages handed out, by device and generated_at, so a refresh with
+ * `since` can be answered with what changed (like a server keeping an
+ * item change log). An unknown `since` gets the whole package.
+ */
+const packagesSent = new Map<string, Map<string, OfflinePackageItem>>();
+
+/** How long a package may be read against. */
+const PACKAGE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Package items for the buildings `user` may read in. */
+const packageItems = (user: MockUser | null | undefined): OfflinePackageItem[] => {
+  const allowed = new Set(user?.building_ids ?? []);
+  return db.meters
+    .filter((m) => m.meter_status === "active")
+    .filter((m) => !allowed.size || allowed.has(buildingOfMeter(m) ?? ""))
+    .map((m) => {
+      const hist = historyOf(m.meter_id);
+      const last = hist[hist.length - 1];
+      const prev = hist[hist.length - 2];
+      const stall = stallOf(m);
+      const tenant = db.tenants.find((t) => t.tenant_id === stall?.tenant_id);
+      return {
+        meter_id: m.meter_id,
+        stall_id: m.stall_id,
+        building_id: buildingOfMeter(m),
+        stall_sn: stall?.stall_sn ?? null,
+        // four stalls to a floor: A-01..A-04 on 1, A-05.. on 2
+        floor: stall ? Math.ceil(Number(stall.stall_sn.split("-")[1]) / 4) || null : null,
+        tenant_name: tenant?.tenant_name ?? null,
+        classification: m.meter_type,
+        prev_reading: last ? num(last.reading_value) : null,
+        prev_date: last?.lastread_date ?? null,
+        prev2_reading: prev ? num(prev.reading_value) : null,
+        prev2_date: prev?.lastread_date ?? null,
+        qr: m.meter_id,
+        meter_number: m.meter_sn,
+      };
+    });
+};
+
+/**
+ * Expiry and signature of a package for `device`. The whole package is
+ * signed, also when only a delta is sent: the device checks what it has after
+ * merging. The items are remembered for later `since` requests.
+ */
+const signedFor = (device: ReaderDevice, items: OfflinePackageItem[], generated_at: string) => {
+  const expires_at = new Date(Date.parse(generated_at) + PACKAGE_TTL_MS).toISOString();
+  packagesSent.set(`${device.id}|${generated_at}`, new Map(items.map((it) => [it.meter_id, it])));
+  return {
+    device_serial: device.device_serial,
+    device_name: device.device_name,
+    expires_at,
+    signature: signPackage(
+      { device_serial: device.device_serial, generated_at, expires_at, items },
+      device.device_token,
+    ),
+  };
+};
+
+route("POST", "/offlineExport/import", (req) => {
+  const device = deviceByToken(req.body?.device_token);
+  const items = packageItems(req.user);
+
+  const generated_at = new Date().toISOString();
+  const base = req.body?.since
+    ? packagesSent.get(`${device.id}|${req.body.since}`)
+    : undefined;
+  const signed = signedFor(device, items, generated_at);
+
+  if (base) {
+    const same = (a: OfflinePackageItem, b: OfflinePackageItem) =>
+      JSON.stringify(a) === JSON.stringify(b);
+    return {
+      package: {
+        generated_at,
+        since: req.body.since,
+        ...signed,
+        delta: true,
+        items: items.filter((it) => !base.has(it.meter_id) || !same(base.get(it.meter_id)!, it)),
+        removed: [...base.keys()].filter((id) => !items.some((it) => it.meter_id === id)),
+      },
+    };
+  }
+
+  return {
+    package: {
+      generated_at,
+      ...signed,
+      items,
+    },
+  };
+});
+
+// a package for a device without network, carried to it as a file
+route("POST", "/offlineExport/package-file", (req) => {
+  const device = findOr404(
+    db.devices,
+    (x) => x.id === Number(req.body?.device_id),
+    `Device ${req.body?.device_id}`,
+  );
+  if (device.status !== "active") throw new HttpError(403, "This device is blocked.");
+  const items = packageItems(req.user);
+  const generated_at = new Date().toISOString();
+  return { package: { generated_at, ...signedFor(device, items, generated_at), items } };
+});
+
+/** Queue readings from `device` for approval, with one verdict per reading. */
+const acceptReadings = (
+  device: ReaderDevice,
+  readings: OfflineExportReading[],
+  readerUserId: string,
+) => {
+  // a bad reading no longer fails the whole batch
+  const now = new Date().toISOString();
+  return readings.map((r) => {
+    const key = {
+      meter_id: String(r.meter_id ?? ""),
+      lastread_date: String(r.lastread_date ?? ""),
+      client_reading_id: r.client_reading_id ?? null,
+    };
+    const value = Number(r.reading_value);
+    const serial = r.device_serial || device.device_serial;
+    // a resend of a reading the server already has, whatever became of it
+    const resent = r.client_reading_id
+      ? db.submissions.find(
+          (s) => s.client_reading_id === r.client_reading_id && s.device_serial === serial,
+        )
+      : undefined;
+    if (resent) {
+      return { ...key, status: "duplicate", submission_id: resent.id, error: `Already submitted as #${resent.id}.` };
+    }
+    if (!db.meters.some((m) => m.meter_id === r.meter_id)) {
+      return { ...key, status: "rejected", error: `Meter ${r.meter_id} does not exist.` };
+    }
+    if (!Number.isFinite(value) || value < 0) {
+      return { ...key, status: "rejected", error: "Reading value must be a non-negative number." };
+    }
+    const prior = db.submissions.find(
+      (s) =>
+        s.meter_id === r.meter_id &&
+        s.reading_date === r.lastread_date &&
+        s.status !== "rejected",
+    );
+    if (prior) {
+      return prior.reading_value === value
+        ? { ...key, status: "duplicate", submission_id: prior.id, error: `Already submitted as #${prior.id}.` }
+        : {
+            ...key,
+            status: "rejected",
+            error: `Meter ${r.meter_id} already has a ${prior.status} reading (${prior.reading_value}) for ${r.lastread_date}.`,
+          };
+    }
+    const submission = {
+      id: ++db.seq.submission,
+      device_id: device.id,
+      device_serial: serial,
+      device_name: device.device_name,
+      reader_user_id: r.reader_user_id || readerUserId,
+      meter_id: r.meter_id,
+      reading_value: value,
+      reading_date: r.lastread_date,
+      remarks: r.remarks ?? null,
+      override_reason: r.override_reason ?? null,
+      override_flags: r.override_flags ?? null,
+      image_base64: r.image ?? null,
+      submitted_at: now,
+      status: "pending",
+      approved_by: null,
+      approved_at: null,
+      client_reading_id: r.client_reading_id ?? null,
+    };
+    db.submissions.push(submission);
+    return { ...key, status: "accepted", submission_id: submission.id };
+  });
+};
+
+route("POST", "/offlineExport/export", (req) => {
+  const device = deviceByToken(req.body?.device_token);
+  const readings: OfflineExportReading[] = Array.isArray(req.body?.readings)
+    ? req.body.readings
+    : [];
+  if (!readings.length) throw new HttpError(400, "No readings to export.");
+
+  const results = acceptReadings(device, readings, req.user?.user_id ?? "");
+  return {
+    ok: true,
+    batch: req.body?.batch ?? null,
+    inserted: results.filter((r) => r.status === "accepted").length,
+    results,
+  };
+});
+
+// a reader bundle carried in as a file; uploaded by an admin, not the device
+route("POST", "/offlineExport/bundle", (req) => {
+  let parsed;
+  try {
+    parsed = parseTransferFile(JSON.stringify(req.body?.bundle ?? null));
+  } catch (e: any) {
+    throw new HttpError(400, e?.message || "Not a reader bundle.");
+  }
+  if (parsed.kind !== "bundle") throw new HttpError(400, "Not a reader bundle.");
+  const { file, bundle } = parsed;
+
+  const serial = String(bundle.device_serial).trim().toUpperCase();
+  const device = findOr404(db.devices, (x) => x.device_serial === serial, `Device ${serial}`);
+  // not DEVICE_REVOKED: that would make the uploader's app drop its own data
+  if (device.status !== "active") {
+    throw new HttpError(409, `Device ${serial} is blocked; its bundle is not accepted.`);
+  }
+  if (!bundleSignatureValid(file, device.device_token)) {
+    throw new HttpError(
+      422,
+      `The bundle was changed after device ${serial} made it, or another device made it.`,
+    );
+  }
+  if (!bundle.readings.length) throw new HttpError(400, "The bundle has no readings.");
+
+  const results = acceptReadings(device, bundle.readings, bundle.reader_user_id ?? "");
+  return {
+    ok: true,
+    inserted: results.filter((r) => r.status === "accepted").length,
+    results,
+  };
+});
+
+/**
+ * An earlier submission of the same reading that was not rejected: same
+ * client id from the same device or, for devices that send no client id,
+ * same device, meter, day and value.
+ */
+const twinOf = (s: OfflineSubmission, status?: string) =>
+  db.submissions.find(
+    (x) =>
+      x.id !== s.id &&
+      x.status !== "rejected" &&
+      (!status || x.status === status) &&
+      x.device_serial === s.device_serial &&
+      (s.client_reading_id
+        ? x.client_reading_id === s.client_reading_id
+        : !x.client_reading_id &&
+          x.meter_id === s.meter_id &&
+          x.reading_date === s.reading_date &&
+          x.reading_value === s.reading_value),
+  );
+
+route("GET", "/offlineExport/pending", () => ({
+  submissions: db.submissions
+    .filter((s) => s.status === "pending")
+    .map((s) => {
+      const twin = twinOf(s);
+      return twin && (twin.status === "approved" || twin.id < s.id)
+        ? { ...s, duplicate_of: twin.id }
+        : s;
+    }),
+}));
+
+const pendingSubmission = (id: string) => {
+  const s = findOr404(db.submissions, (x) => String(x.id) === id, "Submission");
+  if (s.status !== "pending") throw new HttpError(409, `Submission #${id} is already ${s.status}.`);
+  return s;
+};
+
+route("POST", "/offlineExport/approve/:id", (req) => {
+  const s = pendingSubmission(req.params.id);
+  const approvedAs = { approved_by: req.user?.user_id ?? null, approved_at: new Date().toISOString() };
+
+  // approving a second copy links it to the reading the first one created
+  const twin = twinOf(s, "approved");
+  const existing =
+    twin &&
+    db.readings.find((r) => r.meter_id === twin.meter_id && r.lastread_date === ymd(new Date(twin.reading_date)));
+  if (twin && existing) {
+    Object.assign(s, { status: "approved", ...approvedAs });
+    return { reading_id: existing.reading_id, duplicate_of: twin.id };
+  }
+
+  const reading = createReading(
+    req,
+    {
+      meter_id: s.meter_id,
+      reading_value: s.reading_value,
+      lastread_date: s.reading_date,
+      remarks: s.remarks,
+      override_reason: s.override_reason,
+      override_flags: s.override_flags,
+      image: s.image_base64,
+    },
+    s.reader_user_id,
+  );
+  Object.assign(s, { status: "approved", ...approvedAs });
+  return { reading_id: reading.reading_id };
+});
+
+route("POST", "/offlineExport/reject/:id", (req) => {
+  const s = pendingSubmission(req.params.id);
+  Object.assign(s, {
+    status: "rejected",
+    approved_by: req.user?.user_id ?? null,
+    approved_at: new Date().toISOString(),
+  });
+  return { ok: true };
+});
+
+/* ---------------- consumption helpers ---------------- */
+
+/** Latest reading on or before `date` (strictly before when `strict`). */
+function readingAt(meterId: string, date: string, strict = false) {
+  const hist = historyOf(meterId).filter((r) =>
+    strict ? r.lastread_date < date : r.lastread_date <= date,
+  );
+  return hist[hist.length - 1] ?? null;
+}
+
+/** Consumption of a meter between two dates, multiplier applied. */
+function consumption(m: Meter, start: string, end: string) {
+  const prev = readingAt(m.meter_id, start, true);
+  const pres = readingAt(m.meter_id, end);
+  if (!prev || !pres || pres.lastread_date < start) {
+    return { prev, pres, used: null as number | null };
+  }
+  return {
+    prev,
+    pres,
+    used: round2((num(pres.reading_value) - num(prev.reading_value)) * num(m.meter_mult || 1)),
+  };
+}
+
+const monthRange = (year: number, month0: number) => {
+  const s = new Date(year, month0, 1);
+  const e = new Date(year, month0 + 1, 0);
+  return { label: `${year}-${pad(month0 + 1, 2)}`, start: ymd(s), end: ymd(e) };
+};
+
+const shiftMonth = (d: string, by: number) => {
+  const x = new Date(`${d}T00:00:00`);
+  x.setMonth(x.getMonth() + by);
+  return ymd(x);
+};
+
+const pct = (cur: number | null, prev: number | null) =>
+  cur == null || !prev ? null : round2(((cur - prev) / prev) * 100);
+
+const metersOfBuilding = (buildingId: string) =>
+  db.meters.filter((m) => buildingOfMeter(m) === buildingId);
+
+function utilityTotals(meters: Meter[], start: string, end: string): UtilityTotals {
+  const t: UtilityTotals = { electric: 0, water: 0, lpg: 0 };
+  for (const m of meters) {
+    const used = consumption(m, start, end).used ?? 0;
+    const k = m.meter_type as keyof UtilityTotals;
+    if (k in t) t[k] = round2((t[k] ?? 0) + used);
+  }
+  return t;
+}
+
+const sumTotals = (ts: UtilityTotals[]) => {
+  const all = { electric: 0, water: 0, lpg: 0, all_utilities: 0 };
+  for (const t of ts) {
+    all.electric = round2(all.electric + (t.electric ?? 0));
+    all.water = round2(all.water + (t.water ?? 0));
+    all.lpg = round2(all.lpg + (t.lpg ?? 0));
+  }
+  all.all_utilities = round2(all.electric + all.water + all.lpg);
+  return all;
+};
+
+/* ---------------- billing ---------------- */
+
+function buildBilling(buildingId: string, start: string, end: string, penaltyPct: number) {
+  const b = findOr404(db.buildings, (x) => x.building_id === buildingId, "Building");
+  const rateFor = (type: string) =>
+    type === "electric" ? b.erate_perKwH : type === "water" ? b.wrate_perCbM : b.lrate_perKg;
+  const markup = num(b.markup_rate);
+
+  const tenants: BillingTenant[] = db.tenants
+    .filter((t) => t.building_id === buildingId)
+    .map((t) => {
+      const vat = db.vat.find((v) => v.vat_code === t.vat_code);
+      const wt = db.wt.find((w) => w.wt_code === t.wt_code);
+      const rows: BillingRow[] = db.stalls
+        .filter((s) => s.tenant_id === t.tenant_id)
+        .flatMap((s) => db.meters.filter((m) => m.stall_id === s.stall_id).map((m) => ({ s, m })))
+        .map(({ s, m }) => {
+          const type = m.meter_type;
+          const { prev, pres, used } = consumption(m, start, end);
+          const before = prev ? readingAt(m.meter_id, prev.lastread_date, true) : null;
+          const prevUsed =
+            prev && before
+              ? round2((num(prev.reading_value) - num(before.reading_value)) * num(m.meter_mult || 1))
+              : null;
+          const consumed = used ?? 0;
+          const utility = num(rateFor(type));
+          const system = round2(utility * (1 + markup / 100));
+          const base = round2(consumed * system);
+          const vatRate = num(type === "electric" ? vat?.e_vat : type === "water" ? vat?.w_vat : vat?.l_vat);
+          const wtRate = num(type === "electric" ? wt?.e_wt : type === "water" ? wt?.w_wt : wt?.l_wt);
+          const vatAmount = round2((base * vatRate) / 100);
+          const wtAmount = round2((base * wtRate) / 100);
+          const penalty = t.for_penalty ? round2((base * penaltyPct) / 100) : 0;
+          return {
+            stall_no: s.stall_sn,
+            stall_sn: s.stall_sn,
+            tenant_id: t.tenant_id,
+            tenant_sn: t.tenant_sn,
+            tenant_name: t.tenant_name,
+            meter_no: m.meter_sn,
+            meter_id: m.meter_id,
+            mult: num(m.meter_mult || 1),
+            reading_previous: num(prev?.reading_value),
+            reading_present: num(pres?.reading_value ?? prev?.reading_value),
+            consumed_kwh: consumed,
+            prev_consumed_kwh: prevUsed,
+            rate_of_change_pct: pct(used, prevUsed),
+            utility_rate: utility,
+            markup_rate: markup,
+            system_rate: system,
+            vat_rate: vatRate,
+            vat_amount: vatAmount,
+            whtax_code: t.wt_code,
+            whtax_rate: wtRate,
+            whtax_amount: wtAmount,
+            tax_code: t.vat_code,
+            for_penalty: t.for_penalty,
+            total_amount: round2(base + vatAmount - wtAmount + penalty),
+            meter_type: type,
+            reading_override: pres?.override_reason ?? null,
+          };
+        });
+      return { tenant_id: t.tenant_id, tenant_sn: t.tenant_sn, tenant_name: t.tenant_name, rows };
+    });
+
+  const rows = tenants.flatMap((t) => t.rows);
+  const out: BuildingBillingResponse = {
+    building_billing_id: nextId("billing", "BB", 4),
+    building_id: b.building_id,
+    building_name: b.building_name,
+    period: { start, end },
+    tenants,
+    totals: {
+      total_consumed_kwh: round2(rows.reduce((a, r) => a + r.consumed_kwh, 0)),
+      total_amount: round2(rows.reduce((a, r) => a + r.total_amount, 0)),
+    },
+    generated_at: new Date().toISOString(),
+    penalty_rate_pct: penaltyPct,
+  };
+  return out;
+}
+
+route("GET", "/billings/buildings", () => {
+  const out: Record<string, any> = {};
+  for (const [id, b] of Object.entries(db.billings)) {
+    const { tenants, ...header } = b;
+    // stored billings lock their period against further reading edits
+    out[id] = { ...header, status: "locked" };
+  }
+  return out;
+});
+
+route("GET", "/billings/buildings/:id", (req) => {
+  const b = db.billings[req.params.id];
+  if (!b) throw new HttpError(404, "Billing not found.");
+  return b;
+});
+
+route("POST", "/billings/buildings/:id/period-start/:start/period-end/:end", (req) => {
+  const { id, start, end } = req.params;
+  const existing = Object.values(db.billings).find(
+    (b) => b.building_id === id && b.period.start === start && b.period.end === end,
+  );
+  if (existing) {
+    throw new HttpError(409, "Billing already exists for this building and period.", {
+      building_billing_id: existing.building_billing_id,
+    });
+  }
+  const billing = buildBilling(id, start, end, num(req.query.penalty_rate));
+  db.billings[billing.building_billing_id!] = billing;
+  return billing;
+});
+
+/* ---------------- rate of change ---------------- */
+
+function rocMeter(m: Meter, start: string, end: string): RocMeter {
+  const pStart = shiftMonth(start, -1);
+  const pEnd = shiftMonth(end, -1);
+  const cur = consumption(m, start, end).used;
+  const prev = consumption(m, pStart, pEnd).used;
+  const stall = stallOf(m);
+  return {
+    meter_id: m.meter_id,
+    meter_sn: m.meter_sn,
+    meter_type: m.meter_type,
+    stall_id: m.stall_id,
+    tenant_id: stall?.tenant_id ?? null,
+    building_id: buildingOfMeter(m),
+    current_period: { start, end },
+    previous_period: { start: pStart, end: pEnd, month: pStart.slice(0, 7) },
+    current_consumption: cur,
+    previous_consumption: prev,
+    rate_of_change: pct(cur, prev),
+  };
+}
+
+const rocTotals = (ms: RocMeter[]): RocTotals => {
+  const cur = round2(ms.reduce((a, m) => a + (m.current_consumption ?? 0), 0));
+  const prev = round2(ms.reduce((a, m) => a + (m.previous_consumption ?? 0), 0));
+  return { current_consumption: cur, previous_consumption: prev, rate_of_change: pct(cur, prev) };
+};
+
+const metersOfTenant = (tenantId: string) => {
+  const stallIds = new Set(
+    db.stalls.filter((s) => s.tenant_id === tenantId).map((s) => s.stall_id),
+  );
+  return db.meters.filter((m) => stallIds.has(m.stall_id));
+};
+
+route("GET", "/roc/meters/:id/period-start/:start/period-end/:end", (req) => {
+  const m = findOr404(db.meters, (x) => x.meter_id === req.params.id, "Meter");
+  return rocMeter(m, req.params.start, req.params.end);
+});
+
+route("GET", "/roc/tenants/:id/period-start/:start/period-end/:end", (req) => {
+  const { id, start, end } = req.params;
+  findOr404(db.tenants, (t) => t.tenant_id === id, "Tenant");
+  const meters = metersOfTenant(id).map((m) => rocMeter(m, start, end));
+  const types = Array.from(new Set(meters.map((m) => String(m.meter_type))));
+  return {
+    tenant_id: id,
+    period: {
+      current: { start, end },
+      previous: { start: shiftMonth(start, -1), end: shiftMonth(end, -1), month: shiftMonth(start, -1).slice(0, 7) },
+    },
+    groups: types.map((meter_type) => {
+      const ms = meters.filter((m) => m.meter_type === meter_type);
+      return { meter_type, meters: ms, totals: rocTotals(ms) };
+    }),
+  };
+});
+
+route("GET", "/roc/buildings/:id/period-start/:start/period-end/:end", (req) => {
+  const { id, start, end } = req.params;
+  const b = findOr404(db.buildings, (x) => x.building_id === id, "Building");
+  return {
+    building_id: b.building_id,
+    building_name: b.building_name,
+    period: {
+      current: { start, end },
+      previous: { start: shiftMonth(start, -1), end: shiftMonth(end, -1) },
+    },
+    tenants: db.tenants
+      .filter((t) => t.building_id === id)
+      .map((t) => {
+        const meters = metersOfTenant(t.tenant_id).map((m) => rocMeter(m, start, end));
+        return {
+          tenant_id: t.tenant_id,
+          tenant_sn: t.tenant_sn,
+          tenant_name: t.tenant_name,
+          meters,
+          totals: rocTotals(meters),
+        };
+      }),
+  };
+});
+
+route("GET", "/roc/buildings/:id/period-start/:start/period-end/:end/monthly-comparison", (req) => {
+  const { id, start, end } = req.params;
+  const b = findOr404(db.buildings, (x) => x.building_id === id, "Building");
+  return {
+    building_id: b.building_id,
+    building_name: b.building_name,
+    period: { start, end },
+    totals: utilityTotals(metersOfBuilding(id), start, end),
+  };
+});
+
+function monthBuckets(buildingId: string, months: { label: string; start: string; end: string }[]) {
+  const meters = metersOfBuilding(buildingId);
+  const buckets: RocMonthBucket[] = months.map((mo) => ({
+    ...mo,
+    previous: {
+      month: shiftMonth(mo.start, -1).slice(0, 7),
+      start: shiftMonth(mo.start, -1),
+      end: shiftMonth(mo.end, -1),
+    },
+    totals: utilityTotals(meters, mo.start, mo.end),
+  }));
+  return { months: buckets, totals_all: sumTotals(buckets.map((x) => x.totals ?? {})) };
+}
+
+route("GET", "/roc/buildings/:id/period-start/:start/period-end/:end/quarterly-comparison", (req) => {
+  const { id, end } = req.params;
+  const b = findOr404(db.buildings, (x) => x.building_id === id, "Building");
+  const last = new Date(`${end}T00:00:00`);
+  const months = [3, 2, 1, 0].map((k) => monthRange(last.getFullYear(), last.getMonth() - k));
+  return {
+    building_id: b.building_id,
+    building_name: b.building_name,
+    window: { start: months[0].start, end: months[3].end },
+    ...monthBuckets(id, months),
+  };
+});
+
+route("GET", "/roc/buildings/:id/year/:year/yearly-comparison", (req) => {
+  const { id } = req.params;
+  const year = Number(req.params.year);
+  const b = findOr404(db.buildings, (x) => x.building_id === id, "Building");
+  const months = Array.from({ length: 12 }, (_, k) => monthRange(year, k));
+  return {
+    building_id: b.building_id,
+    building_name: b.building_name,
+    year,
+    ...monthBuckets(id, months),
+  };
+});
+
+/* ---------------- adapter ---------------- */
+
+function dispatch(req: Omit<Req, "params" | "user">, auth: unknown): { status: number; body: any } {
+  let methodMismatch = false;
+  for (const r of routes) {
+    const m = r.re.exec(req.path);
+    if (!m) continue;
+    if (r.method !== req.method) {
+      methodMismatch = true;
+      continue;
+    }
+    const user = userFromAuth(auth);
+    if (!r.public && !user) {
+      return { status: 401, body: { error: "Not signed in or token expired." } };
+    }
+    const params: Record<string, string> = {};
+    r.keys.forEach((k, i) => (params[k] = decodeURIComponent(m[i + 1])));
+    try {
+      return { status: 200, body: r.handler({ ...req, params, user }) };
+    } catch (e: any) {
+      if (e instanceof HttpError) return { status: e.status, body: e.body };
+      return { status: 500, body: { error: String(e?.message || e) } };
+    }
+  }
+  return methodMismatch
+    ? { status: 405, body: { error: `${req.method} not allowed on ${req.path}` } }
+    : // like Express, an unknown route gets plain text rather than a JSON error
+      { status: 404, body: `Cannot ${req.method} ${req.path}` };
+}
+
+function toArrayBuffer(base64: string): ArrayBuffer {
+  const bin = typeof atob === "function" ? atob(base64) : Buffer.from(base64, "base64").toString("binary");
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes.buffer;
+}
+
+/**
+ * axios adapter: createApi() installs it on every request whose baseURL is
+ * MOCK_BASE_URL. Status handling follows axios (validateStatus is honoured).
+ */
+export async function mockAdapter(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+  await new Promise((r) => setTimeout(r, LATENCY_MS));
+
+  let url = String(config.url ?? "");
+  if (url.startsWith(MOCK_BASE_URL)) url = url.slice(MOCK_BASE_URL.length);
+  const [rawPath, qs = ""] = url.split("?");
+  const path = ("/" + rawPath.replace(/^\/+/, "")).replace(/\/+$/, "") || "/";
+
+  const query: Record<string, any> = { ...(config.params ?? {}) };
+  for (const pair of qs.split("&").filter(Boolean)) {
+    const [k, v = ""] = pair.split("=");
+    query[decodeURIComponent(k)] = decodeURIComponent(v.replace(/\+/g, " "));
+  }
+
+  let body: any = config.data;
+  if (typeof body === "string") {
+    try {
+      body = JSON.parse(body);
+    } catch {}
+  }
+
+  const { status, body: out } = dispatch(
+    { method: String(config.method ?? "get").toUpperCase(), path, query, body },
+    config.headers?.Authorization,
+  );
+
+  const data =
+    out && typeof out === "object" && "__binary" in out
+      ? toArrayBuffer(out.__binary)
+      : JSON.parse(JSON.stringify(out ?? null));
+
+  const response: AxiosResponse = {
+    data,
+    status,
+    statusText: String(status),
+    headers: { "x-api-version": MOCK_API_VERSION },
+    config,
+    request: { mock: true },
+  };
+
+  const ok = config.validateStatus ? config.validateStatus(status) : status >= 200 && status < 300;
+  if (ok) return response;
+  throw new AxiosError(
+    `Request failed with status code ${status}`,
+    status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    response.request,
+    response,
+  );
+}
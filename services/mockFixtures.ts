@@ -0,0 +1,327 @@
+// services/mockFixtures.ts
+// Seedable fixture data for the local mock backend (services/mockBackend.ts).
+//
+// The same seed always produces the same buildings, tenants, meters and
+// reading history, so a demo or a bug report can be replayed exactly.
+
+import type {
+  AuditEntry,
+  Building,
+  BuildingBillingResponse,
+  Meter,
+  MeterType,
+  OfflineSubmission,
+  ReaderDevice,
+  Reading,
+  Stall,
+  Tenant,
+  UserRow,
+  VatCode,
+  WtCode,
+} from "./api";
+
+export type MockUser = UserRow & { user_password: string };
+export type MockReading = Reading & { image?: string | null };
+
+export type MockDb = {
+  seed: number;
+  users: MockUser[];
+  buildings: Building[];
+  stalls: Stall[];
+  tenants: Tenant[];
+  meters: Meter[];
+  readings: MockReading[];
+  vat: VatCode[];
+  wt: WtCode[];
+  devices: ReaderDevice[];
+  submissions: OfflineSubmission[];
+  /** change history, oldest first */
+  audit: AuditEntry[];
+  /** stored billings keyed by building_billing_id */
+  billings: Record<string, BuildingBillingResponse>;
+  /** next numeric id per table */
+  seq: Record<string, number>;
+};
+
+export const DEFAULT_MOCK_SEED = 1;
+
+/** Every fixture account signs in with this password. */
+export const MOCK_PASSWORD = "mock";
+
+/** Small deterministic PRNG (mulberry32). */
+function rng(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const pad = (n: number, w = 3) => String(n).padStart(w, "0");
+
+export const ymd = (d: Date) =>
+  `${d.getFullYear()}-${pad(d.getMonth() + 1, 2)}-${pad(d.getDate(), 2)}`;
+
+const BUILDING_NAMES = ["North Market Hall", "South Arcade", "Riverside Plaza"];
+const TENANT_NAMES = [
+  "Lucky Star Bakery",
+  "Golden Grains Rice Store",
+  "Fresh Catch Seafood",
+  "Mang Tonyo's Carinderia",
+  "Sunrise Pharmacy",
+  "Bright Spark Electronics",
+  "Green Leaf Vegetables",
+  "Ocean Breeze Drinks",
+  "Silver Needle Tailoring",
+  "Hometown Hardware",
+  "Sweet Tooth Candies",
+  "Daily Brew Coffee",
+];
+
+/** Average monthly consumption per meter type (kWh, m³, kg). */
+const MONTHLY_USE: Record<MeterType, number> = {
+  electric: 420,
+  water: 28,
+  lpg: 45,
+};
+
+export function buildFixtures(seed = DEFAULT_MOCK_SEED): MockDb {
+  const rand = rng(seed);
+  const pick = <T>(xs: T[]) => xs[Math.floor(rand() * xs.length)];
+  const now = new Date().toISOString();
+  const audit = { last_updated: now, updated_by: "mock-seed" };
+
+  const vat: VatCode[] = [
+    { tax_id: "VAT-001", vat_code: "VAT12", vat_description: "Standard VAT", e_vat: 12, w_vat: 12, l_vat: 12, ...audit },
+    { tax_id: "VAT-002", vat_code: "VATEX", vat_description: "VAT exempt", e_vat: 0, w_vat: 0, l_vat: 0, ...audit },
+  ];
+  const wt: WtCode[] = [
+    { wt_id: "WT-001", wt_code: "WC158", wt_description: "Goods, 1%", e_wt: 1, w_wt: 1, l_wt: 1, ...audit },
+    { wt_id: "WT-002", wt_code: "WC160", wt_description: "Services, 2%", e_wt: 2, w_wt: 2, l_wt: 2, ...audit },
+  ];
+
+  const buildings: Building[] = [];
+  const stalls: Stall[] = [];
+  const tenants: Tenant[] = [];
+  const meters: Meter[] = [];
+  const readings: MockReading[] = [];
+
+  let stallNo = 0;
+  let tenantNo = 0;
+  let meterNo = 0;
+  let readingNo = 0;
+
+  const buildingCount = 2 + Math.floor(rand() * 2);
+  for (let b = 1; b <= buildingCount; b++) {
+    const building_id = `BLDG-${pad(b)}`;
+    buildings.push({
+      building_id,
+      building_name: BUILDING_NAMES[b - 1],
+      erate_perKwH: Math.round((9 + rand() * 4) * 100) / 100,
+      emin_con: 50,
+      wrate_perCbM: Math.round((35 + rand() * 15) * 100) / 100,
+      wmin_con: 5,
+      lrate_perKg: Math.round((70 + rand() * 20) * 100) / 100,
+      markup_rate: 5,
+      penalty_rate: 2,
+      ...audit,
+    });
+
+    const stallCount = 5 + Math.floor(rand() * 3);
+    for (let s = 1; s <= stallCount; s++) {
+      const stall_id = `STL-${pad(++stallNo)}`;
+      // the last stall of each building is left vacant
+      const vacant = s === stallCount;
+      let tenant_id: string | null = null;
+
+      if (!vacant) {
+        tenant_id = `TNT-${pad(++tenantNo)}`;
+        tenants.push({
+          tenant_id,
+          tenant_sn: `SN-${pad(tenantNo, 4)}`,
+          tenant_name: TENANT_NAMES[(tenantNo - 1) % TENANT_NAMES.length],
+          building_id,
+          tenant_status: "active",
+          vat_code: pick(vat).vat_code,
+          wt_code: rand() < 0.5 ? pick(wt).wt_code : null,
+          for_penalty: rand() < 0.2,
+          ...audit,
+        });
+      }
+
+      stalls.push({
+        stall_id,
+        stall_sn: `${String.fromCharCode(64 + b)}-${pad(s, 2)}`,
+        building_id,
+        tenant_id,
+        stall_status: vacant ? "available" : "occupied",
+        ...audit,
+      });
+
+      const types: MeterType[] = ["electric", "water"];
+      if (rand() < 0.3) types.push("lpg");
+
+      for (const meter_type of types) {
+        const meter_id = `MTR-${pad(++meterNo)}`;
+        const meter_mult = meter_type === "electric" && rand() < 0.2 ? 40 : 1;
+        meters.push({
+          meter_id,
+          meter_type,
+          meter_sn: `${meter_type[0].toUpperCase()}${pad(meterNo, 5)}`,
+          meter_mult,
+          stall_id,
+          building_id,
+          meter_status: "active",
+          ...audit,
+        });
+
+        // six months of history, one reading around the 25th of each month
+        let value = Math.round(1000 + rand() * 9000);
+        for (let m = 6; m >= 1; m--) {
+          const d = new Date();
+          d.setDate(1);
+          d.setMonth(d.getMonth() - m);
+          d.setDate(23 + Math.floor(rand() * 5));
+          const use = vacant ? 0 : MONTHLY_USE[meter_type] * (0.7 + rand() * 0.6);
+          value = Math.round((value + use / meter_mult) * 100) / 100;
+          readings.push({
+            reading_id: `MR-${pad(++readingNo, 5)}`,
+            meter_id,
+            reading_value: value,
+            read_by: "reader1",
+            lastread_date: ymd(d),
+            last_updated: d.toISOString(),
+            updated_by: "reader1",
+            remarks: null,
+          });
+        }
+      }
+    }
+  }
+
+  const allBuildings = buildings.map((b) => b.building_id);
+  const user = (
+    user_id: string,
+    user_fullname: string,
+    role: string,
+    access_modules: string[] = [],
+  ): MockUser => ({
+    user_id,
+    user_fullname,
+    user_password: MOCK_PASSWORD,
+    user_roles: [role],
+    building_ids: allBuildings,
+    utility_role: ["electric", "water", "lpg"],
+    access_modules,
+    ...audit,
+  });
+
+  const users: MockUser[] = [
+    user("admin", "Mock Administrator", "admin"),
+    user("operator1", "Mock Operator", "operator", [
+      "meters",
+      "buildings",
+      "stalls",
+      "tenants",
+      "assign_tenants",
+      "meter_readings",
+      "rate_of_change",
+    ]),
+    user("biller1", "Mock Biller", "biller", [
+      "billing",
+      "vat",
+      "withholding",
+      "meter_readings",
+    ]),
+    user("reader1", "Mock Reader", "reader", ["meter_readings"]),
+  ];
+
+  const devices: ReaderDevice[] = [
+    {
+      id: 1,
+      device_serial: "MOCK-0001",
+      device_name: "Mock Reader Phone",
+      device_token: `mock-device-${seed}-1`,
+      status: "active",
+      last_seen_at: null,
+      created_at: now,
+    },
+  ];
+
+  // a little history, so the change-history drawer has something to show
+  const history: AuditEntry[] = [];
+  const record = (
+    entity: string,
+    entity_id: string,
+    daysAgo: number,
+    changed_by: string,
+    changes: AuditEntry["changes"],
+  ) => {
+    const d = new Date();
+    d.setDate(d.getDate() - daysAgo);
+    history.push({
+      audit_id: history.length + 1,
+      entity,
+      entity_id,
+      action: "update",
+      changed_at: d.toISOString(),
+      changed_by,
+      changes,
+    });
+  };
+  const b0 = buildings[0];
+  const oldRate = Math.round((b0.erate_perKwH! - 0.75) * 100) / 100;
+  record("buildings", b0.building_id, 75, "admin", [
+    { field: "erate_perKwH", before: oldRate, after: b0.erate_perKwH },
+  ]);
+  record("buildings", b0.building_id, 40, "biller1", [
+    { field: "penalty_rate", before: 1.5, after: b0.penalty_rate },
+  ]);
+  const t0 = tenants[0];
+  record("tenants", t0.tenant_id, 30, "biller1", [
+    { field: "vat_code", before: "VATEX", after: t0.vat_code },
+  ]);
+  const s0 = stalls.find((s) => s.tenant_id === t0.tenant_id)!;
+  record("stalls", s0.stall_id, 90, "operator1", [
+    { field: "tenant_id", before: null, after: t0.tenant_id },
+    { field: "stall_status", before: "available", after: "occupied" },
+  ]);
+  record("vat", vat[0].tax_id, 120, "admin", [
+    { field: "e_vat", before: 10, after: vat[0].e_vat },
+  ]);
+  history.sort((a, b) => a.changed_at.localeCompare(b.changed_at));
+  history.forEach((e, i) => (e.audit_id = i + 1));
+
+  return {
+    seed,
+    users,
+    buildings,
+    stalls,
+    tenants,
+    meters,
+    readings,
+    vat,
+    wt,
+    devices,
+    submissions: [],
+    audit: history,
+    billings: {},
+    seq: {
+      building: buildings.length,
+      stall: stallNo,
+      tenant: tenantNo,
+      meter: meterNo,
+      user: 0,
+      reading: readingNo,
+      vat: vat.length,
+      wt: wt.length,
+      device: devices.length,
+      submission: 0,
+      billing: 0,
+      audit: history.length,
+    },
+  };
+}
@@ -0,0 +1,14 @@
+// services/mockServer.ts
+// The in-process mock server, in development builds only.
+//
+// services/mockBackend.ts accepts unsigned tokens and has fixture logins, and
+// a reader "syncing" to it would see real readings marked synced while they
+// only went into memory. Release builds must not carry it: `__DEV__` is false
+// there, so the require below is dropped when the bundle is built, and
+// services/serverProfiles neither offers the "Local mock server" profile nor
+// keeps one stored by an earlier development install.
+
+import type * as MockBackend from "./mockBackend";
+
+export const mockBackend: typeof MockBackend | null =
+  typeof __DEV__ !== "undefined" && __DEV__ ? require("./mockBackend") : null;
@@ -1,6 +1,17 @@
 // services/offlineSync.ts
 // Offline IMPORT/EXPORT helpers for Reader devices
 
+import type { Api, OfflineExportReading } from "./api";
+import {
+  FieldSpec,
+  SchemaError,
+  defineSchema,
+  parseEntity,
+  parseList,
+  pickPath,
+  recordDrift,
+} from "./schema";
+
 export type MeterClassification = "electric" | "water" | "lpg" | string;
 
 export type OfflinePackageItem = {
@@ -20,12 +31,24 @@ export type OfflinePackageItem = {
 
   /** optional for UI */
   meter_number?: string | null;
+
+  /** sent by newer servers; older ones only give stall_id */
+  building_id?: string | null;
+  /** for the reader's walking route (see services/readingRoute) */
+  stall_sn?: string | null;
+  floor?: string | number | null;
+  prev2_reading?: number | null;
+  prev2_date?: string | null;
 };
 
 export type OfflinePackage = {
   generated_at: string; // ISO
   device_serial?: string | null;
   device_name?: string | null;
+  /** ISO; the package must not be read against after this */
+  expires_at?: string | null;
+  /** HMAC over the package for this device (see services/packageIntegrity) */
+  signature?: string | null;
   items: OfflinePackageItem[];
 };
 
@@ -58,6 +81,8 @@ export type OfflineReadingForExport = {
 
   // optional offline-only fields
   remarks?: string | null;
+  override_reason?: string | null;
+  override_flags?: string[] | null;
 
   /**
    * NEW: backend expects `image` (base64 string or data URI).
@@ -65,17 +90,33 @@ export type OfflineReadingForExport = {
    */
   image?: string | null;
   image_base64?: string | null;
+  /** photo kept as a file (see services/scanPhotos); read only when its batch is sent */
+  image_uri?: string | null;
 
   meter_type?: string | null;
   tenant_name?: string | null;
+
+  /** set when the reading is queued and never changed; see newClientReadingId */
+  client_reading_id?: string | null;
+  device_serial?: string | null;
+  /** reader signed in when the reading was taken */
+  reader_user_id?: string | null;
 };
 
-async function parseJsonSafe(res: Response) {
-  try {
-    return await res.json();
-  } catch {
-    return {};
-  }
+/**
+ * A random (v4) UUID for a queued reading. It stays with the reading through
+ * every export retry, so the server can tell a resend from a second reading
+ * of the same meter, and approving it twice cannot create two readings.
+ */
+export function newClientReadingId(): string {
+  const bytes = new Uint8Array(16);
+  const c = (globalThis as any).crypto;
+  if (c?.getRandomValues) c.getRandomValues(bytes);
+  else for (let i = 0; i < 16; i++) bytes[i] = Math.floor(Math.random() * 256);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
 }
 
 function normalizeClassification(meter_type?: string | null): MeterClassification | null {
@@ -87,6 +128,119 @@ function normalizeClassification(meter_type?: string | null): MeterClassificatio
   return meter_type;
 }
 
+const optStr: FieldSpec = { kind: "string", optional: true, nullable: true };
+const optNum: FieldSpec = {
+  kind: ["number", "string"],
+  optional: true,
+  nullable: true,
+};
+
+export const OfflinePackageItemSchema = defineSchema("OfflinePackageItem", {
+  meter_id: { kind: "string", critical: true },
+  stall_id: { ...optStr, aliases: ["stallId"] },
+  building_id: { ...optStr, aliases: ["buildingId"] },
+  stall_sn: { ...optStr, aliases: ["stallSn"] },
+  floor: { ...optNum, aliases: ["stall_floor"] },
+  meter_number: { ...optStr, aliases: ["meter_sn"] },
+  tenant_name: optStr,
+  classification: {
+    ...optStr,
+    derive: (raw) =>
+      raw.meter_type !== undefined
+        ? normalizeClassification(raw.meter_type)
+        : undefined,
+  },
+  prev_reading: { ...optNum, aliases: ["prev_reading_value"] },
+  prev_date: { ...optStr, aliases: ["prev_lastread_date"] },
+  prev_image: optStr,
+  prev2_reading: optNum,
+  prev2_date: optStr,
+  qr: {
+    kind: "string",
+    derive: (raw) => (raw.meter_id != null ? String(raw.meter_id) : undefined),
+  },
+});
+
+export const OfflinePackageSchema = defineSchema("OfflinePackage", {
+  generated_at: { kind: "string" },
+  device_serial: optStr,
+  device_name: optStr,
+  expires_at: optStr,
+  signature: { ...optStr, aliases: ["checksum"] },
+  items: { kind: "array", items: OfflinePackageItemSchema, critical: true },
+});
+
+const LegacyImportSchema = defineSchema("LegacyOfflineImport", {
+  meters: { kind: "array", critical: true },
+  stalls: { kind: "array", critical: true },
+  tenants: { kind: "array", critical: true },
+});
+
+const toNum = (v: unknown) =>
+  v == null || v === "" || !Number.isFinite(Number(v)) ? null : Number(v);
+
+/**
+ * Declared response of POST /offlineExport/import is `{ package: {...} }`.
+ * `data.package`, `data.data.package`, a bare `data` package and the legacy
+ * meters/stalls/tenants payload are still understood, but each is reported
+ * as schema drift so the server can be fixed.
+ */
+export function parseOfflineImport(
+  data: any,
+  endpoint = "/offlineExport/import",
+): OfflinePackage {
+  const pkg = pickPath("OfflineImport", data, endpoint, [
+    "package",
+    "data.package",
+    "data",
+  ]) as any;
+
+  if (pkg && Array.isArray(pkg.items)) {
+    const parsed = parseEntity<OfflinePackage>(OfflinePackageSchema, pkg, endpoint);
+    return {
+      ...parsed,
+      generated_at: parsed.generated_at || new Date().toISOString(),
+      device_serial: parsed.device_serial ?? null,
+      device_name: parsed.device_name ?? null,
+      expires_at: parsed.expires_at ?? null,
+      signature: parsed.signature ?? null,
+      items: parsed.items.map((it) => ({
+        ...it,
+        meter_id: String(it.meter_id),
+        stall_id: it.stall_id ?? null,
+        tenant_name: it.tenant_name ?? null,
+        classification: it.classification ?? null,
+        prev_reading: toNum(it.prev_reading),
+        prev_date: it.prev_date ?? null,
+        prev2_reading: toNum(it.prev2_reading),
+        prev_image: it.prev_image ?? null,
+      })),
+    };
+  }
+
+  const legacy = pickPath("OfflineImport", data, endpoint, [
+    "package",
+    "payload",
+    "data",
+    "",
+  ]) as any;
+  if (legacy?.meters && legacy?.stalls && legacy?.tenants) {
+    return legacyToPackage(
+      parseEntity<LegacyOfflineImportPayload>(LegacyImportSchema, legacy, endpoint),
+    );
+  }
+
+  const issue = recordDrift({
+    schema: "OfflineImport",
+    endpoint,
+    field: "package",
+    problem: "missing",
+    detail: "expected {package:{items:[]}} or legacy meters/stalls/tenants",
+    critical: true,
+  });
+  throw new SchemaError("OfflineImport", endpoint, [issue]);
+}
+
 function legacyToPackage(payload: LegacyOfflineImportPayload): OfflinePackage {
   const tenantMap = new Map<string, string>();
   for (const t of payload.tenants || []) tenantMap.set(String(t.tenant_id), String(t.tenant_name));
@@ -120,136 +274,381 @@ function legacyToPackage(payload: LegacyOfflineImportPayload): OfflinePackage {
   };
 }
 
+/* ---------------- delta import ---------------- */
+
 /**
- * IMPORT package to device (READERS ONLY).
- * Backend endpoint:
- * POST /offlineExport/import
- * body: { device_token }
- *
- * NEW server returns:
- * { package: { generated_at, device_serial, device_name, items: [...] } }
+ * Items added, changed or removed since a package timestamp. A changed item
+ * is sent whole except for `prev_image`, which is left out (undefined here)
+ * when the previous reading did not change. `expires_at` and `signature`
+ * belong to the package as it is after the merge.
  */
-export async function offlineImport(opts: {
-  apiBaseUrl: string;
-  authToken: string;
-  deviceToken: string;
-}): Promise<OfflinePackage> {
-  if (!opts.deviceToken) throw new Error("Missing device token.");
+export type OfflinePackageDelta = Pick<
+  OfflinePackage,
+  "device_serial" | "device_name" | "expires_at" | "signature"
+> & {
+  generated_at: string;
+  /** false when the server sent a whole package (it ignores `since`) */
+  delta: boolean;
+  items: OfflinePackageItem[];
+  /** meter_ids to drop from the package */
+  removed: string[];
+};
 
-  const res = await fetch(`${opts.apiBaseUrl}/offlineExport/import`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${opts.authToken}`,
-    },
-    body: JSON.stringify({ device_token: opts.deviceToken }),
-  });
+/** What a refresh did to the package, by meter_id. */
+export type PackageChanges = {
+  /** the server sent the whole package */
+  full: boolean;
+  added: string[];
+  changed: string[];
+  removed: string[];
+};
+
+/**
+ * Declared response of POST /offlineExport/import with `since` is
+ * `{ package: { generated_at, delta: true, items: [...], removed: [...] } }`.
+ * Servers that do not know `since` answer with a whole package, which then
+ * replaces the device's copy.
+ */
+export function parseOfflineImportDelta(
+  data: any,
+  endpoint = "/offlineExport/import",
+): OfflinePackageDelta {
+  const raw = (data?.package ?? data?.data?.package) as any;
+  if (!raw || raw.delta !== true) {
+    const { items, ...pkg } = parseOfflineImport(data, endpoint);
+    return { ...pkg, delta: false, items, removed: [] };
+  }
 
-  const data = await parseJsonSafe(res);
+  const omitted = new Set(
+    (Array.isArray(raw.items) ? raw.items : [])
+      .filter((it: any) => it && !("prev_image" in it))
+      .map((it: any) => String(it.meter_id)),
+  );
+  const pkg = parseOfflineImport({ package: { ...raw, items: raw.items ?? [] } }, endpoint);
+  const removed = raw.removed ?? raw.removed_meter_ids ?? [];
+  return {
+    generated_at: pkg.generated_at,
+    device_serial: pkg.device_serial,
+    device_name: pkg.device_name,
+    expires_at: pkg.expires_at,
+    signature: pkg.signature,
+    delta: true,
+    items: pkg.items.map((it) =>
+      omitted.has(it.meter_id) ? { ...it, prev_image: undefined } : it,
+    ),
+    removed: Array.isArray(removed) ? removed.map(String) : [],
+  };
+}
 
-  if (!res.ok) {
-    const msg = data?.error || data?.message || `Import failed (${res.status}).`;
-    throw new Error(msg);
+const sameItem = (a: OfflinePackageItem, b: OfflinePackageItem) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/** Apply a delta (or a whole package) to the device's package. */
+export function mergeOfflinePackage(
+  current: OfflinePackage | null,
+  delta: OfflinePackageDelta,
+): { pkg: OfflinePackage; changes: PackageChanges } {
+  const before = new Map((current?.items ?? []).map((it) => [it.meter_id, it]));
+  const changes: PackageChanges = { full: !delta.delta, added: [], changed: [], removed: [] };
+
+  const incoming = new Map<string, OfflinePackageItem>();
+  for (const it of delta.items) {
+    const old = before.get(it.meter_id);
+    const next =
+      it.prev_image === undefined
+        ? { ...it, prev_image: old && old.prev_date === it.prev_date ? (old.prev_image ?? null) : null }
+        : it;
+    incoming.set(it.meter_id, next);
+    if (!old) changes.added.push(it.meter_id);
+    else if (!sameItem(old, next)) changes.changed.push(it.meter_id);
   }
 
-  // Preferred format
-  const pkg: OfflinePackage | null =
-    data?.package ?? data?.data?.package ?? data?.data ?? null;
+  const gone = new Set(
+    delta.delta
+      ? delta.removed
+      : [...before.keys()].filter((id) => !incoming.has(id)),
+  );
+  changes.removed = [...gone].filter((id) => before.has(id) && !incoming.has(id));
+
+  const items = delta.delta
+    ? [
+        ...(current?.items ?? [])
+          .filter((it) => !gone.has(it.meter_id) || incoming.has(it.meter_id))
+          .map((it) => incoming.get(it.meter_id) ?? it),
+        ...delta.items
+          .filter((it) => !before.has(it.meter_id))
+          .map((it) => incoming.get(it.meter_id)!),
+      ]
+    : [...incoming.values()];
 
-  if (pkg && Array.isArray(pkg.items)) {
-    return {
-      generated_at: pkg.generated_at || new Date().toISOString(),
-      device_serial: pkg.device_serial ?? null,
-      device_name: pkg.device_name ?? null,
-      items: pkg.items.map((it: any) => ({
-        meter_id: String(it.meter_id),
-        stall_id: it.stall_id ?? null,
-        meter_number: it.meter_number ?? it.meter_sn ?? null,
-        tenant_name: it.tenant_name ?? null,
-        classification: it.classification ?? normalizeClassification(it.meter_type ?? null),
-        prev_reading: it.prev_reading ?? it.prev_reading_value ?? null,
-        prev_date: it.prev_date ?? it.prev_lastread_date ?? null,
-        prev_image: it.prev_image ?? null,
-        qr: it.qr ? String(it.qr) : String(it.meter_id),
-      })),
-    };
+  return {
+    pkg: {
+      generated_at: delta.generated_at || new Date().toISOString(),
+      device_serial: delta.device_serial || current?.device_serial || null,
+      device_name: delta.device_name || current?.device_name || null,
+      expires_at: delta.expires_at ?? null,
+      signature: delta.signature ?? null,
+      items,
+    },
+    changes,
+  };
+}
+
+/**
+ * Bring the device's package up to date: only what changed since its
+ * `generated_at` is downloaded and merged in. Without a package (or from a
+ * server without delta support) the whole package is fetched.
+ */
+export async function refreshOfflinePackage(
+  api: Api,
+  opts: { deviceToken: string; current: OfflinePackage | null },
+): Promise<{ pkg: OfflinePackage; changes: PackageChanges }> {
+  if (!opts.deviceToken) throw new Error("Missing device token.");
+  if (!opts.current?.generated_at) {
+    const { items, ...pkg } = await api.offlineExport.import(opts.deviceToken);
+    return mergeOfflinePackage(null, { ...pkg, delta: false, items, removed: [] });
   }
+  const delta = await api.offlineExport.importSince(
+    opts.deviceToken,
+    opts.current.generated_at,
+  );
+  return mergeOfflinePackage(opts.current, delta);
+}
 
-  // Legacy format fallback
-  const legacy: LegacyOfflineImportPayload =
-    data?.payload || data?.data || data;
+/* ---------------- export ---------------- */
 
-  if (legacy?.meters && legacy?.stalls && legacy?.tenants) {
-    return legacyToPackage(legacy);
+export type ExportOutcome = "accepted" | "duplicate" | "rejected";
+
+/** The server's verdict on one exported reading. */
+export type OfflineExportResult = {
+  meter_id: string;
+  lastread_date: string;
+  client_reading_id?: string | null;
+  status: ExportOutcome;
+  submission_id?: number | null;
+  /** why it was rejected (or what it duplicates) */
+  error?: string | null;
+};
+
+/** Sent with each batch so the server can log and de-duplicate a resumed export. */
+export type OfflineExportBatch = {
+  export_id: string;
+  index: number;
+  total: number;
+};
+
+const OfflineExportResultSchema = defineSchema("OfflineExportResult", {
+  meter_id: { kind: "string", critical: true },
+  lastread_date: { kind: "string", critical: true, aliases: ["reading_date"] },
+  status: { kind: "string", critical: true, aliases: ["outcome"] },
+  submission_id: { ...optNum, aliases: ["id"] },
+  error: { ...optStr, aliases: ["reason", "message"] },
+  client_reading_id: { ...optStr, aliases: ["client_id", "client_uuid"] },
+});
+
+const OUTCOMES = new Set<string>(["accepted", "duplicate", "rejected"]);
+
+type ExportKeyed = {
+  meter_id: string;
+  lastread_date: string;
+  client_reading_id?: string | null;
+};
+
+/** Identifies a reading across an export: its client id, else meter and day. */
+export const exportKey = (r: ExportKeyed) =>
+  r.client_reading_id || `${r.meter_id}__${String(r.lastread_date).slice(0, 10)}`;
+
+const dayKey = (r: ExportKeyed) => `${r.meter_id}__${String(r.lastread_date).slice(0, 10)}`;
+
+/**
+ * Results of one POST /offlineExport/export batch, declared as
+ * `{ results: [...] }` with one entry per reading. Servers from before
+ * per-reading results answer `{ ok, inserted }` for an all-or-nothing insert,
+ * which means every reading in the batch was accepted. Results are matched
+ * to readings by client_reading_id, or by meter and day for servers that do
+ * not echo it. Readings the server did not report on are left out, so they
+ * are sent again.
+ */
+export function parseExportResults(
+  data: any,
+  sent: ExportKeyed[],
+  endpoint = "/offlineExport/export",
+): OfflineExportResult[] {
+  if (!data || typeof data !== "object" || !("results" in data)) {
+    return sent.map((r) => ({
+      meter_id: r.meter_id,
+      lastread_date: r.lastread_date,
+      client_reading_id: r.client_reading_id ?? null,
+      status: "accepted",
+    }));
+  }
+
+  const rows = parseList<OfflineExportResult>(
+    OfflineExportResultSchema,
+    data,
+    endpoint,
+    ["results"],
+  );
+  const byId = new Map(
+    rows.filter((r) => r.client_reading_id).map((r) => [r.client_reading_id, r]),
+  );
+  const byDay = new Map(rows.filter((r) => !r.client_reading_id).map((r) => [dayKey(r), r]));
+  return sent.flatMap((r) => {
+    const hit =
+      (r.client_reading_id ? byId.get(r.client_reading_id) : undefined) ??
+      byDay.get(dayKey(r));
+    if (!hit) return [];
+    const status = String(hit.status).toLowerCase();
+    return [
+      {
+        meter_id: r.meter_id,
+        lastread_date: r.lastread_date,
+        client_reading_id: r.client_reading_id ?? null,
+        status: OUTCOMES.has(status) ? (status as ExportOutcome) : "rejected",
+        submission_id: toNum(hit.submission_id),
+        error: hit.error ?? null,
+      },
+    ];
+  });
+}
+
+/** Readings per POST; a route of photos is split further by EXPORT_BATCH_BYTES. */
+export const EXPORT_BATCH_SIZE = 20;
+/** Rough cap on one request body (base64 photos dominate it). */
+export const EXPORT_BATCH_BYTES = 1_500_000;
+
+/** Split readings into batches of at most `size` readings and about `maxBytes` of JSON. */
+export function exportBatches<T>(
+  readings: T[],
+  size = EXPORT_BATCH_SIZE,
+  maxBytes = EXPORT_BATCH_BYTES,
+  sizeOf: (r: T) => number = (r) => JSON.stringify(r).length,
+): T[][] {
+  const out: T[][] = [];
+  let batch: T[] = [];
+  let bytes = 0;
+  for (const r of readings) {
+    const n = sizeOf(r);
+    if (batch.length && (batch.length >= size || bytes + n > maxBytes)) {
+      out.push(batch);
+      batch = [];
+      bytes = 0;
+    }
+    batch.push(r);
+    bytes += n;
   }
+  if (batch.length) out.push(batch);
+  return out;
+}
 
-  throw new Error("Import payload invalid: expected {package:{items:[]}} or legacy meters/stalls/tenants.");
+/** Why a reading cannot be sent at all, or null. */
+export function invalidReason(r: OfflineReadingForExport) {
+  if (!r.meter_id) return "The reading has no meter.";
+  if (typeof r.reading_value !== "number" || !Number.isFinite(r.reading_value)) {
+    return "The reading value is not a number.";
+  }
+  if (!r.lastread_date) return "The reading has no date.";
+  return null;
 }
 
 /**
- * EXPORT offline readings to server (READERS ONLY).
+ * EXPORT offline readings to server (READERS ONLY), in batches.
  * Backend endpoint:
  * POST /offlineExport/export
- * body: { device_token, readings: [...] }
+ * body: { device_token, batch: { export_id, index, total }, readings: [...] }
+ *
+ * `onBatch` gets the results of each batch as soon as the server confirms it
+ * and is awaited before the next batch goes out, so the caller can record
+ * them; if the connection drops, everything confirmed so far is kept and the
+ * next export starts with what is still unconfirmed. Readings that cannot be
+ * sent at all are reported first as "rejected" without a request.
  *
- * backend expects reading fields:
- * - meter_id
- * - reading_value
- * - lastread_date
- * - remarks
- * - image (base64 or data URI)
+ * Photos given as `image_uri` are loaded with `readImage` one batch at a
+ * time, so a route of photos is never in memory all at once; `imageBytes`
+ * sizes them for batching without reading them.
  */
-export async function offlineExport(opts: {
-  apiBaseUrl: string;
-  authToken: string;
-  deviceToken: string;
-  readings: OfflineReadingForExport[];
-}) {
+export async function offlineExport(
+  api: Api,
+  opts: {
+    deviceToken: string;
+    readings: OfflineReadingForExport[];
+    batchSize?: number;
+    maxBatchBytes?: number;
+    readImage?: (uri: string) => Promise<string | null>;
+    imageBytes?: (uri: string) => number;
+    onBatch?: (
+      results: OfflineExportResult[],
+      progress: { batch: number; batches: number },
+    ) => Promise<void> | void;
+  },
+): Promise<OfflineExportResult[]> {
   if (!opts.deviceToken) throw new Error("Missing device token.");
-  if (!Array.isArray(opts.readings) || opts.readings.length === 0) {
-    throw new Error("No offline readings to export.");
-  }
 
-  // basic validation
+  const results: OfflineExportResult[] = [];
+  const valid: { reading: OfflineExportReading; image_uri: string | null }[] = [];
   for (const r of opts.readings) {
-    if (!r.meter_id) throw new Error("Export contains a reading with no meter_id.");
-    if (typeof r.reading_value !== "number" || Number.isNaN(r.reading_value)) {
-      throw new Error(`Invalid reading_value for meter ${r.meter_id}.`);
+    const reason = invalidReason(r);
+    if (reason) {
+      results.push({
+        meter_id: String(r.meter_id ?? ""),
+        lastread_date: String(r.lastread_date ?? ""),
+        client_reading_id: r.client_reading_id ?? null,
+        status: "rejected",
+        error: reason,
+      });
+      continue;
     }
-    if (!r.lastread_date) throw new Error(`Missing lastread_date for meter ${r.meter_id}.`);
+    const inline = r.image ?? r.image_base64 ?? null;
+    valid.push({
+      reading: {
+        meter_id: r.meter_id,
+        reading_value: r.reading_value,
+        lastread_date: r.lastread_date,
+        remarks: r.remarks ?? null,
+        override_reason: r.override_reason ?? null,
+        override_flags: r.override_flags ?? null,
+
+        // ✅ backend expects `image`
+        image: inline,
+
+        meter_type: r.meter_type ?? null,
+        tenant_name: r.tenant_name ?? null,
+        client_reading_id: r.client_reading_id ?? null,
+        device_serial: r.device_serial ?? null,
+        reader_user_id: r.reader_user_id ?? null,
+      },
+      image_uri: inline ? null : (r.image_uri ?? null),
+    });
   }
 
-  const payloadReadings = opts.readings.map((r) => ({
-    meter_id: r.meter_id,
-    reading_value: r.reading_value,
-    lastread_date: r.lastread_date,
-    remarks: r.remarks ?? null,
-
-    // ✅ backend expects `image`
-    image: r.image ?? r.image_base64 ?? null,
-
-    meter_type: r.meter_type ?? null,
-    tenant_name: r.tenant_name ?? null,
-  }));
-
-  const res = await fetch(`${opts.apiBaseUrl}/offlineExport/export`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${opts.authToken}`,
-    },
-    body: JSON.stringify({
-      device_token: opts.deviceToken,
-      readings: payloadReadings,
-    }),
-  });
-
-  const data = await parseJsonSafe(res);
-
-  if (!res.ok) {
-    const msg = data?.error || data?.message || `Export failed (${res.status}).`;
-    throw new Error(msg);
+  const batches = exportBatches(
+    valid,
+    opts.batchSize,
+    opts.maxBatchBytes,
+    (v) =>
+      JSON.stringify(v.reading).length +
+      (v.image_uri ? (opts.imageBytes?.(v.image_uri) ?? 0) : 0),
+  );
+  if (results.length) {
+    await opts.onBatch?.([...results], { batch: 0, batches: batches.length });
   }
 
-  return data;
-}
\ No newline at end of file
+  const export_id = `exp-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  for (let i = 0; i < batches.length; i++) {
+    const readings = await Promise.all(
+      batches[i].map(async ({ reading, image_uri }) =>
+        image_uri && opts.readImage
+          ? { ...reading, image: await opts.readImage(image_uri) }
+          : reading,
+      ),
+    );
+    const confirmed = await api.offlineExport.export(opts.deviceToken, readings, {
+      export_id,
+      index: i,
+      total: batches.length,
+    });
+    results.push(...confirmed);
+    await opts.onBatch?.(confirmed, { batch: i + 1, batches: batches.length });
+  }
+  return results;
+}
@@ -0,0 +1,175 @@
+// services/packageIntegrity.ts
+// Checks that an offline package is fit to read against.
+//
+// The server signs each package it hands to a reader device: an HMAC-SHA256,
+// keyed with that device's token, over the device serial, the package
+// timestamps and the billing-relevant fields of every item (see
+// packageDigestInput). The app checks the signature, the expiry and the
+// device serial when a package is imported and again before each reading is
+// saved against it, so previous readings that were edited, are out of date
+// or belong to another device never reach billing. Packages from servers
+// that do not sign them are still usable, with a warning, until the device
+// knows its server signs packages (localStore.packageSigning: the server said
+// so at device resolve, or a signed package was stored); from then on an
+// unsigned package is refused, so stripping the signature does not get an
+// edited package past the check. A signed package can only be verified with
+// the device token; without it the package is refused too.
+
+import type { OfflinePackage } from "./offlineSync";
+import { hmacSha256, toHex, utf8Encode } from "./sha256";
+
+/** How long an unsigned package without `expires_at` is trusted. */
+export const PACKAGE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type PackageCheckStatus =
+  | "ok"
+  /** the server sent no signature (older server) */
+  | "unsigned"
+  /** signed, but there is no device token to check it with */
+  | "unverified"
+  /** no expiry from the server and older than PACKAGE_MAX_AGE_MS */
+  | "stale"
+  | "expired"
+  /** the content does not match its signature */
+  | "tampered"
+  /** generated for another device serial */
+  | "wrong_device";
+
+export type PackageCheck = {
+  status: PackageCheckStatus;
+  /** the package must not be read against */
+  block: boolean;
+  message: string;
+};
+
+/**
+ * The exact string the signature covers. Items are sorted by meter_id and
+ * reduced to the fields billing depends on, so item order and extra display
+ * fields do not matter.
+ */
+export function packageDigestInput(pkg: {
+  device_serial?: string | null;
+  generated_at: string;
+  expires_at?: string | null;
+  items: {
+    meter_id: string;
+    prev_reading?: number | string | null;
+    prev_date?: string | null;
+    prev2_reading?: number | string | null;
+    prev2_date?: string | null;
+  }[];
+}) {
+  const num = (v: unknown) =>
+    v == null || v === "" || !Number.isFinite(Number(v)) ? null : Number(v);
+  const day = (v: unknown) => (v == null || v === "" ? null : String(v).slice(0, 10));
+  const items = [...pkg.items]
+    .sort((a, b) => String(a.meter_id).localeCompare(String(b.meter_id)))
+    .map((it) => [
+      String(it.meter_id),
+      num(it.prev_reading),
+      day(it.prev_date),
+      num(it.prev2_reading),
+      day(it.prev2_date),
+    ]);
+  return JSON.stringify([
+    String(pkg.device_serial ?? "").toUpperCase(),
+    pkg.generated_at,
+    pkg.expires_at ?? null,
+    items,
+  ]);
+}
+
+/** Signature of a package for the device holding `deviceToken`. */
+export function signPackage(pkg: Parameters<typeof packageDigestInput>[0], deviceToken: string) {
+  return toHex(hmacSha256(utf8Encode(deviceToken), utf8Encode(packageDigestInput(pkg))));
+}
+
+/* ---------------- checks ---------------- */
+
+const fmt = (iso: string) => {
+  const t = Date.parse(iso);
+  return Number.isFinite(t) ? new Date(t).toLocaleString() : iso;
+};
+
+/**
+ * Whether `pkg` may be read against on this device. Checked in order of
+ * severity: another device's package, then tampering (or a package that
+ * cannot be verified), then expiry.
+ */
+export function checkPackage(
+  pkg: OfflinePackage,
+  device: {
+    serial: string;
+    token: string | null | undefined;
+    /** the server is known to sign its packages */
+    signsPackages?: boolean;
+  },
+  now = Date.now(),
+): PackageCheck {
+  const serial = String(device.serial || "").trim().toUpperCase();
+  const owner = String(pkg.device_serial ?? "").trim().toUpperCase();
+  if (owner && serial && owner !== serial) {
+    return {
+      status: "wrong_device",
+      block: true,
+      message: `This package was generated for device ${owner}, not this device (${serial}). Import a new package.`,
+    };
+  }
+
+  if (!pkg.signature && device.signsPackages) {
+    return {
+      status: "unsigned",
+      block: true,
+      message:
+        "The package is not signed although the server signs its packages; it may have been changed. Import a new package.",
+    };
+  }
+
+  if (pkg.signature && !device.token) {
+    return {
+      status: "unverified",
+      block: true,
+      message:
+        "The package signature cannot be checked without this device's token. Sign in as a reader on this device again.",
+    };
+  }
+
+  if (pkg.signature && device.token && signPackage(pkg, device.token) !== pkg.signature) {
+    return {
+      status: "tampered",
+      block: true,
+      message:
+        "The package content does not match its signature; previous readings may have been changed. Import a new package.",
+    };
+  }
+
+  if (pkg.expires_at) {
+    const exp = Date.parse(pkg.expires_at);
+    if (Number.isFinite(exp) && now >= exp) {
+      return {
+        status: "expired",
+        block: true,
+        message: `The package expired on ${fmt(pkg.expires_at)}. Refresh or import a new package.`,
+      };
+    }
+  } else {
+    const gen = Date.parse(pkg.generated_at);
+    if (Number.isFinite(gen) && now - gen > PACKAGE_MAX_AGE_MS) {
+      return {
+        status: "stale",
+        block: false,
+        message: `The package is from ${fmt(pkg.generated_at)}; previous readings may be out of date. Refresh it when you can.`,
+      };
+    }
+  }
+
+  if (!pkg.signature) {
+    return {
+      status: "unsigned",
+      block: false,
+      message: "The server did not sign this package, so it cannot be checked for changes.",
+    };
+  }
+
+  return { status: "ok", block: false, message: "" };
+}
@@ -0,0 +1,221 @@
+// services/readingCheck.ts
+// Plausibility of a meter reading, checked when it is entered.
+//
+// A reading is compared with the previous one and with the consumption of
+// the period before (prev_reading and prev2_reading of the offline package,
+// or the meter's reading history when online), per day so that periods of
+// different length compare fairly. Values that cannot be a reading (not a
+// number, negative) are refused. A reading below the previous one, or a
+// consumption that jumps or falls beyond the utility's thresholds, may still
+// be saved, but only with a reason code; the reason travels with the reading
+// to the server, where approvers and billing see it. Thresholds are a server
+// setting sent with the device resolve (`plausibility`, stored in
+// localStore.plausibilityPolicy); the defaults below apply until then.
+
+export type UtilityThresholds = {
+  /** flag consumption above this many times the previous period's */
+  spike_factor: number;
+  /** flag consumption below this share of the previous period's */
+  drop_factor: number;
+  /** consumption (per period) below which spikes and drops are not flagged */
+  min_consumption: number;
+};
+
+export type PlausibilityPolicy = {
+  default: UtilityThresholds;
+  /** by meter classification ("electric", "water", "lpg", …) */
+  utilities: Record<string, UtilityThresholds>;
+};
+
+export const DEFAULT_PLAUSIBILITY: PlausibilityPolicy = {
+  default: { spike_factor: 3, drop_factor: 0.25, min_consumption: 10 },
+  utilities: {
+    electric: { spike_factor: 3, drop_factor: 0.25, min_consumption: 10 },
+    water: { spike_factor: 3, drop_factor: 0.2, min_consumption: 2 },
+    lpg: { spike_factor: 4, drop_factor: 0.2, min_consumption: 1 },
+  },
+};
+
+function decodeThresholds(raw: any, fallback: UtilityThresholds): UtilityThresholds {
+  const positive = (v: unknown, d: number) =>
+    Number.isFinite(Number(v)) && Number(v) > 0 ? Number(v) : d;
+  const nonNegative = (v: unknown, d: number) =>
+    v != null && v !== "" && Number.isFinite(Number(v)) && Number(v) >= 0 ? Number(v) : d;
+  return {
+    spike_factor: positive(raw?.spike_factor, fallback.spike_factor),
+    drop_factor: nonNegative(raw?.drop_factor, fallback.drop_factor),
+    min_consumption: nonNegative(raw?.min_consumption, fallback.min_consumption),
+  };
+}
+
+/** The server sends `{ default: {...}, electric: {...}, water: {...} }`. */
+export function decodePlausibility(raw: any): PlausibilityPolicy {
+  const src = raw && typeof raw === "object" ? raw : {};
+  const base = decodeThresholds(src.default, DEFAULT_PLAUSIBILITY.default);
+  const utilities: Record<string, UtilityThresholds> = {};
+  const names = new Set([
+    ...Object.keys(DEFAULT_PLAUSIBILITY.utilities),
+    ...Object.keys(src.utilities ?? src),
+  ]);
+  names.delete("default");
+  names.delete("utilities");
+  for (const name of names) {
+    const given = src.utilities?.[name] ?? src[name];
+    const fallback = DEFAULT_PLAUSIBILITY.utilities[name] ?? base;
+    utilities[name.toLowerCase()] = decodeThresholds(given, fallback);
+  }
+  return { default: base, utilities };
+}
+
+export const thresholdsFor = (policy: PlausibilityPolicy, utility?: string | null) =>
+  policy.utilities[String(utility ?? "").trim().toLowerCase()] ?? policy.default;
+
+/* ---------------- override reasons ---------------- */
+
+export const OVERRIDE_REASONS = [
+  { code: "meter_replaced", label: "Meter replaced" },
+  { code: "meter_rollover", label: "Meter rolled over" },
+  { code: "previous_misread", label: "Previous reading was wrong" },
+  { code: "usage_changed", label: "Tenant's usage changed" },
+  { code: "vacant", label: "Stall vacant or closed" },
+  { code: "leak_or_fault", label: "Leak or fault found" },
+  { code: "other", label: "Other (explain in remarks)" },
+] as const;
+
+export type OverrideReason = (typeof OVERRIDE_REASONS)[number]["code"];
+
+export const reasonLabel = (code: string | null | undefined) =>
+  OVERRIDE_REASONS.find((r) => r.code === code)?.label ?? (code || "");
+
+/* ---------------- the check ---------------- */
+
+/** What is known of the meter before this reading. */
+export type ReadingHistory = {
+  prev_reading?: number | null;
+  prev_date?: string | null;
+  /** the reading before prev_reading, for the previous period's consumption */
+  prev2_reading?: number | null;
+  prev2_date?: string | null;
+};
+
+export type PlausibilityFlag =
+  | "invalid"
+  | "negative"
+  | "below_previous"
+  | "spike"
+  | "drop";
+
+export type PlausibilityIssue = { flag: PlausibilityFlag; message: string };
+
+export type ReadingCheck = {
+  /** "block": cannot be saved; "override": needs a reason code */
+  status: "ok" | "override" | "block";
+  issues: PlausibilityIssue[];
+  /** flags of the issues that need a reason, as stored with the reading */
+  flags: PlausibilityFlag[];
+  consumption: number | null;
+};
+
+const FLAG_LABELS: Record<PlausibilityFlag, string> = {
+  invalid: "not a number",
+  negative: "negative",
+  below_previous: "below previous",
+  spike: "spike",
+  drop: "drop",
+};
+
+export const flagLabel = (flag: string) => FLAG_LABELS[flag as PlausibilityFlag] ?? flag;
+
+const dayOf = (d?: string | null) => {
+  const t = Date.parse(String(d ?? "").slice(0, 10));
+  return Number.isFinite(t) ? t / 86400000 : null;
+};
+
+const fmt = (n: number) => Number(n.toFixed(2)).toLocaleString();
+
+export function checkReading(
+  value: number,
+  date: string | null | undefined,
+  history: ReadingHistory,
+  thresholds: UtilityThresholds,
+): ReadingCheck {
+  const issues: PlausibilityIssue[] = [];
+  const done = (consumption: number | null): ReadingCheck => {
+    const blocked = issues.some((i) => i.flag === "invalid" || i.flag === "negative");
+    const flags = issues.map((i) => i.flag);
+    return {
+      status: blocked ? "block" : flags.length ? "override" : "ok",
+      issues,
+      flags: blocked ? [] : flags,
+      consumption,
+    };
+  };
+
+  if (!Number.isFinite(value)) {
+    issues.push({ flag: "invalid", message: "Reading must be a number." });
+    return done(null);
+  }
+  if (value < 0) {
+    issues.push({ flag: "negative", message: "A meter reading cannot be negative." });
+    return done(null);
+  }
+
+  const prev = history.prev_reading;
+  if (prev == null || !Number.isFinite(Number(prev))) return done(null);
+  const consumption = value - Number(prev);
+  if (consumption < 0) {
+    issues.push({
+      flag: "below_previous",
+      message: `Lower than the previous reading (${fmt(Number(prev))}).`,
+    });
+    return done(consumption);
+  }
+
+  const prev2 = history.prev2_reading;
+  if (prev2 == null || !Number.isFinite(Number(prev2)) || Number(prev2) > Number(prev)) {
+    return done(consumption);
+  }
+  const prevConsumption = Number(prev) - Number(prev2);
+
+  // per day when all three dates are known, per period otherwise
+  const [d0, d1, d2] = [dayOf(history.prev2_date), dayOf(history.prev_date), dayOf(date)];
+  const perDay = d0 != null && d1 != null && d2 != null && d1 > d0 && d2 > d1;
+  const rate = perDay ? consumption / (d2! - d1!) : consumption;
+  const prevRate = perDay ? prevConsumption / (d1! - d0!) : prevConsumption;
+
+  if (consumption >= thresholds.min_consumption && rate > prevRate * thresholds.spike_factor) {
+    issues.push({
+      flag: "spike",
+      message: prevRate
+        ? `Consumption ${fmt(consumption)} is ${fmt(rate / prevRate)}× the previous period's` +
+          ` (${fmt(prevConsumption)}).`
+        : `Consumption ${fmt(consumption)} after a period without any.`,
+    });
+  } else if (
+    prevConsumption >= thresholds.min_consumption &&
+    rate < prevRate * thresholds.drop_factor
+  ) {
+    issues.push({
+      flag: "drop",
+      message:
+        `Consumption ${fmt(consumption)} is far below the previous period's` +
+        ` (${fmt(prevConsumption)}).`,
+    });
+  }
+  return done(consumption);
+}
+
+/** Why a reading with this check, reason and remarks cannot be saved yet; null when it can. */
+export function overrideProblem(
+  check: ReadingCheck,
+  reason: string | null | undefined,
+  remarks: string | null | undefined,
+): string | null {
+  if (check.status === "block") return check.issues.map((i) => i.message).join("\n");
+  if (check.status === "ok") return null;
+  if (!reason) return "Choose a reason for saving this reading anyway.";
+  if (reason === "other" && !String(remarks ?? "").trim()) {
+    return "Explain the reason in the remarks.";
+  }
+  return null;
+}
@@ -0,0 +1,178 @@
+// services/readingPhoto.ts
+// Photos taken with a reading, sized for the server.
+//
+// The server takes a reading photo as base64 up to MAX_IMAGE_BYTES. Photos
+// from the camera or library are scaled down and recompressed until they
+// fit: with expo-image-manipulator on a device, on a canvas on web. Used by
+// MeterReadingPanel and the reader's route card.
+
+import * as ImageManipulator from "expo-image-manipulator";
+import * as ImagePicker from "expo-image-picker";
+import { Platform } from "react-native";
+
+export const MAX_IMAGE_BYTES = 400 * 1024;
+export function base64Bytes(b64: string): number {
+  const len = (b64 || "").replace(/[^A-Za-z0-9+/=]/g, "").length;
+  if (!len) return 0;
+  const padding = b64.endsWith("==") ? 2 : b64.endsWith("=") ? 1 : 0;
+  return Math.floor((len * 3) / 4) - padding;
+}
+export function asBase64(raw: string): string {
+  const s = (raw || "").trim();
+  if (!s) return "";
+  if (s.startsWith("data:")) {
+    const i = s.indexOf(",");
+    return i >= 0 ? s.slice(i + 1) : "";
+  }
+  return s;
+}
+export function asDataUrl(raw: string, mime = "image/jpeg"): string {
+  const s = (raw || "").trim();
+  return s.startsWith("data:") ? s : `data:${mime};base64,${s}`;
+}
+async function compressDataUrlWeb(
+  dataUrl: string,
+  maxDim = 1024,
+  quality = 0.7,
+): Promise<string> {
+  if (
+    Platform.OS !== "web" ||
+    typeof document === "undefined" ||
+    !(globalThis as any).Image
+  ) {
+    return Promise.resolve(dataUrl.split(",")[1] || "");
+  }
+  return new Promise((resolve) => {
+    try {
+      const ImgCtor: any = (globalThis as any).Image;
+      const img: any = new ImgCtor();
+      img.onload = () => {
+        let tw = img.naturalWidth || img.width;
+        let th = img.naturalHeight || img.height;
+        if (Math.max(tw, th) > maxDim) {
+          if (tw >= th) {
+            th = Math.round((th / tw) * maxDim);
+            tw = maxDim;
+          } else {
+            tw = Math.round((tw / th) * maxDim);
+            th = maxDim;
+          }
+        }
+        const canvas: any = (document as any).createElement("canvas");
+        canvas.width = Math.max(1, tw);
+        canvas.height = Math.max(1, th);
+        const ctx: any = canvas.getContext("2d");
+        if (!ctx) return resolve(dataUrl.split(",")[1] || "");
+        ctx.drawImage(img, 0, 0, tw, th);
+        const out: string = canvas.toDataURL("image/jpeg", quality);
+        resolve(out.split(",")[1] || "");
+      };
+      img.onerror = () => resolve(dataUrl.split(",")[1] || "");
+      img.src = dataUrl;
+    } catch {
+      resolve(dataUrl.split(",")[1] || "");
+    }
+  });
+}
+export async function ensureSizedBase64(
+  input: string,
+  mime = "image/jpeg",
+): Promise<string> {
+  const raw = asBase64(input);
+  if (Platform.OS !== "web") {
+    if (base64Bytes(raw) > MAX_IMAGE_BYTES) {
+      throw new Error(
+        `Image is too large (${(base64Bytes(raw) / 1024).toFixed(0)} KB). Please pick a smaller image.`,
+      );
+    }
+    return raw;
+  }
+  if (base64Bytes(raw) <= MAX_IMAGE_BYTES) return raw;
+  const c1 = await compressDataUrlWeb(asDataUrl(raw, mime), 1024, 0.7);
+  if (base64Bytes(c1) <= MAX_IMAGE_BYTES) return c1;
+  const c2 = await compressDataUrlWeb(asDataUrl(c1, mime), 900, 0.6);
+  if (base64Bytes(c2) <= MAX_IMAGE_BYTES) return c2;
+  throw new Error(
+    `Image is still too large (${(base64Bytes(c2) / 1024).toFixed(0)} KB). Please choose a smaller image.`,
+  );
+}
+
+export async function compressUriToSizedBase64Native(uri: string): Promise<string> {
+  const widths = [1600, 1400, 1280, 1152, 1024, 900, 800, 720, 640];
+  const qualities = [0.85, 0.78, 0.72, 0.66, 0.60, 0.54, 0.48, 0.42, 0.36];
+
+  let currentUri = uri;
+
+  for (let i = 0; i < widths.length; i++) {
+    const width = widths[i];
+    const compress = qualities[i];
+
+    const result = await ImageManipulator.manipulateAsync(
+      currentUri,
+      [{ resize: { width } }],
+      {
+        compress,
+        format: ImageManipulator.SaveFormat.JPEG,
+        base64: true,
+      }
+    );
+
+    const b64 = (result.base64 || "").trim();
+    if (b64 && base64Bytes(b64) <= MAX_IMAGE_BYTES) {
+      return b64;
+    }
+    currentUri = result.uri;
+  }
+
+  const last = await ImageManipulator.manipulateAsync(
+    currentUri,
+    [],
+    { compress: 0.30, format: ImageManipulator.SaveFormat.JPEG, base64: true }
+  );
+
+  const lastB64 = (last.base64 || "").trim();
+  if (lastB64 && base64Bytes(lastB64) <= MAX_IMAGE_BYTES) return lastB64;
+
+  throw new Error(
+    `Image is still too large (${Math.round(base64Bytes(lastB64) / 1024)} KB). Try a closer photo or lower resolution image.`
+  );
+}
+
+/** Pick an image file in the browser, as a data URL; null if cancelled. */
+function pickImageWeb(): Promise<string | null> {
+  if (typeof document === "undefined") return Promise.resolve(null);
+  return new Promise((resolve, reject) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = "image/*";
+    input.setAttribute("capture", "environment");
+    input.onchange = () => {
+      const picked = input.files?.[0];
+      if (!picked) return resolve(null);
+      const reader = new FileReader();
+      reader.onload = () => resolve(String(reader.result || ""));
+      reader.onerror = () => reject(new Error("Unable to read the photo."));
+      reader.readAsDataURL(picked);
+    };
+    input.oncancel = () => resolve(null);
+    input.click();
+  });
+}
+
+/**
+ * Take a photo of the meter and return it as base64 that fits
+ * MAX_IMAGE_BYTES; null when the reader cancels.
+ */
+export async function captureReadingPhoto(): Promise<string | null> {
+  if (Platform.OS === "web") {
+    const dataUrl = await pickImageWeb();
+    return dataUrl ? ensureSizedBase64(dataUrl) : null;
+  }
+  const perm = await ImagePicker.requestCameraPermissionsAsync();
+  if (!perm.granted) throw new Error("Please allow camera access.");
+  const res = await ImagePicker.launchCameraAsync({ quality: 0.6, base64: false });
+  if (res.canceled) return null;
+  const uri = res.assets?.[0]?.uri;
+  if (!uri) throw new Error("No photo captured.");
+  return compressUriToSizedBase64Native(uri);
+}
@@ -0,0 +1,78 @@
+// services/readingRoute.ts
+// The reader's walking route through a building, built on the offline package.
+//
+// Meters are visited building by building, floor by floor and stall by stall
+// (natural order, so stall A-10 comes after A-9). A meter counts as read for
+// the day once a reading for today is queued on the device or on the server;
+// meters the reader skips are remembered for the day (localStore.routeProgress)
+// so they stay listed until they are read, also across restarts.
+
+import { RouteProgress, localStore } from "./localStore";
+import type { OfflinePackageItem } from "./offlineSync";
+
+const natural = (a: unknown, b: unknown) =>
+  String(a ?? "").localeCompare(String(b ?? ""), undefined, { numeric: true });
+
+/** Package items in walking order. */
+export function orderRoute(items: OfflinePackageItem[]): OfflinePackageItem[] {
+  return [...items].sort(
+    (a, b) =>
+      natural(a.building_id, b.building_id) ||
+      // meters without a floor go last in their building
+      (a.floor == null ? 1 : 0) - (b.floor == null ? 1 : 0) ||
+      natural(a.floor, b.floor) ||
+      natural(a.stall_sn ?? a.stall_id, b.stall_sn ?? b.stall_id) ||
+      natural(a.meter_id, b.meter_id),
+  );
+}
+
+export type RoutePlan = {
+  /** all meters, in walking order */
+  stops: OfflinePackageItem[];
+  /** the first meter that is neither read nor skipped; null at the end */
+  next: OfflinePackageItem | null;
+  /** skipped and still unread, in walking order */
+  skipped: OfflinePackageItem[];
+  read: number;
+  total: number;
+};
+
+export function planRoute(
+  items: OfflinePackageItem[],
+  readToday: ReadonlySet<string>,
+  skippedIds: readonly string[],
+): RoutePlan {
+  const stops = orderRoute(items);
+  const skippedSet = new Set(skippedIds);
+  const open = stops.filter((it) => !readToday.has(it.meter_id));
+  return {
+    stops,
+    next: open.find((it) => !skippedSet.has(it.meter_id)) ?? null,
+    skipped: open.filter((it) => skippedSet.has(it.meter_id)),
+    read: stops.length - open.length,
+    total: stops.length,
+  };
+}
+
+/** Where a meter is, for the route card ("Bldg B · Floor 2 · Stall B-06"). */
+export function stopLocation(it: OfflinePackageItem) {
+  return [
+    it.building_id ? `Bldg ${it.building_id}` : "",
+    it.floor != null && it.floor !== "" ? `Floor ${it.floor}` : "",
+    it.stall_sn || it.stall_id ? `Stall ${it.stall_sn || it.stall_id}` : "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/* ---------------- skipped meters of the day ---------------- */
+
+export async function loadSkipped(date: string): Promise<string[]> {
+  const progress = await localStore.routeProgress.get();
+  return progress?.date === date ? progress.skipped : [];
+}
+
+export async function saveSkipped(date: string, skipped: string[]) {
+  const progress: RouteProgress = { date, skipped: Array.from(new Set(skipped)) };
+  await localStore.routeProgress.set(progress);
+}
@@ -0,0 +1,123 @@
+// services/refCache.ts
+// Shared, persisted cache of reference data (buildings, stalls, meters,
+// tenants) with stale-while-revalidate.
+//
+// readReference() answers from the last known copy straight away and, when
+// that copy is stale, refreshes it in the background and hands the new rows to
+// `onFresh`. Only a cold cache waits for the network. Mutations made through
+// createApi() invalidate the affected lists, so the next panel to read them
+// shows the old copy for a moment and then the server's.
+//
+// Entries are scoped to the active server profile and cleared on logout.
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { Api, Building, Meter, Stall, Tenant } from "./api";
+import { getActiveProfile } from "./serverProfiles";
+
+export type RefKey = "buildings" | "stalls" | "meters" | "tenants";
+
+type RefRows = {
+  buildings: Building[];
+  stalls: Stall[];
+  meters: Meter[];
+  tenants: Tenant[];
+};
+
+type Entry = { rows: any[]; fetched_at: number; stale?: boolean };
+
+/** A copy younger than this is served without asking the server. */
+const FRESH_MS = 60 * 1000;
+
+const KEY_PREFIX = "ref_cache_v1";
+
+const ALL_KEYS: RefKey[] = ["buildings", "stalls", "meters", "tenants"];
+
+const mem = new Map<string, Entry>();
+const hydrated = new Set<string>();
+const inflight = new Map<string, { gen: number; p: Promise<any[]> }>();
+/** bumped on invalidation, so a fetch that started earlier is not cached */
+const generation = new Map<string, number>();
+
+const scoped = (key: RefKey) => `${KEY_PREFIX}:${getActiveProfile().id}:${key}`;
+
+const fetchers: { [K in RefKey]: (api: Api) => Promise<RefRows[K]> } = {
+  buildings: (api) => api.buildings.list(),
+  stalls: (api) => api.stalls.list(),
+  meters: (api) => api.meters.list(),
+  tenants: (api) => api.tenants.list(),
+};
+
+async function hydrate(id: string) {
+  if (hydrated.has(id)) return;
+  hydrated.add(id);
+  try {
+    const raw = await AsyncStorage.getItem(id);
+    const saved = raw ? (JSON.parse(raw) as Entry) : null;
+    if (saved && Array.isArray(saved.rows) && !mem.has(id)) mem.set(id, saved);
+  } catch {}
+}
+
+function revalidate<K extends RefKey>(api: Api, key: K, id: string): Promise<RefRows[K]> {
+  const gen = generation.get(id) ?? 0;
+  const running = inflight.get(id);
+  if (running && running.gen === gen) return running.p as Promise<RefRows[K]>;
+
+  const p = fetchers[key](api)
+    .then((rows) => {
+      const entry: Entry = { rows: rows || [], fetched_at: Date.now() };
+      if ((generation.get(id) ?? 0) !== gen) return entry.rows as RefRows[K];
+      mem.set(id, entry);
+      AsyncStorage.setItem(id, JSON.stringify(entry)).catch(() => {});
+      return entry.rows as RefRows[K];
+    })
+    .finally(() => {
+      if (inflight.get(id)?.p === p) inflight.delete(id);
+    });
+  inflight.set(id, { gen, p });
+  return p;
+}
+
+/**
+ * Rows for `key`: cached if there are any, otherwise from the server. A stale
+ * copy is refreshed in the background and the result passed to `onFresh`.
+ */
+export async function readReference<K extends RefKey>(
+  api: Api,
+  key: K,
+  onFresh?: (rows: RefRows[K]) => void,
+): Promise<RefRows[K]> {
+  const id = scoped(key);
+  await hydrate(id);
+
+  const cached = mem.get(id);
+  if (!cached) return revalidate(api, key, id);
+
+  if (cached.stale || Date.now() - cached.fetched_at > FRESH_MS) {
+    revalidate(api, key, id)
+      .then((rows) => onFresh?.(rows))
+      .catch((e) => console.warn(`Background refresh of ${key} failed:`, e?.message ?? e));
+  }
+  return cached.rows as RefRows[K];
+}
+
+/** Mark lists as out of date; the next read serves them once and refreshes. */
+export function invalidateReference(...keys: RefKey[]) {
+  for (const key of keys.length ? keys : ALL_KEYS) {
+    const id = scoped(key);
+    generation.set(id, (generation.get(id) ?? 0) + 1);
+    const entry = mem.get(id);
+    if (entry) entry.stale = true;
+    // a copy still on disk predates this change; don't serve it as fresh
+    else hydrated.add(id);
+  }
+}
+
+/** Drop every cached list, in memory and on disk (on logout). */
+export async function clearReferenceCache() {
+  invalidateReference();
+  mem.clear();
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter((k) => k.startsWith(`${KEY_PREFIX}:`)));
+  } catch {}
+}
@@ -0,0 +1,146 @@
+// services/scanPhotos.ts
+// Photos of queued offline readings, kept as files.
+//
+// A queued scan only holds a reference (`photo_uri`) to a JPEG under the
+// app's document directory, so writing the scan list stays small however
+// many photos the route has. The file is read back as base64 only while its
+// export batch is being sent, and deleted once the server has confirmed the
+// reading. On web there is no app file storage; photos stay inline in the
+// scan there, as before.
+//
+// Once the device has a storage key the files are sealed with it like the
+// scan list itself (see services/vault): the file holds the sealed base64,
+// and without the key it reads as gone. Files written before there was a
+// key are sealed in place when one is set, so their uris stay valid; plain
+// and sealed files are told apart by their first bytes.
+
+import { Directory, File, Paths } from "expo-file-system";
+import { Platform } from "react-native";
+import { currentStorageKey, isSealed, seal, unseal } from "./vault";
+
+/** Whether photos are written to files on this platform. */
+export const photosOnDisk = Platform.OS !== "web";
+
+const DIR_NAME = "scan_photos";
+
+const photoDir = () => new Directory(Paths.document, DIR_NAME);
+
+const stripDataUrl = (s: string) => {
+  const t = (s || "").trim();
+  if (!t.startsWith("data:")) return t;
+  const i = t.indexOf(",");
+  return i >= 0 ? t.slice(i + 1) : "";
+};
+
+function isSealedFile(file: File) {
+  const handle = file.open();
+  try {
+    return isSealed(String.fromCharCode(...handle.readBytes(16)));
+  } finally {
+    handle.close();
+  }
+}
+
+/**
+ * Write a photo (base64 or data URL) for the reading `id`; returns its uri,
+ * or null when photos are not kept on disk here or the write failed (the
+ * caller then keeps the base64 inline).
+ */
+export async function savePhoto(id: string, base64: string): Promise<string | null> {
+  const data = stripDataUrl(base64);
+  if (!photosOnDisk || !data) return null;
+  try {
+    const key = await currentStorageKey();
+    const dir = photoDir();
+    if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+    const name = id.replace(/[^A-Za-z0-9_-]/g, "_");
+    const file = new File(dir, `${name}.${key ? "sealed" : "jpg"}`);
+    if (key) file.write(seal(key, data));
+    else file.write(data, { encoding: "base64" });
+    return file.uri;
+  } catch (e) {
+    console.warn("Could not save reading photo", e);
+    return null;
+  }
+}
+
+/** The photo as base64, or null if the file is gone or sealed with another key. */
+export async function readPhoto(uri: string): Promise<string | null> {
+  try {
+    const file = new File(uri);
+    if (!file.exists) return null;
+    if (!isSealedFile(file)) return await file.base64();
+    const key = await currentStorageKey();
+    return key ? unseal(key, await file.text()) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Size of the photo as base64, for sizing export batches; 0 if unknown. */
+export function photoBytes(uri: string): number {
+  try {
+    const file = new File(uri);
+    if (!file.exists) return 0;
+    // a sealed file already holds the photo as (sealed) base64 text
+    return isSealedFile(file) ? Math.ceil((file.size * 3) / 4) : Math.ceil((file.size / 3) * 4);
+  } catch {
+    return 0;
+  }
+}
+
+/** Bytes the given photo files take on disk. */
+export function photoStorageBytes(uris: Iterable<string | null | undefined>): number {
+  let total = 0;
+  for (const uri of uris) {
+    if (!uri) continue;
+    try {
+      const file = new File(uri);
+      if (file.exists) total += file.size;
+    } catch {
+      // gone; takes no space
+    }
+  }
+  return total;
+}
+
+export function deletePhoto(uri: string | null | undefined) {
+  if (!uri) return;
+  try {
+    const file = new File(uri);
+    if (file.exists) file.delete();
+  } catch {
+    // a leftover file is removed by prunePhotos
+  }
+}
+
+/** Seal the photo files written while the device had no storage key. */
+export function sealPhotos(key: string) {
+  if (!photosOnDisk) return;
+  try {
+    const dir = photoDir();
+    if (!dir.exists) return;
+    for (const entry of dir.list()) {
+      if (entry instanceof File && !isSealedFile(entry)) {
+        entry.write(seal(key, entry.base64Sync()));
+      }
+    }
+  } catch (e) {
+    console.warn("Could not seal reading photos", e);
+  }
+}
+
+/** Delete photo files no scan refers to any more (e.g. after the list was cleared). */
+export function prunePhotos(keep: Iterable<string | null | undefined>) {
+  if (!photosOnDisk) return;
+  try {
+    const dir = photoDir();
+    if (!dir.exists) return;
+    const wanted = new Set(Array.from(keep).filter(Boolean) as string[]);
+    for (const entry of dir.list()) {
+      if (entry instanceof File && !wanted.has(entry.uri)) entry.delete();
+    }
+  } catch (e) {
+    console.warn("Could not prune reading photos", e);
+  }
+}
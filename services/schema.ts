@@ -0,0 +1,344 @@
+// services/schema.ts
+// Small runtime schema checker for server responses.
+//
+// Every response the app depends on is declared once (see apiSchemas.ts and
+// offlineSync.ts) and checked when it arrives. Anything that does not match —
+// a missing field, a field that only exists under an old name, a value of the
+// wrong type, a list wrapped in an unexpected envelope — is recorded in the
+// drift report instead of being silently papered over. Fields marked
+// `critical` also throw a SchemaError so the screen can say what is wrong.
+
+export type FieldKind =
+  | "string"
+  | "number"
+  | "boolean"
+  | "array"
+  | "object"
+  | "any";
+
+export type FieldSpec = {
+  kind: FieldKind | FieldKind[];
+  optional?: boolean;
+  nullable?: boolean;
+  /** older names the server has used for this field */
+  aliases?: string[];
+  /** rebuild the field from legacy fields when neither name is present */
+  derive?: (raw: any) => unknown;
+  /** a mismatch here makes the whole response unusable */
+  critical?: boolean;
+  /** nested object schema */
+  shape?: Schema;
+  /** schema for each element of an array field */
+  items?: Schema;
+};
+
+export type Schema = { name: string; fields: Record<string, FieldSpec> };
+
+export function defineSchema(
+  name: string,
+  fields: Record<string, FieldSpec>,
+): Schema {
+  return { name, fields };
+}
+
+/* ---------------- drift report ---------------- */
+
+export type DriftProblem = "missing" | "renamed" | "wrong_type" | "wrong_shape";
+
+export type DriftIssue = {
+  key: string;
+  schema: string;
+  endpoint: string;
+  field: string;
+  problem: DriftProblem;
+  detail: string;
+  critical: boolean;
+  count: number;
+  first_seen: string;
+  last_seen: string;
+};
+
+const report = new Map<string, DriftIssue>();
+const listeners = new Set<() => void>();
+
+export function recordDrift(
+  issue: Omit<DriftIssue, "key" | "count" | "first_seen" | "last_seen">,
+): DriftIssue {
+  const key = `${issue.schema}|${issue.endpoint}|${issue.field}|${issue.problem}`;
+  const now = new Date().toISOString();
+  const prev = report.get(key);
+  const next: DriftIssue = prev
+    ? { ...prev, detail: issue.detail, count: prev.count + 1, last_seen: now }
+    : { ...issue, key, count: 1, first_seen: now, last_seen: now };
+  report.set(key, next);
+
+  if (!prev && typeof __DEV__ !== "undefined" && __DEV__) {
+    console.warn(
+      `[schema drift] ${issue.schema} ${issue.endpoint} → ${issue.field}: ${issue.detail}`,
+    );
+  }
+  listeners.forEach((fn) => fn());
+  return next;
+}
+
+export function getDriftReport(): DriftIssue[] {
+  return Array.from(report.values()).sort((a, b) =>
+    b.last_seen.localeCompare(a.last_seen),
+  );
+}
+
+export function clearDriftReport() {
+  report.clear();
+  listeners.forEach((fn) => fn());
+}
+
+export function subscribeDrift(fn: () => void) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+/** Plain-text version of the report, for pasting into a bug ticket. */
+export function formatDriftReport(issues = getDriftReport()) {
+  if (!issues.length) return "No schema drift recorded.";
+  return issues
+    .map(
+      (i) =>
+        `${i.critical ? "!" : "-"} [${i.schema}] ${i.endpoint} ${i.field} (${i.problem} ×${i.count}): ${i.detail}`,
+    )
+    .join("\n");
+}
+
+export class SchemaError extends Error {
+  schema: string;
+  endpoint: string;
+  issues: DriftIssue[];
+
+  constructor(schema: string, endpoint: string, issues: DriftIssue[]) {
+    super(
+      [
+        `The server response for ${schema} (${endpoint}) is not in the expected format:`,
+        ...issues.map((i) => `• ${i.field}: ${i.detail}`),
+      ].join("\n"),
+    );
+    this.name = "SchemaError";
+    this.schema = schema;
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+/* ---------------- checking ---------------- */
+
+const typeOf = (v: unknown) =>
+  v === null ? "null" : Array.isArray(v) ? "array" : typeof v;
+
+const kindsOf = (spec: FieldSpec) =>
+  Array.isArray(spec.kind) ? spec.kind : [spec.kind];
+
+function checkObject(
+  schema: Schema,
+  raw: any,
+  endpoint: string,
+  prefix: string,
+  failures: DriftIssue[],
+): any {
+  const note = (
+    field: string,
+    problem: DriftProblem,
+    detail: string,
+    critical = false,
+  ) => {
+    const issue = recordDrift({
+      schema: schema.name,
+      endpoint,
+      field,
+      problem,
+      detail,
+      critical,
+    });
+    if (critical) failures.push(issue);
+  };
+
+  if (typeOf(raw) !== "object") {
+    note(prefix || "(root)", "wrong_shape", `expected an object, got ${typeOf(raw)}`, true);
+    return raw;
+  }
+
+  const out: any = { ...raw };
+  for (const [name, spec] of Object.entries(schema.fields)) {
+    const path = prefix ? `${prefix}.${name}` : name;
+    let value = raw[name];
+
+    if (value === undefined) {
+      const alias = spec.aliases?.find((a) => raw[a] !== undefined);
+      if (alias) {
+        value = raw[alias];
+        note(path, "renamed", `found under "${alias}"`);
+      } else if (spec.derive) {
+        value = spec.derive(raw);
+        if (value !== undefined)
+          note(path, "renamed", "rebuilt from legacy fields");
+      }
+      if (value !== undefined) out[name] = value;
+    }
+
+    if (value === undefined) {
+      if (!spec.optional) note(path, "missing", "field is missing", spec.critical);
+      continue;
+    }
+    if (value === null) {
+      if (!spec.nullable)
+        note(path, "wrong_type", `expected ${kindsOf(spec).join("|")}, got null`, spec.critical);
+      continue;
+    }
+
+    const kinds = kindsOf(spec);
+    const actual = typeOf(value);
+    if (!kinds.includes("any") && !kinds.includes(actual as FieldKind)) {
+      note(path, "wrong_type", `expected ${kinds.join("|")}, got ${actual}`, spec.critical);
+      continue;
+    }
+
+    if (spec.shape && actual === "object") {
+      out[name] = checkObject(spec.shape, value, endpoint, path, failures);
+    } else if (spec.items && actual === "array") {
+      out[name] = (value as any[]).map((v) =>
+        checkObject(spec.items!, v, endpoint, `${path}[]`, failures),
+      );
+    }
+  }
+  return out;
+}
+
+/** Envelopes some servers wrap lists in; reaching for one counts as drift. */
+const LIST_ENVELOPES = ["rows", "data", "items", "result"];
+
+function unwrapList(
+  schema: Schema,
+  raw: any,
+  endpoint: string,
+  envelopes: string[],
+): any[] | null {
+  if (Array.isArray(raw)) return raw;
+  if (typeOf(raw) !== "object") return null;
+
+  for (const key of envelopes) {
+    if (Array.isArray(raw[key])) return raw[key];
+  }
+  for (const key of LIST_ENVELOPES) {
+    if (Array.isArray(raw[key])) {
+      recordDrift({
+        schema: schema.name,
+        endpoint,
+        field: "(root)",
+        problem: "wrong_shape",
+        detail: `expected a list, found it under "${key}"`,
+        critical: false,
+      });
+      return raw[key];
+    }
+  }
+  return null;
+}
+
+/** Check one object against its schema; aliases are mapped to the declared names. */
+export function parseEntity<T>(schema: Schema, raw: unknown, endpoint: string): T {
+  const failures: DriftIssue[] = [];
+  const out = checkObject(schema, raw, endpoint, "", failures);
+  if (failures.length) throw new SchemaError(schema.name, endpoint, failures);
+  return out as T;
+}
+
+/**
+ * Check a list response. `envelopes` are keys the endpoint is documented to
+ * wrap its list in (e.g. "devices"); anything else is reported as drift.
+ */
+export function parseList<T>(
+  schema: Schema,
+  raw: unknown,
+  endpoint: string,
+  envelopes: string[] = [],
+): T[] {
+  const list = unwrapList(schema, raw, endpoint, envelopes);
+  if (!list) {
+    // an empty body is treated as an empty list; any other shape is unusable
+    const empty = raw == null || raw === "";
+    const issue = recordDrift({
+      schema: schema.name,
+      endpoint,
+      field: "(root)",
+      problem: "wrong_shape",
+      detail: `expected a list, got ${empty ? "an empty body" : typeOf(raw)}`,
+      critical: !empty,
+    });
+    if (!empty) throw new SchemaError(schema.name, endpoint, [issue]);
+    return [];
+  }
+
+  const failures: DriftIssue[] = [];
+  const out = list.map((row) => checkObject(schema, row, endpoint, "[]", failures));
+  if (failures.length) throw new SchemaError(schema.name, endpoint, failures);
+  return out as T[];
+}
+
+/** Check an id → object map (e.g. stored billings keyed by id). */
+export function parseRecord<T>(
+  schema: Schema,
+  raw: unknown,
+  endpoint: string,
+): Record<string, T> {
+  if (typeOf(raw) !== "object") {
+    recordDrift({
+      schema: schema.name,
+      endpoint,
+      field: "(root)",
+      problem: "wrong_shape",
+      detail: `expected an object keyed by id, got ${typeOf(raw)}`,
+      critical: false,
+    });
+    return {};
+  }
+
+  const failures: DriftIssue[] = [];
+  const out: Record<string, T> = {};
+  for (const [key, row] of Object.entries(raw as Record<string, unknown>)) {
+    out[key] = checkObject(schema, row, endpoint, "{}", failures);
+  }
+  if (failures.length) throw new SchemaError(schema.name, endpoint, failures);
+  return out;
+}
+
+/**
+ * Pick a value from the first path that has one ("" is the body itself). The
+ * first path is the declared location; finding it anywhere else is drift.
+ */
+export function pickPath(
+  schemaName: string,
+  raw: any,
+  endpoint: string,
+  paths: string[],
+): unknown {
+  const [declared] = paths;
+  for (const path of paths) {
+    const value = path
+      ? path
+          .split(".")
+          .reduce((acc: any, k) => (acc == null ? undefined : acc[k]), raw)
+      : raw;
+    if (value == null) continue;
+    if (path !== declared) {
+      recordDrift({
+        schema: schemaName,
+        endpoint,
+        field: declared,
+        problem: "renamed",
+        detail: path ? `found under "${path}"` : "found at the top level",
+        critical: false,
+      });
+    }
+    return value;
+  }
+  return undefined;
+}
@@ -0,0 +1,163 @@
+// services/serverCapabilities.ts
+// What the connected server supports, discovered once at login.
+//
+// Older servers mounted readings under other names, listed billing lock
+// headers in different places and put the ROC routes behind a prefix. Instead
+// of every screen guessing (and paying for the wrong guesses on every mount),
+// probeCapabilities() tries the candidates once, in parallel, and the result
+// is kept per server profile. Screens read it with useServerCapabilities()
+// and hide features the server does not have.
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Api, READINGS_PATH } from "./api";
+import { getActiveProfile } from "./serverProfiles";
+
+export type ServerFeature =
+  | "offlineExport"
+  | "readerDevices"
+  | "billing"
+  | "roc"
+  | "audit";
+
+export type ServerCapabilities = {
+  profile_id: string;
+  probed_at: string;
+  version: string | null;
+  /** where the readings resource is mounted */
+  readingsPath: string;
+  /** where billing lock headers are listed; null if the server has none */
+  billingHeadersPath: string | null;
+  /** prefix the /roc routes live under ("" on current servers) */
+  rocPrefix: string;
+  features: Record<ServerFeature, boolean>;
+};
+
+const READING_ENDPOINTS = [READINGS_PATH, "/readings", "/meter-readings", "/meterreadings"];
+
+const BILLING_HEADER_ENDPOINTS = [
+  "/billing/headers",
+  "/billings/headers",
+  "/billings/buildings",
+  "/billing",
+  "/billings",
+];
+
+const ROC_PREFIXES = ["", "/api", "/v1", "/api/v1"];
+
+const KEY_PREFIX = "server_caps_v1";
+
+const byProfile = new Map<string, ServerCapabilities>();
+const listeners = new Set<() => void>();
+const emit = () => listeners.forEach((fn) => fn());
+
+export function subscribeCapabilities(fn: () => void) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+/** Capabilities of the active server, or null if it has not been probed yet. */
+export function getCapabilities(): ServerCapabilities | null {
+  return byProfile.get(getActiveProfile().id) ?? null;
+}
+
+/**
+ * Whether `feature` can be shown. Unknown (not probed, or the probe failed)
+ * counts as supported, so an unreachable server never hides a screen.
+ */
+export function supports(caps: ServerCapabilities | null, feature: ServerFeature) {
+  // a result cached before a feature was probed for has no entry for it
+  return caps ? caps.features[feature] !== false : true;
+}
+
+/** Restore the last probe result for the active profile (app start). */
+export async function loadCapabilities(): Promise<ServerCapabilities | null> {
+  const id = getActiveProfile().id;
+  if (byProfile.has(id)) return byProfile.get(id)!;
+  try {
+    const raw = await AsyncStorage.getItem(`${KEY_PREFIX}:${id}`);
+    if (raw) {
+      byProfile.set(id, JSON.parse(raw));
+      emit();
+    }
+  } catch {}
+  return byProfile.get(id) ?? null;
+}
+
+type Probe = { status: number; data: any; headers: any } | null;
+
+/**
+ * Probe the active server. Every request runs in parallel and a non-2xx
+ * answer is information, not an error; only a network failure on every
+ * probe rejects (the previous result, if any, is then kept).
+ */
+export async function probeCapabilities(api: Api): Promise<ServerCapabilities> {
+  const profileId = getActiveProfile().id;
+  const hit = (path: string): Promise<Probe> =>
+    api.http
+      .get(path, { validateStatus: () => true, timeout: 8000 })
+      .then((r) => ({ status: r.status, data: r.data, headers: r.headers }))
+      .catch(() => null);
+
+  const isList = (p: Probe) =>
+    !!p &&
+    p.status >= 200 &&
+    p.status < 400 &&
+    (Array.isArray(p.data) || (p.data && typeof p.data === "object" && "items" in p.data));
+  const isObject = (p: Probe) =>
+    !!p && p.status >= 200 && p.status < 400 && !!p.data && typeof p.data === "object";
+  // a probe that got no answer proves nothing, so it does not hide anything
+  const mounted = (p: Probe) => p === null || p.status !== 404;
+  // a 404 from a route that exists carries a JSON error; an unknown route
+  // gets the framework's plain "Cannot GET" page
+  const routeExists = (p: Probe) =>
+    !!p && (p.status !== 404 || (!!p.data && typeof p.data === "object"));
+
+  const rocProbe = "/roc/meters/__probe__/period-start/2000-01-01/period-end/2000-01-31";
+
+  const [version, readings, headers, roc, offline, devices, billings, audit] = await Promise.all([
+    hit("/version"),
+    Promise.all(READING_ENDPOINTS.map(hit)),
+    Promise.all(BILLING_HEADER_ENDPOINTS.map(hit)),
+    Promise.all(ROC_PREFIXES.map((p) => hit(`${p}${rocProbe}`))),
+    hit("/offlineExport/pending"),
+    hit("/reader-devices"),
+    hit("/billings/buildings"),
+    hit("/audit/buildings/__probe__"),
+  ]);
+
+  const all = [version, ...readings, ...headers, ...roc, offline, devices, billings, audit];
+  if (all.every((p) => p === null)) {
+    throw new Error("Server did not answer the capability probe.");
+  }
+
+  // a readable list wins; otherwise the first route that exists but refused us
+  const readingIdx = readings.findIndex(isList);
+  const readingFallback = readings.findIndex((p) => !!p && p.status !== 404);
+  const headerIdx = headers.findIndex(isObject);
+  const rocIdx = roc.findIndex(routeExists);
+
+  const v = version && version.status < 400 ? version.data?.version : null;
+  const caps: ServerCapabilities = {
+    profile_id: profileId,
+    probed_at: new Date().toISOString(),
+    version: v ?? version?.headers?.["x-api-version"] ?? null,
+    readingsPath:
+      READING_ENDPOINTS[readingIdx >= 0 ? readingIdx : readingFallback] ?? READINGS_PATH,
+    billingHeadersPath: headerIdx >= 0 ? BILLING_HEADER_ENDPOINTS[headerIdx] : null,
+    rocPrefix: rocIdx >= 0 ? ROC_PREFIXES[rocIdx] : "",
+    features: {
+      offlineExport: mounted(offline),
+      readerDevices: mounted(devices),
+      billing: mounted(billings),
+      roc: rocIdx >= 0 || roc.every((p) => p === null),
+      audit: audit === null || routeExists(audit),
+    },
+  };
+
+  byProfile.set(profileId, caps);
+  emit();
+  AsyncStorage.setItem(`${KEY_PREFIX}:${profileId}`, JSON.stringify(caps)).catch(() => {});
+  return caps;
+}
@@ -0,0 +1,240 @@
+// services/serverProfiles.ts
+// Named API servers, stored per device.
+//
+// The active profile is kept in memory so createApi() can read it on every
+// request: switching servers on the login screen takes effect immediately,
+// without a rebuild or a restart. loadServerProfiles() must run once at
+// startup (app/_layout.tsx) before the first request goes out.
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import axios from "axios";
+import { Platform } from "react-native";
+import {
+  DEFAULT_SERVER_PROFILES,
+  MOCK_API_VERSION,
+  MOCK_BASE_URL,
+  isMockBaseUrl,
+} from "../constants/api";
+import { mockBackend } from "./mockServer";
+
+export type ServerProfile = {
+  id: string;
+  name: string;
+  baseUrl: string;
+  /** "mock" profiles are answered in-process by services/mockBackend.ts */
+  kind?: "http" | "mock";
+  /** API version reported by the server when the profile was last checked */
+  version?: string | null;
+  checked_at?: string | null;
+};
+
+type StoredProfiles = { activeId: string; profiles: ServerProfile[] };
+
+const KEY_SERVER_PROFILES = "server_profiles_v1";
+
+/** Android emulators reach the host machine through 10.0.2.2, not localhost. */
+export const resolveBaseApiForDevice = (base: string) => {
+  if (!base) return base;
+  try {
+    const url = new URL(base);
+    const isHttp = url.protocol === "http:" || url.protocol === "https:";
+    if (!isHttp) return base;
+    const host = url.hostname;
+    if (
+      Platform.OS === "android" &&
+      (host === "localhost" || host === "127.0.0.1")
+    ) {
+      url.hostname = "10.0.2.2";
+      return url.toString().replace(/\/$/, "");
+    }
+    return url.toString().replace(/\/$/, "");
+  } catch {
+    return base;
+  }
+};
+
+/** "192.168.1.5:3000/" → "http://192.168.1.5:3000" */
+export function normalizeBaseUrl(input: string): string {
+  const t = String(input ?? "").trim().replace(/\/+$/, "");
+  if (!t) return "";
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(t) ? t : `http://${t}`;
+}
+
+/**
+ * Offered in development builds, so development and demos work without any
+ * network; null in release builds (see services/mockServer.ts).
+ */
+export const MOCK_PROFILE: ServerProfile | null = mockBackend
+  ? {
+      id: "mock",
+      name: "Local mock server",
+      baseUrl: MOCK_BASE_URL,
+      kind: "mock",
+      version: MOCK_API_VERSION,
+    }
+  : null;
+
+/** Stored profiles as this build offers them: the mock one only where it exists. */
+const withMockProfile = (profiles: ServerProfile[]): ServerProfile[] => {
+  const real = profiles.filter((p) => p.kind !== "mock" && !isMockBaseUrl(p.baseUrl));
+  if (!MOCK_PROFILE) return real;
+  const stored = profiles.find((p) => p.kind === "mock");
+  return [...real, stored ?? { ...MOCK_PROFILE }];
+};
+
+const defaults = (): StoredProfiles => ({
+  activeId: DEFAULT_SERVER_PROFILES[0].id,
+  profiles: withMockProfile(DEFAULT_SERVER_PROFILES.map((p) => ({ ...p }))),
+});
+
+let state: StoredProfiles = defaults();
+const listeners = new Set<() => void>();
+
+const emit = () => listeners.forEach((fn) => fn());
+
+async function persist(next: StoredProfiles) {
+  state = next;
+  emit();
+  await AsyncStorage.setItem(KEY_SERVER_PROFILES, JSON.stringify(next));
+}
+
+export async function loadServerProfiles(): Promise<void> {
+  try {
+    const raw = await AsyncStorage.getItem(KEY_SERVER_PROFILES);
+    const parsed = raw ? (JSON.parse(raw) as StoredProfiles) : null;
+    const profiles = Array.isArray(parsed?.profiles) ? withMockProfile(parsed.profiles) : [];
+    if (parsed && profiles.length) {
+      const activeId = profiles.some((p) => p.id === parsed.activeId)
+        ? parsed.activeId
+        : profiles[0].id;
+      state = { activeId, profiles };
+      emit();
+    }
+  } catch (e) {
+    console.warn("Failed to load server profiles, using defaults:", e);
+  }
+}
+
+export function subscribeServerProfiles(fn: () => void) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+export function getServerProfiles(): ServerProfile[] {
+  return state.profiles;
+}
+
+export function getActiveProfile(): ServerProfile {
+  return (
+    state.profiles.find((p) => p.id === state.activeId) ?? state.profiles[0]
+  );
+}
+
+/** Base URL of the active profile, as this device has to call it. */
+export function getBaseApi(): string {
+  return resolveBaseApiForDevice(getActiveProfile().baseUrl);
+}
+
+/** Add a profile (no id) or update an existing one. */
+export async function saveServerProfile(
+  input: Omit<ServerProfile, "id"> & { id?: string },
+): Promise<ServerProfile> {
+  const profile: ServerProfile = {
+    ...input,
+    id: input.id || `srv-${Date.now().toString(36)}`,
+    name: input.name.trim() || normalizeBaseUrl(input.baseUrl),
+    baseUrl: normalizeBaseUrl(input.baseUrl),
+  };
+  if (!profile.baseUrl) throw new Error("Server URL is required.");
+
+  const exists = state.profiles.some((p) => p.id === profile.id);
+  await persist({
+    ...state,
+    profiles: exists
+      ? state.profiles.map((p) => (p.id === profile.id ? profile : p))
+      : [...state.profiles, profile],
+  });
+  return profile;
+}
+
+export async function removeServerProfile(id: string): Promise<void> {
+  if (id === MOCK_PROFILE?.id) throw new Error("The local mock server is built in.");
+  const profiles = state.profiles.filter((p) => p.id !== id);
+  if (!profiles.length) throw new Error("At least one server must remain.");
+  const activeId = state.activeId === id ? profiles[0].id : state.activeId;
+  await persist({ activeId, profiles });
+}
+
+export async function setActiveProfile(id: string): Promise<void> {
+  if (!state.profiles.some((p) => p.id === id)) {
+    throw new Error("Unknown server profile.");
+  }
+  await persist({ ...state, activeId: id });
+}
+
+/* ---------------- reachability ---------------- */
+
+export type ServerCheck = {
+  ok: boolean;
+  status: number | null;
+  version: string | null;
+  latencyMs: number;
+  error?: string;
+};
+
+/**
+ * Reachability/version check run before a profile is saved. Any HTTP answer
+ * means the server is up (even a 404 from a server without /version); only
+ * network errors and timeouts fail.
+ */
+export async function checkServer(baseUrl: string): Promise<ServerCheck> {
+  const base = resolveBaseApiForDevice(normalizeBaseUrl(baseUrl));
+  const started = Date.now();
+  if (!base) {
+    return { ok: false, status: null, version: null, latencyMs: 0, error: "Server URL is required." };
+  }
+  if (isMockBaseUrl(base)) {
+    return mockBackend
+      ? { ok: true, status: 200, version: MOCK_API_VERSION, latencyMs: 0 }
+      : {
+          ok: false,
+          status: null,
+          version: null,
+          latencyMs: 0,
+          error: "The local mock server is not available in this build.",
+        };
+  }
+  try {
+    const res = await axios.get(`${base}/version`, {
+      timeout: 8000,
+      validateStatus: () => true,
+    });
+    const data: any = res.data;
+    const version =
+      (res.status < 400 &&
+        (typeof data === "string"
+          ? /^[\w.+ -]{1,40}$/.test(data.trim()) && data.trim()
+          : data?.version ?? data?.api_version)) ||
+      res.headers?.["x-api-version"] ||
+      null;
+    return {
+      ok: true,
+      status: res.status,
+      version: version ? String(version) : null,
+      latencyMs: Date.now() - started,
+    };
+  } catch (err: any) {
+    return {
+      ok: false,
+      status: null,
+      version: null,
+      latencyMs: Date.now() - started,
+      error:
+        err?.code === "ECONNABORTED"
+          ? "Timed out after 8s"
+          : String(err?.message || "Network error"),
+    };
+  }
+}
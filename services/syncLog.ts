@@ -0,0 +1,269 @@
+// services/syncLog.ts
+// Log of every sync attempt of a reader device, for support.
+//
+// The device resolve, package imports and refreshes, each export batch and
+// the file transfers are recorded with when they ran, the route (or file
+// name), how much was sent and received, how many readings went with them,
+// the HTTP result and the error. The last SYNC_LOG_LIMIT attempts are kept
+// on the device and survive logout, so a "sync failed" can be looked into
+// afterwards in SyncDiagnostics and saved as a file for support. Nothing in
+// the log is a reading value, photo or token.
+
+import { toApiError } from "./apiError";
+import {
+  OfflineScanStatus,
+  RetentionPolicy,
+  SyncAttempt,
+  SyncAttemptKind,
+  isLocked,
+  localStore,
+} from "./localStore";
+import { PackageCheckStatus, checkPackage } from "./packageIntegrity";
+import { DEVICE_REVOKED } from "./vault";
+
+export const SYNC_LOG_LIMIT = 200;
+
+const listeners = new Set<() => void>();
+
+// appends run one after another, so concurrent attempts do not drop entries
+let writes: Promise<void> = Promise.resolve();
+
+/** Size of a value as JSON, in characters (bytes for the ASCII bodies sent). */
+export function jsonSize(value: unknown): number {
+  if (value === undefined) return 0;
+  try {
+    return JSON.stringify(value)?.length ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
+/** Append an attempt. Never throws: the log must not fail a sync. */
+export function recordSyncAttempt(attempt: Omit<SyncAttempt, "id">): Promise<void> {
+  const entry: SyncAttempt = {
+    id: `${Date.parse(attempt.at) || Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    ...attempt,
+  };
+  writes = writes
+    .then(async () => {
+      const log = await localStore.syncLog.get();
+      await localStore.syncLog.set([...log, entry].slice(-SYNC_LOG_LIMIT));
+      listeners.forEach((fn) => fn());
+    })
+    .catch(() => {});
+  return writes;
+}
+
+/**
+ * Run one sync call and record it. `send` returns the raw HTTP response;
+ * `parse` turns its body into the result, and a body that does not parse
+ * is recorded as a failed attempt too.
+ */
+export async function trackSyncAttempt<T>(
+  attempt: { kind: SyncAttemptKind; endpoint: string; body?: unknown },
+  send: () => Promise<{ status: number; data: unknown }>,
+  parse: (data: unknown) => T,
+  readings: (result: T) => number | null,
+): Promise<T> {
+  const started = Date.now();
+  const base = {
+    at: new Date(started).toISOString(),
+    kind: attempt.kind,
+    endpoint: attempt.endpoint,
+    request_bytes: jsonSize(attempt.body),
+  };
+  let res: { status: number; data: unknown } | null = null;
+  try {
+    res = await send();
+    const result = parse(res.data);
+    recordSyncAttempt({
+      ...base,
+      response_bytes: jsonSize(res.data),
+      readings: readings(result),
+      status: res.status,
+      ok: true,
+      duration_ms: Date.now() - started,
+    });
+    return result;
+  } catch (e) {
+    const err = toApiError(e);
+    recordSyncAttempt({
+      ...base,
+      response_bytes: res ? jsonSize(res.data) : null,
+      readings: null,
+      status: res?.status ?? err.status,
+      ok: false,
+      error: err.code ? `${err.code}: ${err.message}` : err.message,
+      duration_ms: Date.now() - started,
+    });
+    throw e;
+  }
+}
+
+/** Run one file transfer (see services/transferFile) and record it. */
+export async function trackFileTransfer<T>(
+  attempt: { kind: "file_save" | "file_load"; endpoint: string; sent?: string; received?: string },
+  run: () => Promise<T>,
+  readings: (result: T) => number | null,
+): Promise<T> {
+  const started = Date.now();
+  const base = {
+    at: new Date(started).toISOString(),
+    kind: attempt.kind,
+    endpoint: attempt.endpoint,
+    request_bytes: attempt.sent?.length ?? 0,
+    response_bytes: attempt.received?.length ?? null,
+    status: null,
+  };
+  try {
+    const result = await run();
+    recordSyncAttempt({
+      ...base,
+      readings: readings(result),
+      ok: true,
+      duration_ms: Date.now() - started,
+    });
+    return result;
+  } catch (e) {
+    recordSyncAttempt({
+      ...base,
+      readings: null,
+      ok: false,
+      error: toApiError(e).message,
+      duration_ms: Date.now() - started,
+    });
+    throw e;
+  }
+}
+
+/** Newest first. */
+export async function getSyncLog(): Promise<SyncAttempt[]> {
+  await writes;
+  return (await localStore.syncLog.get()).reverse();
+}
+
+export async function clearSyncLog() {
+  await writes;
+  await localStore.syncLog.remove();
+  listeners.forEach((fn) => fn());
+}
+
+export function subscribeSyncLog(fn: () => void) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+/* ---------------- diagnostics ---------------- */
+
+export type DeviceBindingStatus =
+  | "bound"
+  | "no_serial"
+  | "no_token"
+  /** the token is sealed with a key this device does not hold (signed out) */
+  | "locked"
+  | "revoked"
+  /** the package on the device was generated for another serial */
+  | "mismatch";
+
+/** The state of a reader device as support needs it; no token or readings in it. */
+export type SyncDiagnostics = {
+  generated_at: string;
+  device: { serial: string; name: string; token: "present" | "missing" | "locked" };
+  binding: { status: DeviceBindingStatus; message: string };
+  package: {
+    generated_at: string;
+    expires_at: string | null;
+    age_ms: number | null;
+    items: number;
+    device_serial: string | null;
+    check: PackageCheckStatus;
+    message: string;
+  } | null;
+  package_locked: boolean;
+  /** queued scans by status; null while they are sealed */
+  queue: Record<OfflineScanStatus, number> | null;
+  retention: RetentionPolicy;
+  /** newest first */
+  attempts: SyncAttempt[];
+};
+
+export async function collectSyncDiagnostics(now = Date.now()): Promise<SyncDiagnostics> {
+  const [serial, name, token, tokenLocked, pkg, packageLocked, scans, scansLocked] =
+    await Promise.all([
+      localStore.deviceSerial.get(),
+      localStore.deviceName.get(),
+      localStore.deviceToken.get(),
+      isLocked(localStore.deviceToken),
+      localStore.offlinePackage.get(),
+      isLocked(localStore.offlinePackage),
+      localStore.offlineScans.get(),
+      isLocked(localStore.offlineScans),
+    ]);
+  const [retention, attempts, signsPackages] = await Promise.all([
+    localStore.retentionPolicy.get(),
+    getSyncLog(),
+    localStore.packageSigning.get(),
+  ]);
+
+  const check = pkg ? checkPackage(pkg, { serial, token, signsPackages }, now) : null;
+  // refused as revoked since the device was last resolved
+  const revoked = attempts.find(
+    (a) => (a.ok && a.kind === "resolve") || a.error?.startsWith(DEVICE_REVOKED),
+  );
+
+  let binding: SyncDiagnostics["binding"];
+  if (!serial) {
+    binding = { status: "no_serial", message: "No device serial is set on this device." };
+  } else if (tokenLocked) {
+    binding = {
+      status: "locked",
+      message: "The device token is sealed until a reader signs in on this device again.",
+    };
+  } else if (!token) {
+    binding =
+      revoked && !revoked.ok
+        ? {
+            status: "revoked",
+            message: `Device ${serial} was blocked or removed by an admin.`,
+          }
+        : {
+            status: "no_token",
+            message: `No device token for ${serial}; sign in as a reader to register it.`,
+          };
+  } else if (check?.status === "wrong_device") {
+    binding = { status: "mismatch", message: check.message };
+  } else {
+    binding = { status: "bound", message: `Device token present for ${serial}.` };
+  }
+
+  const generated = pkg ? Date.parse(pkg.generated_at) : NaN;
+  const queue = { pending: 0, synced: 0, failed: 0, rejected: 0 };
+  for (const s of scans) queue[s.status] += 1;
+
+  return {
+    generated_at: new Date(now).toISOString(),
+    device: { serial, name, token: tokenLocked ? "locked" : token ? "present" : "missing" },
+    binding,
+    package:
+      pkg && check
+        ? {
+            generated_at: pkg.generated_at,
+            expires_at: pkg.expires_at ?? null,
+            age_ms: Number.isFinite(generated) ? now - generated : null,
+            items: pkg.items.length,
+            device_serial: pkg.device_serial ?? null,
+            check: check.status,
+            message: check.message,
+          }
+        : null,
+    package_locked: packageLocked,
+    queue: scansLocked ? null : queue,
+    retention,
+    attempts,
+  };
+}
+
+export const syncReportFileName = (serial: string, at = new Date().toISOString()) =>
+  `sync-log-${serial || "device"}-${at.slice(0, 16).replace(/[-:]/g, "").replace("T", "-")}.json`;
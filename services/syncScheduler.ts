@@ -0,0 +1,63 @@
+// services/syncScheduler.ts
+// Timing rules for the background upload of queued offline readings.
+//
+// ScanHistoryProvider drives the uploads: it syncs shortly after a reading is
+// queued or connectivity comes back, retries failures with exponential
+// backoff, and stops retrying on an auth failure until the session or the
+// device registration changes (or the reader asks for a sync). The status it
+// keeps is shown by SyncStatusIndicator.
+
+import { ApiError } from "./apiError";
+
+export type SyncPhase =
+  /** nothing waiting to upload */
+  | "idle"
+  /** readings queued; an upload starts shortly */
+  | "queued"
+  | "syncing"
+  /** the last upload failed; retrying at nextAttemptAt */
+  | "retrying"
+  | "offline"
+  /** stopped on an auth failure until the reader signs in again */
+  | "paused"
+  /** not a reader device (no device token), nothing to upload to */
+  | "unavailable";
+
+export type SyncStatus = {
+  phase: SyncPhase;
+  /** readings not yet accepted by the server */
+  outstanding: number;
+  /** consecutive failed uploads */
+  attempt: number;
+  nextAttemptAt: number | null;
+  lastSyncedAt: string | null;
+  lastError: ApiError | null;
+};
+
+export const IDLE_SYNC_STATUS: SyncStatus = {
+  phase: "idle",
+  outstanding: 0,
+  attempt: 0,
+  nextAttemptAt: null,
+  lastSyncedAt: null,
+  lastError: null,
+};
+
+/** Wait this long after a reading is queued, so a run of scans goes up together. */
+export const SYNC_DEBOUNCE_MS = 5_000;
+const RETRY_BASE_MS = 15_000;
+const RETRY_MAX_MS = 15 * 60_000;
+
+/** Delay before retry number `attempt` (1-based): 15s, 30s, 1m … capped at 15m, ±20%. */
+export function retryDelay(attempt: number, random: () => number = Math.random) {
+  const exp = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempt - 1));
+  return Math.round(exp * (0.8 + random() * 0.4));
+}
+
+/**
+ * Failures retrying cannot fix: the session was rejected (401) or the device
+ * is not allowed to export (403, e.g. a revoked or unregistered reader).
+ */
+export function isAuthFailure(e: ApiError | null | undefined) {
+  return !!e && (e.status === 401 || e.status === 403);
+}
@@ -0,0 +1,180 @@
+// services/transferBundle.ts
+// Offline data carried as files, for meter rooms without any network.
+//
+// Two kinds of file travel between a reader device and the office:
+// - a reader bundle: the device's queued readings, photos included. Its body
+//   is kept as the exact JSON text that was signed (HMAC-SHA256 with the
+//   device token, which only the device and the server know), so the server
+//   can tell it came unchanged from a registered device. An admin uploads it
+//   in OfflineSubmissionsPanel and the readings join the pending-approval
+//   queue like an online export; readings the server already has are
+//   reported as duplicates by their client_reading_id.
+// - a package file: an offline package the server generated and signed for
+//   one device (see services/packageIntegrity), which the reader loads
+//   instead of importing it over the network.
+
+import type { OfflineExportReading } from "./api";
+import {
+  OfflinePackage,
+  OfflineReadingForExport,
+  invalidReason,
+  parseOfflineImport,
+} from "./offlineSync";
+import { hmacSha256, toHex, utf8Encode } from "./sha256";
+
+export const READER_BUNDLE_FORMAT = "meter-reader-bundle";
+export const PACKAGE_FILE_FORMAT = "meter-offline-package";
+const TRANSFER_VERSION = 1;
+
+export type ReaderBundle = {
+  device_serial: string;
+  device_name: string | null;
+  reader_user_id: string | null;
+  created_at: string; // ISO
+  readings: OfflineExportReading[];
+};
+
+export type ReaderBundleFile = {
+  format: typeof READER_BUNDLE_FORMAT;
+  version: number;
+  /** the ReaderBundle as the JSON text that was signed */
+  body: string;
+  signature: string;
+};
+
+export type PackageFile = {
+  format: typeof PACKAGE_FILE_FORMAT;
+  version: number;
+  package: OfflinePackage;
+};
+
+export type TransferFile =
+  | { kind: "bundle"; file: ReaderBundleFile; bundle: ReaderBundle }
+  | { kind: "package"; pkg: OfflinePackage };
+
+export type SkippedReading = { reading: OfflineReadingForExport; reason: string };
+
+export const signBundleBody = (body: string, deviceToken: string) =>
+  toHex(hmacSha256(utf8Encode(deviceToken), utf8Encode(body)));
+
+/** Whether a bundle is unchanged since the device holding `deviceToken` signed it. */
+export const bundleSignatureValid = (file: ReaderBundleFile, deviceToken: string) =>
+  !!file.signature && signBundleBody(file.body, deviceToken) === file.signature;
+
+/**
+ * Bundle the readings for a file. Photos kept as files are read in with
+ * `readImage`; readings that could never be sent are left out and returned
+ * as `skipped`.
+ */
+export async function makeReaderBundle(
+  readings: OfflineReadingForExport[],
+  opts: {
+    deviceToken: string;
+    deviceSerial: string;
+    deviceName?: string | null;
+    readerUserId?: string | null;
+    readImage?: (uri: string) => Promise<string | null>;
+  },
+): Promise<{ file: ReaderBundleFile; skipped: SkippedReading[] }> {
+  if (!opts.deviceToken) throw new Error("Missing device token.");
+  if (!opts.deviceSerial) throw new Error("This device has no Device Serial set.");
+
+  const skipped: SkippedReading[] = [];
+  const included: OfflineExportReading[] = [];
+  for (const r of readings) {
+    const reason = invalidReason(r);
+    if (reason) {
+      skipped.push({ reading: r, reason });
+      continue;
+    }
+    const inline = r.image ?? r.image_base64 ?? null;
+    const fromFile = !inline && r.image_uri && opts.readImage ? opts.readImage(r.image_uri) : null;
+    included.push({
+      meter_id: r.meter_id,
+      reading_value: r.reading_value,
+      lastread_date: r.lastread_date,
+      remarks: r.remarks ?? null,
+      override_reason: r.override_reason ?? null,
+      override_flags: r.override_flags ?? null,
+      image: inline ?? (await fromFile),
+      meter_type: r.meter_type ?? null,
+      tenant_name: r.tenant_name ?? null,
+      client_reading_id: r.client_reading_id ?? null,
+      device_serial: r.device_serial ?? opts.deviceSerial,
+      reader_user_id: r.reader_user_id ?? opts.readerUserId ?? null,
+    });
+  }
+
+  const bundle: ReaderBundle = {
+    device_serial: opts.deviceSerial,
+    device_name: opts.deviceName ?? null,
+    reader_user_id: opts.readerUserId ?? null,
+    created_at: new Date().toISOString(),
+    readings: included,
+  };
+  const body = JSON.stringify(bundle);
+  return {
+    file: {
+      format: READER_BUNDLE_FORMAT,
+      version: TRANSFER_VERSION,
+      body,
+      signature: signBundleBody(body, opts.deviceToken),
+    },
+    skipped,
+  };
+}
+
+export const packageFile = (pkg: OfflinePackage): PackageFile => ({
+  format: PACKAGE_FILE_FORMAT,
+  version: TRANSFER_VERSION,
+  package: pkg,
+});
+
+const stamp = (iso: string) => iso.slice(0, 16).replace(/[-:]/g, "").replace("T", "-");
+
+export const bundleFileName = (serial: string, at = new Date().toISOString()) =>
+  `readings-${serial || "device"}-${stamp(at)}.json`;
+
+export const packageFileName = (serial: string, at = new Date().toISOString()) =>
+  `package-${serial || "device"}-${stamp(at)}.json`;
+
+/** What a transfer file holds; throws with a message for the user if it is not one. */
+export function parseTransferFile(text: string): TransferFile {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not a reader bundle or package file.");
+  }
+  if (Number(data?.version) > TRANSFER_VERSION) {
+    throw new Error("The file was made by a newer version of the app. Update the app first.");
+  }
+
+  if (data?.format === READER_BUNDLE_FORMAT) {
+    let bundle: ReaderBundle;
+    try {
+      bundle = JSON.parse(String(data.body));
+    } catch {
+      throw new Error("The reader bundle is damaged.");
+    }
+    if (!bundle?.device_serial || !Array.isArray(bundle.readings)) {
+      throw new Error("The reader bundle is damaged.");
+    }
+    return {
+      kind: "bundle",
+      file: {
+        format: READER_BUNDLE_FORMAT,
+        version: Number(data.version) || TRANSFER_VERSION,
+        body: String(data.body),
+        signature: String(data.signature ?? ""),
+      },
+      bundle,
+    };
+  }
+
+  if (data?.format === PACKAGE_FILE_FORMAT) {
+    return { kind: "package", pkg: parseOfflineImport(data, "file:offline_package") };
+  }
+
+  throw new Error("The file is not a reader bundle or package file.");
+}
@@ -0,0 +1,66 @@
+// services/transferFile.ts
+// Saving and opening transfer files (see services/transferBundle).
+//
+// On web the file is downloaded and picked with the browser's file input. On
+// a device it is written to the cache directory and handed to the share
+// sheet, so it can go to USB storage, a nearby device or a messaging app;
+// opening uses the system file picker.
+
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import { Platform } from "react-native";
+
+const isWeb = Platform.OS === "web";
+
+export async function saveTransferFile(filename: string, text: string) {
+  if (isWeb) {
+    if (typeof document === "undefined") {
+      throw new Error("Saving files is not available here.");
+    }
+    const blob = new Blob([text], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const file = new File(Paths.cache, filename);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(text);
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing files is not available on this device.");
+  }
+  await Sharing.shareAsync(file.uri, { mimeType: "application/json", dialogTitle: filename });
+}
+
+/** The text of a file the user picks, or null if they cancel. */
+export async function pickTransferFile(): Promise<string | null> {
+  if (isWeb) {
+    if (typeof document === "undefined") return null;
+    return new Promise((resolve, reject) => {
+      const input = document.createElement("input");
+      input.type = "file";
+      input.accept = ".json,application/json";
+      input.onchange = () => {
+        const picked = input.files?.[0];
+        if (!picked) return resolve(null);
+        picked.text().then(resolve, reject);
+      };
+      input.oncancel = () => resolve(null);
+      input.click();
+    });
+  }
+
+  let picked: Awaited<ReturnType<typeof File.pickFileAsync>>;
+  try {
+    picked = await File.pickFileAsync(undefined, "application/json");
+  } catch {
+    return null; // dismissed
+  }
+  const file = Array.isArray(picked) ? picked[0] : picked;
+  return file ? file.text() : null;
+}
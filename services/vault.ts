@@ -0,0 +1,147 @@
+// services/vault.ts
+// Encryption of reader data at rest.
+//
+// When a reader device is resolved at login the server hands it a storage key
+// (`storage_key`). The offline package, queued scans and device token are
+// written sealed with it (see services/localStore): the text is XORed with a
+// keystream of SHA-256 blocks over a derived key, a random nonce (from the
+// platform's secure random source, expo-crypto) and a block counter, and an
+// HMAC-SHA256 tag over nonce and ciphertext is checked before anything is
+// decrypted. The key is dropped on logout, so nothing sealed can
+// be read until a reader signs in on this device again and the server hands
+// the same key back (unsynced readings survive a logout that way). When the
+// server reports the device revoked (blocked or removed in
+// ReaderDevicesPanel) it has forgotten the key too, and the sealed data is
+// unreadable for good, on the device or from a copy of its storage. While a
+// session lasts the key is kept in the platform keystore (Keychain, Android
+// Keystore) through expo-secure-store, apart from the data it protects; web
+// has no keystore and keeps it in app storage.
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { getRandomBytes } from "expo-crypto";
+import * as SecureStore from "expo-secure-store";
+import { Platform } from "react-native";
+import { toApiError } from "./apiError";
+import { concatBytes, hmacSha256, sha256, utf8Decode, utf8Encode } from "./sha256";
+
+/** Server error code for a device token that was blocked or removed. */
+export const DEVICE_REVOKED = "DEVICE_REVOKED";
+
+/** Whether a failed device call means this device lost its registration. */
+export function isDeviceRevoked(e: unknown) {
+  return toApiError(e).code === DEVICE_REVOKED;
+}
+
+const PREFIX = "sealed:v1:";
+const NONCE_BYTES = 16;
+const TAG_BYTES = 32;
+
+export const isSealed = (stored: string) => stored.startsWith(PREFIX);
+
+const derived = new Map<string, { enc: Uint8Array; mac: Uint8Array }>();
+
+function keysFor(key: string) {
+  let k = derived.get(key);
+  if (!k) {
+    const raw = utf8Encode(key);
+    k = { enc: hmacSha256(raw, utf8Encode("enc")), mac: hmacSha256(raw, utf8Encode("mac")) };
+    derived.set(key, k);
+  }
+  return k;
+}
+
+function xorStream(encKey: Uint8Array, iv: Uint8Array, data: Uint8Array) {
+  const out = new Uint8Array(data.length);
+  const counter = new Uint8Array(4);
+  const view = new DataView(counter.buffer);
+  for (let block = 0; block * 32 < data.length; block++) {
+    view.setUint32(0, block);
+    const ks = sha256(concatBytes(encKey, iv, counter));
+    for (let i = 0; i < 32 && block * 32 + i < data.length; i++) {
+      out[block * 32 + i] = data[block * 32 + i] ^ ks[i];
+    }
+  }
+  return out;
+}
+
+function toBase64(bytes: Uint8Array) {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(bin);
+}
+
+const fromBase64 = (s: string) => Uint8Array.from(atob(s), (ch) => ch.charCodeAt(0));
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
+/** `text` sealed with `key`, as a string fit for AsyncStorage. */
+export function seal(key: string, text: string): string {
+  const { enc, mac } = keysFor(key);
+  const iv = getRandomBytes(NONCE_BYTES);
+  const body = xorStream(enc, iv, utf8Encode(text));
+  const tag = hmacSha256(mac, concatBytes(iv, body));
+  return PREFIX + toBase64(concatBytes(iv, body, tag));
+}
+
+/** The text of a sealed value, or null when `key` is not the one it was sealed with. */
+export function unseal(key: string, stored: string): string | null {
+  if (!isSealed(stored)) return stored;
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64(stored.slice(PREFIX.length));
+  } catch {
+    return null;
+  }
+  if (bytes.length < NONCE_BYTES + TAG_BYTES) return null;
+  const { enc, mac } = keysFor(key);
+  const iv = bytes.subarray(0, NONCE_BYTES);
+  const body = bytes.subarray(NONCE_BYTES, bytes.length - TAG_BYTES);
+  const tag = bytes.subarray(bytes.length - TAG_BYTES);
+  if (!sameBytes(tag, hmacSha256(mac, concatBytes(iv, body)))) return null;
+  return utf8Decode(xorStream(enc, iv, body));
+}
+
+/* ---------------- the storage key ---------------- */
+
+const KEY_NAME = "storage_key_v1";
+const inKeystore = Platform.OS !== "web";
+let storageKey: string | null | undefined;
+
+/** The storage key this device holds now, or null. */
+export async function currentStorageKey(): Promise<string | null> {
+  if (storageKey === undefined) {
+    if (!inKeystore) {
+      storageKey = (await AsyncStorage.getItem(KEY_NAME)) || null;
+      return storageKey;
+    }
+    let k = await SecureStore.getItemAsync(KEY_NAME);
+    // earlier versions kept it in app storage: move it into the keystore
+    const legacy = await AsyncStorage.getItem(KEY_NAME);
+    if (legacy) {
+      if (!k) await SecureStore.setItemAsync(KEY_NAME, legacy);
+      await AsyncStorage.removeItem(KEY_NAME);
+      k = k || legacy;
+    }
+    storageKey = k || null;
+  }
+  return storageKey;
+}
+
+/** Keep `key` as this device's storage key (null: forget it). */
+export async function storeStorageKey(key: string | null) {
+  storageKey = key;
+  if (!inKeystore) {
+    await (key ? AsyncStorage.setItem(KEY_NAME, key) : AsyncStorage.removeItem(KEY_NAME));
+  } else if (key) {
+    await SecureStore.setItemAsync(KEY_NAME, key);
+  } else {
+    await SecureStore.deleteItemAsync(KEY_NAME);
+  }
+}